@@ -8,8 +8,16 @@ public class BladesApp : SampleBase
 {
     protected override object? BuildSample()
     {
-        return this.UseBlades(() => new RootView("A"), "Blade 0");
+        return this.UseBlades(() => new RootView("A"), "Blade 0", urlKey: "blades", resolveLink: ResolveLink);
     }
+
+    private static BladeLink? ResolveLink(string linkKey) => linkKey switch
+    {
+        "A" or "B" or "C" => new BladeLink(new RootView(linkKey), $"Blade {linkKey}"),
+        "wide-table" => new BladeLink(new WideTableBlade(), "Wide Table"),
+        "long-data-table" => new BladeLink(new LongDataTableBlade(), "Long Data Table"),
+        _ => null
+    };
 }
 
 public class RootView(string someId) : ViewBase
@@ -21,7 +29,8 @@ public class RootView(string someId) : ViewBase
 
         void OnClick(Event<Button> @event)
         {
-            bladeController.Push(this, new RootView(@event.Sender.Tag?.ToString() ?? "?"), $"Blade {index + 1}");
+            var tag = @event.Sender.Tag?.ToString() ?? "?";
+            bladeController.Push(this, new RootView(tag), $"Blade {tag}", linkKey: tag);
         }
 
         void OnClickWithError(Event<Button> @event)
@@ -31,12 +40,12 @@ public class RootView(string someId) : ViewBase
 
         void OnClickWideTable(Event<Button> @event)
         {
-            bladeController.Push(this, new WideTableBlade(), "Wide Table");
+            bladeController.Push(this, new WideTableBlade(), "Wide Table", linkKey: "wide-table");
         }
 
         void OnClickLongDataTable(Event<Button> @event)
         {
-            bladeController.Push(this, new LongDataTableBlade(), "Long Data Table");
+            bladeController.Push(this, new LongDataTableBlade(), "Long Data Table", linkKey: "long-data-table");
         }
 
         return Layout.Vertical(
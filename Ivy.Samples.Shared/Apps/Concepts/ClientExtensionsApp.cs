@@ -1,16 +1,22 @@
+using Ivy.Hooks;
 using Ivy.Shared;
 
 namespace Ivy.Samples.Shared.Apps.Concepts;
 
-[App(icon: Icons.Command, searchHints: ["browser", "navigation", "external", "url", "redirect", "link"])]
+[App(icon: Icons.Command, searchHints: ["browser", "navigation", "external", "url", "redirect", "link", "download", "export"])]
 public class ClientExtensionsApp : SampleBase
 {
     protected override object? BuildSample()
     {
         var client = UseService<IClientProvider>();
+        var downloads = UseService<IDownloadService>();
 
         return Layout.Vertical(
-            new Button("OpenUrl", _ => client.OpenUrl("https://google.com"))
+            new Button("OpenUrl", _ => client.OpenUrl("https://google.com")),
+            new Button("Download CSV", _ => client.Download(
+                System.Text.Encoding.UTF8.GetBytes("Name,Amount\nApples,12\nPears,7\n"), "report.csv", "text/csv")),
+            new Button("Download Large File", _ => client.Download(downloads,
+                () => Task.FromResult<Stream>(new MemoryStream(new byte[20 * 1024 * 1024])), "large.bin", "application/octet-stream"))
         );
     }
 }
\ No newline at end of file
@@ -15,6 +15,7 @@ public class BarChartApp : ViewBase
             | new BarChart3()
             | new BarChart4()
             | new BarChart5()
+            | new BarChart6()
         ;
     }
 }
@@ -180,4 +181,36 @@ public class BarChart5 : ViewBase
                 .Legend()
         ;
     }
-}
\ No newline at end of file
+}
+
+public class BarChart6 : ViewBase
+{
+    public override object? Build()
+    {
+        var data = new[]
+        {
+            new { Month = "Jan", Desktop = 186, Mobile = 80 },
+            new { Month = "Feb", Desktop = 305, Mobile = 200 },
+            new { Month = "Mar", Desktop = 237, Mobile = 120 },
+            new { Month = "Apr", Desktop = 73, Mobile = 190 },
+            new { Month = "May", Desktop = 209, Mobile = 130 },
+            new { Month = "Jun", Desktop = 214, Mobile = 140 },
+        };
+        var selection = UseState("Click a bar or brush a range of months.");
+
+        return new Card().Title("Interactive Usage")
+            | (Layout.Vertical()
+                | new BarChart(data)
+                    .Bar("Desktop")
+                    .Bar("Mobile")
+                    .Tooltip()
+                    .Legend()
+                    .HandlePointClick(click => selection.Set($"{click.Series} in {click.Category}: {click.Value}"))
+                    .HandleBrush(brush => selection.Set(brush.IsEmpty
+                        ? "Selection cleared."
+                        : $"Selected {string.Join(", ", brush.Categories)}"))
+                    .HandleLegendToggle(toggle => selection.Set($"{toggle.Series} {(toggle.Selected ? "shown" : "hidden")}"))
+                | Text.Muted(selection.Value))
+        ;
+    }
+}
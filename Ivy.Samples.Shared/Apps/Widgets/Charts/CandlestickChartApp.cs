@@ -0,0 +1,33 @@
+﻿using Ivy.Charts;
+using Ivy.Shared;
+
+namespace Ivy.Samples.Shared.Apps.Widgets.Charts;
+
+[App(icon: Icons.ChartCandlestick, searchHints: ["visualization", "graph", "ohlc", "stock", "finance", "candlestick"])]
+public class CandlestickChartApp : ViewBase
+{
+    public override object? Build()
+    {
+        var close = 100.0;
+        var prices = Enumerable.Range(0, 30).Select(i =>
+        {
+            var open = close;
+            close = Math.Round(open + Math.Sin(i * 0.7) * 4 + (i % 3 - 1) * 1.5, 2);
+            return new
+            {
+                Date = DateTime.Today.AddDays(i - 30).ToString("MMM dd"),
+                Open = open,
+                High = Math.Round(Math.Max(open, close) + 2.5, 2),
+                Low = Math.Round(Math.Min(open, close) - 2.5, 2),
+                Close = close
+            };
+        }).ToArray();
+
+        return new Card().Title("Daily Prices")
+            | new CandlestickChart(prices)
+                .Name("ACME")
+                .CartesianGrid()
+                .Tooltip()
+        ;
+    }
+}
@@ -0,0 +1,32 @@
+﻿using Ivy.Charts;
+using Ivy.Shared;
+
+namespace Ivy.Samples.Shared.Apps.Widgets.Charts;
+
+[App(icon: Icons.ChartNoAxesCombined, searchHints: ["visualization", "graph", "bar", "line", "dual axis", "combo"])]
+public class ComboChartApp : ViewBase
+{
+    public override object? Build()
+    {
+        var data = new[]
+        {
+            new { Month = "Jan", Revenue = 4200, Orders = 310, Margin = 21.5 },
+            new { Month = "Feb", Revenue = 3900, Orders = 280, Margin = 19.0 },
+            new { Month = "Mar", Revenue = 5100, Orders = 360, Margin = 23.2 },
+            new { Month = "Apr", Revenue = 4700, Orders = 330, Margin = 22.1 },
+            new { Month = "May", Revenue = 5600, Orders = 390, Margin = 25.4 },
+            new { Month = "Jun", Revenue = 6100, Orders = 420, Margin = 26.0 },
+        };
+
+        return new Card().Title("Revenue and Margin")
+            | new ComboChart(data)
+                .Bar("Revenue")
+                .Line(new Line("Margin", "Margin %").YAxisIndex(1))
+                .YAxis(new YAxis())
+                .YAxis(new YAxis() { Orientation = YAxis.Orientations.Right, Unit = "%" })
+                .CartesianGrid()
+                .Tooltip()
+                .Legend()
+        ;
+    }
+}
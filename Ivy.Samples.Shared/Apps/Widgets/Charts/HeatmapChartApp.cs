@@ -0,0 +1,34 @@
+﻿using Ivy.Charts;
+using Ivy.Shared;
+
+namespace Ivy.Samples.Shared.Apps.Widgets.Charts;
+
+[App(icon: Icons.Grid3x3, searchHints: ["visualization", "graph", "matrix", "calendar", "heatmap", "density"])]
+public class HeatmapChartApp : ViewBase
+{
+    public override object? Build()
+    {
+        string[] days = ["Mon", "Tue", "Wed", "Thu", "Fri"];
+        string[] hours = ["9:00", "12:00", "15:00", "18:00"];
+        var visits = days
+            .SelectMany((day, d) => hours.Select((hour, h) => new { Day = day, Hour = hour, Visits = (d + 1) * (h + 2) % 11 }))
+            .ToArray();
+
+        var start = new DateTime(DateTime.Today.Year, 1, 1);
+        var commits = Enumerable.Range(0, 180)
+            .Select(i => new { Date = start.AddDays(i), Commits = i * 7 % 9 })
+            .ToArray();
+
+        return Layout.Vertical()
+            | new Card().Title("Visits by Hour")
+                | new HeatmapChart(visits, "Day", "Hour", "Visits")
+                    .ShowLabels()
+                    .Tooltip()
+                    .Legend()
+            | new Card().Title("Commits")
+                | HeatmapChart.Calendar(commits, "Date", "Commits")
+                    .Fill(Colors.Emerald)
+                    .Tooltip()
+        ;
+    }
+}
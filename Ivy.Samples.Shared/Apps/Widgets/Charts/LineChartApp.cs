@@ -22,6 +22,7 @@ public class LineChartApp : ViewBase
             | new LineChart9View()
             | new LineChart10View()
             | new LineChart11View()
+            | new LineChart12View()
         ;
     }
 }
@@ -291,3 +292,32 @@ public class LineChart11View : ViewBase
         ;
     }
 }
+
+public class LineChart12View : ViewBase
+{
+    public override object? Build()
+    {
+        var start = new DateTime(2024, 1, 1);
+        var random = new Random(42);
+        var price = 100.0;
+        var data = Enumerable.Range(0, 365).Select(day =>
+        {
+            price += random.NextDouble() * 4 - 2;
+            return new { Date = start.AddDays(day).ToString("yyyy-MM-dd"), Price = Math.Round(price, 2) };
+        }).ToArray();
+        var range = UseState("Zoom with the mouse wheel or the slider.");
+
+        return new Card().Title("Zoom and Pan")
+            | (Layout.Vertical()
+                | new LineChart(data)
+                    .Line("Price")
+                    .Tooltip()
+                    .DataZoom(new DataZoom().Range(75, 100))
+                    .HandleZoom(zoom => range.Set(zoom.IsFull
+                        ? "Showing the whole year."
+                        : $"Showing {zoom.StartCategory} to {zoom.EndCategory}"))
+                    .Debounce(TimeSpan.FromMilliseconds(300), "OnZoom")
+                | Text.Muted(range.Value))
+        ;
+    }
+}
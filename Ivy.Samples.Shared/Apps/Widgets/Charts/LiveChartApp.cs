@@ -0,0 +1,42 @@
+﻿using Ivy.Charts;
+using Ivy.Hooks;
+using Ivy.Shared;
+
+namespace Ivy.Samples.Shared.Apps.Widgets.Charts;
+
+[App(icon: Icons.Activity, searchHints: ["visualization", "graph", "live", "streaming", "realtime", "telemetry", "monitoring"])]
+public class LiveChartApp : ViewBase
+{
+    public override object? Build()
+    {
+        var usage = this.UseChartStream();
+        var latency = this.UseChartStream();
+
+        this.UseEffect(() => Observable.Interval(TimeSpan.FromMilliseconds(500)).Subscribe(tick =>
+        {
+            var time = DateTime.Now.ToString("HH:mm:ss.f");
+            usage.Append(new { Time = time, Cpu = Random.Shared.Next(20, 80), Memory = Random.Shared.Next(40, 60) });
+            latency.Append(Enumerable.Range(0, 5).Select(_ => (object)new
+            {
+                Second = tick / 2.0,
+                Latency = Math.Round(20 + Random.Shared.NextDouble() * 80, 1)
+            }));
+        }));
+
+        return Layout.Vertical()
+            | (new Card().Title("CPU and Memory (last 60 samples)")
+                | new LineChart(Array.Empty<object>())
+                    .Line("Cpu", "CPU %")
+                    .Line("Memory", "Memory %")
+                    .Stream(usage, maxPoints: 60)
+                    .CartesianGrid()
+                    .Tooltip()
+                    .Legend())
+            | (new Card().Title("Request Latency")
+                | new ScatterChart(Array.Empty<object>(), new Scatter("Second", "Latency", "Latency (ms)"))
+                    .Stream(latency, maxPoints: 5000)
+                    .CartesianGrid()
+                    .Tooltip())
+        ;
+    }
+}
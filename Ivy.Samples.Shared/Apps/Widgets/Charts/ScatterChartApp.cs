@@ -0,0 +1,34 @@
+﻿using Ivy.Charts;
+using Ivy.Shared;
+
+namespace Ivy.Samples.Shared.Apps.Widgets.Charts;
+
+[App(icon: Icons.ChartScatter, searchHints: ["visualization", "graph", "bubble", "correlation", "scatter", "statistics"])]
+public class ScatterChartApp : ViewBase
+{
+    public override object? Build()
+    {
+        var data = new[]
+        {
+            new { Region = "North", Price = 12.5, Sales = 340, Stores = 12 },
+            new { Region = "North", Price = 18.0, Sales = 280, Stores = 8 },
+            new { Region = "North", Price = 24.0, Sales = 190, Stores = 5 },
+            new { Region = "South", Price = 10.0, Sales = 410, Stores = 20 },
+            new { Region = "South", Price = 15.5, Sales = 360, Stores = 14 },
+            new { Region = "South", Price = 22.0, Sales = 240, Stores = 9 },
+        };
+
+        return Layout.Grid().Columns(2)
+            | new Card().Title("Price vs Sales")
+                | new ScatterChart(data)
+                    .Scatter(new Scatter("Price", "Sales").Group("Region", "North").Name("North"))
+                    .Scatter(new Scatter("Price", "Sales").Group("Region", "South").Name("South"))
+                    .CartesianGrid()
+                    .Tooltip()
+                    .Legend()
+            | new Card().Title("Sales by Store Count")
+                | new ScatterChart(data, new Scatter("Price", "Sales").Size("Stores", 10, 40).Name("Sales"))
+                    .Tooltip()
+        ;
+    }
+}
@@ -0,0 +1,61 @@
+using System.Collections.Immutable;
+using Ivy.Core;
+using Ivy.Views.Blades;
+
+namespace Ivy.Test;
+
+public class BladeLinksTests
+{
+    private class TestView(string name) : ViewBase
+    {
+        public string Name { get; } = name;
+
+        public override object? Build() => Name;
+    }
+
+    private static ImmutableArray<BladeItem> Stack(params string?[] linkKeys) =>
+    [
+        new BladeItem(new TestView("root"), 0, "Root"),
+        .. linkKeys.Select((key, i) => new BladeItem(new TestView(key ?? "unlinked"), i + 1, key, linkKey: key))
+    ];
+
+    private static BladeLink? Resolve(string linkKey) =>
+        linkKey.StartsWith("order") ? new BladeLink(new TestView(linkKey), $"Order {linkKey}") : null;
+
+    [Fact]
+    public void Format_WritesEscapedLinkKeysAfterTheRoot()
+    {
+        Assert.Null(BladeLinks.Format(Stack()));
+        Assert.Equal("order%2F1/*", BladeLinks.Format(Stack("order/1", null)));
+    }
+
+    [Fact]
+    public void Restore_CreatesBladesFromALink()
+    {
+        var restored = BladeLinks.Restore(Stack(), "order-1/order%2F2", Resolve);
+
+        Assert.Equal(3, restored.Length);
+        Assert.Equal("order/2", restored[2].LinkKey);
+        Assert.Equal("Order order/2", restored[2].Title);
+        Assert.Equal(2, restored[2].Index);
+    }
+
+    [Fact]
+    public void Restore_StopsAtUnknownAndUnlinkedBlades()
+    {
+        Assert.Equal(2, BladeLinks.Restore(Stack(), "order-1/customer-2/order-3", Resolve).Length);
+        Assert.Single(BladeLinks.Restore(Stack(), "*/order-1", Resolve));
+    }
+
+    [Fact]
+    public void Restore_KeepsTheBladesTheUrlStillHolds()
+    {
+        var current = Stack("order-1", null, "order-2");
+
+        var back = BladeLinks.Restore(current, "order-1/*", Resolve);
+
+        Assert.Equal(3, back.Length);
+        Assert.Same(current[2], back[2]);
+        Assert.True(BladeLinks.Restore(current, "order-1/*/order-2", Resolve) == current);
+    }
+}
@@ -0,0 +1,76 @@
+using Ivy.Charts;
+using Ivy.Core;
+
+namespace Ivy.Test;
+
+public class ChartStreamTests
+{
+    private class RecordingSender : IClientSender
+    {
+        public List<(string Method, object? Data)> Messages { get; } = new();
+
+        public void Send(string method, object? data) => Messages.Add((method, data));
+    }
+
+    private class TestClientProvider(IClientSender sender) : IClientProvider
+    {
+        public IClientSender Sender { get; set; } = sender;
+    }
+
+    private static (ChartStream Stream, RecordingSender Sender) Create()
+    {
+        var sender = new RecordingSender();
+        return (new ChartStream(new TestClientProvider(sender)), sender);
+    }
+
+    [Fact]
+    public void Append_SendsRowsAndTrim()
+    {
+        var (stream, sender) = Create();
+        var rows = new object[] { new { Time = "10:00", Cpu = 12 }, new { Time = "10:01", Cpu = 15 } };
+
+        stream.Append(rows, trim: 1);
+
+        var (method, data) = Assert.Single(sender.Messages);
+        Assert.Equal("ChartData", method);
+        var message = Assert.IsType<ChartDataMessage>(data);
+        Assert.Equal(stream.Id, message.StreamId);
+        Assert.Equal(rows, message.Rows);
+        Assert.Equal(1, message.Trim);
+        Assert.False(message.Reset);
+    }
+
+    [Fact]
+    public void Append_WithSingleRow_SendsOneRow()
+    {
+        var (stream, sender) = Create();
+
+        stream.Append(new { Time = "10:00", Cpu = 12 });
+
+        var message = Assert.IsType<ChartDataMessage>(Assert.Single(sender.Messages).Data);
+        Assert.Single(message.Rows!);
+    }
+
+    [Fact]
+    public void EmptyChanges_SendNothing()
+    {
+        var (stream, sender) = Create();
+
+        stream.Append(Array.Empty<object>());
+        stream.Trim(0);
+
+        Assert.Empty(sender.Messages);
+    }
+
+    [Fact]
+    public void Reset_ReplacesRows()
+    {
+        var (stream, sender) = Create();
+
+        stream.Reset([]);
+
+        var message = Assert.IsType<ChartDataMessage>(Assert.Single(sender.Messages).Data);
+        Assert.True(message.Reset);
+        Assert.Empty(message.Rows!);
+    }
+}
@@ -924,4 +924,267 @@ public class QueryProcessorTests
         Assert.Contains("invalidFunction", exception.Message);
         _output.WriteLine($"Expected error for invalid function: {exception.Message}");
     }
+
+    [Fact]
+    public void Query_WithAggregations_ComputesOverFilteredRowsIgnoringPagination()
+    {
+        // Arrange
+        var products = TestDataGenerator.GenerateProducts(50);
+        var queryable = products.AsQueryable();
+        var processor = new QueryProcessor(logger: null);
+
+        var query = new DataTableQuery
+        {
+            SourceId = "test-products",
+            Offset = 0,
+            Limit = 5,
+            Filter = new Filter
+            {
+                Condition = new Condition
+                {
+                    Column = "Category",
+                    Function = "equals",
+                    Args = { Any.Pack(new StringValue { Value = "Electronics" }) }
+                }
+            },
+            Aggregations =
+            {
+                new Aggregation { Column = "Price", Function = "sum" },
+                new Aggregation { Column = "StockQuantity", Function = "avg" },
+                new Aggregation { Column = "Rating", Function = "max" },
+                new Aggregation { Column = "Description", Function = "count" }
+            }
+        };
+
+        // Act
+        var result = processor.ProcessQuery(queryable, query);
+
+        // Assert
+        var electronics = products.Where(p => p.Category == "Electronics").ToList();
+        var byColumn = result.Aggregations.ToDictionary(a => a.Column);
+
+        Assert.Equal(4, result.Aggregations.Count);
+        Assert.Equal((double)electronics.Sum(p => p.Price), byColumn["Price"].Value!.Value, 6);
+        Assert.Equal(electronics.Average(p => p.StockQuantity), byColumn["StockQuantity"].Value!.Value, 6);
+        Assert.Equal(electronics.Max(p => p.Rating), byColumn["Rating"].Value);
+        Assert.Equal(electronics.Count(p => p.Description != null), byColumn["Description"].Value);
+
+        _output.WriteLine($"Aggregated {electronics.Count} Electronics products, page size {result.RowCount}");
+    }
+
+    [Fact]
+    public void Query_WithAggregationOnEmptyResult_ReturnsNullValue()
+    {
+        // Arrange
+        var products = TestDataGenerator.GenerateProducts(10);
+        var queryable = products.AsQueryable();
+        var processor = new QueryProcessor(logger: null);
+
+        var query = new DataTableQuery
+        {
+            SourceId = "test-products",
+            Offset = 0,
+            Limit = 10,
+            Filter = new Filter
+            {
+                Condition = new Condition
+                {
+                    Column = "Category",
+                    Function = "equals",
+                    Args = { Any.Pack(new StringValue { Value = "NoSuchCategory" }) }
+                }
+            },
+            Aggregations = { new Aggregation { Column = "Price", Function = "min" } }
+        };
+
+        // Act
+        var result = processor.ProcessQuery(queryable, query);
+
+        // Assert
+        Assert.Single(result.Aggregations);
+        Assert.Null(result.Aggregations[0].Value);
+    }
+
+    [Fact]
+    public void Query_WithInSetFilter_ReturnsRowsMatchingAnyValue()
+    {
+        // Arrange
+        var products = TestDataGenerator.GenerateProducts(30);
+        var queryable = products.AsQueryable();
+        var processor = new QueryProcessor(logger: null);
+
+        var query = new DataTableQuery
+        {
+            SourceId = "test-products",
+            Offset = 0,
+            Limit = 100,
+            Filter = new Filter
+            {
+                Condition = new Condition
+                {
+                    Column = "Category",
+                    Function = "inSet",
+                    Args =
+                    {
+                        Any.Pack(new StringValue { Value = "Books" }),
+                        Any.Pack(new StringValue { Value = "Toys" })
+                    }
+                }
+            }
+        };
+
+        // Act
+        var result = processor.ProcessQuery(queryable, query);
+
+        // Assert
+        var batch = ArrowTestHelper.ParseArrowData(result.ArrowData);
+        var categories = ArrowTestHelper.GetColumnValues(batch, "Category");
+
+        Assert.All(categories, cat => Assert.Contains(cat, new[] { "Books", "Toys" }));
+        Assert.Equal(products.Count(p => p.Category is "Books" or "Toys"), result.TotalRows);
+    }
+
+    [Fact]
+    public void Query_WithGroupBy_ReturnsCountsAndAggregatesPerGroup()
+    {
+        // Arrange
+        var products = TestDataGenerator.GenerateProducts(50);
+        var queryable = products.AsQueryable();
+        var processor = new QueryProcessor(logger: null);
+
+        var query = new DataTableQuery
+        {
+            SourceId = "test-products",
+            Offset = 0,
+            Limit = 100,
+            GroupBy = "Category",
+            Sort = { new SortOrder { Column = "Category", Direction = Ivy.Protos.DataTable.SortDirection.Desc } },
+            Aggregations = { new Aggregation { Column = "Price", Function = "sum" } }
+        };
+
+        // Act
+        var result = processor.ProcessQuery(queryable, query);
+
+        // Assert
+        var expected = products
+            .GroupBy(p => p.Category)
+            .OrderByDescending(g => g.Key)
+            .ToList();
+
+        Assert.Empty(result.ArrowData);
+        Assert.Equal(expected.Count, result.TotalRows);
+        Assert.Equal(expected.Select(g => g.Key), result.Groups.Select(g => g.Key));
+        Assert.Equal(expected.Select(g => g.Count()), result.Groups.Select(g => g.Count));
+        Assert.All(result.Groups.Zip(expected), pair =>
+            Assert.Equal((double)pair.Second.Sum(p => p.Price), pair.First.Aggregations.Single().Value!.Value, 6));
+        Assert.Equal((double)products.Sum(p => p.Price), result.Aggregations.Single().Value!.Value, 6);
+    }
+
+    [Fact]
+    public void Query_WithGroupBy_PagesOverGroups()
+    {
+        // Arrange
+        var products = TestDataGenerator.GenerateProducts(50);
+        var queryable = products.AsQueryable();
+        var processor = new QueryProcessor(logger: null);
+
+        var query = new DataTableQuery
+        {
+            SourceId = "test-products",
+            Offset = 1,
+            Limit = 2,
+            GroupBy = "Category"
+        };
+
+        // Act
+        var result = processor.ProcessQuery(queryable, query);
+
+        // Assert
+        var expectedKeys = products.Select(p => p.Category).Distinct().OrderBy(c => c).Skip(1).Take(2);
+        Assert.Equal(expectedKeys, result.Groups.Select(g => g.Key));
+        Assert.Equal(2, result.RowCount);
+    }
+
+    [Fact]
+    public void QueryBatches_CutsOnePageIntoBatchesWithTotalsFirst()
+    {
+        // Arrange
+        var products = TestDataGenerator.GenerateProducts(25);
+        var queryable = products.AsQueryable();
+        var processor = new QueryProcessor(logger: null);
+
+        var query = new DataTableQuery
+        {
+            SourceId = "test-products",
+            Offset = 2,
+            Limit = 20,
+            Aggregations = { new Aggregation { Column = "Price", Function = "count" } }
+        };
+
+        // Act
+        var batches = processor.ProcessQueryBatches(queryable, query, batchSize: 8).ToList();
+
+        // Assert
+        Assert.Equal(new[] { 8, 8, 4 }, batches.Select(b => b.RowCount));
+        Assert.Equal(new[] { 2, 10, 18 }, batches.Select(b => b.Offset));
+        Assert.All(batches, b => Assert.Equal(25, b.TotalRows));
+        Assert.Single(batches[0].Aggregations);
+        Assert.Empty(batches[1].Aggregations);
+
+        var ids = batches.SelectMany(b => ArrowTestHelper.GetColumnValues(ArrowTestHelper.ParseArrowData(b.ArrowData), "Id"));
+        Assert.Equal(products.Skip(2).Take(20).Select(p => (object?)p.Id), ids);
+    }
+
+    [Fact]
+    public void QueryBatches_WithNoRows_SendsOneEmptyBatch()
+    {
+        // Arrange
+        var processor = new QueryProcessor(logger: null);
+        var query = new DataTableQuery { SourceId = "test-products", Offset = 100, Limit = 10 };
+
+        // Act
+        var batches = processor.ProcessQueryBatches(TestDataGenerator.GenerateProducts(5).AsQueryable(), query, batchSize: 8).ToList();
+
+        // Assert
+        var batch = Assert.Single(batches);
+        Assert.Equal(0, batch.RowCount);
+        Assert.Equal(5, batch.TotalRows);
+    }
+
+    [Fact]
+    public void Query_WithNumericSequenceColumns_ReturnsDoubleLists()
+    {
+        // Arrange
+        var metrics = new List<Metric>
+        {
+            new() { Id = 1, History = [1.5, 2.5, 3.0], Counts = [4, 5] },
+            new() { Id = 2, History = null, Counts = [] }
+        };
+        var processor = new QueryProcessor(logger: null);
+
+        var query = new DataTableQuery
+        {
+            SourceId = "test-metrics",
+            Offset = 0,
+            Limit = 10
+        };
+
+        // Act
+        var result = processor.ProcessQuery(metrics.AsQueryable(), query);
+
+        // Assert
+        var batch = ArrowTestHelper.ParseArrowData(result.ArrowData);
+        var history = Assert.IsType<Apache.Arrow.ListArray>(batch.Column(batch.Schema.GetFieldIndex("History")));
+        var historyValues = (Apache.Arrow.DoubleArray)history.Values;
+        Assert.Equal(3, history.GetValueLength(0));
+        Assert.Equal(
+            new double?[] { 1.5, 2.5, 3.0 },
+            Enumerable.Range(history.GetValueOffset(0), 3).Select(i => historyValues.GetValue(i)));
+        Assert.True(history.IsNull(1));
+
+        var counts = Assert.IsType<Apache.Arrow.ListArray>(batch.Column(batch.Schema.GetFieldIndex("Counts")));
+        Assert.Equal(2, counts.GetValueLength(0));
+        Assert.Equal(0, counts.GetValueLength(1));
+        Assert.False(counts.IsNull(1));
+    }
 }
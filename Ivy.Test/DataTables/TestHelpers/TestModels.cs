@@ -35,6 +35,16 @@ public class Person
     public string Department { get; set; } = string.Empty;
 }
 
+/// <summary>
+/// Test model with numeric sequences for testing sparkline columns
+/// </summary>
+public class Metric
+{
+    public int Id { get; set; }
+    public double[]? History { get; set; }
+    public List<int> Counts { get; set; } = new();
+}
+
 /// <summary>
 /// Test data generator
 /// </summary>
@@ -0,0 +1,49 @@
+using Ivy.Client;
+
+namespace Ivy.Test;
+
+public class DownloadProgressStreamTests
+{
+    [Fact]
+    public async Task Read_ReportsLoadedBytesAndDoneOnDispose()
+    {
+        var reports = new List<(long Loaded, long Total, bool Done)>();
+        var stream = new DownloadProgressStream(new MemoryStream(new byte[10]), (loaded, total, done) => reports.Add((loaded, total, done)));
+
+        var buffer = new byte[4];
+        while (await stream.ReadAsync(buffer) > 0)
+        {
+        }
+        await stream.DisposeAsync();
+
+        Assert.Equal((4L, 10L, false), reports[0]);
+        Assert.Equal((10L, 10L, true), reports[^1]);
+        Assert.Single(reports, r => r.Done);
+    }
+
+    [Fact]
+    public void Total_IsUnknownForStreamsThatCannotSeek()
+    {
+        var reports = new List<long>();
+        using (var stream = new DownloadProgressStream(new NonSeekableStream(new MemoryStream(new byte[3])), (_, total, _) => reports.Add(total)))
+        {
+            stream.CopyTo(Stream.Null);
+        }
+
+        Assert.All(reports, total => Assert.Equal(0, total));
+    }
+
+    private class NonSeekableStream(Stream inner) : Stream
+    {
+        public override bool CanRead => true;
+        public override bool CanSeek => false;
+        public override bool CanWrite => false;
+        public override long Length => throw new NotSupportedException();
+        public override long Position { get => throw new NotSupportedException(); set => throw new NotSupportedException(); }
+        public override void Flush() { }
+        public override int Read(byte[] buffer, int offset, int count) => inner.Read(buffer, offset, count);
+        public override long Seek(long offset, SeekOrigin origin) => throw new NotSupportedException();
+        public override void SetLength(long value) => throw new NotSupportedException();
+        public override void Write(byte[] buffer, int offset, int count) => throw new NotSupportedException();
+    }
+}
@@ -0,0 +1,40 @@
+using Ivy.Core;
+using Ivy.Widgets.Inputs;
+
+namespace Ivy.Test;
+
+public class EventPolicyTests
+{
+    [Fact]
+    public void EventPolicies_ForTheSameEvent_AreCombined()
+    {
+        var input = new TextInput("initial")
+            .Debounce(TimeSpan.FromMilliseconds(300))
+            .Coalesce()
+            .SendOnBlur("OnSubmit");
+
+        Assert.NotNull(input.EventPolicies);
+        Assert.Equal(2, input.EventPolicies.Length);
+
+        var onChange = Assert.Single(input.EventPolicies, p => p.EventName == "OnChange");
+        Assert.Equal(300, onChange.Debounce);
+        Assert.True(onChange.Coalesce);
+        Assert.False(onChange.OnBlur);
+
+        var onSubmit = Assert.Single(input.EventPolicies, p => p.EventName == "OnSubmit");
+        Assert.True(onSubmit.OnBlur);
+    }
+
+    [Fact]
+    public void EventPolicies_AreSerializedAsProps()
+    {
+        var input = new TextInput("initial").Throttle(TimeSpan.FromSeconds(1));
+        input.Id = "input";
+
+        var policies = input.Serialize()["props"]!["eventPolicies"]!.AsArray();
+
+        var policy = Assert.Single(policies)!;
+        Assert.Equal("OnChange", policy["eventName"]!.GetValue<string>());
+        Assert.Equal(1000, policy["throttle"]!.GetValue<int>());
+    }
+}
@@ -461,4 +461,51 @@ public class FileInputValidationTests
         Assert.True(result.IsValid);
         Assert.Null(result.ErrorMessage);
     }
-}
\ No newline at end of file
+
+    [Fact]
+    public void ValidateFileSize_WithinLimit_ReturnsSuccess()
+    {
+        // Arrange
+        var file = CreateTestFile("test.txt");
+
+        // Act
+        var result = FileInputValidation.ValidateFileSize(file, 1024);
+
+        // Assert
+        Assert.True(result.IsValid);
+        Assert.Null(result.ErrorMessage);
+    }
+
+    [Fact]
+    public void ValidateFileSizes_WithOversizedFile_ReturnsError()
+    {
+        // Arrange
+        var files = new List<FileInput>
+        {
+            CreateTestFile("small.txt"),
+            CreateTestFile("large.txt") with { Size = 2 * 1024 * 1024 }
+        };
+
+        // Act
+        var result = FileInputValidation.ValidateFileSizes(files, 1024 * 1024);
+
+        // Assert
+        Assert.False(result.IsValid);
+        Assert.Equal("File(s) too large: large.txt. Maximum size: 1 MB", result.ErrorMessage);
+    }
+
+    [Fact]
+    public void FileInput_ValidateValue_WithMaxFileSize_ValidatesSize()
+    {
+        // Arrange
+        var file = CreateTestFile("test.txt");
+        var fileInput = new FileInput<FileInput?>(null, null, "Test") with { MaxFileSize = 512 };
+
+        // Act
+        var result = fileInput.ValidateValue(file);
+
+        // Assert
+        Assert.False(result.IsValid);
+        Assert.Equal("File too large: test.txt. Maximum size: 512 B", result.ErrorMessage);
+    }
+}
@@ -13,6 +13,16 @@ public class TestModel
     public string NonNullableString { get; set; } = string.Empty;
 
     public decimal Decimal { get; set; } = 1;
+
+    [Range(1, 10)]
+    public int Rating { get; set; }
+
+    [StringLength(20, MinimumLength = 3)]
+    [RegularExpression("[a-z]+")]
+    public string? UserName { get; set; }
+
+    [EmailAddress]
+    public string? ContactEmail { get; set; }
 }
 
 public class FormHelpersTest
@@ -68,4 +78,79 @@ public class FormHelpersTest
         // Assert
         Assert.False(result);
     }
-}
\ No newline at end of file
+
+    [Fact]
+    public void GetClientValidationRules_ShouldTranslateRangeToMinAndMax()
+    {
+        // Arrange
+        var propertyInfo = typeof(TestModel).GetProperty(nameof(TestModel.Rating));
+
+        // Act
+        var rules = FormHelpers.GetClientValidationRules(propertyInfo!);
+
+        // Assert
+        Assert.Equal(2, rules.Count);
+        Assert.Equal(new FormValidationRule(FormValidationRuleType.Min, "The field Rating must be between 1 and 10.", 1.0), rules[0]);
+        Assert.Equal(new FormValidationRule(FormValidationRuleType.Max, "The field Rating must be between 1 and 10.", 10.0), rules[1]);
+    }
+
+    [Fact]
+    public void GetClientValidationRules_ShouldTranslateLengthAndPattern()
+    {
+        // Arrange
+        var propertyInfo = typeof(TestModel).GetProperty(nameof(TestModel.UserName));
+
+        // Act
+        var rules = FormHelpers.GetClientValidationRules(propertyInfo!);
+
+        // Assert
+        Assert.Contains(rules, r => r.Type == FormValidationRuleType.MinLength && Equals(r.Value, 3));
+        Assert.Contains(rules, r => r.Type == FormValidationRuleType.MaxLength && Equals(r.Value, 20));
+        Assert.Contains(rules, r => r.Type == FormValidationRuleType.Pattern && Equals(r.Value, "[a-z]+"));
+    }
+
+    [Fact]
+    public void GetClientValidationRules_ShouldTranslateRequiredAndEmail()
+    {
+        // Arrange
+        var requiredInfo = typeof(TestModel).GetProperty(nameof(TestModel.RequiredString));
+        var emailInfo = typeof(TestModel).GetProperty(nameof(TestModel.ContactEmail));
+
+        // Act
+        var requiredRules = FormHelpers.GetClientValidationRules(requiredInfo!);
+        var emailRules = FormHelpers.GetClientValidationRules(emailInfo!);
+
+        // Assert
+        Assert.Equal(FormValidationRuleType.Required, Assert.Single(requiredRules).Type);
+        Assert.Equal(FormValidationRuleType.Email, Assert.Single(emailRules).Type);
+    }
+
+    [Theory]
+    [InlineData(5, FormCompareOperator.GreaterThan, 3, true)]
+    [InlineData(3, FormCompareOperator.GreaterThan, 3, false)]
+    [InlineData(3, FormCompareOperator.LessThanOrEqual, 3.0, true)]
+    [InlineData("secret", FormCompareOperator.Equal, "secret", true)]
+    [InlineData("secret", FormCompareOperator.Equal, "other", false)]
+    [InlineData("secret", FormCompareOperator.NotEqual, "other", true)]
+    [InlineData(null, FormCompareOperator.Equal, "other", true)]
+    public void Compare_ShouldCompareFieldValues(object? value, FormCompareOperator op, object? other, bool expected)
+    {
+        // Act
+        var result = FormHelpers.Compare(value, op, other);
+
+        // Assert
+        Assert.Equal(expected, result);
+    }
+
+    [Fact]
+    public void Compare_ShouldCompareDates()
+    {
+        // Arrange
+        var start = new DateTime(2024, 1, 1);
+        var end = new DateTime(2024, 2, 1);
+
+        // Act & Assert
+        Assert.True(FormHelpers.Compare(end, FormCompareOperator.GreaterThan, start));
+        Assert.False(FormHelpers.Compare(start, FormCompareOperator.GreaterThan, end));
+    }
+}
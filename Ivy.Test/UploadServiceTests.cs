@@ -0,0 +1,55 @@
+using Ivy.Services;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Mvc;
+
+namespace Ivy.Test;
+
+public class UploadServiceTests
+{
+    private static IFormFile Chunk(params byte[] bytes) =>
+        new FormFile(new MemoryStream(bytes), 0, bytes.Length, "file", "file.bin");
+
+    private static string UploadId(string url) => url.Split('/')[^1];
+
+    [Fact]
+    public async Task UploadChunk_RejectsChunkCountsAboveTheLimit()
+    {
+        var service = new UploadService("conn");
+        var (_, url) = service.AddUpload(_ => Task.CompletedTask, "", "", maxFileSize: 4);
+
+        var result = await service.UploadChunk(UploadId(url), "f", 0, 5, Chunk(1));
+
+        Assert.IsType<BadRequestObjectResult>(result);
+    }
+
+    [Fact]
+    public async Task UploadChunk_RejectsFilesAboveTheMaxFileSize()
+    {
+        var service = new UploadService("conn");
+        var (_, url) = service.AddUpload(_ => Task.CompletedTask, "", "", maxFileSize: 3);
+
+        await service.UploadChunk(UploadId(url), "f", 0, 2, Chunk(1, 2));
+        var result = await service.UploadChunk(UploadId(url), "f", 1, 2, Chunk(3, 4));
+
+        Assert.Equal(StatusCodes.Status413PayloadTooLarge, Assert.IsType<ObjectResult>(result).StatusCode);
+    }
+
+    [Fact]
+    public async Task UploadChunk_RunsTheHandlerAgainAfterItFailed()
+    {
+        var service = new UploadService("conn");
+        var calls = new List<byte[]>();
+        var (_, url) = service.AddUpload(bytes =>
+        {
+            calls.Add(bytes);
+            return calls.Count == 1 ? throw new IOException("Disk full") : Task.CompletedTask;
+        }, "", "");
+
+        await service.UploadChunk(UploadId(url), "f", 0, 2, Chunk(1));
+        await Assert.ThrowsAsync<IOException>(() => service.UploadChunk(UploadId(url), "f", 1, 2, Chunk(2)));
+        await service.UploadChunk(UploadId(url), "f", 1, 2, Chunk(2));
+
+        Assert.Equal(2, calls.Count);
+        Assert.Equal(new byte[] { 1, 2 }, calls[1]);
+    }
+}
@@ -0,0 +1,73 @@
+using Ivy.Core;
+using Ivy.Services;
+
+namespace Ivy.Test;
+
+public class UrlStateServiceTests
+{
+    private class RecordingSender : IClientSender
+    {
+        public List<(string Method, object? Data)> Messages { get; } = new();
+
+        public void Send(string method, object? data) => Messages.Add((method, data));
+    }
+
+    private class TestClientProvider(IClientSender sender) : IClientProvider
+    {
+        public IClientSender Sender { get; set; } = sender;
+    }
+
+    private static (UrlStateService Service, RecordingSender Sender) Create(Dictionary<string, string> initialState)
+    {
+        var sender = new RecordingSender();
+        return (new UrlStateService(new TestClientProvider(sender), initialState), sender);
+    }
+
+    [Fact]
+    public void State_LeavesOutReservedKeys()
+    {
+        var (service, _) = Create(new() { ["appId"] = "chrome", ["tab"] = "2" });
+
+        Assert.Equal(new Dictionary<string, string> { ["tab"] = "2" }, service.State);
+        Assert.Null(service.Get("appId"));
+    }
+
+    [Fact]
+    public void Set_SendsOnlyChanges()
+    {
+        var (service, sender) = Create(new() { ["tab"] = "2" });
+
+        service.Set("tab", "2");
+        service.Set("tab", "3", replace: true);
+        service.Set("tab", null);
+
+        Assert.Equal(2, sender.Messages.Count);
+        var message = Assert.IsType<SetUrlStateMessage>(sender.Messages[0].Data);
+        Assert.Equal("SetUrlState", sender.Messages[0].Method);
+        Assert.Equal("3", message.State["tab"]);
+        Assert.True(message.Replace);
+        Assert.Null(service.Get("tab"));
+    }
+
+    [Fact]
+    public void Set_RejectsReservedKeys()
+    {
+        var (service, _) = Create(new());
+
+        Assert.Throws<ArgumentException>(() => service.Set("appId", "other"));
+    }
+
+    [Fact]
+    public void PopState_NotifiesSubscribers()
+    {
+        var (service, sender) = Create(new() { ["tab"] = "2" });
+        IReadOnlyDictionary<string, string>? received = null;
+        using var subscription = service.Subscribe(state => received = state);
+
+        service.PopState(new Dictionary<string, string> { ["tab"] = "1", ["appId"] = "chrome" });
+
+        Assert.Equal(new Dictionary<string, string> { ["tab"] = "1" }, received);
+        Assert.Equal("1", service.Get("tab"));
+        Assert.Empty(sender.Messages);
+    }
+}
@@ -64,6 +64,17 @@ public class AppHub(
         return null;
     }
 
+    /// <summary>
+    /// The query parameters of the page the client was opened with, which the client passes as the urlState parameter.
+    /// </summary>
+    public static Dictionary<string, string> GetUrlState(HttpContext httpContext)
+    {
+        var query = System.Web.HttpUtility.ParseQueryString(httpContext.Request.Query["urlState"].ToString());
+        return query.AllKeys
+            .Where(key => key != null)
+            .ToDictionary(key => key!, key => query[key] ?? "");
+    }
+
     public AppArgs GetAppArgs(string connectionId, string appId, HttpContext httpContext)
     {
         string? appArgs = null;
@@ -103,6 +114,7 @@ public class AppHub(
                 Context.ConnectionId));
             appServices.AddSingleton(typeof(IUploadService), new UploadService(Context.ConnectionId));
             appServices.AddSingleton(typeof(IClientProvider), clientProvider);
+            appServices.AddSingleton<IUrlStateService>(new UrlStateService(clientProvider, GetUrlState(httpContext)));
 
             if (server.AuthProviderType != null)
             {
@@ -474,13 +486,40 @@ public class AppHub(
         }
     }
 
-    public void Event(string eventName, string widgetId, JsonArray? args)
+    /// <summary>
+    /// Called when the user navigated back or forward in the browser, with the query parameters of the new URL.
+    /// </summary>
+    public void PopState(Dictionary<string, string> state)
+    {
+        if (!sessionStore.Sessions.TryGetValue(Context.ConnectionId, out var appSession))
+        {
+            logger.LogWarning($"PopState: {Context.ConnectionId} [AppSession Not Found]");
+            return;
+        }
+
+        appSession.LastInteraction = DateTime.UtcNow;
+        try
+        {
+            (appSession.AppServices.GetService<IUrlStateService>() as UrlStateService)?.PopState(state);
+        }
+        catch (Exception e)
+        {
+            var exceptionHandler = appSession.AppServices.GetService<IExceptionHandler>()!;
+            exceptionHandler.HandleException(e);
+        }
+    }
+
+    /// <summary>
+    /// Triggers a widget event. Returns false when the event could not be found or its handler threw,
+    /// which lets the client roll back optimistic changes.
+    /// </summary>
+    public bool Event(string eventName, string widgetId, JsonArray? args)
     {
         logger.LogInformation($"Event: {eventName} {widgetId} {args}");
         if (!sessionStore.Sessions.TryGetValue(Context.ConnectionId, out var appSession))
         {
             logger.LogWarning($"Event: {eventName} {widgetId} [AppSession Not Found]");
-            return;
+            return false;
         }
 
         try
@@ -489,12 +528,15 @@ public class AppHub(
             if (!appSession.WidgetTree.TriggerEvent(widgetId, eventName, args ?? new JsonArray()))
             {
                 logger.LogWarning($"Event '{eventName}' for Widget '{widgetId}' not found.");
+                return false;
             }
+            return true;
         }
         catch (Exception e)
         {
             var exceptionHandler = appSession.AppServices.GetService<IExceptionHandler>()!;
             exceptionHandler.HandleException(e);
+            return false;
         }
     }
 
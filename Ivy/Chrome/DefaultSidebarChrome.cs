@@ -15,6 +15,9 @@ namespace Ivy.Chrome;
 [App(isVisible: false)]
 public class DefaultSidebarChrome(ChromeSettings settings) : ViewBase
 {
+    /// <summary>The query parameter with the id of the open app.</summary>
+    public const string AppUrlKey = "app";
+
     private record TabState(string Id, string AppId, string Title, AppHost AppHost, Icons? Icon, string RefreshToken)
     {
         public Tab ToTab() => new Tab(Title, AppHost).Icon(Icon).Key(Utils.GetShortHash(Id + RefreshToken));
@@ -67,6 +70,8 @@ public class DefaultSidebarChrome(ChromeSettings settings) : ViewBase
         var menuItems = UseState(() => appRepository.GetMenuItems());
         var args = UseService<AppArgs>();
         var navigate = Context.UseSignal<NavigateSignal, NavigateArgs, Unit>();
+        // The open app is kept in the URL so it can be linked to and the back button returns to the previous one
+        var urlAppId = Context.UseUrlState<string?>(AppUrlKey, null);
 
         UseEffect(() =>
         {
@@ -105,9 +110,19 @@ public class DefaultSidebarChrome(ChromeSettings settings) : ViewBase
             }
         }, [search]);
 
+        string? GetOpenAppId()
+        {
+            if (settings.Navigation == ChromeNavigation.Pages)
+            {
+                return currentApp.Value?.AppId;
+            }
+            return selectedIndex.Value is { } index && index < tabs.Value.Length ? tabs.Value[index].AppId : null;
+        }
+
         void OpenApp(NavigateArgs navigateArgs)
         {
             var app = appRepository!.GetAppOrDefault(navigateArgs.AppId);
+            urlAppId.Set(app.Id);
             if (settings.Navigation == ChromeNavigation.Pages)
             {
                 currentApp.Set(navigateArgs.ToAppHost(args.ConnectionId));
@@ -150,12 +165,33 @@ public class DefaultSidebarChrome(ChromeSettings settings) : ViewBase
                 var userInfo = await TimeoutHelper.WithTimeoutAsync(auth.GetUserInfoAsync);
                 user.Set(userInfo);
             }
-            if (!string.IsNullOrEmpty(settings.DefaultAppId))
+            if (!string.IsNullOrEmpty(urlAppId.Value))
+            {
+                OpenApp(new NavigateArgs(urlAppId.Value));
+            }
+            else if (!string.IsNullOrEmpty(settings.DefaultAppId))
             {
                 OpenApp(new NavigateArgs(settings.DefaultAppId));
             }
         });
 
+        // Back and forward in the browser
+        UseEffect(() =>
+        {
+            if (string.IsNullOrEmpty(urlAppId.Value) || urlAppId.Value == GetOpenAppId()) return;
+            var tabIndex = settings.Navigation == ChromeNavigation.Tabs
+                ? tabs.Value.ToList().FindIndex(tab => tab.AppId == urlAppId.Value)
+                : -1;
+            if (tabIndex >= 0)
+            {
+                selectedIndex.Set(tabIndex);
+            }
+            else
+            {
+                OpenApp(new NavigateArgs(urlAppId.Value));
+            }
+        }, [urlAppId]);
+
         void OnMenuSelect(Event<SidebarMenu, object> @event)
         {
             if (@event.Value is string appId)
@@ -176,6 +212,7 @@ public class DefaultSidebarChrome(ChromeSettings settings) : ViewBase
         void OnTabSelect(Event<TabsLayout, int> @event)
         {
             selectedIndex.Set(@event.Value);
+            urlAppId.Set(tabs.Value[@event.Value].AppId);
         }
 
         void OnTabClose(Event<TabsLayout, int> @event)
@@ -201,6 +238,7 @@ public class DefaultSidebarChrome(ChromeSettings settings) : ViewBase
             }
             selectedIndex.Set(newIndex);
             tabs.Set(newTabs);
+            urlAppId.Set(newIndex is { } index ? newTabs[index].AppId : null);
         }
 
         void OnTabRefresh(Event<TabsLayout, int> @event)
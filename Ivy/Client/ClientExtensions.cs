@@ -1,5 +1,6 @@
 using Ivy.Auth;
 using Ivy.Core;
+using Ivy.Hooks;
 using Ivy.Shared;
 
 namespace Ivy.Client;
@@ -23,6 +24,23 @@ public class SetAuthTokenMessage
     public required bool ReloadPage { get; set; }
 }
 
+public class DownloadMessage
+{
+    public string? Id { get; set; }
+    public string? Url { get; set; }
+    public byte[]? Content { get; set; }
+    public string? FileName { get; set; }
+    public string? MimeType { get; set; }
+}
+
+public class DownloadProgressMessage
+{
+    public required string Id { get; set; }
+    public long Loaded { get; set; }
+    public long Total { get; set; }
+    public bool Done { get; set; }
+}
+
 public static class ClientExtensions
 {
     public static void CopyToClipboard(this IClientProvider client, string content)
@@ -44,6 +62,50 @@ public static class ClientExtensions
         client.Sender.Send("Redirect", url);
     }
 
+    /// <summary>
+    /// Saves the file at the URL in the browser without opening a new tab. Relative URLs resolve against the Ivy host.
+    /// The browser downloads the file itself and shows its progress.
+    /// </summary>
+    /// <param name="client">The client provider instance.</param>
+    /// <param name="url">The URL of the file.</param>
+    /// <param name="fileName">The name to save the file as, or null to use the name from the response.</param>
+    public static void Download(this IClientProvider client, string url, string? fileName = null)
+    {
+        client.Sender.Send("Download", new DownloadMessage { Url = url, FileName = fileName });
+    }
+
+    /// <summary>
+    /// Saves the content as a file in the browser. The content is sent inline with the message,
+    /// so use the streamed overload for large files.
+    /// </summary>
+    /// <param name="client">The client provider instance.</param>
+    /// <param name="content">The content of the file.</param>
+    /// <param name="fileName">The name to save the file as.</param>
+    /// <param name="mimeType">The MIME type of the file.</param>
+    public static void Download(this IClientProvider client, byte[] content, string fileName, string mimeType)
+    {
+        client.Sender.Send("Download", new DownloadMessage { Content = content, FileName = fileName, MimeType = mimeType });
+    }
+
+    /// <summary>
+    /// Saves a streamed file in the browser. The stream is created when the browser requests the file,
+    /// which it can do once. The browser saves the file itself, and the server reports the bytes it has sent
+    /// so a toast shows the progress of the download; the total is known for seekable streams.
+    /// </summary>
+    /// <param name="client">The client provider instance.</param>
+    /// <param name="downloadService">The download service of the app, from <c>UseService&lt;IDownloadService&gt;()</c>.</param>
+    /// <param name="factory">Creates the stream with the content of the file.</param>
+    /// <param name="fileName">The name to save the file as.</param>
+    /// <param name="mimeType">The MIME type of the file.</param>
+    public static void Download(this IClientProvider client, IDownloadService downloadService, Func<Task<Stream>> factory, string fileName, string mimeType)
+    {
+        var id = Guid.NewGuid().ToString();
+        var url = downloadService.AddOneTimeDownload(async () => new DownloadProgressStream(await factory(), (loaded, total, done) =>
+            client.Sender.Send("DownloadProgress", new DownloadProgressMessage { Id = id, Loaded = loaded, Total = total, Done = done })),
+            mimeType, fileName);
+        client.Sender.Send("Download", new DownloadMessage { Id = id, Url = url, FileName = fileName, MimeType = mimeType });
+    }
+
     public static void SetAuthToken(this IClientProvider client, AuthToken? authToken, bool reloadPage = true)
     {
         client.Sender.Send("SetAuthToken", new SetAuthTokenMessage { AuthToken = authToken, ReloadPage = reloadPage });
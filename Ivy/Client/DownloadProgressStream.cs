@@ -0,0 +1,69 @@
+namespace Ivy.Client;
+
+/// <summary>
+/// Reports how much of a streamed download has been read, at most every ReportInterval and once more when
+/// the stream is disposed, so the browser can show progress while it saves the file itself.
+/// </summary>
+internal class DownloadProgressStream(Stream inner, Action<long, long, bool> onProgress) : Stream
+{
+    private static readonly TimeSpan ReportInterval = TimeSpan.FromMilliseconds(250);
+
+    private readonly long _total = inner.CanSeek ? Math.Max(inner.Length - inner.Position, 0) : 0;
+    private long _loaded;
+    private DateTime _lastReport = DateTime.MinValue;
+    private bool _disposed;
+
+    public override bool CanRead => true;
+    public override bool CanSeek => false;
+    public override bool CanWrite => false;
+    public override long Length => throw new NotSupportedException();
+
+    public override long Position
+    {
+        get => _loaded;
+        set => throw new NotSupportedException();
+    }
+
+    public override int Read(byte[] buffer, int offset, int count) => Count(inner.Read(buffer, offset, count));
+
+    public override int Read(Span<byte> buffer) => Count(inner.Read(buffer));
+
+    public override async Task<int> ReadAsync(byte[] buffer, int offset, int count, CancellationToken cancellationToken) =>
+        Count(await inner.ReadAsync(buffer.AsMemory(offset, count), cancellationToken));
+
+    public override async ValueTask<int> ReadAsync(Memory<byte> buffer, CancellationToken cancellationToken = default) =>
+        Count(await inner.ReadAsync(buffer, cancellationToken));
+
+    public override void Flush()
+    {
+    }
+
+    public override long Seek(long offset, SeekOrigin origin) => throw new NotSupportedException();
+
+    public override void SetLength(long value) => throw new NotSupportedException();
+
+    public override void Write(byte[] buffer, int offset, int count) => throw new NotSupportedException();
+
+    protected override void Dispose(bool disposing)
+    {
+        if (disposing && !_disposed)
+        {
+            _disposed = true;
+            inner.Dispose();
+            onProgress(_loaded, _total, true);
+        }
+        base.Dispose(disposing);
+    }
+
+    private int Count(int read)
+    {
+        _loaded += read;
+        var now = DateTime.UtcNow;
+        if (read > 0 && now - _lastReport >= ReportInterval)
+        {
+            _lastReport = now;
+            onProgress(_loaded, _total, false);
+        }
+        return read;
+    }
+}
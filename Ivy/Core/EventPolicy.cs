@@ -0,0 +1,29 @@
+namespace Ivy.Core;
+
+/// <summary>
+/// Describes how the client sends an event of a widget to the server. Events without a policy
+/// are sent as soon as they are raised.
+/// </summary>
+/// <param name="EventName">The name of the event, for example "OnChange".</param>
+public record EventPolicy(string EventName)
+{
+    /// <summary>
+    /// Milliseconds without a new event before the latest one is sent.
+    /// </summary>
+    public int? Debounce { get; init; }
+
+    /// <summary>
+    /// Sends at most one event per number of milliseconds; the latest one is sent when the time is up.
+    /// </summary>
+    public int? Throttle { get; init; }
+
+    /// <summary>
+    /// Holds the latest event until the focus leaves the widget.
+    /// </summary>
+    public bool OnBlur { get; init; }
+
+    /// <summary>
+    /// Only the latest event waits while the previous one is handled by the server.
+    /// </summary>
+    public bool Coalesce { get; init; }
+}
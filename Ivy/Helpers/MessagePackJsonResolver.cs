@@ -0,0 +1,155 @@
+using System.Buffers;
+using System.Text.Json;
+using MessagePack;
+using MessagePack.Formatters;
+using MessagePack.Resolvers;
+
+namespace Ivy.Helpers;
+
+/// <summary>
+/// MessagePack resolver for the SignalR MessagePack protocol. Everything except strings and primitives goes through
+/// System.Text.Json, so clients receive the same camelCase shape as with the JSON protocol and hub arguments
+/// such as <see cref="System.Text.Json.Nodes.JsonArray"/> are bound the same way.
+/// </summary>
+public sealed class MessagePackJsonResolver : IFormatterResolver
+{
+    public static readonly MessagePackJsonResolver Instance = new();
+
+    /// <summary>Serializer options to use with <c>AddMessagePackProtocol</c>.</summary>
+    public static MessagePackSerializerOptions Options { get; } =
+        MessagePackSerializerOptions.Standard.WithResolver(Instance);
+
+    // Mirrors the payload options of the SignalR JSON protocol
+    internal static readonly JsonSerializerOptions JsonOptions = new()
+    {
+        PropertyNamingPolicy = JsonNamingPolicy.CamelCase,
+        PropertyNameCaseInsensitive = true
+    };
+
+    private MessagePackJsonResolver()
+    {
+    }
+
+    public IMessagePackFormatter<T>? GetFormatter<T>() => FormatterCache<T>.Formatter;
+
+    private static class FormatterCache<T>
+    {
+        public static readonly IMessagePackFormatter<T>? Formatter =
+            typeof(T) == typeof(string) || typeof(T).IsPrimitive
+                ? BuiltinResolver.Instance.GetFormatter<T>()
+                : new JsonFormatter<T>();
+    }
+
+    private sealed class JsonFormatter<T> : IMessagePackFormatter<T>
+    {
+        public void Serialize(ref MessagePackWriter writer, T value, MessagePackSerializerOptions options)
+        {
+            WriteElement(ref writer, JsonSerializer.SerializeToElement(value, JsonOptions));
+        }
+
+        public T Deserialize(ref MessagePackReader reader, MessagePackSerializerOptions options)
+        {
+            var buffer = new ArrayBufferWriter<byte>();
+            using (var json = new Utf8JsonWriter(buffer))
+            {
+                ReadValue(ref reader, json);
+            }
+            return JsonSerializer.Deserialize<T>(buffer.WrittenSpan, JsonOptions)!;
+        }
+    }
+
+    private static void WriteElement(ref MessagePackWriter writer, JsonElement element)
+    {
+        switch (element.ValueKind)
+        {
+            case JsonValueKind.Object:
+                var properties = element.EnumerateObject().Count();
+                writer.WriteMapHeader(properties);
+                foreach (var property in element.EnumerateObject())
+                {
+                    writer.Write(property.Name);
+                    WriteElement(ref writer, property.Value);
+                }
+                break;
+            case JsonValueKind.Array:
+                writer.WriteArrayHeader(element.GetArrayLength());
+                foreach (var item in element.EnumerateArray())
+                {
+                    WriteElement(ref writer, item);
+                }
+                break;
+            case JsonValueKind.String:
+                writer.Write(element.GetString());
+                break;
+            case JsonValueKind.Number:
+                if (element.TryGetInt64(out var integer))
+                    writer.Write(integer);
+                else if (element.TryGetUInt64(out var unsigned))
+                    writer.Write(unsigned);
+                else
+                    writer.Write(element.GetDouble());
+                break;
+            case JsonValueKind.True:
+                writer.Write(true);
+                break;
+            case JsonValueKind.False:
+                writer.Write(false);
+                break;
+            default:
+                writer.WriteNil();
+                break;
+        }
+    }
+
+    private static void ReadValue(ref MessagePackReader reader, Utf8JsonWriter json)
+    {
+        switch (reader.NextMessagePackType)
+        {
+            case MessagePackType.Map:
+                var properties = reader.ReadMapHeader();
+                json.WriteStartObject();
+                for (var i = 0; i < properties; i++)
+                {
+                    json.WritePropertyName(reader.ReadString() ?? string.Empty);
+                    ReadValue(ref reader, json);
+                }
+                json.WriteEndObject();
+                break;
+            case MessagePackType.Array:
+                var items = reader.ReadArrayHeader();
+                json.WriteStartArray();
+                for (var i = 0; i < items; i++)
+                {
+                    ReadValue(ref reader, json);
+                }
+                json.WriteEndArray();
+                break;
+            case MessagePackType.String:
+                json.WriteStringValue(reader.ReadString());
+                break;
+            case MessagePackType.Integer:
+                if (reader.NextCode == MessagePackCode.UInt64)
+                    json.WriteNumberValue(reader.ReadUInt64());
+                else
+                    json.WriteNumberValue(reader.ReadInt64());
+                break;
+            case MessagePackType.Float:
+                json.WriteNumberValue(reader.ReadDouble());
+                break;
+            case MessagePackType.Boolean:
+                json.WriteBooleanValue(reader.ReadBoolean());
+                break;
+            case MessagePackType.Binary:
+                json.WriteBase64StringValue(reader.ReadBytes()!.Value.ToArray());
+                break;
+            case MessagePackType.Extension
+                when reader.CreatePeekReader().ReadExtensionFormatHeader().TypeCode == ReservedMessagePackExtensionTypeCode.DateTime:
+                json.WriteStringValue(reader.ReadDateTime());
+                break;
+            default:
+                reader.Skip();
+                json.WriteNullValue();
+                break;
+        }
+    }
+}
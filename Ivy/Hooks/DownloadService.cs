@@ -1,4 +1,5 @@
-﻿using System.Reactive.Disposables;
+﻿using System.Collections.Concurrent;
+using System.Reactive.Disposables;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.Extensions.DependencyInjection;
 
@@ -20,40 +21,70 @@ public class DownloadController(AppSessionStore sessionStore) : Controller
 
 public class DownloadService(string connectionId) : IDownloadService, IDisposable
 {
-    private readonly Dictionary<Guid, (Func<Task<byte[]>> factory, string mimeType, string fileName)> _downloads = new();
+    private readonly ConcurrentDictionary<Guid, (Func<Task<Stream>> factory, string mimeType, string fileName, bool once)> _downloads = new();
 
-    public (IDisposable cleanup, string url) AddDownload(Func<Task<byte[]>> factory, string mimeType, string fileName)
+    public (IDisposable cleanup, string url) AddDownload(Func<Task<byte[]>> factory, string mimeType, string fileName) =>
+        AddDownload(async () => (Stream)new MemoryStream(await factory()), mimeType, fileName);
+
+    public (IDisposable cleanup, string url) AddDownload(Func<Task<Stream>> factory, string mimeType, string fileName)
     {
-        var downloadId = Guid.NewGuid();
-        _downloads[downloadId] = (factory, mimeType, fileName);
+        var downloadId = Add(factory, mimeType, fileName, false);
 
         var cleanup = Disposable.Create(() =>
         {
-            _downloads.Remove(downloadId);
+            _downloads.TryRemove(downloadId, out _);
         });
 
-        return (cleanup, $"/download/{connectionId}/{downloadId}");
+        return (cleanup, GetUrl(downloadId));
     }
 
+    public string AddOneTimeDownload(Func<Task<Stream>> factory, string mimeType, string fileName) =>
+        GetUrl(Add(factory, mimeType, fileName, true));
+
     public async Task<IActionResult> Download(string downloadId)
     {
-        if (!_downloads.TryGetValue(Guid.Parse(downloadId), out var download))
+        var id = Guid.Parse(downloadId);
+        if (!_downloads.TryGetValue(id, out var download))
+        {
+            throw new Exception($"Download '{downloadId}' not found.");
+        }
+
+        var (factory, contentType, fileName, once) = download;
+        if (once && !_downloads.TryRemove(id, out _))
         {
             throw new Exception($"Download '{downloadId}' not found.");
         }
 
-        var (factory, contentType, fileName) = download;
-        return new FileContentResult(await factory(), contentType) { FileDownloadName = fileName };
+        return new FileStreamResult(await factory(), contentType) { FileDownloadName = fileName };
     }
 
     public void Dispose()
     {
+        _downloads.Clear();
     }
+
+    private Guid Add(Func<Task<Stream>> factory, string mimeType, string fileName, bool once)
+    {
+        var downloadId = Guid.NewGuid();
+        _downloads[downloadId] = (factory, mimeType, fileName, once);
+        return downloadId;
+    }
+
+    private string GetUrl(Guid downloadId) => $"/download/{connectionId}/{downloadId}";
 }
 
 public interface IDownloadService
 {
     (IDisposable cleanup, string url) AddDownload(Func<Task<byte[]>> factory, string mimeType, string fileName);
 
+    (IDisposable cleanup, string url) AddDownload(Func<Task<Stream>> factory, string mimeType, string fileName);
+
+    /// <summary>
+    /// Adds a download that is removed once it has been requested, for files handed to the client with
+    /// <see cref="Ivy.Client.ClientExtensions.Download(Ivy.Core.IClientProvider, IDownloadService, Func{Task{Stream}}, string, string)"/>.
+    /// </summary>
+    /// <returns>The relative URL of the download.</returns>
+    string AddOneTimeDownload(Func<Task<Stream>> factory, string mimeType, string fileName);
+
     Task<IActionResult> Download(string downloadId);
-}
\ No newline at end of file
+}
@@ -0,0 +1,23 @@
+using Ivy.Charts;
+using Ivy.Core;
+using Ivy.Core.Hooks;
+
+namespace Ivy.Hooks;
+
+public static class UseChartStreamExtensions
+{
+    public static IChartStream UseChartStream<TView>(this TView view) where TView : ViewBase =>
+        view.Context.UseChartStream();
+
+    /// <summary>
+    /// A stream of rows for a chart, kept for the lifetime of the view. Pass it to the chart with Stream(...)
+    /// and append rows to it, for example from a timer, without rebuilding the view.
+    /// </summary>
+    /// <param name="context">The view context.</param>
+    public static IChartStream UseChartStream(this IViewContext context)
+    {
+        var client = context.UseService<IClientProvider>();
+        var stream = context.UseState<IChartStream>(() => new ChartStream(client), buildOnChange: false);
+        return stream.Value;
+    }
+}
@@ -6,25 +6,29 @@ namespace Ivy.Hooks;
 
 public static class UseUploadExtensions
 {
-    public static IState<string?> UseUpload<TView>(this TView view, Action<byte[]> handler, string mimeType, string fileName) where TView : ViewBase =>
-        view.Context.UseUpload(handler, mimeType, fileName);
+    public static IState<string?> UseUpload<TView>(this TView view, Action<byte[]> handler, string mimeType, string fileName, long? maxFileSize = null) where TView : ViewBase =>
+        view.Context.UseUpload(handler, mimeType, fileName, maxFileSize);
 
-    public static IState<string?> UseUpload<TView>(this TView view, Func<byte[], Task> handler, string mimeType, string fileName) where TView : ViewBase =>
-        view.Context.UseUpload(handler, mimeType, fileName);
+    public static IState<string?> UseUpload<TView>(this TView view, Func<byte[], Task> handler, string mimeType, string fileName, long? maxFileSize = null) where TView : ViewBase =>
+        view.Context.UseUpload(handler, mimeType, fileName, maxFileSize);
 
-    public static IState<string?> UseUpload(this IViewContext context, Action<byte[]> handler, string mimeType, string fileName) =>
-        context.UseUpload(bytes => { handler(bytes); return Task.CompletedTask; }, mimeType, fileName);
+    public static IState<string?> UseUpload(this IViewContext context, Action<byte[]> handler, string mimeType, string fileName, long? maxFileSize = null) =>
+        context.UseUpload(bytes => { handler(bytes); return Task.CompletedTask; }, mimeType, fileName, maxFileSize);
 
-    public static IState<string?> UseUpload(this IViewContext context, Func<byte[], Task> handler, string mimeType, string fileName)
+    /// <summary>
+    /// Registers an upload endpoint for the view. Pass the MaxFileSize of the FileInput as maxFileSize; without it
+    /// the server accepts files up to <see cref="UploadService.DefaultMaxFileSize"/>.
+    /// </summary>
+    public static IState<string?> UseUpload(this IViewContext context, Func<byte[], Task> handler, string mimeType, string fileName, long? maxFileSize = null)
     {
         var url = context.UseState<string?>();
         var uploadService = context.UseService<IUploadService>();
         context.UseEffect(() =>
         {
-            var (cleanup, uploadUrl) = uploadService.AddUpload(handler, mimeType, fileName);
+            var (cleanup, uploadUrl) = uploadService.AddUpload(handler, mimeType, fileName, maxFileSize);
             url.Set(uploadUrl);
             return cleanup;
         });
         return url;
     }
-}
\ No newline at end of file
+}
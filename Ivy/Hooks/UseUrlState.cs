@@ -0,0 +1,56 @@
+using System.Globalization;
+using Ivy.Core;
+using Ivy.Core.Hooks;
+using Ivy.Services;
+
+namespace Ivy.Hooks;
+
+public static class UseUrlStateExtensions
+{
+    public static IState<T> UseUrlState<TView, T>(this TView view, string key, T defaultValue, bool replace = false) where TView : ViewBase =>
+        view.Context.UseUrlState(key, defaultValue, replace);
+
+    /// <summary>
+    /// State kept in a query parameter of the browser URL. It starts from the URL, so links restore it,
+    /// changes add a history entry (or replace the current one), and the back and forward buttons set it.
+    /// The default value is not written to the URL.
+    /// </summary>
+    /// <param name="context">The view context.</param>
+    /// <param name="key">The query parameter.</param>
+    /// <param name="defaultValue">The value when the parameter is missing or cannot be converted.</param>
+    /// <param name="replace">Whether changes replace the current history entry instead of adding one.</param>
+    public static IState<T> UseUrlState<T>(this IViewContext context, string key, T defaultValue, bool replace = false)
+    {
+        var urlState = context.UseService<IUrlStateService>();
+        var state = context.UseState(() => Parse(urlState.Get(key), defaultValue));
+
+        context.UseEffect(() => urlState.Subscribe(values =>
+        {
+            var value = Parse(values.GetValueOrDefault(key), defaultValue);
+            if (!Equals(value, state.Value))
+            {
+                state.Set(value);
+            }
+        }), [EffectTrigger.AfterInit()]);
+
+        context.UseEffect(() => urlState.Set(key, Format(state.Value, defaultValue), replace), [state]);
+
+        return state;
+    }
+
+    private static T Parse<T>(string? value, T defaultValue)
+    {
+        if (value == null) return defaultValue;
+        try
+        {
+            return Core.Utils.BestGuessConvert(value, typeof(T)) is T converted ? converted : defaultValue;
+        }
+        catch (Exception)
+        {
+            return defaultValue;
+        }
+    }
+
+    private static string? Format<T>(T value, T defaultValue) =>
+        Equals(value, defaultValue) ? null : Convert.ToString(value, CultureInfo.InvariantCulture);
+}
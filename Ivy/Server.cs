@@ -6,6 +6,7 @@ using Ivy.Auth;
 using Ivy.Chrome;
 using Ivy.Connections;
 using Ivy.Core;
+using Ivy.Helpers;
 using Ivy.Themes;
 using Ivy.Views;
 using Ivy.Views.DataTables;
@@ -36,6 +37,7 @@ public record ServerArgs
     public string? MetaTitle { get; set; } = null;
     public string? MetaDescription { get; set; } = null;
     public Assembly? AssetAssembly { get; set; } = null;
+    public bool MessagePack { get; set; } = false;
 #if DEBUG
     public bool FindAvailablePort { get; set; } = true;
 #else
@@ -345,10 +347,17 @@ public class Server
 
         builder.WebHost.UseUrls($"http://*:{_args.Port}");
 
-        builder.Services.AddSignalR(options =>
+        var signalR = builder.Services.AddSignalR(options =>
         {
             options.EnableDetailedErrors = _args.Verbose;
         });
+        if (_args.MessagePack)
+        {
+            signalR.AddMessagePackProtocol(options =>
+            {
+                options.SerializerOptions = MessagePackJsonResolver.Options;
+            });
+        }
         builder.Services.AddSingleton(this);
         builder.Services.AddSingleton<IClientNotifier, ClientNotifier>();
         builder.Services.AddControllers()
@@ -528,6 +537,12 @@ public static class WebApplicationExtensions
                 }
 #endif
 
+                //Inject the hub protocol the client should use:
+                if (serverArgs.MessagePack)
+                {
+                    html = html.Replace("</head>", "  <meta name=\"ivy-hub-protocol\" content=\"messagepack\" />\n</head>");
+                }
+
                 //Inject Meta Title and Description
                 if (!string.IsNullOrEmpty(serverArgs.MetaDescription))
                 {
@@ -26,27 +26,84 @@ public class UploadController(AppSessionStore sessionStore) : Controller
         {
             return BadRequest("file is required.");
         }
-        if (sessionStore.Sessions.TryGetValue(connectionId, out var session))
+        if (GetUploadService(connectionId) is { } uploadService)
         {
-            var uploadService = session.AppServices.GetRequiredService<IUploadService>();
             return await uploadService.Upload(uploadId, file);
         }
         return NotFound($"Session for connectionId '{connectionId}' not found.");
     }
+
+    [HttpPost("{connectionId}/{uploadId}/{fileId}")]
+    [Consumes("multipart/form-data")]
+    public async Task<IActionResult> UploadChunk([FromRoute] string connectionId, [FromRoute] string uploadId, [FromRoute] string fileId, [FromQuery] int index, [FromQuery] int total, [FromForm] IFormFile file)
+    {
+        if (string.IsNullOrEmpty(uploadId) || string.IsNullOrEmpty(fileId))
+        {
+            return BadRequest("uploadId and fileId are required.");
+        }
+        if (total <= 0 || index < 0 || index >= total)
+        {
+            return BadRequest($"Invalid chunk {index} of {total}.");
+        }
+        if (file == null)
+        {
+            return BadRequest("file is required.");
+        }
+        if (GetUploadService(connectionId) is { } uploadService)
+        {
+            return await uploadService.UploadChunk(uploadId, fileId, index, total, file);
+        }
+        return NotFound($"Session for connectionId '{connectionId}' not found.");
+    }
+
+    [HttpGet("{connectionId}/{uploadId}/{fileId}")]
+    public IActionResult GetChunkStatus([FromRoute] string connectionId, [FromRoute] string uploadId, [FromRoute] string fileId)
+    {
+        if (GetUploadService(connectionId) is { } uploadService)
+        {
+            return uploadService.GetChunkStatus(uploadId, fileId);
+        }
+        return NotFound($"Session for connectionId '{connectionId}' not found.");
+    }
+
+    private IUploadService? GetUploadService(string connectionId)
+    {
+        if (!string.IsNullOrEmpty(connectionId) && sessionStore.Sessions.TryGetValue(connectionId, out var session))
+        {
+            return session.AppServices.GetRequiredService<IUploadService>();
+        }
+        return null;
+    }
 }
 
 public class UploadService(string connectionId) : IUploadService, IDisposable
 {
-    private readonly ConcurrentDictionary<Guid, (Func<byte[], Task> handler, string mimeType, string fileName)> _uploads = new();
+    /// <summary>Largest file accepted by uploads that do not set their own limit.</summary>
+    public const long DefaultMaxFileSize = 256L * 1024 * 1024;
+
+    /// <summary>Most chunks a chunked upload may be split into.</summary>
+    public const int MaxChunks = 10_000;
+
+    /// <summary>Time after the last received chunk before a partially received file is dropped.</summary>
+    public static readonly TimeSpan PartialFileTimeout = TimeSpan.FromMinutes(10);
+
+    private readonly ConcurrentDictionary<Guid, (Func<byte[], Task> handler, string mimeType, string fileName, long maxFileSize)> _uploads = new();
+
+    // Partially received files of chunked uploads, keyed by upload and client-generated file id
+    private readonly ConcurrentDictionary<(Guid uploadId, string fileId), ChunkedFile> _chunkedFiles = new();
 
-    public (IDisposable cleanup, string url) AddUpload(Func<byte[], Task> handler, string mimeType, string fileName)
+    public (IDisposable cleanup, string url) AddUpload(Func<byte[], Task> handler, string mimeType, string fileName, long? maxFileSize = null)
     {
         var uploadId = Guid.NewGuid();
-        _uploads[uploadId] = (handler, mimeType, fileName);
+        _uploads[uploadId] = (handler, mimeType, fileName, maxFileSize ?? DefaultMaxFileSize);
 
         var cleanup = Disposable.Create(() =>
         {
             _uploads.TryRemove(uploadId, out _);
+            foreach (var key in _chunkedFiles.Keys.Where(k => k.uploadId == uploadId))
+            {
+                _chunkedFiles.TryRemove(key, out _);
+            }
         });
 
         return (cleanup, $"/upload/{connectionId}/{uploadId}");
@@ -59,13 +116,18 @@ public class UploadService(string connectionId) : IUploadService, IDisposable
             return new BadRequestObjectResult($"Invalid or unknown uploadId: '{uploadId}'.");
         }
 
-        var (handler, expectedContentType, expectedFileName) = upload;
+        var (handler, expectedContentType, expectedFileName, maxFileSize) = upload;
 
         if (file == null || file.Length == 0)
         {
             return new BadRequestObjectResult("Empty file.");
         }
 
+        if (file.Length > maxFileSize)
+        {
+            return TooLarge(maxFileSize);
+        }
+
         // Optional sanity checks; do not block upload if mismatched, just basic validation could be enforced here
         // If strict validation is desired, uncomment the checks below
         // if (!string.IsNullOrWhiteSpace(expectedContentType) && !string.Equals(file.ContentType, expectedContentType, StringComparison.OrdinalIgnoreCase))
@@ -82,15 +144,162 @@ public class UploadService(string connectionId) : IUploadService, IDisposable
         return new OkResult();
     }
 
+    public async Task<IActionResult> UploadChunk(string uploadId, string fileId, int index, int total, IFormFile chunk)
+    {
+        if (!Guid.TryParse(uploadId, out var guid) || !_uploads.TryGetValue(guid, out var upload))
+        {
+            return new BadRequestObjectResult($"Invalid or unknown uploadId: '{uploadId}'.");
+        }
+
+        // A file needs at least one byte per chunk
+        if (total > MaxChunks || total > upload.maxFileSize)
+        {
+            return new BadRequestObjectResult($"A file may be sent in at most {Math.Min(MaxChunks, upload.maxFileSize)} chunks.");
+        }
+
+        RemoveStaleFiles();
+
+        using var memoryStream = new MemoryStream();
+        await chunk.CopyToAsync(memoryStream);
+
+        var key = (guid, fileId);
+        var file = _chunkedFiles.GetOrAdd(key, _ => new ChunkedFile(total));
+        if (file.Total != total)
+        {
+            return new BadRequestObjectResult($"Expected {file.Total} chunks for file '{fileId}', got {total}.");
+        }
+
+        byte[]? fileBytes;
+        lock (file)
+        {
+            file.Add(index, memoryStream.ToArray());
+            if (file.Size > upload.maxFileSize)
+            {
+                _chunkedFiles.TryRemove(key, out _);
+                return TooLarge(upload.maxFileSize);
+            }
+            fileBytes = file.TryAssemble();
+        }
+
+        // Chunks may be sent again after a retry; the handler runs until it succeeds once per file
+        if (fileBytes != null)
+        {
+            try
+            {
+                await upload.handler(fileBytes);
+            }
+            catch
+            {
+                lock (file)
+                {
+                    file.Assembling = false;
+                }
+                throw;
+            }
+            lock (file)
+            {
+                file.Completed = true;
+            }
+            _chunkedFiles.TryRemove(key, out _);
+        }
+
+        return new OkResult();
+    }
+
+    public IActionResult GetChunkStatus(string uploadId, string fileId)
+    {
+        if (!Guid.TryParse(uploadId, out var guid) || !_uploads.ContainsKey(guid))
+        {
+            return new BadRequestObjectResult($"Invalid or unknown uploadId: '{uploadId}'.");
+        }
+
+        RemoveStaleFiles();
+
+        if (!_chunkedFiles.TryGetValue((guid, fileId), out var file))
+        {
+            return new OkObjectResult(new { received = Array.Empty<int>() });
+        }
+
+        lock (file)
+        {
+            return new OkObjectResult(new { received = file.Received });
+        }
+    }
+
     public void Dispose()
     {
         _uploads.Clear();
+        _chunkedFiles.Clear();
+    }
+
+    private static ObjectResult TooLarge(long maxFileSize) =>
+        new($"File exceeds the maximum size of {maxFileSize} bytes.") { StatusCode = StatusCodes.Status413PayloadTooLarge };
+
+    // Files whose upload was abandoned are dropped once no chunk arrived for a while
+    private void RemoveStaleFiles()
+    {
+        var expired = DateTime.UtcNow - PartialFileTimeout;
+        foreach (var (key, file) in _chunkedFiles)
+        {
+            if (file.LastChunkAt < expired)
+            {
+                _chunkedFiles.TryRemove(key, out _);
+            }
+        }
+    }
+
+    private class ChunkedFile(int total)
+    {
+        private readonly Dictionary<int, byte[]> _chunks = new();
+
+        public int Total { get; } = total;
+
+        /// <summary>Bytes received so far.</summary>
+        public long Size { get; private set; }
+
+        public DateTime LastChunkAt { get; private set; } = DateTime.UtcNow;
+
+        /// <summary>Set while the handler runs for the assembled file.</summary>
+        public bool Assembling { get; set; }
+
+        /// <summary>Set once the handler succeeded.</summary>
+        public bool Completed { get; set; }
+
+        public int[] Received => _chunks.Keys.Order().ToArray();
+
+        public void Add(int index, byte[] chunk)
+        {
+            Size += chunk.Length - (_chunks.TryGetValue(index, out var previous) ? previous.Length : 0);
+            _chunks[index] = chunk;
+            LastChunkAt = DateTime.UtcNow;
+        }
+
+        /// <summary>Returns the whole file once all chunks arrived, unless it is already handled.</summary>
+        public byte[]? TryAssemble()
+        {
+            if (Completed || Assembling || _chunks.Count < Total) return null;
+
+            Assembling = true;
+            var result = new byte[Size];
+            var offset = 0;
+            for (var i = 0; i < Total; i++)
+            {
+                var chunk = _chunks[i];
+                chunk.CopyTo(result, offset);
+                offset += chunk.Length;
+            }
+            return result;
+        }
     }
 }
 
 public interface IUploadService
 {
-    (IDisposable cleanup, string url) AddUpload(Func<byte[], Task> handler, string mimeType, string fileName);
+    (IDisposable cleanup, string url) AddUpload(Func<byte[], Task> handler, string mimeType, string fileName, long? maxFileSize = null);
 
     Task<IActionResult> Upload(string uploadId, IFormFile file);
+
+    Task<IActionResult> UploadChunk(string uploadId, string fileId, int index, int total, IFormFile chunk);
+
+    IActionResult GetChunkStatus(string uploadId, string fileId);
 }
\ No newline at end of file
@@ -0,0 +1,99 @@
+using System.Reactive.Subjects;
+using Ivy.Core;
+
+namespace Ivy.Services;
+
+public class SetUrlStateMessage
+{
+    public required Dictionary<string, string?> State { get; set; }
+    public required bool Replace { get; set; }
+}
+
+/// <summary>
+/// Query parameters of the browser URL that belong to the app. Changing them adds a history entry
+/// (or replaces the current one), and navigating back or forward in the browser is reported to subscribers.
+/// </summary>
+public interface IUrlStateService
+{
+    /// <summary>The current URL state, without the parameters Ivy itself uses.</summary>
+    IReadOnlyDictionary<string, string> State { get; }
+
+    /// <summary>Gets the value of a query parameter, or null when it is not in the URL.</summary>
+    string? Get(string key);
+
+    /// <summary>Sets or removes (with a null value) a query parameter.</summary>
+    /// <param name="key">The query parameter.</param>
+    /// <param name="value">The new value, or null to remove the parameter.</param>
+    /// <param name="replace">Whether to replace the current history entry instead of adding one.</param>
+    void Set(string key, string? value, bool replace = false);
+
+    /// <summary>Called with the new state when the user navigates back or forward.</summary>
+    IDisposable Subscribe(Action<IReadOnlyDictionary<string, string>> onPopState);
+}
+
+public class UrlStateService(IClientProvider client, IReadOnlyDictionary<string, string> initialState) : IUrlStateService, IDisposable
+{
+    /// <summary>Query parameters used by Ivy to select the app, which apps cannot use for their state.</summary>
+    public static readonly string[] ReservedKeys = ["appId", "appArgs", "parentId", "machineId", "ivyHost"];
+
+    private readonly object _lock = new();
+    private readonly Subject<IReadOnlyDictionary<string, string>> _popState = new();
+    private Dictionary<string, string> _state = WithoutReservedKeys(initialState);
+
+    public IReadOnlyDictionary<string, string> State
+    {
+        get
+        {
+            lock (_lock) return new Dictionary<string, string>(_state);
+        }
+    }
+
+    public string? Get(string key)
+    {
+        lock (_lock) return _state.GetValueOrDefault(key);
+    }
+
+    public void Set(string key, string? value, bool replace = false)
+    {
+        if (ReservedKeys.Contains(key, StringComparer.OrdinalIgnoreCase))
+        {
+            throw new ArgumentException($"'{key}' is used by Ivy and cannot be part of the URL state.", nameof(key));
+        }
+
+        lock (_lock)
+        {
+            if (_state.GetValueOrDefault(key) == value) return;
+            if (value == null) _state.Remove(key);
+            else _state[key] = value;
+        }
+
+        client.Sender.Send("SetUrlState", new SetUrlStateMessage
+        {
+            State = new Dictionary<string, string?> { [key] = value },
+            Replace = replace
+        });
+    }
+
+    public IDisposable Subscribe(Action<IReadOnlyDictionary<string, string>> onPopState)
+    {
+        return _popState.Subscribe(onPopState);
+    }
+
+    /// <summary>Takes over the state of the history entry the user navigated to.</summary>
+    public void PopState(IReadOnlyDictionary<string, string> state)
+    {
+        var newState = WithoutReservedKeys(state);
+        lock (_lock) _state = newState;
+        _popState.OnNext(new Dictionary<string, string>(newState));
+    }
+
+    public void Dispose()
+    {
+        _popState.Dispose();
+    }
+
+    private static Dictionary<string, string> WithoutReservedKeys(IReadOnlyDictionary<string, string> state) =>
+        state
+            .Where(e => !ReservedKeys.Contains(e.Key, StringComparer.OrdinalIgnoreCase))
+            .ToDictionary(e => e.Key, e => e.Value);
+}
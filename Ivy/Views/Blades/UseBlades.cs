@@ -1,6 +1,7 @@
 using System.Collections.Immutable;
 using Ivy.Core;
 using Ivy.Core.Hooks;
+using Ivy.Services;
 using Ivy.Shared;
 
 namespace Ivy.Views.Blades;
@@ -25,7 +26,8 @@ public interface IBladeController
     /// <param name="title">Optional title for the blade header.</param>
     /// <param name="toIndex">Optional index to insert the blade at. Defaults to the end of the stack.</param>
     /// <param name="width">Optional width constraint for the blade.</param>
-    void Push(IView bladeView, string? title = null, int? toIndex = null, Size? width = null);
+    /// <param name="linkKey">Optional key that the link resolver of UseBlades turns back into this blade, so links restore it.</param>
+    void Push(IView bladeView, string? title = null, int? toIndex = null, Size? width = null, string? linkKey = null);
 
     /// <summary>
     /// Pushes a new blade onto the navigation stack after the specified current view.
@@ -34,7 +36,8 @@ public interface IBladeController
     /// <param name="bladeView">The view to display in the new blade.</param>
     /// <param name="title">Optional title for the blade header.</param>
     /// <param name="width">Optional width constraint for the blade.</param>
-    void Push(IView currentView, IView bladeView, string? title = null, Size? width = null);
+    /// <param name="linkKey">Optional key that the link resolver of UseBlades turns back into this blade, so links restore it.</param>
+    void Push(IView currentView, IView bladeView, string? title = null, Size? width = null, string? linkKey = null);
 
     /// <summary>
     /// Pops blades from the navigation stack back to the specified index.
@@ -95,12 +98,13 @@ public class BladeController : IBladeController
     /// <param name="title">Optional title for the blade header.</param>
     /// <param name="toIndex">Optional index to insert the blade at. Defaults to the end of the stack.</param>
     /// <param name="width">Optional width constraint for the blade.</param>
-    public void Push(IView bladeView, string? title = null, int? toIndex = null, Size? width = null)
+    /// <param name="linkKey">Optional key that the link resolver of UseBlades turns back into this blade, so links restore it.</param>
+    public void Push(IView bladeView, string? title = null, int? toIndex = null, Size? width = null, string? linkKey = null)
     {
         toIndex ??= Blades.Value.Length - 1;
         //make sure toIndex is within bounds or do nothing if it is not
         if (toIndex < 0 || toIndex >= Blades.Value.Length) return;
-        var blade = new BladeItem(bladeView, toIndex.Value + 1, title, width);
+        var blade = new BladeItem(bladeView, toIndex.Value + 1, title, width, linkKey);
         ImmutableArray<BladeItem> immutableArray = [.. Blades.Value.Take(toIndex.Value + 1).Append(blade)];
         Blades.Set(immutableArray);
     }
@@ -112,10 +116,11 @@ public class BladeController : IBladeController
     /// <param name="bladeView">The view to display in the new blade.</param>
     /// <param name="title">Optional title for the blade header.</param>
     /// <param name="width">Optional width constraint for the blade.</param>
-    public void Push(IView currentView, IView bladeView, string? title = null, Size? width = null)
+    /// <param name="linkKey">Optional key that the link resolver of UseBlades turns back into this blade, so links restore it.</param>
+    public void Push(IView currentView, IView bladeView, string? title = null, Size? width = null, string? linkKey = null)
     {
         var index = GetIndex(currentView);
-        Push(bladeView, title, index, width);
+        Push(bladeView, title, index, width, linkKey);
     }
 
     /// <summary>
@@ -153,7 +158,7 @@ public class BladeController : IBladeController
 /// Contains the view, positioning, and display information for a blade in the navigation stack,
 /// including refresh token for cache invalidation and unique key for rendering optimization.
 /// </remarks>
-public class BladeItem(IView view, int index, string? title, Size? width = null)
+public class BladeItem(IView view, int index, string? title, Size? width = null, string? linkKey = null)
 {
     /// <summary>Gets the unique key for this blade item used for rendering optimization.</summary>
     /// <value>A unique GUID string that identifies this blade instance.</value>
@@ -178,8 +183,20 @@ public class BladeItem(IView view, int index, string? title, Size? width = null)
     /// <summary>Gets or sets the optional width constraint for this blade.</summary>
     /// <value>The width constraint, or null to use default blade sizing.</value>
     public Size? Width { get; set; } = width;
+
+    /// <summary>Gets or sets the key that restores this blade from a link.</summary>
+    /// <value>The key passed to the link resolver of UseBlades, or null when the blade cannot be linked to.</value>
+    public string? LinkKey { get; set; } = linkKey;
 }
 
+/// <summary>
+/// A blade created from a link key by the link resolver of UseBlades.
+/// </summary>
+/// <param name="View">The view to display in the blade.</param>
+/// <param name="Title">Optional title for the blade header.</param>
+/// <param name="Width">Optional width constraint for the blade.</param>
+public record BladeLink(IView View, string? Title = null, Size? Width = null);
+
 /// <summary>
 /// Extension methods for creating and managing blade navigation systems.
 /// </summary>
@@ -197,9 +214,11 @@ public static class UseBladesExtensions
     /// <param name="rootBlade">A factory function that creates the root blade view.</param>
     /// <param name="title">Optional title for the root blade.</param>
     /// <param name="width">Optional width constraint for the root blade.</param>
+    /// <param name="urlKey">Optional query parameter that keeps the link keys of the open blades in the browser URL.</param>
+    /// <param name="resolveLink">Optional factory that creates the blade for a link key, or returns null for an unknown key.</param>
     /// <returns>A BladesView that manages the blade navigation interface.</returns>
-    public static IView UseBlades<TView>(this TView view, Func<IView> rootBlade, string? title = null, Size? width = null) where TView : ViewBase =>
-        view.Context.UseBlades(rootBlade, title, width);
+    public static IView UseBlades<TView>(this TView view, Func<IView> rootBlade, string? title = null, Size? width = null, string? urlKey = null, Func<string, BladeLink?>? resolveLink = null) where TView : ViewBase =>
+        view.Context.UseBlades(rootBlade, title, width, urlKey, resolveLink);
 
     /// <summary>
     /// Creates a blade navigation system with the specified root blade for the given context.
@@ -208,6 +227,14 @@ public static class UseBladesExtensions
     /// <param name="rootBlade">A factory function that creates the root blade view.</param>
     /// <param name="title">Optional title for the root blade.</param>
     /// <param name="width">Optional width constraint for the root blade.</param>
+    /// <param name="urlKey">
+    /// Optional query parameter that keeps the link keys of the open blades in the browser URL. Opening a blade adds
+    /// a history entry, so the back button closes it again and the forward button reopens it.
+    /// </param>
+    /// <param name="resolveLink">
+    /// Optional factory that creates the blade for a link key given to Push, or returns null for an unknown key.
+    /// Links restore the blade stack up to the first blade that was pushed without a key or cannot be resolved.
+    /// </param>
     /// <returns>A BladesView that manages the blade navigation interface.</returns>
     /// <remarks>
     /// This method sets up the complete blade navigation system including:
@@ -216,11 +243,83 @@ public static class UseBladesExtensions
     /// - Setting up the context for blade management
     /// - Returning a BladesView to render the interface
     /// </remarks>
-    public static IView UseBlades(this IViewContext context, Func<IView> rootBlade, string? title = null, Size? width = null)
+    public static IView UseBlades(this IViewContext context, Func<IView> rootBlade, string? title = null, Size? width = null, string? urlKey = null, Func<string, BladeLink?>? resolveLink = null)
     {
-        var blades = context.UseState<ImmutableArray<BladeItem>>(() => [new BladeItem(rootBlade(), 0, title, width)]);
+        var urlState = urlKey != null ? context.UseService<IUrlStateService>() : null;
+        var blades = context.UseState<ImmutableArray<BladeItem>>(() =>
+        {
+            ImmutableArray<BladeItem> root = [new BladeItem(rootBlade(), 0, title, width)];
+            return urlState != null ? BladeLinks.Restore(root, urlState.Get(urlKey!), resolveLink) : root;
+        });
         context.CreateContext<IBladeController>(() => new BladeController(blades));
+        if (urlState != null)
+        {
+            context.UseBladesUrlState(urlState, blades, urlKey!, resolveLink);
+        }
         IView bladeView = new BladesView();
         return bladeView;
     }
-}
\ No newline at end of file
+
+    private static void UseBladesUrlState(this IViewContext context, IUrlStateService urlState, IState<ImmutableArray<BladeItem>> blades, string urlKey, Func<string, BladeLink?>? resolveLink)
+    {
+        context.UseEffect(() =>
+        {
+            // Drop the keys of a link that could not be restored
+            urlState.Set(urlKey, BladeLinks.Format(blades.Value), replace: true);
+
+            return urlState.Subscribe(values =>
+            {
+                var restored = BladeLinks.Restore(blades.Value, values.GetValueOrDefault(urlKey), resolveLink);
+                if (!restored.SequenceEqual(blades.Value))
+                {
+                    blades.Set(restored);
+                }
+                urlState.Set(urlKey, BladeLinks.Format(restored), replace: true);
+            });
+        }, [EffectTrigger.AfterInit()]);
+
+        context.UseEffect(() => urlState.Set(urlKey, BladeLinks.Format(blades.Value)), [blades]);
+    }
+}
+
+/// <summary>
+/// Keeps a blade stack in the browser URL as the escaped link keys of the blades after the root, separated by slashes.
+/// Blades pushed without a link key are written as an asterisk, so the back button can still close them.
+/// </summary>
+internal static class BladeLinks
+{
+    private const string Unlinked = "*";
+
+    public static string? Format(IEnumerable<BladeItem> blades)
+    {
+        var keys = blades.Skip(1).Select(e => e.LinkKey != null ? Uri.EscapeDataString(e.LinkKey) : Unlinked).ToArray();
+        return keys.Length > 0 ? string.Join('/', keys) : null;
+    }
+
+    /// <summary>
+    /// Rebuilds the stack of a URL value, keeping the blades of the current stack that the URL still holds
+    /// and creating the following ones from their link keys.
+    /// </summary>
+    public static ImmutableArray<BladeItem> Restore(ImmutableArray<BladeItem> current, string? value, Func<string, BladeLink?>? resolveLink)
+    {
+        string[] segments = string.IsNullOrEmpty(value) ? [] : value.Split('/');
+        var kept = 1;
+        while (kept < current.Length && kept - 1 < segments.Length &&
+               segments[kept - 1] == (current[kept].LinkKey != null ? Uri.EscapeDataString(current[kept].LinkKey!) : Unlinked))
+        {
+            kept++;
+        }
+
+        var result = current.Take(kept).ToList();
+        foreach (var segment in segments.Skip(kept - 1))
+        {
+            if (segment == Unlinked || resolveLink == null) break;
+            var linkKey = Uri.UnescapeDataString(segment);
+            var link = resolveLink(linkKey);
+            if (link == null) break;
+            result.Add(new BladeItem(link.View, result.Count, link.Title, link.Width, linkKey));
+        }
+
+        return result.Count == current.Length && kept == current.Length ? current : [.. result];
+    }
+}
@@ -15,6 +15,9 @@ public class DataTableBuilder<TModel> : ViewBase
     private Size? _height;
     private readonly Dictionary<string, InternalColumn> _columns;
     private readonly DataTableConfiguration _configuration = new();
+    private Func<Event<DataTable, DataTableCellUpdate>, ValueTask>? _onCellUpdate;
+    private Func<Event<DataTable, DataTableViewState>, ValueTask>? _onViewSave;
+    private Func<Event<DataTable, DataTableLinkClick>, ValueTask>? _onLinkClick;
 
     private class InternalColumn
     {
@@ -67,6 +70,9 @@ public class DataTableBuilder<TModel> : ViewBase
         if (underlyingType == typeof(Guid) || underlyingType.IsEnum)
             return Ivy.ColType.Text;
 
+        if (QueryHelpers.GetNumericElementType(underlyingType) != null)
+            return Ivy.ColType.Sparkline;
+
         if (underlyingType.IsArray || typeof(System.Collections.IEnumerable).IsAssignableFrom(underlyingType))
             return Ivy.ColType.Text;
 
@@ -200,6 +206,40 @@ public class DataTableBuilder<TModel> : ViewBase
         return this;
     }
 
+    public DataTableBuilder<TModel> Editable(Expression<Func<TModel, object>> field, bool editable)
+    {
+        var column = GetColumn(field);
+        column.Column.Editable = editable;
+        return this;
+    }
+
+    public DataTableBuilder<TModel> Aggregate(Expression<Func<TModel, object>> field, AggregateFunction aggregate)
+    {
+        var column = GetColumn(field);
+        column.Column.Aggregate = aggregate;
+        return this;
+    }
+
+    /// <summary>
+    /// Shows the column as colored badges. Colors are CSS colors keyed by cell value; unmapped values use the default badge color.
+    /// </summary>
+    public DataTableBuilder<TModel> Badge(Expression<Func<TModel, object>> field, Dictionary<string, string>? colors = null)
+    {
+        var column = GetColumn(field);
+        column.Column.ColType = Ivy.ColType.Badge;
+        column.Column.BadgeColors = colors;
+        return this;
+    }
+
+    /// <summary>
+    /// Groups rows by one or more columns. Each level shows collapsible group rows with counts and column aggregates.
+    /// </summary>
+    public DataTableBuilder<TModel> GroupBy(params Expression<Func<TModel, object>>[] fields)
+    {
+        _configuration.GroupBy = fields.Select(field => GetColumn(field).Column.Name).ToArray();
+        return this;
+    }
+
     public DataTableBuilder<TModel> Renderer(Expression<Func<TModel, object>> field, IDataTableColumnRenderer renderer)
     {
         var column = GetColumn(field);
@@ -254,6 +294,51 @@ public class DataTableBuilder<TModel> : ViewBase
         return this;
     }
 
+    /// <summary>
+    /// Enables in-grid editing. The handler is called for every cell edit; throw to reject the edit.
+    /// </summary>
+    public DataTableBuilder<TModel> HandleCellUpdate(Func<Event<DataTable, DataTableCellUpdate>, ValueTask> onCellUpdate)
+    {
+        _onCellUpdate = onCellUpdate;
+        return this;
+    }
+
+    public DataTableBuilder<TModel> HandleCellUpdate(Action<Event<DataTable, DataTableCellUpdate>> onCellUpdate)
+    {
+        _onCellUpdate = onCellUpdate.ToValueTask();
+        return this;
+    }
+
+    /// <summary>
+    /// Called when the user saves a named view. Views are always kept in the browser; use this to persist them server-side.
+    /// </summary>
+    public DataTableBuilder<TModel> HandleViewSave(Func<Event<DataTable, DataTableViewState>, ValueTask> onViewSave)
+    {
+        _onViewSave = onViewSave;
+        return this;
+    }
+
+    public DataTableBuilder<TModel> HandleViewSave(Action<Event<DataTable, DataTableViewState>> onViewSave)
+    {
+        _onViewSave = onViewSave.ToValueTask();
+        return this;
+    }
+
+    /// <summary>
+    /// Called when a Link cell is clicked. Without a handler, links open in a new browser tab.
+    /// </summary>
+    public DataTableBuilder<TModel> HandleLinkClick(Func<Event<DataTable, DataTableLinkClick>, ValueTask> onLinkClick)
+    {
+        _onLinkClick = onLinkClick;
+        return this;
+    }
+
+    public DataTableBuilder<TModel> HandleLinkClick(Action<Event<DataTable, DataTableLinkClick>> onLinkClick)
+    {
+        _onLinkClick = onLinkClick.ToValueTask();
+        return this;
+    }
+
     public override object? Build()
     {
         var chatClient = this.UseService<IChatClient?>();
@@ -271,6 +356,6 @@ public class DataTableBuilder<TModel> : ViewBase
             configuration = _configuration with { AllowLlmFiltering = true };
         }
 
-        return new DataTableView(queryable, width, _height, columns, configuration);
+        return new DataTableView(queryable, width, _height, columns, configuration, _onCellUpdate, _onViewSave, _onLinkClick);
     }
 }
\ No newline at end of file
@@ -20,6 +20,8 @@ public class DataTableService(
     )
     : Protos.DataTable.DataTableService.DataTableServiceBase
 {
+    private const int StreamBatchSize = 10000;
+
     public override Task<DataTableResult> Query(DataTableQuery request, ServerCallContext context)
     {
         try
@@ -40,20 +42,52 @@ public class DataTableService(
             var queryProcessor = new QueryProcessor(logger: null, cache: cache);
             var queryResult = queryProcessor.ProcessQuery(queryable, queryToUse);
 
-            var tableResult = new DataTableResult
+            return Task.FromResult(ToDataTableResult(queryResult));
+        }
+        catch (RpcException)
+        {
+            throw;
+        }
+        catch (Exception ex)
+        {
+            throw new RpcException(new Status(StatusCode.Internal, $"Internal server error: {ex.Message}"));
+        }
+    }
+
+    /// <summary>
+    /// Streams the requested rows as a sequence of Arrow record batches of at most StreamBatchSize rows,
+    /// cut from a single run of the query. Aggregations and groups are only sent with the first batch.
+    /// </summary>
+    public override async Task QueryStream(DataTableQuery request, IServerStreamWriter<DataTableResult> responseStream, ServerCallContext context)
+    {
+        try
+        {
+            if (string.IsNullOrEmpty(request.SourceId))
             {
-                ArrowIpcStream = Google.Protobuf.ByteString.CopyFrom(queryResult.ArrowData),
-                Offset = queryResult.Offset,
-                RowCount = queryResult.RowCount,
-                TotalRows = queryResult.TotalRows
-            };
+                throw new RpcException(new Status(StatusCode.InvalidArgument, "SourceId is required in the request."));
+            }
 
-            return Task.FromResult(tableResult);
+            var queryable = queryableRegistry.GetQueryable(request.SourceId);
+            if (queryable == null)
+            {
+                throw new RpcException(new Status(StatusCode.NotFound, $"Queryable '{request.SourceId}' not found."));
+            }
+
+            var queryProcessor = new QueryProcessor(logger: null, cache: cache);
+            foreach (var batch in queryProcessor.ProcessQueryBatches(queryable, request, StreamBatchSize))
+            {
+                context.CancellationToken.ThrowIfCancellationRequested();
+                await responseStream.WriteAsync(ToDataTableResult(batch), context.CancellationToken);
+            }
         }
         catch (RpcException)
         {
             throw;
         }
+        catch (OperationCanceledException)
+        {
+            throw new RpcException(new Status(StatusCode.Cancelled, "Query was cancelled."));
+        }
         catch (Exception ex)
         {
             throw new RpcException(new Status(StatusCode.Internal, $"Internal server error: {ex.Message}"));
@@ -148,4 +182,31 @@ public class DataTableService(
             throw new RpcException(new Status(StatusCode.Internal, $"Internal server error: {ex.Message}"));
         }
     }
-}
\ No newline at end of file
+
+    private static DataTableResult ToDataTableResult(QueryResult queryResult)
+    {
+        var tableResult = new DataTableResult
+        {
+            ArrowIpcStream = Google.Protobuf.ByteString.CopyFrom(queryResult.ArrowData),
+            Offset = queryResult.Offset,
+            RowCount = queryResult.RowCount,
+            TotalRows = queryResult.TotalRows
+        };
+        tableResult.Aggregations.AddRange(queryResult.Aggregations.Select(ToAggregationResult));
+        tableResult.Groups.AddRange(queryResult.Groups.Select(g =>
+        {
+            var group = new GroupResult { Key = g.Key ?? "", IsNull = g.Key == null, Count = g.Count };
+            group.Aggregations.AddRange(g.Aggregations.Select(ToAggregationResult));
+            return group;
+        }));
+        return tableResult;
+    }
+
+    private static AggregationResult ToAggregationResult(AggregateResult aggregate) => new()
+    {
+        Column = aggregate.Column,
+        Function = aggregate.Function,
+        Value = aggregate.Value ?? 0,
+        HasValue = aggregate.Value.HasValue
+    };
+}
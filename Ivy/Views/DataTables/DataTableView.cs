@@ -3,12 +3,27 @@ using Ivy.Shared;
 
 namespace Ivy.Views.DataTables;
 
-public class DataTableView(IQueryable queryable, Size? width, Size? height, DataTableColumn[] columns, DataTableConfiguration configuration) : ViewBase
+public class DataTableView(
+    IQueryable queryable,
+    Size? width,
+    Size? height,
+    DataTableColumn[] columns,
+    DataTableConfiguration configuration,
+    Func<Event<DataTable, DataTableCellUpdate>, ValueTask>? onCellUpdate = null,
+    Func<Event<DataTable, DataTableViewState>, ValueTask>? onViewSave = null,
+    Func<Event<DataTable, DataTableLinkClick>, ValueTask>? onLinkClick = null
+) : ViewBase
 {
     public override object? Build()
     {
         var connection = this.UseDataTable(queryable);
         if (connection == null) return null;
-        return new DataTable(connection, width, height, columns, configuration);
+        return new DataTable(connection, width, height, columns, configuration)
+        {
+            Editable = onCellUpdate != null,
+            OnCellUpdate = onCellUpdate,
+            OnViewSave = onViewSave,
+            OnLinkClick = onLinkClick
+        };
     }
 }
\ No newline at end of file
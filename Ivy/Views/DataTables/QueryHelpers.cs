@@ -29,10 +29,34 @@ public static class QueryHelpers
             Decimal128Type => new Decimal128Array.Builder((Decimal128Type)arrowType).Build(),
             BinaryType => new BinaryArray.Builder().Build(),
             StringType => new StringArray.Builder().Build(),
+            ListType listType => new ListArray.Builder(listType.ValueDataType).Build(),
             _ => new StringArray.Builder().Build()
         };
     }
 
+    /// <summary>
+    /// Returns the element type of numeric arrays and sequences such as double[] or List&lt;int&gt;, or null for any other type.
+    /// These are sent as lists of doubles and shown as sparklines.
+    /// </summary>
+    public static SystemType? GetNumericElementType(SystemType type)
+    {
+        if (type == typeof(string) || type == typeof(byte[]))
+            return null;
+
+        var elementType = type.IsArray
+            ? type.GetElementType()
+            : type.GetInterfaces()
+                .Append(type)
+                .FirstOrDefault(i => i.IsGenericType && i.GetGenericTypeDefinition() == typeof(IEnumerable<>))?
+                .GetGenericArguments()[0];
+
+        if (elementType == null)
+            return null;
+
+        var underlyingType = Nullable.GetUnderlyingType(elementType) ?? elementType;
+        return !underlyingType.IsEnum && underlyingType.IsNumeric() ? elementType : null;
+    }
+
     public static IArrowType GetArrowType(SystemType type)
     {
         var underlyingType = Nullable.GetUnderlyingType(type) ?? type;
@@ -58,6 +82,7 @@ public static class QueryHelpers
             SystemType t when t == typeof(Guid) => StringType.Default,
             SystemType t when t == typeof(byte[]) => BinaryType.Default,
             SystemType t when t == typeof(string) => StringType.Default,
+            SystemType t when GetNumericElementType(t) != null => new ListType(DoubleType.Default),
             _ => StringType.Default
         };
     }
@@ -108,10 +133,35 @@ public static class QueryHelpers
                 CreateBinaryArray(values),
             SystemType t when t == typeof(string) =>
                 CreateStringArray(values),
+            SystemType t when GetNumericElementType(t) != null =>
+                CreateDoubleListArray(values),
             _ => CreateStringArray(values)
         };
     }
 
+    public static IArrowArray CreateDoubleListArray(List<object?> values)
+    {
+        var builder = new ListArray.Builder(DoubleType.Default);
+        var valueBuilder = (DoubleArray.Builder)builder.ValueBuilder;
+        foreach (var value in values)
+        {
+            if (value is System.Collections.IEnumerable items)
+            {
+                builder.Append();
+                foreach (var item in items)
+                {
+                    if (item == null)
+                        valueBuilder.AppendNull();
+                    else
+                        valueBuilder.Append(Convert.ToDouble(item, System.Globalization.CultureInfo.InvariantCulture));
+                }
+            }
+            else
+                builder.AppendNull();
+        }
+        return builder.Build();
+    }
+
     public static IArrowArray CreateInt32Array(List<object?> values)
     {
         var builder = new Int32Array.Builder();
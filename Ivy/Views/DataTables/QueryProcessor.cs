@@ -17,6 +17,23 @@ public class QueryResult
     public int Offset { get; set; }
     public int RowCount { get; set; }
     public int TotalRows { get; set; }
+    public List<AggregateResult> Aggregations { get; set; } = new();
+    public List<GroupSummary> Groups { get; set; } = new();
+}
+
+public class GroupSummary
+{
+    /// <summary>Invariant string form of the group value, or null for the group of null and empty values.</summary>
+    public string? Key { get; set; }
+    public int Count { get; set; }
+    public List<AggregateResult> Aggregations { get; set; } = new();
+}
+
+public class AggregateResult
+{
+    public string Column { get; set; } = "";
+    public string Function { get; set; } = "";
+    public double? Value { get; set; }
 }
 
 public class ValuesResult
@@ -33,6 +50,7 @@ public class ValuesResult
 /// The QueryProcessor handles the following operations:
 /// - Sorting: Supports multi-column sorting with ascending/descending directions
 /// - Pagination: Implements offset and limit for result set pagination
+/// - Grouping: Returns counts and aggregates per distinct value of a column, paged like rows
 /// - Data conversion: Converts .NET objects to Apache Arrow table format for optimal performance
 /// 
 /// The processor works with any IQueryable&lt;T&gt; data source and returns serialized Arrow data
@@ -73,6 +91,20 @@ public class QueryProcessor(ILogger<QueryProcessor>? logger = null, IDistributed
                 logger?.LogDebug("Filter applied successfully");
             }
 
+            // Compute aggregations over the filtered rows, independent of the current page
+            var aggregations = query.Aggregations
+                .Select(aggregation => ComputeAggregation(processedQuery, aggregation))
+                .ToList();
+
+            // Group queries return one entry per distinct value instead of rows
+            if (!string.IsNullOrEmpty(query.GroupBy))
+            {
+                var groupResult = ComputeGroups(processedQuery, query);
+                groupResult.Aggregations = aggregations;
+                StoreInCache(cacheKey, groupResult);
+                return groupResult;
+            }
+
             // Apply sorting
             if (query.Sort.Any())
             {
@@ -84,27 +116,7 @@ public class QueryProcessor(ILogger<QueryProcessor>? logger = null, IDistributed
             logger?.LogDebug("Total rows before pagination: {TotalRows}", totalRows);
 
             // Apply pagination
-            if (query.Offset > 0)
-            {
-                var skipMethod = typeof(Queryable).GetMethods()
-                    .FirstOrDefault(m => m.Name == "Skip" && m.GetParameters().Length == 2)?
-                    .MakeGenericMethod(queryable.ElementType);
-
-                if (skipMethod != null)
-                {
-                    processedQuery = (IQueryable)skipMethod.Invoke(null, new object[] { processedQuery, query.Offset })!;
-                }
-            }
-
-            // Apply limit - always apply if specified, even if 0
-            var takeMethod = typeof(Queryable).GetMethods()
-                .FirstOrDefault(m => m.Name == "Take" && m.GetParameters().Length == 2)?
-                .MakeGenericMethod(queryable.ElementType);
-
-            if (takeMethod != null)
-            {
-                processedQuery = (IQueryable)takeMethod.Invoke(null, new object[] { processedQuery, query.Limit })!;
-            }
+            processedQuery = ApplyPagination(processedQuery, query.Offset, query.Limit);
 
             // Execute query and get results
             logger?.LogDebug("Executing query");
@@ -121,28 +133,11 @@ public class QueryProcessor(ILogger<QueryProcessor>? logger = null, IDistributed
                 ArrowData = arrowData,
                 Offset = query.Offset,
                 RowCount = results.Count,
-                TotalRows = totalRows
+                TotalRows = totalRows,
+                Aggregations = aggregations
             };
 
-            // Store in cache if enabled
-            if (cache != null && cacheKey != null)
-            {
-                try
-                {
-                    var serialized = SerializeQueryResult(result);
-                    var cacheOptions = new DistributedCacheEntryOptions
-                    {
-                        SlidingExpiration = TimeSpan.FromMinutes(5),
-                        AbsoluteExpirationRelativeToNow = TimeSpan.FromMinutes(30)
-                    };
-                    cache.Set(cacheKey, serialized, cacheOptions);
-                    logger?.LogDebug("Stored query result in cache");
-                }
-                catch (Exception cacheEx)
-                {
-                    logger?.LogWarning(cacheEx, "Failed to cache query result");
-                }
-            }
+            StoreInCache(cacheKey, result);
 
             return result;
         }
@@ -153,6 +148,264 @@ public class QueryProcessor(ILogger<QueryProcessor>? logger = null, IDistributed
         }
     }
 
+    /// <summary>
+    /// Runs the query once and cuts its rows into Arrow record batches of at most batchSize rows, so a large result
+    /// is streamed without running the query again for every batch. The total row count and aggregations come
+    /// with the first batch, and a grouped query yields a single result of groups. Batches are not cached.
+    /// </summary>
+    public IEnumerable<QueryResult> ProcessQueryBatches(IQueryable queryable, DataTableQuery query, int batchSize)
+    {
+        if (!string.IsNullOrEmpty(query.GroupBy))
+        {
+            yield return ProcessQuery(queryable, query);
+            yield break;
+        }
+
+        var processedQuery = queryable;
+        if (query.Filter != null)
+        {
+            processedQuery = ApplyFilter(processedQuery, query.Filter);
+        }
+
+        var aggregations = query.Aggregations
+            .Select(aggregation => ComputeAggregation(processedQuery, aggregation))
+            .ToList();
+
+        if (query.Sort.Any())
+        {
+            processedQuery = ApplySort(processedQuery, query.Sort);
+        }
+
+        var totalRows = processedQuery.Cast<object>().Count();
+        processedQuery = ApplyPagination(processedQuery, query.Offset, query.Limit);
+
+        var offset = query.Offset;
+        var rows = new List<object>();
+        var first = true;
+
+        QueryResult CreateBatch()
+        {
+            var batch = new QueryResult
+            {
+                ArrowData = ConvertToArrowTable(rows, query.SelectColumns, queryable.ElementType),
+                Offset = offset,
+                RowCount = rows.Count,
+                TotalRows = totalRows,
+                Aggregations = first ? aggregations : new()
+            };
+            offset += rows.Count;
+            rows.Clear();
+            first = false;
+            return batch;
+        }
+
+        foreach (var row in processedQuery.Cast<object>())
+        {
+            rows.Add(row);
+            if (rows.Count >= batchSize)
+            {
+                yield return CreateBatch();
+            }
+        }
+
+        // Always end with a batch when there were no rows, so the client receives the total row count
+        if (rows.Count > 0 || first)
+        {
+            yield return CreateBatch();
+        }
+    }
+
+    private static IQueryable ApplyPagination(IQueryable query, int offset, int limit)
+    {
+        if (offset > 0)
+        {
+            var skipMethod = typeof(Queryable).GetMethods()
+                .FirstOrDefault(m => m.Name == "Skip" && m.GetParameters().Length == 2)?
+                .MakeGenericMethod(query.ElementType);
+
+            if (skipMethod != null)
+            {
+                query = (IQueryable)skipMethod.Invoke(null, new object[] { query, offset })!;
+            }
+        }
+
+        // Apply limit - always apply if specified, even if 0
+        var takeMethod = typeof(Queryable).GetMethods()
+            .FirstOrDefault(m => m.Name == "Take" && m.GetParameters().Length == 2)?
+            .MakeGenericMethod(query.ElementType);
+
+        if (takeMethod != null)
+        {
+            query = (IQueryable)takeMethod.Invoke(null, new object[] { query, limit })!;
+        }
+
+        return query;
+    }
+
+    private void StoreInCache(string? cacheKey, QueryResult result)
+    {
+        if (cache == null || cacheKey == null) return;
+
+        try
+        {
+            var serialized = SerializeQueryResult(result);
+            var cacheOptions = new DistributedCacheEntryOptions
+            {
+                SlidingExpiration = TimeSpan.FromMinutes(5),
+                AbsoluteExpirationRelativeToNow = TimeSpan.FromMinutes(30)
+            };
+            cache.Set(cacheKey, serialized, cacheOptions);
+            logger?.LogDebug("Stored query result in cache");
+        }
+        catch (Exception cacheEx)
+        {
+            logger?.LogWarning(cacheEx, "Failed to cache query result");
+        }
+    }
+
+    private QueryResult ComputeGroups(IQueryable query, DataTableQuery tableQuery)
+    {
+        var elementType = query.ElementType;
+        var propertyInfo = elementType.GetProperty(tableQuery.GroupBy);
+        if (propertyInfo == null)
+        {
+            throw new ArgumentException($"Column '{tableQuery.GroupBy}' not found on type '{elementType.Name}'");
+        }
+
+        var parameter = System.Linq.Expressions.Expression.Parameter(elementType, "x");
+        var property = System.Linq.Expressions.Expression.Property(parameter, propertyInfo);
+
+        // Fetch the distinct values, folding null and empty strings into a single group
+        var selectCall = System.Linq.Expressions.Expression.Call(
+            typeof(Queryable),
+            "Select",
+            new[] { elementType, propertyInfo.PropertyType },
+            query.Expression,
+            System.Linq.Expressions.Expression.Quote(System.Linq.Expressions.Expression.Lambda(property, parameter)));
+        var distinctCall = System.Linq.Expressions.Expression.Call(
+            typeof(Queryable),
+            "Distinct",
+            new[] { propertyInfo.PropertyType },
+            selectCall);
+        var keys = ((System.Collections.IEnumerable)query.Provider.CreateQuery(distinctCall)).Cast<object?>()
+            .Select(value => value is string s && s.Length == 0 ? null : value)
+            .Distinct()
+            .ToList();
+
+        // Nulls sort first; a sort on the grouped column decides the direction
+        var descending = tableQuery.Sort.Any(s =>
+            s.Column == tableQuery.GroupBy && s.Direction == Ivy.Protos.DataTable.SortDirection.Desc);
+        var orderedKeys = descending
+            ? keys.OrderByDescending(k => k, Comparer<object?>.Default).ToList()
+            : keys.OrderBy(k => k, Comparer<object?>.Default).ToList();
+
+        var pagedKeys = orderedKeys.Skip(tableQuery.Offset).Take(tableQuery.Limit).ToList();
+        var groups = new List<GroupSummary>();
+
+        foreach (var key in pagedKeys)
+        {
+            var predicate = key == null
+                ? BuildBlankExpression(property)!
+                : System.Linq.Expressions.Expression.Equal(property, System.Linq.Expressions.Expression.Constant(key, property.Type));
+            var whereCall = System.Linq.Expressions.Expression.Call(
+                typeof(Queryable),
+                "Where",
+                new[] { elementType },
+                query.Expression,
+                System.Linq.Expressions.Expression.Quote(System.Linq.Expressions.Expression.Lambda(predicate, parameter)));
+            var groupQuery = query.Provider.CreateQuery(whereCall);
+
+            groups.Add(new GroupSummary
+            {
+                Key = FormatGroupKey(key),
+                Count = groupQuery.Cast<object>().Count(),
+                Aggregations = tableQuery.Aggregations
+                    .Select(aggregation => ComputeAggregation(groupQuery, aggregation))
+                    .ToList()
+            });
+        }
+
+        return new QueryResult
+        {
+            Offset = tableQuery.Offset,
+            RowCount = groups.Count,
+            TotalRows = orderedKeys.Count,
+            Groups = groups
+        };
+    }
+
+    private static string? FormatGroupKey(object? key)
+    {
+        return key switch
+        {
+            null => null,
+            DateTime dateTime => dateTime.ToString("o", System.Globalization.CultureInfo.InvariantCulture),
+            IFormattable formattable => formattable.ToString(null, System.Globalization.CultureInfo.InvariantCulture),
+            _ => key.ToString()
+        };
+    }
+
+    private AggregateResult ComputeAggregation(IQueryable query, Aggregation aggregation)
+    {
+        var elementType = query.ElementType;
+        var propertyInfo = elementType.GetProperty(aggregation.Column);
+        if (propertyInfo == null)
+        {
+            throw new ArgumentException($"Column '{aggregation.Column}' not found on type '{elementType.Name}'");
+        }
+
+        var parameter = System.Linq.Expressions.Expression.Parameter(elementType, "x");
+        var property = System.Linq.Expressions.Expression.Property(parameter, propertyInfo);
+        var function = aggregation.Function.ToLowerInvariant();
+
+        if (function == "count")
+        {
+            // Count non-null values so the result matches what's visible in the column
+            var notNull = property.Type.IsValueType && Nullable.GetUnderlyingType(property.Type) == null
+                ? (System.Linq.Expressions.Expression)System.Linq.Expressions.Expression.Constant(true)
+                : System.Linq.Expressions.Expression.NotEqual(property, System.Linq.Expressions.Expression.Constant(null, property.Type));
+            var predicate = System.Linq.Expressions.Expression.Lambda(notNull, parameter);
+            var countMethod = typeof(Queryable).GetMethods()
+                .First(m => m.Name == "Count" && m.GetParameters().Length == 2)
+                .MakeGenericMethod(elementType);
+            var count = (int)countMethod.Invoke(null, new object[] { query, predicate })!;
+            return new AggregateResult { Column = aggregation.Column, Function = function, Value = count };
+        }
+
+        var underlyingType = Nullable.GetUnderlyingType(propertyInfo.PropertyType) ?? propertyInfo.PropertyType;
+        if (!IsNumericType(underlyingType))
+        {
+            throw new ArgumentException($"Aggregation '{aggregation.Function}' is not supported for non-numeric column '{aggregation.Column}'");
+        }
+
+        // Project to double? so Min/Max/Average return null for empty sets instead of throwing
+        var converted = System.Linq.Expressions.Expression.Convert(property, typeof(double?));
+        var selectCall = System.Linq.Expressions.Expression.Call(
+            typeof(Queryable),
+            "Select",
+            new[] { elementType, typeof(double?) },
+            query.Expression,
+            System.Linq.Expressions.Expression.Quote(System.Linq.Expressions.Expression.Lambda(converted, parameter)));
+        var values = query.Provider.CreateQuery<double?>(selectCall);
+
+        double? value = function switch
+        {
+            "sum" => values.Any(v => v != null) ? values.Sum() : null,
+            "avg" or "average" => values.Average(),
+            "min" => values.Min(),
+            "max" => values.Max(),
+            _ => throw new NotSupportedException($"Aggregation function '{aggregation.Function}' is not supported")
+        };
+
+        return new AggregateResult { Column = aggregation.Column, Function = function, Value = value };
+    }
+
+    private static bool IsNumericType(SystemType type)
+    {
+        return type == typeof(int) || type == typeof(long) || type == typeof(short) || type == typeof(byte) ||
+               type == typeof(double) || type == typeof(float) || type == typeof(decimal);
+    }
+
     private IQueryable ApplySort(IQueryable query, IEnumerable<SortOrder> sortOrders)
     {
         var sortOrdersList = sortOrders.ToList();
@@ -289,6 +542,7 @@ public class QueryProcessor(ILogger<QueryProcessor>? logger = null, IDistributed
             "blank" => BuildBlankExpression(property),
             "notblank" => BuildNotBlankExpression(property),
             "inrange" => BuildInRangeExpression(property, condition.Args),
+            "inset" => BuildInSetExpression(property, condition.Args),
             "before" => BuildLessThanExpression(property, condition.Args),
             "after" => BuildGreaterThanExpression(property, condition.Args),
             _ => throw new NotSupportedException($"Filter function '{condition.Function}' is not supported")
@@ -437,6 +691,20 @@ public class QueryProcessor(ILogger<QueryProcessor>? logger = null, IDistributed
         return System.Linq.Expressions.Expression.Equal(property, valueExpression);
     }
 
+    private System.Linq.Expressions.Expression? BuildInSetExpression(System.Linq.Expressions.MemberExpression property, IEnumerable<Google.Protobuf.WellKnownTypes.Any> args)
+    {
+        // Matches when the property equals any of the args; an empty set matches nothing
+        var comparisons = args
+            .Select(arg => BuildEqualsExpression(property, new[] { arg }))
+            .OfType<System.Linq.Expressions.Expression>()
+            .ToList();
+
+        if (comparisons.Count == 0)
+            return System.Linq.Expressions.Expression.Constant(false);
+
+        return comparisons.Aggregate(System.Linq.Expressions.Expression.OrElse);
+    }
+
     private System.Linq.Expressions.Expression? BuildGreaterThanExpression(System.Linq.Expressions.MemberExpression property, IEnumerable<Google.Protobuf.WellKnownTypes.Any> args)
     {
         var arg = args.FirstOrDefault();
@@ -1031,6 +1299,29 @@ public class QueryProcessor(ILogger<QueryProcessor>? logger = null, IDistributed
         writer.Write(result.TotalRows);
         writer.Write(result.ArrowData.Length);
         writer.Write(result.ArrowData);
+        writer.Write(result.Aggregations.Count);
+        foreach (var aggregation in result.Aggregations)
+        {
+            writer.Write(aggregation.Column);
+            writer.Write(aggregation.Function);
+            writer.Write(aggregation.Value.HasValue);
+            writer.Write(aggregation.Value ?? 0);
+        }
+        writer.Write(result.Groups.Count);
+        foreach (var group in result.Groups)
+        {
+            writer.Write(group.Key != null);
+            writer.Write(group.Key ?? "");
+            writer.Write(group.Count);
+            writer.Write(group.Aggregations.Count);
+            foreach (var aggregation in group.Aggregations)
+            {
+                writer.Write(aggregation.Column);
+                writer.Write(aggregation.Function);
+                writer.Write(aggregation.Value.HasValue);
+                writer.Write(aggregation.Value ?? 0);
+            }
+        }
         return stream.ToArray();
     }
 
@@ -1046,6 +1337,32 @@ public class QueryProcessor(ILogger<QueryProcessor>? logger = null, IDistributed
         };
         var arrowDataLength = reader.ReadInt32();
         result.ArrowData = reader.ReadBytes(arrowDataLength);
+        var aggregationCount = reader.ReadInt32();
+        for (var i = 0; i < aggregationCount; i++)
+        {
+            var column = reader.ReadString();
+            var function = reader.ReadString();
+            var hasValue = reader.ReadBoolean();
+            var value = reader.ReadDouble();
+            result.Aggregations.Add(new AggregateResult { Column = column, Function = function, Value = hasValue ? value : null });
+        }
+        var groupCount = reader.ReadInt32();
+        for (var i = 0; i < groupCount; i++)
+        {
+            var hasKey = reader.ReadBoolean();
+            var key = reader.ReadString();
+            var group = new GroupSummary { Key = hasKey ? key : null, Count = reader.ReadInt32() };
+            var groupAggregationCount = reader.ReadInt32();
+            for (var j = 0; j < groupAggregationCount; j++)
+            {
+                var column = reader.ReadString();
+                var function = reader.ReadString();
+                var hasValue = reader.ReadBoolean();
+                var value = reader.ReadDouble();
+                group.Aggregations.Add(new AggregateResult { Column = column, Function = function, Value = hasValue ? value : null });
+            }
+            result.Groups.Add(group);
+        }
         return result;
     }
 
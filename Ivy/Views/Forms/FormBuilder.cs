@@ -50,6 +50,7 @@ public class FormBuilderField<TModel>
         if (Required)
         {
             Validators.Add(e => (Utils.IsValidRequired(e), "Required field"));
+            ClientRules.Add(new FormValidationRule(FormValidationRuleType.Required, "Required field"));
         }
 
         // Add validators from DataAnnotations attributes
@@ -62,6 +63,12 @@ public class FormBuilderField<TModel>
             Validators.AddRange(FormHelpers.GetValidators(fieldInfo));
         }
 
+        if (((MemberInfo?)propertyInfo ?? fieldInfo) is { } memberInfo)
+        {
+            ClientRules.AddRange(FormHelpers.GetClientValidationRules(memberInfo)
+                .Where(e => !(Required && e.Type == FormValidationRuleType.Required)));
+        }
+
         Visible = _ => true;
     }
 
@@ -114,6 +121,9 @@ public class FormBuilderField<TModel>
 
     /// <summary>Collection of validation functions applied to this field's value.</summary>
     public List<Func<object?, (bool, string)>> Validators { get; set; } = new();
+
+    /// <summary>Declarative rules mirroring the validators that can also be evaluated in the browser.</summary>
+    public List<FormValidationRule> ClientRules { get; set; } = new();
 }
 
 /// <summary>Fluent form builder automatically scaffolding forms from model types with intelligent input selection, validation, and layout management.</summary>
@@ -127,6 +137,8 @@ public class FormBuilder<TModel> : ViewBase
     /// <summary>The text displayed on the form's submit button.</summary>
     public readonly string SubmitTitle;
     private readonly List<string> _groups = [];
+    private readonly List<FormCrossFieldRule> _crossFieldRules = [];
+    private Func<bool, ValueTask>? _onDirtyChange;
 
     /// <summary>The validation strategy for form fields. Default is OnBlur.</summary>
     public FormValidationStrategy ValidationStrategy { get; set; } = FormValidationStrategy.OnBlur;
@@ -134,6 +146,12 @@ public class FormBuilder<TModel> : ViewBase
     /// <summary>The size of the form affecting spacing between fields. Default is Medium.</summary>
     public Sizes Size { get; set; } = Sizes.Medium;
 
+    /// <summary>The text displayed on a button that restores the initial values. No button is shown when null.</summary>
+    public string? ResetTitle { get; set; }
+
+    /// <summary>Whether the user is asked to confirm before unsaved changes are discarded. Default is true.</summary>
+    public bool WarnOnUnsavedChanges { get; set; } = true;
+
     /// <summary>Initializes form builder for specified model state with automatic field scaffolding.</summary>
     /// <param name="model">Reactive state containing model object to be edited by form.</param>
     /// <param name="submitTitle">The text displayed on the form's submit button. Default is "Save".</param>
@@ -190,6 +208,8 @@ public class FormBuilder<TModel> : ViewBase
             if (field.Name.EndsWith("Email") && nonNullableType == typeof(string))
             {
                 field.Validators.Add(Validators.CreateEmailValidator(field.Name));
+                field.ClientRules.Add(new FormValidationRule(FormValidationRuleType.Email,
+                    new System.ComponentModel.DataAnnotations.EmailAddressAttribute().FormatErrorMessage(field.Name)));
             }
         }
     }
@@ -533,10 +553,54 @@ public class FormBuilder<TModel> : ViewBase
             var hint = GetField(expr);
             hint.Required = true;
             hint.Validators.Add(e => (Utils.IsValidRequired(e), "Required field"));
+            if (hint.ClientRules.All(e => e.Type != FormValidationRuleType.Required))
+            {
+                hint.ClientRules.Insert(0, new FormValidationRule(FormValidationRuleType.Required, "Required field"));
+            }
         }
         return this;
     }
 
+    /// <summary>Adds a rule comparing one field to another, such as a password confirmation or an end date after a start date.</summary>
+    /// <param name="field">Field that shows the error when the comparison fails.</param>
+    /// <param name="op">How the field value is compared to the other value.</param>
+    /// <param name="compareTo">Field whose value it is compared to.</param>
+    /// <param name="message">Optional error message. Defaults to a message built from both labels.</param>
+    /// <returns>Form builder instance for method chaining.</returns>
+    public FormBuilder<TModel> Compare(Expression<Func<TModel, object>> field, FormCompareOperator op, Expression<Func<TModel, object>> compareTo, string? message = null)
+    {
+        var hint = GetField(field);
+        var other = GetField(compareTo);
+        _crossFieldRules.Add(new FormCrossFieldRule(hint.Name, op, other.Name, message ?? CompareMessage(op, other.Label)));
+        return this;
+    }
+
+    /// <summary>Shows a button next to the submit button that restores the initial values.</summary>
+    /// <param name="title">The text displayed on the reset button.</param>
+    /// <returns>Form builder instance for method chaining.</returns>
+    public FormBuilder<TModel> Resettable(string title = "Reset")
+    {
+        ResetTitle = title;
+        return this;
+    }
+
+    /// <summary>Sets the handler called when the form becomes dirty or clean.</summary>
+    /// <param name="onDirtyChange">Handler receiving whether any field differs from its initial value.</param>
+    /// <returns>Form builder instance for method chaining.</returns>
+    public FormBuilder<TModel> HandleDirtyChange(Func<bool, ValueTask> onDirtyChange)
+    {
+        _onDirtyChange = onDirtyChange;
+        return this;
+    }
+
+    /// <summary>Sets the handler called when the form becomes dirty or clean.</summary>
+    /// <param name="onDirtyChange">Handler receiving whether any field differs from its initial value.</param>
+    /// <returns>Form builder instance for method chaining.</returns>
+    public FormBuilder<TModel> HandleDirtyChange(Action<bool> onDirtyChange)
+    {
+        return HandleDirtyChange(onDirtyChange.ToValueTask());
+    }
+
     /// <summary>Sets the size of the form affecting spacing between fields.</summary>
     /// <param name="size">The size of the form (Small, Medium, Large).</param>
     /// <returns>Form builder instance for method chaining.</returns>
@@ -571,6 +635,28 @@ public class FormBuilder<TModel> : ViewBase
     private static bool HasCustomLabel(string label, string name)
         => label != Utils.SplitPascalCase(name);
 
+    private static string CompareMessage(FormCompareOperator op, string otherLabel) => op switch
+    {
+        FormCompareOperator.Equal => $"Must match {otherLabel}",
+        FormCompareOperator.NotEqual => $"Must differ from {otherLabel}",
+        FormCompareOperator.GreaterThan => $"Must be greater than {otherLabel}",
+        FormCompareOperator.GreaterThanOrEqual => $"Must be greater than or equal to {otherLabel}",
+        FormCompareOperator.LessThan => $"Must be less than {otherLabel}",
+        _ => $"Must be less than or equal to {otherLabel}"
+    };
+
+    private FormValidationSchema? BuildValidationSchema()
+    {
+        var fields = _fields.Values
+            .Where(e => e is { Removed: false, InputFactory: not null } && e.ClientRules.Count > 0)
+            .Select(e => new FormFieldValidation(e.Name, e.ClientRules.ToArray()))
+            .ToArray();
+
+        if (fields.Length == 0 && _crossFieldRules.Count == 0) return null;
+
+        return new FormValidationSchema(fields, _crossFieldRules.ToArray(), ValidationStrategy);
+    }
+
     private FormBuilderField<TModel> GetField<TU>(Expression<Func<TModel, TU>> field)
     {
         var name = Utils.GetNameFromMemberExpression(field.Body);
@@ -589,12 +675,20 @@ public class FormBuilder<TModel> : ViewBase
     /// <param name="context">View context for state management and signal handling.</param>
     /// <returns>Tuple containing submit handler, form view, validation view, and loading state.</returns>
     public (Func<Task<bool>> onSubmit, IView formView, IView validationView, bool loading) UseForm(IViewContext context)
+    {
+        return UseForm(context, null);
+    }
+
+    private (Func<Task<bool>> onSubmit, IView formView, IView validationView, bool loading) UseForm(
+        IViewContext context,
+        Func<Func<Task<bool>>, IView, object>? submitFactory)
     {
         var currentModel = context.UseState(() => StateHelpers.DeepClone(_model.Value), buildOnChange: false);
 
         var validationSignal = context.CreateSignal<FormValidateSignal, Unit, bool>();
         var updateSignal = context.CreateSignal<FormUpdateSignal, Unit, Unit>();
         var invalidFields = context.UseState(0);
+        var revision = context.UseState(0);
 
         var fields = _fields
             .Values
@@ -610,7 +704,8 @@ public class FormBuilder<TModel> : ViewBase
                 new FormFieldLayoutOptions(e.RowKey, e.Column, e.Order, e.Group),
                 e.Validators.ToArray(),
                 ValidationStrategy,
-                Size
+                Size,
+                e.Name
             ))
             .Cast<IFormFieldBinding<TModel>>()
             .ToArray();
@@ -618,13 +713,16 @@ public class FormBuilder<TModel> : ViewBase
         async Task<bool> OnSubmit()
         {
             var results = await validationSignal.Send(new Unit());
-            if (results.All(e => e))
+            var failedRules = _crossFieldRules.Count(e => !IsValid(e, currentModel.Value));
+            if (results.All(e => e) && failedRules == 0)
             {
                 _model.Set(StateHelpers.DeepClone(currentModel.Value)!);
                 invalidFields.Set(0);
+                // The saved values are no longer unsaved changes
+                revision.Set(revision.Value + 1);
                 return true;
             }
-            invalidFields.Set(results.Count(e => !e));
+            invalidFields.Set(results.Count(e => !e) + failedRules);
             return false;
         }
 
@@ -638,12 +736,6 @@ public class FormBuilder<TModel> : ViewBase
             await OnSubmit();
         }
 
-        var formView = new FormView<TModel>(
-            fieldViews,
-            HandleSubmitEvent,
-            Size
-        );
-
         var validationView = new WrapperView(Layout.Vertical(
             (invalidFields.Value > 0 ?
                 Layout.Horizontal(
@@ -652,24 +744,49 @@ public class FormBuilder<TModel> : ViewBase
             : null!)
         ).Grow());
 
+        var formView = new FormView<TModel>(
+            fieldViews,
+            HandleSubmitEvent,
+            Size,
+            BuildValidationSchema(),
+            submitFactory?.Invoke(OnSubmit, validationView),
+            _onDirtyChange == null ? null : e => _onDirtyChange(e.Value),
+            ResetTitle,
+            WarnOnUnsavedChanges,
+            revision.Value
+        );
+
         return (OnSubmit, formView, validationView, false);
     }
 
+    // Cross-field rules only apply while both fields are shown
+    private bool IsValid(FormCrossFieldRule rule, TModel model)
+    {
+        var field = _fields[rule.Field];
+        var other = _fields[rule.CompareTo];
+        if (field.Removed || other.Removed || !field.Visible(model) || !other.Visible(model)) return true;
+
+        var value = CreateSelector(rule.Field).Compile()(model);
+        var otherValue = CreateSelector(rule.CompareTo).Compile()(model);
+        return FormHelpers.Compare(value, rule.Operator, otherValue);
+    }
+
     /// <summary>Builds complete form with automatic layout, validation, and submission handling.</summary>
     /// <returns>Complete form widget with fields, validation messages, and submit button.</returns>
     public override object? Build()
     {
-        (Func<Task<bool>> onSubmit, IView formView, IView validationView, bool submitting) = UseForm(this.Context);
-
-        async ValueTask HandleSubmit()
+        // The submit button is placed inside the form so that it is blocked while browser validation fails
+        (_, IView formView, _, _) = UseForm(this.Context, (onSubmit, validationView) =>
         {
-            await onSubmit();
-        }
+            async ValueTask HandleSubmit()
+            {
+                await onSubmit();
+            }
+
+            return Layout.Horizontal(new Button(SubmitTitle).HandleClick(HandleSubmit).Size(Size), validationView);
+        });
 
-        return Layout.Vertical()
-               | formView
-               | Layout.Horizontal(new Button(SubmitTitle).HandleClick(HandleSubmit)
-                   .Loading(submitting).Disabled(submitting).Size(Size), validationView);
+        return formView;
     }
 
     private static string InvalidMessage(int invalidFields)
@@ -82,6 +82,90 @@ public static class FormHelpers
         return validators;
     }
 
+    /// <summary> Translates DataAnnotations ValidationAttributes on a property or field into rules that can be evaluated in the browser. </summary>
+    /// <remarks> Attributes without a browser equivalent are skipped; they are still enforced on the server by <see cref="GetValidators(PropertyInfo)"/>. </remarks>
+    public static List<FormValidationRule> GetClientValidationRules(MemberInfo memberInfo)
+    {
+        var rules = new List<FormValidationRule>();
+        var name = memberInfo.Name;
+
+        foreach (var attr in memberInfo.GetCustomAttributes<ValidationAttribute>())
+        {
+            var message = attr.FormatErrorMessage(name);
+            switch (attr)
+            {
+                case RequiredAttribute:
+                    rules.Add(new FormValidationRule(FormValidationRuleType.Required, message));
+                    break;
+                case RangeAttribute range when IsNumber(range.Minimum) && IsNumber(range.Maximum):
+                    rules.Add(new FormValidationRule(FormValidationRuleType.Min, message, Convert.ToDouble(range.Minimum)));
+                    rules.Add(new FormValidationRule(FormValidationRuleType.Max, message, Convert.ToDouble(range.Maximum)));
+                    break;
+                case StringLengthAttribute stringLength:
+                    if (stringLength.MinimumLength > 0)
+                    {
+                        rules.Add(new FormValidationRule(FormValidationRuleType.MinLength, message, stringLength.MinimumLength));
+                    }
+                    rules.Add(new FormValidationRule(FormValidationRuleType.MaxLength, message, stringLength.MaximumLength));
+                    break;
+                case MinLengthAttribute minLength:
+                    rules.Add(new FormValidationRule(FormValidationRuleType.MinLength, message, minLength.Length));
+                    break;
+                case MaxLengthAttribute { Length: > 0 } maxLength:
+                    rules.Add(new FormValidationRule(FormValidationRuleType.MaxLength, message, maxLength.Length));
+                    break;
+                case RegularExpressionAttribute regex:
+                    rules.Add(new FormValidationRule(FormValidationRuleType.Pattern, message, regex.Pattern));
+                    break;
+                case EmailAddressAttribute:
+                    rules.Add(new FormValidationRule(FormValidationRuleType.Email, message));
+                    break;
+            }
+        }
+
+        return rules;
+    }
+
+    /// <summary> Compares two field values for a cross-field rule. Empty values pass; they are handled by Required. </summary>
+    public static bool Compare(object? value, FormCompareOperator op, object? other)
+    {
+        if (IsEmpty(value) || IsEmpty(other)) return true;
+
+        if (op is FormCompareOperator.Equal or FormCompareOperator.NotEqual)
+        {
+            var equal = IsNumber(value) && IsNumber(other)
+                ? Convert.ToDouble(value) == Convert.ToDouble(other)
+                : Equals(value, other);
+            return op == FormCompareOperator.Equal ? equal : !equal;
+        }
+
+        int comparison;
+        if (IsNumber(value) && IsNumber(other))
+        {
+            comparison = Convert.ToDouble(value).CompareTo(Convert.ToDouble(other));
+        }
+        else if (value is IComparable comparable && value.GetType() == other!.GetType())
+        {
+            comparison = comparable.CompareTo(other);
+        }
+        else
+        {
+            return true;
+        }
+
+        return op switch
+        {
+            FormCompareOperator.GreaterThan => comparison > 0,
+            FormCompareOperator.GreaterThanOrEqual => comparison >= 0,
+            FormCompareOperator.LessThan => comparison < 0,
+            _ => comparison <= 0
+        };
+    }
+
+    private static bool IsEmpty(object? value) => value is null || value is string s && string.IsNullOrWhiteSpace(s);
+
+    private static bool IsNumber(object? value) => value is not null && value.GetType().IsNumeric() && !value.GetType().IsEnum;
+
     private static bool IsNonNullableString(PropertyInfo propertyInfo)
     {
         if (propertyInfo.PropertyType != typeof(string)) return false;
@@ -58,7 +58,8 @@ public class FormFieldView(
     FormFieldLayoutOptions? layoutOptions,
     Func<object?, (bool, string)>[]? validators,
     FormValidationStrategy validationStrategy,
-    Sizes size = Sizes.Medium) : ViewBase, IFormFieldView
+    Sizes size = Sizes.Medium,
+    string? name = null) : ViewBase, IFormFieldView
 {
     /// <summary>Layout configuration for positioning this field in the form.</summary>
     public FormFieldLayoutOptions Layout { get; } = layoutOptions ?? new FormFieldLayoutOptions(Guid.NewGuid());
@@ -134,7 +135,7 @@ public class FormFieldView(
             input.HandleBlur(OnBlur);
         }
 
-        return visibleState.Value ? new Field(input, label, description, required) { Size = size } : null;
+        return visibleState.Value ? new Field(input, label, description, required) { Size = size, Name = name } : null;
     }
 }
 
@@ -157,14 +158,15 @@ public class FormFieldBinding<TModel>(
     FormFieldLayoutOptions? layoutOptions = null,
     Func<object?, (bool, string)>[]? validators = null,
     FormValidationStrategy validationStrategy = FormValidationStrategy.OnBlur,
-    Sizes size = Sizes.Medium
+    Sizes size = Sizes.Medium,
+    string? name = null
     ) : IFormFieldBinding<TModel>
 {
     /// <summary>Creates a bound field view connected to the model state.</summary>
     public (IFormFieldView, IDisposable) Bind(IState<TModel> model)
     {
         var (fieldState, disposable) = StateHelpers.MemberState(model, selector);
-        var fieldView = new FormFieldView(fieldState, factory, visible, updateSignal, label, description, required, layoutOptions, validators, validationStrategy, size);
+        var fieldView = new FormFieldView(fieldState, factory, visible, updateSignal, label, description, required, layoutOptions, validators, validationStrategy, size, name);
         return (fieldView, disposable);
     }
 }
@@ -184,7 +186,16 @@ public interface IFormFieldBinding<TModel>
 }
 
 /// <summary>Renders form fields in a structured layout with columns, rows, and groups.</summary>
-public class FormView<TModel>(IFormFieldView[] fieldViews, Func<Event<Form>, ValueTask>? handleSubmit = null, Sizes size = Sizes.Medium) : ViewBase
+public class FormView<TModel>(
+    IFormFieldView[] fieldViews,
+    Func<Event<Form>, ValueTask>? handleSubmit = null,
+    Sizes size = Sizes.Medium,
+    FormValidationSchema? validation = null,
+    object? submit = null,
+    Func<Event<Form, bool>, ValueTask>? handleDirtyChange = null,
+    string? resetTitle = null,
+    bool warnOnUnsavedChanges = true,
+    int revision = 0) : ViewBase
 {
     /// <summary>Builds the complete form layout with multi-column support and field grouping.</summary>
     public override object? Build()
@@ -226,11 +237,20 @@ public class FormView<TModel>(IFormFieldView[] fieldViews, Func<Event<Form>, Val
                         )).Cast<object>().ToArray()
                     .ToArray()));
 
-        var form = new Form(Layout.Horizontal(columns));
+        var content = Layout.Horizontal(columns);
+        var form = (submit == null ? new Form(content) : new Form(content, new Slot("Submit", submit)))
+            .Validation(validation)
+            .ResetTitle(resetTitle)
+            .WarnOnUnsavedChanges(warnOnUnsavedChanges)
+            .Revision(revision);
         if (handleSubmit != null)
         {
             form = form.HandleSubmit(handleSubmit);
         }
+        if (handleDirtyChange != null)
+        {
+            form = form.HandleDirtyChange(handleDirtyChange);
+        }
         return form;
     }
 }
\ No newline at end of file
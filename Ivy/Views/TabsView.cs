@@ -1,4 +1,5 @@
 ﻿using Ivy.Core;
+using Ivy.Hooks;
 using Ivy.Shared;
 
 namespace Ivy.Views;
@@ -15,6 +16,7 @@ public class TabView : ViewBase
     private TabsVariant _variant = TabsVariant.Content;
     private bool _removeParentPadding = false;
     private Thickness? _padding = new Thickness(4);
+    private string? _urlKey;
 
     /// <summary>
     /// Internal constructor that initializes a TabView with predefined tabs.
@@ -241,13 +243,25 @@ public class TabView : ViewBase
         return this;
     }
 
+    /// <summary>
+    /// Keeps the selected tab in a query parameter of the browser URL, so links open the same tab
+    /// and the back button returns to the previously selected one.
+    /// </summary>
+    /// <param name="key">The query parameter, unique among the views on the page.</param>
+    /// <returns>The current TabView instance for method chaining.</returns>
+    public TabView UrlState(string key)
+    {
+        _urlKey = key;
+        return this;
+    }
+
     /// <summary>
     /// Builds the final tabbed layout widget with tab selection state management.
     /// </summary>
     /// <returns>A TabsLayout widget configured with the current settings and tab selection state.</returns>
     public override object? Build()
     {
-        var selectedIndex = this.UseState(0);
+        var selectedIndex = _urlKey != null ? Context.UseUrlState(_urlKey, 0) : this.UseState(0);
 
         void OnTabSelect(Event<TabsLayout, int> @event)
         {
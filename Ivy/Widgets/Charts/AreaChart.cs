@@ -1,6 +1,7 @@
 ﻿using Ivy.Charts;
 using Ivy.Core;
 using Ivy.Shared;
+using System.Runtime.CompilerServices;
 
 // ReSharper disable once CheckNamespace
 namespace Ivy;
@@ -39,6 +40,16 @@ public record AreaChart : WidgetBase<AreaChart>
     /// </summary>
     [Prop] public ColorScheme ColorScheme { get; init; } = ColorScheme.Default;
 
+    /// <summary>
+    /// Gets or sets the zooming and panning along the category axis, off by default.
+    /// </summary>
+    [Prop] public DataZoom? DataZoom { get; init; }
+
+    /// <summary>
+    /// Gets or sets whether the toolbar for exporting the chart as PNG, SVG or CSV is shown.
+    /// </summary>
+    [Prop] public bool Toolbar { get; init; } = true;
+
     /// <summary>
     /// Gets or sets the array of Area configurations.
     /// </summary>
@@ -89,6 +100,32 @@ public record AreaChart : WidgetBase<AreaChart>
     /// </summary>
     [Prop] public StackOffsetTypes StackOffset { get; init; } = StackOffsetTypes.None;
 
+    /// <summary>
+    /// Gets or sets the stream of live rows appended to the data, and the rolling window of rows kept.
+    /// </summary>
+    [Prop] public ChartStreamOptions? Stream { get; init; }
+
+    /// <summary>
+    /// Gets or sets the handler for clicks on a point, which receives the clicked row of the data.
+    /// </summary>
+    [Event] public Func<Event<AreaChart, ChartPointClick>, ValueTask>? OnPointClick { get; set; }
+
+    /// <summary>
+    /// Gets or sets the handler for range selections with the brush. Setting it adds the brush tools to the chart.
+    /// </summary>
+    [Event] public Func<Event<AreaChart, ChartBrushSelection>, ValueTask>? OnBrush { get; set; }
+
+    /// <summary>
+    /// Gets or sets the handler for series shown or hidden through the legend.
+    /// </summary>
+    [Event] public Func<Event<AreaChart, ChartLegendToggle>, ValueTask>? OnLegendToggle { get; set; }
+
+    /// <summary>
+    /// Gets or sets the handler for zooming and panning, which receives the visible range so the server can
+    /// fetch finer data for it. Wheel zooming raises many events; debounce them with Debounce(delay, "OnZoom").
+    /// </summary>
+    [Event] public Func<Event<AreaChart, ChartZoom>, ValueTask>? OnZoom { get; set; }
+
     /// <summary>
     /// Operator overload that prevents AreaChart from accepting child widgets.
     /// </summary>
@@ -354,6 +391,60 @@ public static class AreaChartExtensions
         return chart with { ColorScheme = colorScheme };
     }
 
+    /// <summary>
+    /// Sets whether the toolbar for exporting the chart is shown.
+    /// </summary>
+    /// <param name="chart">The AreaChart to configure.</param>
+    /// <param name="show">True to show the toolbar, false to hide it.</param>
+    /// <returns>A new AreaChart instance with the updated toolbar setting.</returns>
+    public static AreaChart Toolbar(this AreaChart chart, bool show = true)
+    {
+        return chart with { Toolbar = show };
+    }
+
+    /// <summary>
+    /// Sets the zooming and panning configuration.
+    /// </summary>
+    /// <param name="chart">The AreaChart to configure.</param>
+    /// <param name="dataZoom">The DataZoom configuration to use.</param>
+    /// <returns>A new AreaChart instance with the updated zoom configuration.</returns>
+    public static AreaChart DataZoom(this AreaChart chart, DataZoom dataZoom)
+    {
+        return chart with { DataZoom = dataZoom };
+    }
+
+    /// <summary>
+    /// Lets the chart zoom with the mouse wheel or pinch, pan by dragging and zoom with a range slider.
+    /// </summary>
+    /// <param name="chart">The AreaChart to configure.</param>
+    /// <returns>A new AreaChart instance with zooming enabled.</returns>
+    public static AreaChart DataZoom(this AreaChart chart)
+    {
+        return chart with { DataZoom = new DataZoom() };
+    }
+
+    /// <summary>
+    /// Shows the live rows of a stream after the data of the chart.
+    /// </summary>
+    /// <param name="chart">The AreaChart to configure.</param>
+    /// <param name="stream">The stream, usually from UseChartStream.</param>
+    /// <param name="maxPoints">The maximum number of rows kept, or null for no limit.</param>
+    /// <param name="window">The span of time kept, measured back from the newest row, or null for no limit.</param>
+    /// <param name="timeKey">The key of the time of a row for the window, or null for the category key.</param>
+    /// <returns>A new AreaChart instance showing the stream.</returns>
+    public static AreaChart Stream(this AreaChart chart, IChartStream stream, int? maxPoints = null, TimeSpan? window = null, string? timeKey = null)
+    {
+        return chart with
+        {
+            Stream = new ChartStreamOptions(stream.Id)
+            {
+                MaxPoints = maxPoints,
+                Window = window is { } span ? (int)span.TotalMilliseconds : null,
+                TimeKey = timeKey
+            }
+        };
+    }
+
     /// <summary>
     /// Sets the stack offset type.
     /// </summary>
@@ -364,5 +455,92 @@ public static class AreaChartExtensions
     {
         return chart with { StackOffset = stackOffset };
     }
-}
 
+    /// <summary>
+    /// Sets the handler for clicks on a point.
+    /// </summary>
+    /// <param name="chart">The AreaChart to configure.</param>
+    /// <param name="onPointClick">The handler, which receives the clicked row of the data.</param>
+    /// <returns>A new AreaChart instance with the click handler.</returns>
+    [OverloadResolutionPriority(1)]
+    public static AreaChart HandlePointClick(this AreaChart chart, Func<Event<AreaChart, ChartPointClick>, ValueTask> onPointClick)
+    {
+        return chart with { OnPointClick = onPointClick };
+    }
+
+    public static AreaChart HandlePointClick(this AreaChart chart, Action<Event<AreaChart, ChartPointClick>> onPointClick)
+    {
+        return chart with { OnPointClick = onPointClick.ToValueTask() };
+    }
+
+    public static AreaChart HandlePointClick(this AreaChart chart, Action<ChartPointClick> onPointClick)
+    {
+        return chart with { OnPointClick = @event => { onPointClick(@event.Value); return ValueTask.CompletedTask; } };
+    }
+
+    /// <summary>
+    /// Sets the handler for range selections with the brush, which adds the brush tools to the chart.
+    /// </summary>
+    /// <param name="chart">The AreaChart to configure.</param>
+    /// <param name="onBrush">The handler, which receives the selected rows, or an empty selection when the brush is cleared.</param>
+    /// <returns>A new AreaChart instance with the brush handler.</returns>
+    [OverloadResolutionPriority(1)]
+    public static AreaChart HandleBrush(this AreaChart chart, Func<Event<AreaChart, ChartBrushSelection>, ValueTask> onBrush)
+    {
+        return chart with { OnBrush = onBrush };
+    }
+
+    public static AreaChart HandleBrush(this AreaChart chart, Action<Event<AreaChart, ChartBrushSelection>> onBrush)
+    {
+        return chart with { OnBrush = onBrush.ToValueTask() };
+    }
+
+    public static AreaChart HandleBrush(this AreaChart chart, Action<ChartBrushSelection> onBrush)
+    {
+        return chart with { OnBrush = @event => { onBrush(@event.Value); return ValueTask.CompletedTask; } };
+    }
+
+    /// <summary>
+    /// Sets the handler for series shown or hidden through the legend.
+    /// </summary>
+    /// <param name="chart">The AreaChart to configure.</param>
+    /// <param name="onLegendToggle">The handler, which receives the toggled series and the visibility of all series.</param>
+    /// <returns>A new AreaChart instance with the legend toggle handler.</returns>
+    [OverloadResolutionPriority(1)]
+    public static AreaChart HandleLegendToggle(this AreaChart chart, Func<Event<AreaChart, ChartLegendToggle>, ValueTask> onLegendToggle)
+    {
+        return chart with { OnLegendToggle = onLegendToggle };
+    }
+
+    public static AreaChart HandleLegendToggle(this AreaChart chart, Action<Event<AreaChart, ChartLegendToggle>> onLegendToggle)
+    {
+        return chart with { OnLegendToggle = onLegendToggle.ToValueTask() };
+    }
+
+    public static AreaChart HandleLegendToggle(this AreaChart chart, Action<ChartLegendToggle> onLegendToggle)
+    {
+        return chart with { OnLegendToggle = @event => { onLegendToggle(@event.Value); return ValueTask.CompletedTask; } };
+    }
+
+    /// <summary>
+    /// Sets the handler for zooming and panning.
+    /// </summary>
+    /// <param name="chart">The AreaChart to configure.</param>
+    /// <param name="onZoom">The handler, which receives the visible range.</param>
+    /// <returns>A new AreaChart instance with the zoom handler.</returns>
+    [OverloadResolutionPriority(1)]
+    public static AreaChart HandleZoom(this AreaChart chart, Func<Event<AreaChart, ChartZoom>, ValueTask> onZoom)
+    {
+        return chart with { OnZoom = onZoom };
+    }
+
+    public static AreaChart HandleZoom(this AreaChart chart, Action<Event<AreaChart, ChartZoom>> onZoom)
+    {
+        return chart with { OnZoom = onZoom.ToValueTask() };
+    }
+
+    public static AreaChart HandleZoom(this AreaChart chart, Action<ChartZoom> onZoom)
+    {
+        return chart with { OnZoom = @event => { onZoom(@event.Value); return ValueTask.CompletedTask; } };
+    }
+}
@@ -1,6 +1,7 @@
 ﻿using Ivy.Charts;
 using Ivy.Core;
 using Ivy.Shared;
+using System.Runtime.CompilerServices;
 
 // ReSharper disable once CheckNamespace
 namespace Ivy;
@@ -38,6 +39,16 @@ public record BarChart : WidgetBase<BarChart>
     /// </summary>
     [Prop] public ColorScheme ColorScheme { get; init; } = ColorScheme.Default;
 
+    /// <summary>
+    /// Gets or sets the zooming and panning along the category axis, off by default.
+    /// </summary>
+    [Prop] public DataZoom? DataZoom { get; init; }
+
+    /// <summary>
+    /// Gets or sets whether the toolbar for exporting the chart as PNG, SVG or CSV is shown.
+    /// </summary>
+    [Prop] public bool Toolbar { get; init; } = true;
+
     /// <summary>
     /// Gets or sets the array of Bar configurations.
     /// </summary>
@@ -108,6 +119,32 @@ public record BarChart : WidgetBase<BarChart>
     /// </summary>
     [Prop] public bool ReverseStackOrder { get; init; } = false;
 
+    /// <summary>
+    /// Gets or sets the stream of live rows appended to the data, and the rolling window of rows kept.
+    /// </summary>
+    [Prop] public ChartStreamOptions? Stream { get; init; }
+
+    /// <summary>
+    /// Gets or sets the handler for clicks on a point, which receives the clicked row of the data.
+    /// </summary>
+    [Event] public Func<Event<BarChart, ChartPointClick>, ValueTask>? OnPointClick { get; set; }
+
+    /// <summary>
+    /// Gets or sets the handler for range selections with the brush. Setting it adds the brush tools to the chart.
+    /// </summary>
+    [Event] public Func<Event<BarChart, ChartBrushSelection>, ValueTask>? OnBrush { get; set; }
+
+    /// <summary>
+    /// Gets or sets the handler for series shown or hidden through the legend.
+    /// </summary>
+    [Event] public Func<Event<BarChart, ChartLegendToggle>, ValueTask>? OnLegendToggle { get; set; }
+
+    /// <summary>
+    /// Gets or sets the handler for zooming and panning, which receives the visible range so the server can
+    /// fetch finer data for it. Wheel zooming raises many events; debounce them with Debounce(delay, "OnZoom").
+    /// </summary>
+    [Event] public Func<Event<BarChart, ChartZoom>, ValueTask>? OnZoom { get; set; }
+
     /// <summary>
     /// Operator overload that prevents BarChart from accepting child widgets.
     /// </summary>
@@ -394,6 +431,60 @@ public static class BarChartExtensions
         return chart with { ColorScheme = colorScheme };
     }
 
+    /// <summary>
+    /// Sets whether the toolbar for exporting the chart is shown.
+    /// </summary>
+    /// <param name="chart">The BarChart to configure.</param>
+    /// <param name="show">True to show the toolbar, false to hide it.</param>
+    /// <returns>A new BarChart instance with the updated toolbar setting.</returns>
+    public static BarChart Toolbar(this BarChart chart, bool show = true)
+    {
+        return chart with { Toolbar = show };
+    }
+
+    /// <summary>
+    /// Sets the zooming and panning configuration.
+    /// </summary>
+    /// <param name="chart">The BarChart to configure.</param>
+    /// <param name="dataZoom">The DataZoom configuration to use.</param>
+    /// <returns>A new BarChart instance with the updated zoom configuration.</returns>
+    public static BarChart DataZoom(this BarChart chart, DataZoom dataZoom)
+    {
+        return chart with { DataZoom = dataZoom };
+    }
+
+    /// <summary>
+    /// Lets the chart zoom with the mouse wheel or pinch, pan by dragging and zoom with a range slider.
+    /// </summary>
+    /// <param name="chart">The BarChart to configure.</param>
+    /// <returns>A new BarChart instance with zooming enabled.</returns>
+    public static BarChart DataZoom(this BarChart chart)
+    {
+        return chart with { DataZoom = new DataZoom() };
+    }
+
+    /// <summary>
+    /// Shows the live rows of a stream after the data of the chart.
+    /// </summary>
+    /// <param name="chart">The BarChart to configure.</param>
+    /// <param name="stream">The stream, usually from UseChartStream.</param>
+    /// <param name="maxPoints">The maximum number of rows kept, or null for no limit.</param>
+    /// <param name="window">The span of time kept, measured back from the newest row, or null for no limit.</param>
+    /// <param name="timeKey">The key of the time of a row for the window, or null for the category key.</param>
+    /// <returns>A new BarChart instance showing the stream.</returns>
+    public static BarChart Stream(this BarChart chart, IChartStream stream, int? maxPoints = null, TimeSpan? window = null, string? timeKey = null)
+    {
+        return chart with
+        {
+            Stream = new ChartStreamOptions(stream.Id)
+            {
+                MaxPoints = maxPoints,
+                Window = window is { } span ? (int)span.TotalMilliseconds : null,
+                TimeKey = timeKey
+            }
+        };
+    }
+
     /// <summary>
     /// Sets the stack offset type.
     /// </summary>
@@ -459,5 +550,92 @@ public static class BarChartExtensions
     {
         return chart with { ReverseStackOrder = reverseStackOrder };
     }
-}
 
+    /// <summary>
+    /// Sets the handler for clicks on a point.
+    /// </summary>
+    /// <param name="chart">The BarChart to configure.</param>
+    /// <param name="onPointClick">The handler, which receives the clicked row of the data.</param>
+    /// <returns>A new BarChart instance with the click handler.</returns>
+    [OverloadResolutionPriority(1)]
+    public static BarChart HandlePointClick(this BarChart chart, Func<Event<BarChart, ChartPointClick>, ValueTask> onPointClick)
+    {
+        return chart with { OnPointClick = onPointClick };
+    }
+
+    public static BarChart HandlePointClick(this BarChart chart, Action<Event<BarChart, ChartPointClick>> onPointClick)
+    {
+        return chart with { OnPointClick = onPointClick.ToValueTask() };
+    }
+
+    public static BarChart HandlePointClick(this BarChart chart, Action<ChartPointClick> onPointClick)
+    {
+        return chart with { OnPointClick = @event => { onPointClick(@event.Value); return ValueTask.CompletedTask; } };
+    }
+
+    /// <summary>
+    /// Sets the handler for range selections with the brush, which adds the brush tools to the chart.
+    /// </summary>
+    /// <param name="chart">The BarChart to configure.</param>
+    /// <param name="onBrush">The handler, which receives the selected rows, or an empty selection when the brush is cleared.</param>
+    /// <returns>A new BarChart instance with the brush handler.</returns>
+    [OverloadResolutionPriority(1)]
+    public static BarChart HandleBrush(this BarChart chart, Func<Event<BarChart, ChartBrushSelection>, ValueTask> onBrush)
+    {
+        return chart with { OnBrush = onBrush };
+    }
+
+    public static BarChart HandleBrush(this BarChart chart, Action<Event<BarChart, ChartBrushSelection>> onBrush)
+    {
+        return chart with { OnBrush = onBrush.ToValueTask() };
+    }
+
+    public static BarChart HandleBrush(this BarChart chart, Action<ChartBrushSelection> onBrush)
+    {
+        return chart with { OnBrush = @event => { onBrush(@event.Value); return ValueTask.CompletedTask; } };
+    }
+
+    /// <summary>
+    /// Sets the handler for series shown or hidden through the legend.
+    /// </summary>
+    /// <param name="chart">The BarChart to configure.</param>
+    /// <param name="onLegendToggle">The handler, which receives the toggled series and the visibility of all series.</param>
+    /// <returns>A new BarChart instance with the legend toggle handler.</returns>
+    [OverloadResolutionPriority(1)]
+    public static BarChart HandleLegendToggle(this BarChart chart, Func<Event<BarChart, ChartLegendToggle>, ValueTask> onLegendToggle)
+    {
+        return chart with { OnLegendToggle = onLegendToggle };
+    }
+
+    public static BarChart HandleLegendToggle(this BarChart chart, Action<Event<BarChart, ChartLegendToggle>> onLegendToggle)
+    {
+        return chart with { OnLegendToggle = onLegendToggle.ToValueTask() };
+    }
+
+    public static BarChart HandleLegendToggle(this BarChart chart, Action<ChartLegendToggle> onLegendToggle)
+    {
+        return chart with { OnLegendToggle = @event => { onLegendToggle(@event.Value); return ValueTask.CompletedTask; } };
+    }
+
+    /// <summary>
+    /// Sets the handler for zooming and panning.
+    /// </summary>
+    /// <param name="chart">The BarChart to configure.</param>
+    /// <param name="onZoom">The handler, which receives the visible range.</param>
+    /// <returns>A new BarChart instance with the zoom handler.</returns>
+    [OverloadResolutionPriority(1)]
+    public static BarChart HandleZoom(this BarChart chart, Func<Event<BarChart, ChartZoom>, ValueTask> onZoom)
+    {
+        return chart with { OnZoom = onZoom };
+    }
+
+    public static BarChart HandleZoom(this BarChart chart, Action<Event<BarChart, ChartZoom>> onZoom)
+    {
+        return chart with { OnZoom = onZoom.ToValueTask() };
+    }
+
+    public static BarChart HandleZoom(this BarChart chart, Action<ChartZoom> onZoom)
+    {
+        return chart with { OnZoom = @event => { onZoom(@event.Value); return ValueTask.CompletedTask; } };
+    }
+}
@@ -0,0 +1,407 @@
+﻿using Ivy.Charts;
+using Ivy.Core;
+using Ivy.Shared;
+using System.Runtime.CompilerServices;
+
+// ReSharper disable once CheckNamespace
+namespace Ivy;
+
+/// <summary>
+/// Represents a candlestick chart widget for OHLC (open, high, low, close) data, with one candle per data row.
+/// </summary>
+public record CandlestickChart : WidgetBase<CandlestickChart>
+{
+    /// <summary>
+    /// Initializes a new instance of the CandlestickChart class.
+    /// </summary>
+    /// <param name="data">The data source, with one row per candle.</param>
+    /// <param name="categoryDataKey">The key of the data property with the category of the candle, usually its date.</param>
+    /// <param name="openDataKey">The key of the data property with the opening value.</param>
+    /// <param name="highDataKey">The key of the data property with the highest value.</param>
+    /// <param name="lowDataKey">The key of the data property with the lowest value.</param>
+    /// <param name="closeDataKey">The key of the data property with the closing value.</param>
+    public CandlestickChart(object data, string categoryDataKey = "Date", string openDataKey = "Open", string highDataKey = "High", string lowDataKey = "Low", string closeDataKey = "Close")
+    {
+        Data = data;
+        CategoryDataKey = categoryDataKey;
+        OpenDataKey = openDataKey;
+        HighDataKey = highDataKey;
+        LowDataKey = lowDataKey;
+        CloseDataKey = closeDataKey;
+        Width = Size.Full();
+        Height = Size.Full();
+    }
+
+    /// <summary>
+    /// Gets or sets the data source.
+    /// </summary>
+    [Prop] public object Data { get; init; }
+
+    /// <summary>
+    /// Gets or sets the key of the data property with the category of the candle.
+    /// </summary>
+    [Prop] public string CategoryDataKey { get; init; }
+
+    /// <summary>
+    /// Gets or sets the key of the data property with the opening value.
+    /// </summary>
+    [Prop] public string OpenDataKey { get; init; }
+
+    /// <summary>
+    /// Gets or sets the key of the data property with the highest value.
+    /// </summary>
+    [Prop] public string HighDataKey { get; init; }
+
+    /// <summary>
+    /// Gets or sets the key of the data property with the lowest value.
+    /// </summary>
+    [Prop] public string LowDataKey { get; init; }
+
+    /// <summary>
+    /// Gets or sets the key of the data property with the closing value.
+    /// </summary>
+    [Prop] public string CloseDataKey { get; init; }
+
+    /// <summary>
+    /// Gets or sets the display name of the series in legends and tooltips.
+    /// </summary>
+    [Prop] public string? Name { get; init; }
+
+    /// <summary>
+    /// Gets or sets the color of candles that close above their opening value.
+    /// </summary>
+    [Prop] public Colors UpColor { get; init; } = Colors.Green;
+
+    /// <summary>
+    /// Gets or sets the color of candles that close below their opening value.
+    /// </summary>
+    [Prop] public Colors DownColor { get; init; } = Colors.Red;
+
+    /// <summary>
+    /// Gets or sets the color scheme.
+    /// </summary>
+    [Prop] public ColorScheme ColorScheme { get; init; } = ColorScheme.Default;
+
+    /// <summary>
+    /// Gets or sets the zooming and panning along the category axis, off by default.
+    /// </summary>
+    [Prop] public DataZoom? DataZoom { get; init; }
+
+    /// <summary>
+    /// Gets or sets whether the toolbar for exporting the chart as PNG, SVG or CSV is shown.
+    /// </summary>
+    [Prop] public bool Toolbar { get; init; } = true;
+
+    /// <summary>
+    /// Gets or sets the Cartesian grid configuration.
+    /// </summary>
+    [Prop] public CartesianGrid? CartesianGrid { get; init; }
+
+    /// <summary>
+    /// Gets or sets the tooltip configuration.
+    /// </summary>
+    [Prop] public Ivy.Charts.Tooltip? Tooltip { get; init; }
+
+    /// <summary>
+    /// Gets or sets the legend configuration.
+    /// </summary>
+    [Prop] public Legend? Legend { get; init; } = null;
+
+    /// <summary>
+    /// Gets or sets the array of X-axis configurations.
+    /// </summary>
+    [Prop] public XAxis[] XAxis { get; init; } = [];
+
+    /// <summary>
+    /// Gets or sets the array of Y-axis configurations.
+    /// </summary>
+    [Prop] public YAxis[] YAxis { get; init; } = [];
+
+    /// <summary>
+    /// Gets or sets the handler for clicks on a candle, which receives the clicked row of the data.
+    /// </summary>
+    [Event] public Func<Event<CandlestickChart, ChartPointClick>, ValueTask>? OnPointClick { get; set; }
+
+    /// <summary>
+    /// Gets or sets the handler for range selections with the brush. Setting it adds the brush tools to the chart.
+    /// </summary>
+    [Event] public Func<Event<CandlestickChart, ChartBrushSelection>, ValueTask>? OnBrush { get; set; }
+
+    /// <summary>
+    /// Gets or sets the handler for series shown or hidden through the legend.
+    /// </summary>
+    [Event] public Func<Event<CandlestickChart, ChartLegendToggle>, ValueTask>? OnLegendToggle { get; set; }
+
+    /// <summary>
+    /// Gets or sets the handler for zooming and panning, which receives the visible range so the server can
+    /// fetch finer data for it. Wheel zooming raises many events; debounce them with Debounce(delay, "OnZoom").
+    /// </summary>
+    [Event] public Func<Event<CandlestickChart, ChartZoom>, ValueTask>? OnZoom { get; set; }
+
+    /// <summary>
+    /// Operator overload that prevents CandlestickChart from accepting child widgets.
+    /// </summary>
+    /// <param name="widget">The CandlestickChart widget.</param>
+    /// <param name="child">The child widget (not supported).</param>
+    /// <returns>Throws NotSupportedException.</returns>
+    /// <exception cref="NotSupportedException">CandlestickChart does not support children.</exception>
+    public static CandlestickChart operator |(CandlestickChart widget, object child)
+    {
+        throw new NotSupportedException("CandlestickChart does not support children.");
+    }
+}
+
+/// <summary>
+/// Extension methods for the CandlestickChart class.
+/// </summary>
+public static class CandlestickChartExtensions
+{
+    /// <summary>
+    /// Sets the display name of the series in legends and tooltips.
+    /// </summary>
+    /// <param name="chart">The CandlestickChart to configure.</param>
+    /// <param name="name">The display name of the series.</param>
+    /// <returns>A new CandlestickChart instance with the updated name.</returns>
+    public static CandlestickChart Name(this CandlestickChart chart, string name)
+    {
+        return chart with { Name = name };
+    }
+
+    /// <summary>
+    /// Sets the color of candles that close above their opening value.
+    /// </summary>
+    /// <param name="chart">The CandlestickChart to configure.</param>
+    /// <param name="upColor">The color of rising candles.</param>
+    /// <returns>A new CandlestickChart instance with the updated color.</returns>
+    public static CandlestickChart UpColor(this CandlestickChart chart, Colors upColor)
+    {
+        return chart with { UpColor = upColor };
+    }
+
+    /// <summary>
+    /// Sets the color of candles that close below their opening value.
+    /// </summary>
+    /// <param name="chart">The CandlestickChart to configure.</param>
+    /// <param name="downColor">The color of falling candles.</param>
+    /// <returns>A new CandlestickChart instance with the updated color.</returns>
+    public static CandlestickChart DownColor(this CandlestickChart chart, Colors downColor)
+    {
+        return chart with { DownColor = downColor };
+    }
+
+    /// <summary>
+    /// Sets the color scheme.
+    /// </summary>
+    /// <param name="chart">The CandlestickChart to configure.</param>
+    /// <param name="colorScheme">The color scheme to use.</param>
+    /// <returns>A new CandlestickChart instance with the updated color scheme.</returns>
+    public static CandlestickChart ColorScheme(this CandlestickChart chart, ColorScheme colorScheme)
+    {
+        return chart with { ColorScheme = colorScheme };
+    }
+
+    /// <summary>
+    /// Sets whether the toolbar for exporting the chart is shown.
+    /// </summary>
+    /// <param name="chart">The CandlestickChart to configure.</param>
+    /// <param name="show">True to show the toolbar, false to hide it.</param>
+    /// <returns>A new CandlestickChart instance with the updated toolbar setting.</returns>
+    public static CandlestickChart Toolbar(this CandlestickChart chart, bool show = true)
+    {
+        return chart with { Toolbar = show };
+    }
+
+    /// <summary>
+    /// Sets the zooming and panning configuration.
+    /// </summary>
+    /// <param name="chart">The CandlestickChart to configure.</param>
+    /// <param name="dataZoom">The DataZoom configuration to use.</param>
+    /// <returns>A new CandlestickChart instance with the updated zoom configuration.</returns>
+    public static CandlestickChart DataZoom(this CandlestickChart chart, DataZoom dataZoom)
+    {
+        return chart with { DataZoom = dataZoom };
+    }
+
+    /// <summary>
+    /// Lets the chart zoom with the mouse wheel or pinch, pan by dragging and zoom with a range slider.
+    /// </summary>
+    /// <param name="chart">The CandlestickChart to configure.</param>
+    /// <returns>A new CandlestickChart instance with zooming enabled.</returns>
+    public static CandlestickChart DataZoom(this CandlestickChart chart)
+    {
+        return chart with { DataZoom = new DataZoom() };
+    }
+
+    /// <summary>
+    /// Sets the Cartesian grid configuration.
+    /// </summary>
+    /// <param name="chart">The CandlestickChart to configure.</param>
+    /// <param name="cartesianGrid">The CartesianGrid configuration to use.</param>
+    /// <returns>A new CandlestickChart instance with the updated Cartesian grid configuration.</returns>
+    public static CandlestickChart CartesianGrid(this CandlestickChart chart, CartesianGrid cartesianGrid)
+    {
+        return chart with { CartesianGrid = cartesianGrid };
+    }
+
+    /// <summary>
+    /// Enables the Cartesian grid.
+    /// </summary>
+    /// <param name="chart">The CandlestickChart to configure.</param>
+    /// <returns>A new CandlestickChart instance with default Cartesian grid enabled.</returns>
+    public static CandlestickChart CartesianGrid(this CandlestickChart chart)
+    {
+        return chart with { CartesianGrid = new CartesianGrid() };
+    }
+
+    /// <summary>
+    /// Adds an X-axis configuration.
+    /// </summary>
+    /// <param name="chart">The CandlestickChart to configure.</param>
+    /// <param name="xAxis">The XAxis configuration to add.</param>
+    /// <returns>A new CandlestickChart instance with the additional X-axis configuration.</returns>
+    public static CandlestickChart XAxis(this CandlestickChart chart, XAxis xAxis)
+    {
+        return chart with { XAxis = [.. chart.XAxis, xAxis] };
+    }
+
+    /// <summary>
+    /// Adds a Y-axis configuration.
+    /// </summary>
+    /// <param name="chart">The CandlestickChart to configure.</param>
+    /// <param name="yAxis">The YAxis configuration to add.</param>
+    /// <returns>A new CandlestickChart instance with the additional Y-axis configuration.</returns>
+    public static CandlestickChart YAxis(this CandlestickChart chart, YAxis yAxis)
+    {
+        return chart with { YAxis = [.. chart.YAxis, yAxis] };
+    }
+
+    /// <summary>
+    /// Sets the tooltip configuration.
+    /// </summary>
+    /// <param name="chart">The CandlestickChart to configure.</param>
+    /// <param name="tooltip">The Tooltip configuration to use, or null to disable tooltips.</param>
+    /// <returns>A new CandlestickChart instance with the updated tooltip configuration.</returns>
+    public static CandlestickChart Tooltip(this CandlestickChart chart, Ivy.Charts.Tooltip? tooltip)
+    {
+        return chart with { Tooltip = tooltip };
+    }
+
+    /// <summary>
+    /// Enables the tooltip.
+    /// </summary>
+    /// <param name="chart">The CandlestickChart to configure.</param>
+    /// <returns>A new CandlestickChart instance with default tooltip enabled.</returns>
+    public static CandlestickChart Tooltip(this CandlestickChart chart)
+    {
+        return chart with { Tooltip = new Ivy.Charts.Tooltip() };
+    }
+
+    /// <summary>
+    /// Sets the legend configuration.
+    /// </summary>
+    /// <param name="chart">The CandlestickChart to configure.</param>
+    /// <param name="legend">The Legend configuration to use.</param>
+    /// <returns>A new CandlestickChart instance with the updated legend configuration.</returns>
+    public static CandlestickChart Legend(this CandlestickChart chart, Legend legend)
+    {
+        return chart with { Legend = legend };
+    }
+
+    /// <summary>
+    /// Enables the legend.
+    /// </summary>
+    /// <param name="chart">The CandlestickChart to configure.</param>
+    /// <returns>A new CandlestickChart instance with default legend enabled.</returns>
+    public static CandlestickChart Legend(this CandlestickChart chart)
+    {
+        return chart with { Legend = new Legend() };
+    }
+
+    /// <summary>
+    /// Sets the handler for clicks on a candle.
+    /// </summary>
+    /// <param name="chart">The CandlestickChart to configure.</param>
+    /// <param name="onPointClick">The handler, which receives the clicked row of the data.</param>
+    /// <returns>A new CandlestickChart instance with the click handler.</returns>
+    [OverloadResolutionPriority(1)]
+    public static CandlestickChart HandlePointClick(this CandlestickChart chart, Func<Event<CandlestickChart, ChartPointClick>, ValueTask> onPointClick)
+    {
+        return chart with { OnPointClick = onPointClick };
+    }
+
+    public static CandlestickChart HandlePointClick(this CandlestickChart chart, Action<Event<CandlestickChart, ChartPointClick>> onPointClick)
+    {
+        return chart with { OnPointClick = onPointClick.ToValueTask() };
+    }
+
+    public static CandlestickChart HandlePointClick(this CandlestickChart chart, Action<ChartPointClick> onPointClick)
+    {
+        return chart with { OnPointClick = @event => { onPointClick(@event.Value); return ValueTask.CompletedTask; } };
+    }
+
+    /// <summary>
+    /// Sets the handler for range selections with the brush, which adds the brush tools to the chart.
+    /// </summary>
+    /// <param name="chart">The CandlestickChart to configure.</param>
+    /// <param name="onBrush">The handler, which receives the selected rows, or an empty selection when the brush is cleared.</param>
+    /// <returns>A new CandlestickChart instance with the brush handler.</returns>
+    [OverloadResolutionPriority(1)]
+    public static CandlestickChart HandleBrush(this CandlestickChart chart, Func<Event<CandlestickChart, ChartBrushSelection>, ValueTask> onBrush)
+    {
+        return chart with { OnBrush = onBrush };
+    }
+
+    public static CandlestickChart HandleBrush(this CandlestickChart chart, Action<Event<CandlestickChart, ChartBrushSelection>> onBrush)
+    {
+        return chart with { OnBrush = onBrush.ToValueTask() };
+    }
+
+    public static CandlestickChart HandleBrush(this CandlestickChart chart, Action<ChartBrushSelection> onBrush)
+    {
+        return chart with { OnBrush = @event => { onBrush(@event.Value); return ValueTask.CompletedTask; } };
+    }
+
+    /// <summary>
+    /// Sets the handler for series shown or hidden through the legend.
+    /// </summary>
+    /// <param name="chart">The CandlestickChart to configure.</param>
+    /// <param name="onLegendToggle">The handler, which receives the toggled series and the visibility of all series.</param>
+    /// <returns>A new CandlestickChart instance with the legend toggle handler.</returns>
+    [OverloadResolutionPriority(1)]
+    public static CandlestickChart HandleLegendToggle(this CandlestickChart chart, Func<Event<CandlestickChart, ChartLegendToggle>, ValueTask> onLegendToggle)
+    {
+        return chart with { OnLegendToggle = onLegendToggle };
+    }
+
+    public static CandlestickChart HandleLegendToggle(this CandlestickChart chart, Action<Event<CandlestickChart, ChartLegendToggle>> onLegendToggle)
+    {
+        return chart with { OnLegendToggle = onLegendToggle.ToValueTask() };
+    }
+
+    public static CandlestickChart HandleLegendToggle(this CandlestickChart chart, Action<ChartLegendToggle> onLegendToggle)
+    {
+        return chart with { OnLegendToggle = @event => { onLegendToggle(@event.Value); return ValueTask.CompletedTask; } };
+    }
+
+    /// <summary>
+    /// Sets the handler for zooming and panning.
+    /// </summary>
+    /// <param name="chart">The CandlestickChart to configure.</param>
+    /// <param name="onZoom">The handler, which receives the visible range.</param>
+    /// <returns>A new CandlestickChart instance with the zoom handler.</returns>
+    [OverloadResolutionPriority(1)]
+    public static CandlestickChart HandleZoom(this CandlestickChart chart, Func<Event<CandlestickChart, ChartZoom>, ValueTask> onZoom)
+    {
+        return chart with { OnZoom = onZoom };
+    }
+
+    public static CandlestickChart HandleZoom(this CandlestickChart chart, Action<Event<CandlestickChart, ChartZoom>> onZoom)
+    {
+        return chart with { OnZoom = onZoom.ToValueTask() };
+    }
+
+    public static CandlestickChart HandleZoom(this CandlestickChart chart, Action<ChartZoom> onZoom)
+    {
+        return chart with { OnZoom = @event => { onZoom(@event.Value); return ValueTask.CompletedTask; } };
+    }
+}
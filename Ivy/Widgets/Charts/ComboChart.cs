@@ -0,0 +1,380 @@
+﻿using Ivy.Charts;
+using Ivy.Core;
+using Ivy.Shared;
+using System.Runtime.CompilerServices;
+
+// ReSharper disable once CheckNamespace
+namespace Ivy;
+
+/// <summary>
+/// Represents a combo chart widget mixing bar and line series over the same categories, optionally on two Y-axes.
+/// </summary>
+public record ComboChart : WidgetBase<ComboChart>
+{
+    /// <summary>
+    /// Initializes a new instance of the ComboChart class.
+    /// </summary>
+    /// <param name="data">The data source.</param>
+    public ComboChart(object data)
+    {
+        Data = data;
+        Width = Size.Full();
+        Height = Size.Full();
+    }
+
+    /// <summary>
+    /// Gets or sets the data source.
+    /// </summary>
+    [Prop] public object Data { get; init; }
+
+    /// <summary>
+    /// Gets or sets the array of Bar configurations.
+    /// </summary>
+    [Prop] public Bar[] Bars { get; init; } = [];
+
+    /// <summary>
+    /// Gets or sets the array of Line configurations.
+    /// </summary>
+    [Prop] public Line[] Lines { get; init; } = [];
+
+    /// <summary>
+    /// Gets or sets the color scheme.
+    /// </summary>
+    [Prop] public ColorScheme ColorScheme { get; init; } = ColorScheme.Default;
+
+    /// <summary>
+    /// Gets or sets the zooming and panning along the category axis, off by default.
+    /// </summary>
+    [Prop] public DataZoom? DataZoom { get; init; }
+
+    /// <summary>
+    /// Gets or sets whether the toolbar for exporting the chart as PNG, SVG or CSV is shown.
+    /// </summary>
+    [Prop] public bool Toolbar { get; init; } = true;
+
+    /// <summary>
+    /// Gets or sets the Cartesian grid configuration.
+    /// </summary>
+    [Prop] public CartesianGrid? CartesianGrid { get; init; }
+
+    /// <summary>
+    /// Gets or sets the tooltip configuration.
+    /// </summary>
+    [Prop] public Ivy.Charts.Tooltip? Tooltip { get; init; }
+
+    /// <summary>
+    /// Gets or sets the legend configuration.
+    /// </summary>
+    [Prop] public Legend? Legend { get; init; } = null;
+
+    /// <summary>
+    /// Gets or sets the array of X-axis configurations.
+    /// </summary>
+    [Prop] public XAxis[] XAxis { get; init; } = [];
+
+    /// <summary>
+    /// Gets or sets the array of Y-axis configurations.
+    /// </summary>
+    [Prop] public YAxis[] YAxis { get; init; } = [];
+
+    /// <summary>
+    /// Gets or sets the handler for clicks on a bar or point, which receives the clicked row of the data.
+    /// </summary>
+    [Event] public Func<Event<ComboChart, ChartPointClick>, ValueTask>? OnPointClick { get; set; }
+
+    /// <summary>
+    /// Gets or sets the handler for range selections with the brush. Setting it adds the brush tools to the chart.
+    /// </summary>
+    [Event] public Func<Event<ComboChart, ChartBrushSelection>, ValueTask>? OnBrush { get; set; }
+
+    /// <summary>
+    /// Gets or sets the handler for series shown or hidden through the legend.
+    /// </summary>
+    [Event] public Func<Event<ComboChart, ChartLegendToggle>, ValueTask>? OnLegendToggle { get; set; }
+
+    /// <summary>
+    /// Gets or sets the handler for zooming and panning, which receives the visible range so the server can
+    /// fetch finer data for it. Wheel zooming raises many events; debounce them with Debounce(delay, "OnZoom").
+    /// </summary>
+    [Event] public Func<Event<ComboChart, ChartZoom>, ValueTask>? OnZoom { get; set; }
+
+    /// <summary>
+    /// Operator overload that prevents ComboChart from accepting child widgets.
+    /// </summary>
+    /// <param name="widget">The ComboChart widget.</param>
+    /// <param name="child">The child widget (not supported).</param>
+    /// <returns>Throws NotSupportedException.</returns>
+    /// <exception cref="NotSupportedException">ComboChart does not support children.</exception>
+    public static ComboChart operator |(ComboChart widget, object child)
+    {
+        throw new NotSupportedException("ComboChart does not support children.");
+    }
+}
+
+/// <summary>
+/// Extension methods for the ComboChart class.
+/// </summary>
+public static class ComboChartExtensions
+{
+    /// <summary>
+    /// Adds one or more Bar configurations.
+    /// </summary>
+    /// <param name="chart">The ComboChart to configure.</param>
+    /// <param name="bars">Variable number of Bar configurations.</param>
+    /// <returns>A new ComboChart instance with the additional bar configurations.</returns>
+    public static ComboChart Bar(this ComboChart chart, params Bar[] bars)
+    {
+        return chart with { Bars = [.. chart.Bars, .. bars] };
+    }
+
+    /// <summary>
+    /// Adds a simple bar configuration.
+    /// </summary>
+    /// <param name="chart">The ComboChart to configure.</param>
+    /// <param name="dataKey">The data property key to create a bar for.</param>
+    /// <param name="yAxisIndex">The index of the Y-axis the bar is plotted against.</param>
+    /// <returns>A new ComboChart instance with the additional bar configuration.</returns>
+    public static ComboChart Bar(this ComboChart chart, string dataKey, int yAxisIndex = 0)
+    {
+        return chart with { Bars = [.. chart.Bars, new Bar(dataKey) { YAxisIndex = yAxisIndex }] };
+    }
+
+    /// <summary>
+    /// Adds one or more Line configurations.
+    /// </summary>
+    /// <param name="chart">The ComboChart to configure.</param>
+    /// <param name="lines">Variable number of Line configurations.</param>
+    /// <returns>A new ComboChart instance with the additional line configurations.</returns>
+    public static ComboChart Line(this ComboChart chart, params Line[] lines)
+    {
+        return chart with { Lines = [.. chart.Lines, .. lines] };
+    }
+
+    /// <summary>
+    /// Adds a simple line configuration.
+    /// </summary>
+    /// <param name="chart">The ComboChart to configure.</param>
+    /// <param name="dataKey">The data property key to create a line for.</param>
+    /// <param name="yAxisIndex">The index of the Y-axis the line is plotted against.</param>
+    /// <returns>A new ComboChart instance with the additional line configuration.</returns>
+    public static ComboChart Line(this ComboChart chart, string dataKey, int yAxisIndex = 0)
+    {
+        return chart with { Lines = [.. chart.Lines, new Line(dataKey) { YAxisIndex = yAxisIndex }] };
+    }
+
+    /// <summary>
+    /// Sets the color scheme.
+    /// </summary>
+    /// <param name="chart">The ComboChart to configure.</param>
+    /// <param name="colorScheme">The color scheme to use.</param>
+    /// <returns>A new ComboChart instance with the updated color scheme.</returns>
+    public static ComboChart ColorScheme(this ComboChart chart, ColorScheme colorScheme)
+    {
+        return chart with { ColorScheme = colorScheme };
+    }
+
+    /// <summary>
+    /// Sets whether the toolbar for exporting the chart is shown.
+    /// </summary>
+    /// <param name="chart">The ComboChart to configure.</param>
+    /// <param name="show">True to show the toolbar, false to hide it.</param>
+    /// <returns>A new ComboChart instance with the updated toolbar setting.</returns>
+    public static ComboChart Toolbar(this ComboChart chart, bool show = true)
+    {
+        return chart with { Toolbar = show };
+    }
+
+    /// <summary>
+    /// Sets the zooming and panning configuration.
+    /// </summary>
+    /// <param name="chart">The ComboChart to configure.</param>
+    /// <param name="dataZoom">The DataZoom configuration to use.</param>
+    /// <returns>A new ComboChart instance with the updated zoom configuration.</returns>
+    public static ComboChart DataZoom(this ComboChart chart, DataZoom dataZoom)
+    {
+        return chart with { DataZoom = dataZoom };
+    }
+
+    /// <summary>
+    /// Lets the chart zoom with the mouse wheel or pinch, pan by dragging and zoom with a range slider.
+    /// </summary>
+    /// <param name="chart">The ComboChart to configure.</param>
+    /// <returns>A new ComboChart instance with zooming enabled.</returns>
+    public static ComboChart DataZoom(this ComboChart chart)
+    {
+        return chart with { DataZoom = new DataZoom() };
+    }
+
+    /// <summary>
+    /// Sets the Cartesian grid configuration.
+    /// </summary>
+    /// <param name="chart">The ComboChart to configure.</param>
+    /// <param name="cartesianGrid">The CartesianGrid configuration to use.</param>
+    /// <returns>A new ComboChart instance with the updated Cartesian grid configuration.</returns>
+    public static ComboChart CartesianGrid(this ComboChart chart, CartesianGrid cartesianGrid)
+    {
+        return chart with { CartesianGrid = cartesianGrid };
+    }
+
+    /// <summary>
+    /// Enables the Cartesian grid.
+    /// </summary>
+    /// <param name="chart">The ComboChart to configure.</param>
+    /// <returns>A new ComboChart instance with default Cartesian grid enabled.</returns>
+    public static ComboChart CartesianGrid(this ComboChart chart)
+    {
+        return chart with { CartesianGrid = new CartesianGrid() };
+    }
+
+    /// <summary>
+    /// Adds an X-axis configuration.
+    /// </summary>
+    /// <param name="chart">The ComboChart to configure.</param>
+    /// <param name="xAxis">The XAxis configuration to add.</param>
+    /// <returns>A new ComboChart instance with the additional X-axis configuration.</returns>
+    public static ComboChart XAxis(this ComboChart chart, XAxis xAxis)
+    {
+        return chart with { XAxis = [.. chart.XAxis, xAxis] };
+    }
+
+    /// <summary>
+    /// Adds a Y-axis configuration.
+    /// </summary>
+    /// <param name="chart">The ComboChart to configure.</param>
+    /// <param name="yAxis">The YAxis configuration to add.</param>
+    /// <returns>A new ComboChart instance with the additional Y-axis configuration.</returns>
+    public static ComboChart YAxis(this ComboChart chart, YAxis yAxis)
+    {
+        return chart with { YAxis = [.. chart.YAxis, yAxis] };
+    }
+
+    /// <summary>
+    /// Sets the tooltip configuration.
+    /// </summary>
+    /// <param name="chart">The ComboChart to configure.</param>
+    /// <param name="tooltip">The Tooltip configuration to use, or null to disable tooltips.</param>
+    /// <returns>A new ComboChart instance with the updated tooltip configuration.</returns>
+    public static ComboChart Tooltip(this ComboChart chart, Ivy.Charts.Tooltip? tooltip)
+    {
+        return chart with { Tooltip = tooltip };
+    }
+
+    /// <summary>
+    /// Enables the tooltip.
+    /// </summary>
+    /// <param name="chart">The ComboChart to configure.</param>
+    /// <returns>A new ComboChart instance with default tooltip enabled.</returns>
+    public static ComboChart Tooltip(this ComboChart chart)
+    {
+        return chart with { Tooltip = new Ivy.Charts.Tooltip() };
+    }
+
+    /// <summary>
+    /// Sets the legend configuration.
+    /// </summary>
+    /// <param name="chart">The ComboChart to configure.</param>
+    /// <param name="legend">The Legend configuration to use.</param>
+    /// <returns>A new ComboChart instance with the updated legend configuration.</returns>
+    public static ComboChart Legend(this ComboChart chart, Legend legend)
+    {
+        return chart with { Legend = legend };
+    }
+
+    /// <summary>
+    /// Enables the legend.
+    /// </summary>
+    /// <param name="chart">The ComboChart to configure.</param>
+    /// <returns>A new ComboChart instance with default legend enabled.</returns>
+    public static ComboChart Legend(this ComboChart chart)
+    {
+        return chart with { Legend = new Legend() };
+    }
+
+    /// <summary>
+    /// Sets the handler for clicks on a bar or point.
+    /// </summary>
+    /// <param name="chart">The ComboChart to configure.</param>
+    /// <param name="onPointClick">The handler, which receives the clicked row of the data.</param>
+    /// <returns>A new ComboChart instance with the click handler.</returns>
+    [OverloadResolutionPriority(1)]
+    public static ComboChart HandlePointClick(this ComboChart chart, Func<Event<ComboChart, ChartPointClick>, ValueTask> onPointClick)
+    {
+        return chart with { OnPointClick = onPointClick };
+    }
+
+    public static ComboChart HandlePointClick(this ComboChart chart, Action<Event<ComboChart, ChartPointClick>> onPointClick)
+    {
+        return chart with { OnPointClick = onPointClick.ToValueTask() };
+    }
+
+    public static ComboChart HandlePointClick(this ComboChart chart, Action<ChartPointClick> onPointClick)
+    {
+        return chart with { OnPointClick = @event => { onPointClick(@event.Value); return ValueTask.CompletedTask; } };
+    }
+
+    /// <summary>
+    /// Sets the handler for range selections with the brush, which adds the brush tools to the chart.
+    /// </summary>
+    /// <param name="chart">The ComboChart to configure.</param>
+    /// <param name="onBrush">The handler, which receives the selected rows, or an empty selection when the brush is cleared.</param>
+    /// <returns>A new ComboChart instance with the brush handler.</returns>
+    [OverloadResolutionPriority(1)]
+    public static ComboChart HandleBrush(this ComboChart chart, Func<Event<ComboChart, ChartBrushSelection>, ValueTask> onBrush)
+    {
+        return chart with { OnBrush = onBrush };
+    }
+
+    public static ComboChart HandleBrush(this ComboChart chart, Action<Event<ComboChart, ChartBrushSelection>> onBrush)
+    {
+        return chart with { OnBrush = onBrush.ToValueTask() };
+    }
+
+    public static ComboChart HandleBrush(this ComboChart chart, Action<ChartBrushSelection> onBrush)
+    {
+        return chart with { OnBrush = @event => { onBrush(@event.Value); return ValueTask.CompletedTask; } };
+    }
+
+    /// <summary>
+    /// Sets the handler for series shown or hidden through the legend.
+    /// </summary>
+    /// <param name="chart">The ComboChart to configure.</param>
+    /// <param name="onLegendToggle">The handler, which receives the toggled series and the visibility of all series.</param>
+    /// <returns>A new ComboChart instance with the legend toggle handler.</returns>
+    [OverloadResolutionPriority(1)]
+    public static ComboChart HandleLegendToggle(this ComboChart chart, Func<Event<ComboChart, ChartLegendToggle>, ValueTask> onLegendToggle)
+    {
+        return chart with { OnLegendToggle = onLegendToggle };
+    }
+
+    public static ComboChart HandleLegendToggle(this ComboChart chart, Action<Event<ComboChart, ChartLegendToggle>> onLegendToggle)
+    {
+        return chart with { OnLegendToggle = onLegendToggle.ToValueTask() };
+    }
+
+    public static ComboChart HandleLegendToggle(this ComboChart chart, Action<ChartLegendToggle> onLegendToggle)
+    {
+        return chart with { OnLegendToggle = @event => { onLegendToggle(@event.Value); return ValueTask.CompletedTask; } };
+    }
+
+    /// <summary>
+    /// Sets the handler for zooming and panning.
+    /// </summary>
+    /// <param name="chart">The ComboChart to configure.</param>
+    /// <param name="onZoom">The handler, which receives the visible range.</param>
+    /// <returns>A new ComboChart instance with the zoom handler.</returns>
+    [OverloadResolutionPriority(1)]
+    public static ComboChart HandleZoom(this ComboChart chart, Func<Event<ComboChart, ChartZoom>, ValueTask> onZoom)
+    {
+        return chart with { OnZoom = onZoom };
+    }
+
+    public static ComboChart HandleZoom(this ComboChart chart, Action<Event<ComboChart, ChartZoom>> onZoom)
+    {
+        return chart with { OnZoom = onZoom.ToValueTask() };
+    }
+
+    public static ComboChart HandleZoom(this ComboChart chart, Action<ChartZoom> onZoom)
+    {
+        return chart with { OnZoom = @event => { onZoom(@event.Value); return ValueTask.CompletedTask; } };
+    }
+}
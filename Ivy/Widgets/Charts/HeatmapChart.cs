@@ -0,0 +1,288 @@
+﻿using Ivy.Charts;
+using Ivy.Core;
+using Ivy.Shared;
+using System.Runtime.CompilerServices;
+
+// ReSharper disable once CheckNamespace
+namespace Ivy;
+
+/// <summary>
+/// Defines how the cells of a heatmap are laid out.
+/// </summary>
+public enum HeatmapLayouts
+{
+    /// <summary>A matrix with the X categories as columns and the Y categories as rows.</summary>
+    Matrix,
+    /// <summary>A calendar with one cell per day, grouped in weeks.</summary>
+    Calendar
+}
+
+/// <summary>
+/// Represents a heatmap chart widget, coloring cells by value either in a matrix of two categories or in a calendar of days.
+/// </summary>
+public record HeatmapChart : WidgetBase<HeatmapChart>
+{
+    /// <summary>
+    /// Initializes a new instance of the HeatmapChart class with a matrix layout.
+    /// </summary>
+    /// <param name="data">The data source, with one row per cell.</param>
+    /// <param name="xDataKey">The key of the data property with the column of the cell.</param>
+    /// <param name="yDataKey">The key of the data property with the row of the cell.</param>
+    /// <param name="valueDataKey">The key of the data property with the value of the cell.</param>
+    public HeatmapChart(object data, string xDataKey, string yDataKey, string valueDataKey)
+    {
+        Data = data;
+        XDataKey = xDataKey;
+        YDataKey = yDataKey;
+        ValueDataKey = valueDataKey;
+        Width = Size.Full();
+        Height = Size.Full();
+    }
+
+    /// <summary>
+    /// Creates a heatmap with a calendar layout, with one cell per day.
+    /// </summary>
+    /// <param name="data">The data source, with one row per day.</param>
+    /// <param name="dateDataKey">The key of the data property with the date of the day.</param>
+    /// <param name="valueDataKey">The key of the data property with the value of the day.</param>
+    /// <returns>A new HeatmapChart instance with a calendar layout.</returns>
+    public static HeatmapChart Calendar(object data, string dateDataKey, string valueDataKey)
+    {
+        return new HeatmapChart(data, dateDataKey, dateDataKey, valueDataKey) { Layout = HeatmapLayouts.Calendar };
+    }
+
+    /// <summary>
+    /// Gets or sets the data source.
+    /// </summary>
+    [Prop] public object Data { get; init; }
+
+    /// <summary>
+    /// Gets or sets whether the cells are laid out in a matrix or a calendar.
+    /// </summary>
+    [Prop] public HeatmapLayouts Layout { get; init; } = HeatmapLayouts.Matrix;
+
+    /// <summary>
+    /// Gets or sets the key of the data property with the column of the cell, or the date in a calendar layout.
+    /// </summary>
+    [Prop] public string XDataKey { get; init; }
+
+    /// <summary>
+    /// Gets or sets the key of the data property with the row of the cell. Not used in a calendar layout.
+    /// </summary>
+    [Prop] public string YDataKey { get; init; }
+
+    /// <summary>
+    /// Gets or sets the key of the data property with the value of the cell.
+    /// </summary>
+    [Prop] public string ValueDataKey { get; init; }
+
+    /// <summary>
+    /// Gets or sets the value mapped to the lightest color. If null, the smallest value in the data is used.
+    /// </summary>
+    [Prop] public double? Min { get; init; }
+
+    /// <summary>
+    /// Gets or sets the value mapped to the strongest color. If null, the largest value in the data is used.
+    /// </summary>
+    [Prop] public double? Max { get; init; }
+
+    /// <summary>
+    /// Gets or sets the color of the cells. If null, the first color of the color scheme is used.
+    /// </summary>
+    [Prop] public Colors? Fill { get; init; }
+
+    /// <summary>
+    /// Gets or sets whether the values are shown in the cells.
+    /// </summary>
+    [Prop] public bool ShowLabels { get; init; } = false;
+
+    /// <summary>
+    /// Gets or sets the color scheme.
+    /// </summary>
+    [Prop] public ColorScheme ColorScheme { get; init; } = ColorScheme.Default;
+
+    /// <summary>
+    /// Gets or sets whether the toolbar for exporting the chart as PNG, SVG or CSV is shown.
+    /// </summary>
+    [Prop] public bool Toolbar { get; init; } = true;
+
+    /// <summary>
+    /// Gets or sets the tooltip configuration.
+    /// </summary>
+    [Prop] public Ivy.Charts.Tooltip? Tooltip { get; init; }
+
+    /// <summary>
+    /// Gets or sets the legend configuration.
+    /// </summary>
+    [Prop] public Legend? Legend { get; init; } = null;
+
+    /// <summary>
+    /// Gets or sets the handler for clicks on a cell, which receives the clicked row of the data.
+    /// </summary>
+    [Event] public Func<Event<HeatmapChart, ChartPointClick>, ValueTask>? OnPointClick { get; set; }
+
+    /// <summary>
+    /// Gets or sets the handler for series shown or hidden through the legend.
+    /// </summary>
+    [Event] public Func<Event<HeatmapChart, ChartLegendToggle>, ValueTask>? OnLegendToggle { get; set; }
+
+    /// <summary>
+    /// Operator overload that prevents HeatmapChart from accepting child widgets.
+    /// </summary>
+    /// <param name="widget">The HeatmapChart widget.</param>
+    /// <param name="child">The child widget (not supported).</param>
+    /// <returns>Throws NotSupportedException.</returns>
+    /// <exception cref="NotSupportedException">HeatmapChart does not support children.</exception>
+    public static HeatmapChart operator |(HeatmapChart widget, object child)
+    {
+        throw new NotSupportedException("HeatmapChart does not support children.");
+    }
+}
+
+/// <summary>
+/// Extension methods for the HeatmapChart class.
+/// </summary>
+public static class HeatmapChartExtensions
+{
+    /// <summary>
+    /// Sets the values mapped to the lightest and the strongest color.
+    /// </summary>
+    /// <param name="chart">The HeatmapChart to configure.</param>
+    /// <param name="min">The value mapped to the lightest color.</param>
+    /// <param name="max">The value mapped to the strongest color.</param>
+    /// <returns>A new HeatmapChart instance with the updated range.</returns>
+    public static HeatmapChart Range(this HeatmapChart chart, double? min, double? max)
+    {
+        return chart with { Min = min, Max = max };
+    }
+
+    /// <summary>
+    /// Sets the color of the cells. This overrides the chart's default color scheme.
+    /// </summary>
+    /// <param name="chart">The HeatmapChart to configure.</param>
+    /// <param name="fill">The color of the cells.</param>
+    /// <returns>A new HeatmapChart instance with the updated color.</returns>
+    public static HeatmapChart Fill(this HeatmapChart chart, Colors fill)
+    {
+        return chart with { Fill = fill };
+    }
+
+    /// <summary>
+    /// Sets whether the values are shown in the cells.
+    /// </summary>
+    /// <param name="chart">The HeatmapChart to configure.</param>
+    /// <param name="showLabels">Whether to show the values.</param>
+    /// <returns>A new HeatmapChart instance with the updated label setting.</returns>
+    public static HeatmapChart ShowLabels(this HeatmapChart chart, bool showLabels = true)
+    {
+        return chart with { ShowLabels = showLabels };
+    }
+
+    /// <summary>
+    /// Sets the color scheme.
+    /// </summary>
+    /// <param name="chart">The HeatmapChart to configure.</param>
+    /// <param name="colorScheme">The color scheme to use.</param>
+    /// <returns>A new HeatmapChart instance with the updated color scheme.</returns>
+    public static HeatmapChart ColorScheme(this HeatmapChart chart, ColorScheme colorScheme)
+    {
+        return chart with { ColorScheme = colorScheme };
+    }
+
+    /// <summary>
+    /// Sets whether the toolbar for exporting the chart is shown.
+    /// </summary>
+    /// <param name="chart">The HeatmapChart to configure.</param>
+    /// <param name="show">True to show the toolbar, false to hide it.</param>
+    /// <returns>A new HeatmapChart instance with the updated toolbar setting.</returns>
+    public static HeatmapChart Toolbar(this HeatmapChart chart, bool show = true)
+    {
+        return chart with { Toolbar = show };
+    }
+
+    /// <summary>
+    /// Sets the tooltip configuration.
+    /// </summary>
+    /// <param name="chart">The HeatmapChart to configure.</param>
+    /// <param name="tooltip">The Tooltip configuration to use, or null to disable tooltips.</param>
+    /// <returns>A new HeatmapChart instance with the updated tooltip configuration.</returns>
+    public static HeatmapChart Tooltip(this HeatmapChart chart, Ivy.Charts.Tooltip? tooltip)
+    {
+        return chart with { Tooltip = tooltip };
+    }
+
+    /// <summary>
+    /// Enables the tooltip.
+    /// </summary>
+    /// <param name="chart">The HeatmapChart to configure.</param>
+    /// <returns>A new HeatmapChart instance with default tooltip enabled.</returns>
+    public static HeatmapChart Tooltip(this HeatmapChart chart)
+    {
+        return chart with { Tooltip = new Ivy.Charts.Tooltip() };
+    }
+
+    /// <summary>
+    /// Sets the legend configuration.
+    /// </summary>
+    /// <param name="chart">The HeatmapChart to configure.</param>
+    /// <param name="legend">The Legend configuration to use.</param>
+    /// <returns>A new HeatmapChart instance with the updated legend configuration.</returns>
+    public static HeatmapChart Legend(this HeatmapChart chart, Legend legend)
+    {
+        return chart with { Legend = legend };
+    }
+
+    /// <summary>
+    /// Enables the legend.
+    /// </summary>
+    /// <param name="chart">The HeatmapChart to configure.</param>
+    /// <returns>A new HeatmapChart instance with default legend enabled.</returns>
+    public static HeatmapChart Legend(this HeatmapChart chart)
+    {
+        return chart with { Legend = new Legend() };
+    }
+
+    /// <summary>
+    /// Sets the handler for clicks on a cell.
+    /// </summary>
+    /// <param name="chart">The HeatmapChart to configure.</param>
+    /// <param name="onPointClick">The handler, which receives the clicked row of the data.</param>
+    /// <returns>A new HeatmapChart instance with the click handler.</returns>
+    [OverloadResolutionPriority(1)]
+    public static HeatmapChart HandlePointClick(this HeatmapChart chart, Func<Event<HeatmapChart, ChartPointClick>, ValueTask> onPointClick)
+    {
+        return chart with { OnPointClick = onPointClick };
+    }
+
+    public static HeatmapChart HandlePointClick(this HeatmapChart chart, Action<Event<HeatmapChart, ChartPointClick>> onPointClick)
+    {
+        return chart with { OnPointClick = onPointClick.ToValueTask() };
+    }
+
+    public static HeatmapChart HandlePointClick(this HeatmapChart chart, Action<ChartPointClick> onPointClick)
+    {
+        return chart with { OnPointClick = @event => { onPointClick(@event.Value); return ValueTask.CompletedTask; } };
+    }
+
+    /// <summary>
+    /// Sets the handler for series shown or hidden through the legend.
+    /// </summary>
+    /// <param name="chart">The HeatmapChart to configure.</param>
+    /// <param name="onLegendToggle">The handler, which receives the toggled series and the visibility of all series.</param>
+    /// <returns>A new HeatmapChart instance with the legend toggle handler.</returns>
+    [OverloadResolutionPriority(1)]
+    public static HeatmapChart HandleLegendToggle(this HeatmapChart chart, Func<Event<HeatmapChart, ChartLegendToggle>, ValueTask> onLegendToggle)
+    {
+        return chart with { OnLegendToggle = onLegendToggle };
+    }
+
+    public static HeatmapChart HandleLegendToggle(this HeatmapChart chart, Action<Event<HeatmapChart, ChartLegendToggle>> onLegendToggle)
+    {
+        return chart with { OnLegendToggle = onLegendToggle.ToValueTask() };
+    }
+
+    public static HeatmapChart HandleLegendToggle(this HeatmapChart chart, Action<ChartLegendToggle> onLegendToggle)
+    {
+        return chart with { OnLegendToggle = @event => { onLegendToggle(@event.Value); return ValueTask.CompletedTask; } };
+    }
+}
@@ -1,6 +1,7 @@
 ﻿using Ivy.Charts;
 using Ivy.Core;
 using Ivy.Shared;
+using System.Runtime.CompilerServices;
 
 // ReSharper disable once CheckNamespace
 namespace Ivy;
@@ -56,6 +57,16 @@ public record LineChart : WidgetBase<LineChart>
     /// </summary>
     [Prop] public ColorScheme ColorScheme { get; init; } = ColorScheme.Default;
 
+    /// <summary>
+    /// Gets or sets the zooming and panning along the category axis, off by default.
+    /// </summary>
+    [Prop] public DataZoom? DataZoom { get; init; }
+
+    /// <summary>
+    /// Gets or sets whether the toolbar for exporting the chart as PNG, SVG or CSV is shown.
+    /// </summary>
+    [Prop] public bool Toolbar { get; init; } = true;
+
     /// <summary>
     /// Gets or sets the array of Line configurations.
     /// </summary>
@@ -101,6 +112,32 @@ public record LineChart : WidgetBase<LineChart>
     /// </summary>
     [Prop] public ReferenceLine[] ReferenceLines { get; init; } = [];
 
+    /// <summary>
+    /// Gets or sets the stream of live rows appended to the data, and the rolling window of rows kept.
+    /// </summary>
+    [Prop] public ChartStreamOptions? Stream { get; init; }
+
+    /// <summary>
+    /// Gets or sets the handler for clicks on a point, which receives the clicked row of the data.
+    /// </summary>
+    [Event] public Func<Event<LineChart, ChartPointClick>, ValueTask>? OnPointClick { get; set; }
+
+    /// <summary>
+    /// Gets or sets the handler for range selections with the brush. Setting it adds the brush tools to the chart.
+    /// </summary>
+    [Event] public Func<Event<LineChart, ChartBrushSelection>, ValueTask>? OnBrush { get; set; }
+
+    /// <summary>
+    /// Gets or sets the handler for series shown or hidden through the legend.
+    /// </summary>
+    [Event] public Func<Event<LineChart, ChartLegendToggle>, ValueTask>? OnLegendToggle { get; set; }
+
+    /// <summary>
+    /// Gets or sets the handler for zooming and panning, which receives the visible range so the server can
+    /// fetch finer data for it. Wheel zooming raises many events; debounce them with Debounce(delay, "OnZoom").
+    /// </summary>
+    [Event] public Func<Event<LineChart, ChartZoom>, ValueTask>? OnZoom { get; set; }
+
     /// <summary>
     /// Operator overload that prevents LineChart from accepting child widgets.
     /// </summary>
@@ -374,5 +411,146 @@ public static class LineChartExtensions
     {
         return chart with { ColorScheme = colorScheme };
     }
-}
 
+    /// <summary>
+    /// Sets whether the toolbar for exporting the chart is shown.
+    /// </summary>
+    /// <param name="chart">The LineChart to configure.</param>
+    /// <param name="show">True to show the toolbar, false to hide it.</param>
+    /// <returns>A new LineChart instance with the updated toolbar setting.</returns>
+    public static LineChart Toolbar(this LineChart chart, bool show = true)
+    {
+        return chart with { Toolbar = show };
+    }
+
+    /// <summary>
+    /// Sets the zooming and panning configuration.
+    /// </summary>
+    /// <param name="chart">The LineChart to configure.</param>
+    /// <param name="dataZoom">The DataZoom configuration to use.</param>
+    /// <returns>A new LineChart instance with the updated zoom configuration.</returns>
+    public static LineChart DataZoom(this LineChart chart, DataZoom dataZoom)
+    {
+        return chart with { DataZoom = dataZoom };
+    }
+
+    /// <summary>
+    /// Lets the chart zoom with the mouse wheel or pinch, pan by dragging and zoom with a range slider.
+    /// </summary>
+    /// <param name="chart">The LineChart to configure.</param>
+    /// <returns>A new LineChart instance with zooming enabled.</returns>
+    public static LineChart DataZoom(this LineChart chart)
+    {
+        return chart with { DataZoom = new DataZoom() };
+    }
+
+    /// <summary>
+    /// Shows the live rows of a stream after the data of the chart.
+    /// </summary>
+    /// <param name="chart">The LineChart to configure.</param>
+    /// <param name="stream">The stream, usually from UseChartStream.</param>
+    /// <param name="maxPoints">The maximum number of rows kept, or null for no limit.</param>
+    /// <param name="window">The span of time kept, measured back from the newest row, or null for no limit.</param>
+    /// <param name="timeKey">The key of the time of a row for the window, or null for the category key.</param>
+    /// <returns>A new LineChart instance showing the stream.</returns>
+    public static LineChart Stream(this LineChart chart, IChartStream stream, int? maxPoints = null, TimeSpan? window = null, string? timeKey = null)
+    {
+        return chart with
+        {
+            Stream = new ChartStreamOptions(stream.Id)
+            {
+                MaxPoints = maxPoints,
+                Window = window is { } span ? (int)span.TotalMilliseconds : null,
+                TimeKey = timeKey
+            }
+        };
+    }
+
+    /// <summary>
+    /// Sets the handler for clicks on a point.
+    /// </summary>
+    /// <param name="chart">The LineChart to configure.</param>
+    /// <param name="onPointClick">The handler, which receives the clicked row of the data.</param>
+    /// <returns>A new LineChart instance with the click handler.</returns>
+    [OverloadResolutionPriority(1)]
+    public static LineChart HandlePointClick(this LineChart chart, Func<Event<LineChart, ChartPointClick>, ValueTask> onPointClick)
+    {
+        return chart with { OnPointClick = onPointClick };
+    }
+
+    public static LineChart HandlePointClick(this LineChart chart, Action<Event<LineChart, ChartPointClick>> onPointClick)
+    {
+        return chart with { OnPointClick = onPointClick.ToValueTask() };
+    }
+
+    public static LineChart HandlePointClick(this LineChart chart, Action<ChartPointClick> onPointClick)
+    {
+        return chart with { OnPointClick = @event => { onPointClick(@event.Value); return ValueTask.CompletedTask; } };
+    }
+
+    /// <summary>
+    /// Sets the handler for range selections with the brush, which adds the brush tools to the chart.
+    /// </summary>
+    /// <param name="chart">The LineChart to configure.</param>
+    /// <param name="onBrush">The handler, which receives the selected rows, or an empty selection when the brush is cleared.</param>
+    /// <returns>A new LineChart instance with the brush handler.</returns>
+    [OverloadResolutionPriority(1)]
+    public static LineChart HandleBrush(this LineChart chart, Func<Event<LineChart, ChartBrushSelection>, ValueTask> onBrush)
+    {
+        return chart with { OnBrush = onBrush };
+    }
+
+    public static LineChart HandleBrush(this LineChart chart, Action<Event<LineChart, ChartBrushSelection>> onBrush)
+    {
+        return chart with { OnBrush = onBrush.ToValueTask() };
+    }
+
+    public static LineChart HandleBrush(this LineChart chart, Action<ChartBrushSelection> onBrush)
+    {
+        return chart with { OnBrush = @event => { onBrush(@event.Value); return ValueTask.CompletedTask; } };
+    }
+
+    /// <summary>
+    /// Sets the handler for series shown or hidden through the legend.
+    /// </summary>
+    /// <param name="chart">The LineChart to configure.</param>
+    /// <param name="onLegendToggle">The handler, which receives the toggled series and the visibility of all series.</param>
+    /// <returns>A new LineChart instance with the legend toggle handler.</returns>
+    [OverloadResolutionPriority(1)]
+    public static LineChart HandleLegendToggle(this LineChart chart, Func<Event<LineChart, ChartLegendToggle>, ValueTask> onLegendToggle)
+    {
+        return chart with { OnLegendToggle = onLegendToggle };
+    }
+
+    public static LineChart HandleLegendToggle(this LineChart chart, Action<Event<LineChart, ChartLegendToggle>> onLegendToggle)
+    {
+        return chart with { OnLegendToggle = onLegendToggle.ToValueTask() };
+    }
+
+    public static LineChart HandleLegendToggle(this LineChart chart, Action<ChartLegendToggle> onLegendToggle)
+    {
+        return chart with { OnLegendToggle = @event => { onLegendToggle(@event.Value); return ValueTask.CompletedTask; } };
+    }
+
+    /// <summary>
+    /// Sets the handler for zooming and panning.
+    /// </summary>
+    /// <param name="chart">The LineChart to configure.</param>
+    /// <param name="onZoom">The handler, which receives the visible range.</param>
+    /// <returns>A new LineChart instance with the zoom handler.</returns>
+    [OverloadResolutionPriority(1)]
+    public static LineChart HandleZoom(this LineChart chart, Func<Event<LineChart, ChartZoom>, ValueTask> onZoom)
+    {
+        return chart with { OnZoom = onZoom };
+    }
+
+    public static LineChart HandleZoom(this LineChart chart, Action<Event<LineChart, ChartZoom>> onZoom)
+    {
+        return chart with { OnZoom = onZoom.ToValueTask() };
+    }
+
+    public static LineChart HandleZoom(this LineChart chart, Action<ChartZoom> onZoom)
+    {
+        return chart with { OnZoom = @event => { onZoom(@event.Value); return ValueTask.CompletedTask; } };
+    }
+}
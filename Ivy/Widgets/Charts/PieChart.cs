@@ -1,6 +1,7 @@
 ﻿using Ivy.Charts;
 using Ivy.Core;
 using Ivy.Shared;
+using System.Runtime.CompilerServices;
 
 // ReSharper disable once CheckNamespace
 namespace Ivy;
@@ -38,6 +39,11 @@ public record PieChart : WidgetBase<PieChart>
     /// </summary>
     [Prop] public ColorScheme ColorScheme { get; init; } = ColorScheme.Default;
 
+    /// <summary>
+    /// Gets or sets whether the toolbar for exporting the chart as PNG, SVG or CSV is shown.
+    /// </summary>
+    [Prop] public bool Toolbar { get; init; } = true;
+
     /// <summary>
     /// Gets or sets the legend configuration.
     /// </summary>
@@ -58,6 +64,16 @@ public record PieChart : WidgetBase<PieChart>
     /// </summary>
     [Prop] public PieChartTotal? Total { get; init; }
 
+    /// <summary>
+    /// Gets or sets the handler for clicks on a slice, which receives the clicked row of the data.
+    /// </summary>
+    [Event] public Func<Event<PieChart, ChartPointClick>, ValueTask>? OnPointClick { get; set; }
+
+    /// <summary>
+    /// Gets or sets the handler for series shown or hidden through the legend.
+    /// </summary>
+    [Event] public Func<Event<PieChart, ChartLegendToggle>, ValueTask>? OnLegendToggle { get; set; }
+
     /// <summary>
     /// Operator overload that prevents PieChart from accepting child widgets.
     /// </summary>
@@ -110,6 +126,17 @@ public static class PieChartExtensions
         return chart with { ColorScheme = colorScheme };
     }
 
+    /// <summary>
+    /// Sets whether the toolbar for exporting the chart is shown.
+    /// </summary>
+    /// <param name="chart">The PieChart to configure.</param>
+    /// <param name="show">True to show the toolbar, false to hide it.</param>
+    /// <returns>A new PieChart instance with the updated toolbar setting.</returns>
+    public static PieChart Toolbar(this PieChart chart, bool show = true)
+    {
+        return chart with { Toolbar = show };
+    }
+
     /// <summary>
     /// Sets the legend configuration.
     /// </summary>
@@ -186,4 +213,47 @@ public static class PieChartExtensions
     {
         return chart with { Total = new PieChartTotal(value.ToString("N0"), label) };
     }
+    /// <summary>
+    /// Sets the handler for clicks on a slice.
+    /// </summary>
+    /// <param name="chart">The PieChart to configure.</param>
+    /// <param name="onPointClick">The handler, which receives the clicked row of the data.</param>
+    /// <returns>A new PieChart instance with the click handler.</returns>
+    [OverloadResolutionPriority(1)]
+    public static PieChart HandlePointClick(this PieChart chart, Func<Event<PieChart, ChartPointClick>, ValueTask> onPointClick)
+    {
+        return chart with { OnPointClick = onPointClick };
+    }
+
+    public static PieChart HandlePointClick(this PieChart chart, Action<Event<PieChart, ChartPointClick>> onPointClick)
+    {
+        return chart with { OnPointClick = onPointClick.ToValueTask() };
+    }
+
+    public static PieChart HandlePointClick(this PieChart chart, Action<ChartPointClick> onPointClick)
+    {
+        return chart with { OnPointClick = @event => { onPointClick(@event.Value); return ValueTask.CompletedTask; } };
+    }
+
+    /// <summary>
+    /// Sets the handler for series shown or hidden through the legend.
+    /// </summary>
+    /// <param name="chart">The PieChart to configure.</param>
+    /// <param name="onLegendToggle">The handler, which receives the toggled series and the visibility of all series.</param>
+    /// <returns>A new PieChart instance with the legend toggle handler.</returns>
+    [OverloadResolutionPriority(1)]
+    public static PieChart HandleLegendToggle(this PieChart chart, Func<Event<PieChart, ChartLegendToggle>, ValueTask> onLegendToggle)
+    {
+        return chart with { OnLegendToggle = onLegendToggle };
+    }
+
+    public static PieChart HandleLegendToggle(this PieChart chart, Action<Event<PieChart, ChartLegendToggle>> onLegendToggle)
+    {
+        return chart with { OnLegendToggle = onLegendToggle.ToValueTask() };
+    }
+
+    public static PieChart HandleLegendToggle(this PieChart chart, Action<ChartLegendToggle> onLegendToggle)
+    {
+        return chart with { OnLegendToggle = @event => { onLegendToggle(@event.Value); return ValueTask.CompletedTask; } };
+    }
 }
\ No newline at end of file
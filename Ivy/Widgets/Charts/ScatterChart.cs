@@ -0,0 +1,301 @@
+﻿using Ivy.Charts;
+using Ivy.Core;
+using Ivy.Shared;
+using System.Runtime.CompilerServices;
+
+// ReSharper disable once CheckNamespace
+namespace Ivy;
+
+/// <summary>
+/// Represents a scatter chart widget, plotting data rows as points on two value axes, or as bubbles sized by a third value.
+/// </summary>
+public record ScatterChart : WidgetBase<ScatterChart>
+{
+    /// <summary>
+    /// Initializes a new instance of the ScatterChart class.
+    /// </summary>
+    /// <param name="data">The data source.</param>
+    /// <param name="scatters">Variable number of Scatter configurations.</param>
+    public ScatterChart(object data, params Scatter[] scatters)
+    {
+        Data = data;
+        Scatters = scatters;
+        Width = Size.Full();
+        Height = Size.Full();
+    }
+
+    /// <summary>
+    /// Gets or sets the data source.
+    /// </summary>
+    [Prop] public object Data { get; init; }
+
+    /// <summary>
+    /// Gets or sets the array of Scatter configurations.
+    /// </summary>
+    [Prop] public Scatter[] Scatters { get; init; }
+
+    /// <summary>
+    /// Gets or sets the color scheme.
+    /// </summary>
+    [Prop] public ColorScheme ColorScheme { get; init; } = ColorScheme.Default;
+
+    /// <summary>
+    /// Gets or sets whether the toolbar for exporting the chart as PNG, SVG or CSV is shown.
+    /// </summary>
+    [Prop] public bool Toolbar { get; init; } = true;
+
+    /// <summary>
+    /// Gets or sets the Cartesian grid configuration.
+    /// </summary>
+    [Prop] public CartesianGrid? CartesianGrid { get; init; }
+
+    /// <summary>
+    /// Gets or sets the tooltip configuration.
+    /// </summary>
+    [Prop] public Ivy.Charts.Tooltip? Tooltip { get; init; }
+
+    /// <summary>
+    /// Gets or sets the legend configuration.
+    /// </summary>
+    [Prop] public Legend? Legend { get; init; } = null;
+
+    /// <summary>
+    /// Gets or sets the array of X-axis configurations.
+    /// </summary>
+    [Prop] public XAxis[] XAxis { get; init; } = [];
+
+    /// <summary>
+    /// Gets or sets the array of Y-axis configurations.
+    /// </summary>
+    [Prop] public YAxis[] YAxis { get; init; } = [];
+
+    /// <summary>
+    /// Gets or sets the stream of live rows appended to the data, and the rolling window of rows kept.
+    /// </summary>
+    [Prop] public ChartStreamOptions? Stream { get; init; }
+
+    /// <summary>
+    /// Gets or sets the handler for clicks on a point, which receives the clicked row of the data.
+    /// </summary>
+    [Event] public Func<Event<ScatterChart, ChartPointClick>, ValueTask>? OnPointClick { get; set; }
+
+    /// <summary>
+    /// Gets or sets the handler for series shown or hidden through the legend.
+    /// </summary>
+    [Event] public Func<Event<ScatterChart, ChartLegendToggle>, ValueTask>? OnLegendToggle { get; set; }
+
+    /// <summary>
+    /// Operator overload that prevents ScatterChart from accepting child widgets.
+    /// </summary>
+    /// <param name="widget">The ScatterChart widget.</param>
+    /// <param name="child">The child widget (not supported).</param>
+    /// <returns>Throws NotSupportedException.</returns>
+    /// <exception cref="NotSupportedException">ScatterChart does not support children.</exception>
+    public static ScatterChart operator |(ScatterChart widget, object child)
+    {
+        throw new NotSupportedException("ScatterChart does not support children.");
+    }
+}
+
+/// <summary>
+/// Extension methods for the ScatterChart class.
+/// </summary>
+public static class ScatterChartExtensions
+{
+    /// <summary>
+    /// Adds one or more Scatter configurations.
+    /// </summary>
+    /// <param name="chart">The ScatterChart to configure.</param>
+    /// <param name="scatters">Variable number of Scatter configurations.</param>
+    /// <returns>A new ScatterChart instance with the additional scatter configurations.</returns>
+    public static ScatterChart Scatter(this ScatterChart chart, params Scatter[] scatters)
+    {
+        return chart with { Scatters = [.. chart.Scatters, .. scatters] };
+    }
+
+    /// <summary>
+    /// Adds a simple scatter configuration.
+    /// </summary>
+    /// <param name="chart">The ScatterChart to configure.</param>
+    /// <param name="xDataKey">The key of the data property plotted on the X-axis.</param>
+    /// <param name="yDataKey">The key of the data property plotted on the Y-axis.</param>
+    /// <param name="name">Optional display name for the series.</param>
+    /// <returns>A new ScatterChart instance with the additional scatter configuration.</returns>
+    public static ScatterChart Scatter(this ScatterChart chart, string xDataKey, string yDataKey, string? name = null)
+    {
+        return chart with { Scatters = [.. chart.Scatters, new Scatter(xDataKey, yDataKey, name)] };
+    }
+
+    /// <summary>
+    /// Sets the color scheme.
+    /// </summary>
+    /// <param name="chart">The ScatterChart to configure.</param>
+    /// <param name="colorScheme">The color scheme to use.</param>
+    /// <returns>A new ScatterChart instance with the updated color scheme.</returns>
+    public static ScatterChart ColorScheme(this ScatterChart chart, ColorScheme colorScheme)
+    {
+        return chart with { ColorScheme = colorScheme };
+    }
+
+    /// <summary>
+    /// Sets whether the toolbar for exporting the chart is shown.
+    /// </summary>
+    /// <param name="chart">The ScatterChart to configure.</param>
+    /// <param name="show">True to show the toolbar, false to hide it.</param>
+    /// <returns>A new ScatterChart instance with the updated toolbar setting.</returns>
+    public static ScatterChart Toolbar(this ScatterChart chart, bool show = true)
+    {
+        return chart with { Toolbar = show };
+    }
+
+    /// <summary>
+    /// Shows the live rows of a stream after the data of the chart.
+    /// </summary>
+    /// <param name="chart">The ScatterChart to configure.</param>
+    /// <param name="stream">The stream, usually from UseChartStream.</param>
+    /// <param name="maxPoints">The maximum number of rows kept, or null for no limit.</param>
+    /// <param name="window">The span of time kept, measured back from the newest row, or null for no limit.</param>
+    /// <param name="timeKey">The key of the time of a row for the window, or null for the category key.</param>
+    /// <returns>A new ScatterChart instance showing the stream.</returns>
+    public static ScatterChart Stream(this ScatterChart chart, IChartStream stream, int? maxPoints = null, TimeSpan? window = null, string? timeKey = null)
+    {
+        return chart with
+        {
+            Stream = new ChartStreamOptions(stream.Id)
+            {
+                MaxPoints = maxPoints,
+                Window = window is { } span ? (int)span.TotalMilliseconds : null,
+                TimeKey = timeKey
+            }
+        };
+    }
+
+    /// <summary>
+    /// Sets the Cartesian grid configuration.
+    /// </summary>
+    /// <param name="chart">The ScatterChart to configure.</param>
+    /// <param name="cartesianGrid">The CartesianGrid configuration to use.</param>
+    /// <returns>A new ScatterChart instance with the updated Cartesian grid configuration.</returns>
+    public static ScatterChart CartesianGrid(this ScatterChart chart, CartesianGrid cartesianGrid)
+    {
+        return chart with { CartesianGrid = cartesianGrid };
+    }
+
+    /// <summary>
+    /// Enables the Cartesian grid.
+    /// </summary>
+    /// <param name="chart">The ScatterChart to configure.</param>
+    /// <returns>A new ScatterChart instance with default Cartesian grid enabled.</returns>
+    public static ScatterChart CartesianGrid(this ScatterChart chart)
+    {
+        return chart with { CartesianGrid = new CartesianGrid() };
+    }
+
+    /// <summary>
+    /// Adds an X-axis configuration.
+    /// </summary>
+    /// <param name="chart">The ScatterChart to configure.</param>
+    /// <param name="xAxis">The XAxis configuration to add.</param>
+    /// <returns>A new ScatterChart instance with the additional X-axis configuration.</returns>
+    public static ScatterChart XAxis(this ScatterChart chart, XAxis xAxis)
+    {
+        return chart with { XAxis = [.. chart.XAxis, xAxis] };
+    }
+
+    /// <summary>
+    /// Adds a Y-axis configuration.
+    /// </summary>
+    /// <param name="chart">The ScatterChart to configure.</param>
+    /// <param name="yAxis">The YAxis configuration to add.</param>
+    /// <returns>A new ScatterChart instance with the additional Y-axis configuration.</returns>
+    public static ScatterChart YAxis(this ScatterChart chart, YAxis yAxis)
+    {
+        return chart with { YAxis = [.. chart.YAxis, yAxis] };
+    }
+
+    /// <summary>
+    /// Sets the tooltip configuration.
+    /// </summary>
+    /// <param name="chart">The ScatterChart to configure.</param>
+    /// <param name="tooltip">The Tooltip configuration to use, or null to disable tooltips.</param>
+    /// <returns>A new ScatterChart instance with the updated tooltip configuration.</returns>
+    public static ScatterChart Tooltip(this ScatterChart chart, Ivy.Charts.Tooltip? tooltip)
+    {
+        return chart with { Tooltip = tooltip };
+    }
+
+    /// <summary>
+    /// Enables the tooltip.
+    /// </summary>
+    /// <param name="chart">The ScatterChart to configure.</param>
+    /// <returns>A new ScatterChart instance with default tooltip enabled.</returns>
+    public static ScatterChart Tooltip(this ScatterChart chart)
+    {
+        return chart with { Tooltip = new Ivy.Charts.Tooltip() };
+    }
+
+    /// <summary>
+    /// Sets the legend configuration.
+    /// </summary>
+    /// <param name="chart">The ScatterChart to configure.</param>
+    /// <param name="legend">The Legend configuration to use.</param>
+    /// <returns>A new ScatterChart instance with the updated legend configuration.</returns>
+    public static ScatterChart Legend(this ScatterChart chart, Legend legend)
+    {
+        return chart with { Legend = legend };
+    }
+
+    /// <summary>
+    /// Enables the legend.
+    /// </summary>
+    /// <param name="chart">The ScatterChart to configure.</param>
+    /// <returns>A new ScatterChart instance with default legend enabled.</returns>
+    public static ScatterChart Legend(this ScatterChart chart)
+    {
+        return chart with { Legend = new Legend() };
+    }
+
+    /// <summary>
+    /// Sets the handler for clicks on a point.
+    /// </summary>
+    /// <param name="chart">The ScatterChart to configure.</param>
+    /// <param name="onPointClick">The handler, which receives the clicked row of the data.</param>
+    /// <returns>A new ScatterChart instance with the click handler.</returns>
+    [OverloadResolutionPriority(1)]
+    public static ScatterChart HandlePointClick(this ScatterChart chart, Func<Event<ScatterChart, ChartPointClick>, ValueTask> onPointClick)
+    {
+        return chart with { OnPointClick = onPointClick };
+    }
+
+    public static ScatterChart HandlePointClick(this ScatterChart chart, Action<Event<ScatterChart, ChartPointClick>> onPointClick)
+    {
+        return chart with { OnPointClick = onPointClick.ToValueTask() };
+    }
+
+    public static ScatterChart HandlePointClick(this ScatterChart chart, Action<ChartPointClick> onPointClick)
+    {
+        return chart with { OnPointClick = @event => { onPointClick(@event.Value); return ValueTask.CompletedTask; } };
+    }
+
+    /// <summary>
+    /// Sets the handler for series shown or hidden through the legend.
+    /// </summary>
+    /// <param name="chart">The ScatterChart to configure.</param>
+    /// <param name="onLegendToggle">The handler, which receives the toggled series and the visibility of all series.</param>
+    /// <returns>A new ScatterChart instance with the legend toggle handler.</returns>
+    [OverloadResolutionPriority(1)]
+    public static ScatterChart HandleLegendToggle(this ScatterChart chart, Func<Event<ScatterChart, ChartLegendToggle>, ValueTask> onLegendToggle)
+    {
+        return chart with { OnLegendToggle = onLegendToggle };
+    }
+
+    public static ScatterChart HandleLegendToggle(this ScatterChart chart, Action<Event<ScatterChart, ChartLegendToggle>> onLegendToggle)
+    {
+        return chart with { OnLegendToggle = onLegendToggle.ToValueTask() };
+    }
+
+    public static ScatterChart HandleLegendToggle(this ScatterChart chart, Action<ChartLegendToggle> onLegendToggle)
+    {
+        return chart with { OnLegendToggle = @event => { onLegendToggle(@event.Value); return ValueTask.CompletedTask; } };
+    }
+}
@@ -101,6 +101,12 @@ public record Bar
     /// Default is [].
     /// </summary>
     public LabelList[] LabelLists { get; set; } = [];
+
+    /// <summary>
+    /// Gets or sets the index of the Y-axis the bar is plotted against, for charts with two Y-axes such as <see cref="ComboChart"/>.
+    /// Default is 0.
+    /// </summary>
+    public int YAxisIndex { get; set; } = 0;
 }
 
 /// <summary>
@@ -290,5 +296,15 @@ public static class BarExtensions
     {
         return area with { Radius = [top, top, bottom, bottom] };
     }
-}
 
+    /// <summary>
+    /// Sets the index of the Y-axis the bar is plotted against.
+    /// </summary>
+    /// <param name="bar">The bar to configure.</param>
+    /// <param name="yAxisIndex">The index of the Y-axis, 1 for the second axis of a <see cref="ComboChart"/>.</param>
+    /// <returns>A new Bar instance with the updated Y-axis index.</returns>
+    public static Bar YAxisIndex(this Bar bar, int yAxisIndex)
+    {
+        return bar with { YAxisIndex = yAxisIndex };
+    }
+}
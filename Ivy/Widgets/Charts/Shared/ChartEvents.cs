@@ -0,0 +1,54 @@
+// ReSharper disable once CheckNamespace
+namespace Ivy.Charts;
+
+/// <summary>
+/// A click on a point, bar or slice of a chart. Row holds the clicked row of the chart data, keyed by property name.
+/// </summary>
+public record ChartPointClick(
+    string? Series,
+    string? Category,
+    object? Value,
+    int DataIndex,
+    Dictionary<string, object?>? Row
+);
+
+/// <summary>
+/// A range selected with the brush along the category axis of a cartesian chart. Clearing the brush
+/// reports an empty selection with StartIndex and EndIndex of -1.
+/// </summary>
+public record ChartBrushSelection(
+    int StartIndex,
+    int EndIndex,
+    string[] Categories,
+    Dictionary<string, object?>[] Rows
+)
+{
+    /// <summary>Whether the brush was cleared.</summary>
+    public bool IsEmpty => StartIndex < 0;
+}
+
+/// <summary>
+/// A series shown or hidden by clicking its legend item. SelectedSeries holds the visibility of every series after the toggle.
+/// </summary>
+public record ChartLegendToggle(
+    string Series,
+    bool Selected,
+    Dictionary<string, bool> SelectedSeries
+);
+
+/// <summary>
+/// The range of a chart visible after zooming or panning. Start and End are in percent of the data,
+/// and StartIndex and EndIndex are the first and last visible rows, or -1 when the chart has no data.
+/// </summary>
+public record ChartZoom(
+    double Start,
+    double End,
+    int StartIndex,
+    int EndIndex,
+    string? StartCategory,
+    string? EndCategory
+)
+{
+    /// <summary>Whether all data is visible.</summary>
+    public bool IsFull => Start <= 0 && End >= 100;
+}
@@ -0,0 +1,84 @@
+﻿using Ivy.Core;
+
+// ReSharper disable once CheckNamespace
+namespace Ivy.Charts;
+
+public class ChartDataMessage
+{
+    public required string StreamId { get; set; }
+    public object[]? Rows { get; set; }
+    public int Trim { get; set; }
+    public bool Reset { get; set; }
+}
+
+/// <summary>
+/// Live rows of a chart. Changes are sent to the browser as deltas instead of re-sending the data of the chart,
+/// so charts of fast-updating metrics stay cheap to update. The data of the chart is the starting point of the stream.
+/// </summary>
+public interface IChartStream
+{
+    /// <summary>The id the chart refers to the stream with.</summary>
+    string Id { get; }
+
+    /// <summary>Appends rows after the current ones.</summary>
+    void Append(params object[] rows);
+
+    /// <summary>Appends rows after the current ones, first removing the given number of rows from the start.</summary>
+    /// <param name="rows">The rows to append.</param>
+    /// <param name="trim">The number of rows to remove from the start.</param>
+    void Append(IEnumerable<object> rows, int trim = 0);
+
+    /// <summary>Removes the given number of rows from the start.</summary>
+    void Trim(int count);
+
+    /// <summary>Replaces all rows.</summary>
+    void Reset(IEnumerable<object> rows);
+}
+
+public class ChartStream(IClientProvider client) : IChartStream
+{
+    public string Id { get; } = Guid.NewGuid().ToString();
+
+    public void Append(params object[] rows) => Append(rows.AsEnumerable());
+
+    public void Append(IEnumerable<object> rows, int trim = 0)
+    {
+        var array = rows.ToArray();
+        if (array.Length == 0 && trim <= 0) return;
+        Send(new ChartDataMessage { StreamId = Id, Rows = array, Trim = Math.Max(trim, 0) });
+    }
+
+    public void Trim(int count)
+    {
+        if (count <= 0) return;
+        Send(new ChartDataMessage { StreamId = Id, Trim = count });
+    }
+
+    public void Reset(IEnumerable<object> rows) =>
+        Send(new ChartDataMessage { StreamId = Id, Rows = rows.ToArray(), Reset = true });
+
+    private void Send(ChartDataMessage message) => client.Sender.Send("ChartData", message);
+}
+
+/// <summary>
+/// The stream a chart shows, and the rolling window of rows it keeps.
+/// </summary>
+public record ChartStreamOptions
+{
+    public ChartStreamOptions(string id)
+    {
+        Id = id;
+    }
+
+    /// <summary>The id of the stream.</summary>
+    public string Id { get; init; }
+
+    /// <summary>The maximum number of rows kept; older rows are dropped.</summary>
+    public int? MaxPoints { get; init; }
+
+    /// <summary>The span, in milliseconds, of the rows kept, measured back from the time of the newest row.</summary>
+    public int? Window { get; init; }
+
+    /// <summary>The key of the time of a row for the window, the category key of the chart by default.</summary>
+    public string? TimeKey { get; init; }
+}
@@ -0,0 +1,68 @@
+﻿// ReSharper disable once CheckNamespace
+namespace Ivy.Charts;
+
+/// <summary>
+/// Zooming and panning along the category axis of a chart, for reading dense time series.
+/// </summary>
+public record DataZoom
+{
+    /// <summary>
+    /// Gets or sets whether the chart zooms with the mouse wheel or pinch and pans by dragging.
+    /// </summary>
+    public bool Inside { get; init; } = true;
+
+    /// <summary>
+    /// Gets or sets whether a range slider is shown below the chart.
+    /// </summary>
+    public bool Slider { get; init; } = true;
+
+    /// <summary>
+    /// Gets or sets the start of the initially visible range, in percent of the data.
+    /// </summary>
+    public double? Start { get; init; }
+
+    /// <summary>
+    /// Gets or sets the end of the initially visible range, in percent of the data.
+    /// </summary>
+    public double? End { get; init; }
+}
+
+/// <summary>
+/// Extension methods for the DataZoom class.
+/// </summary>
+public static class DataZoomExtensions
+{
+    /// <summary>
+    /// Sets whether the chart zooms with the mouse wheel or pinch and pans by dragging.
+    /// </summary>
+    /// <param name="dataZoom">The DataZoom to configure.</param>
+    /// <param name="inside">True to zoom inside the chart, false to zoom only with the slider.</param>
+    /// <returns>A new DataZoom instance with the updated setting.</returns>
+    public static DataZoom Inside(this DataZoom dataZoom, bool inside = true)
+    {
+        return dataZoom with { Inside = inside };
+    }
+
+    /// <summary>
+    /// Sets whether a range slider is shown below the chart.
+    /// </summary>
+    /// <param name="dataZoom">The DataZoom to configure.</param>
+    /// <param name="slider">True to show the slider, false to hide it.</param>
+    /// <returns>A new DataZoom instance with the updated setting.</returns>
+    public static DataZoom Slider(this DataZoom dataZoom, bool slider = true)
+    {
+        return dataZoom with { Slider = slider };
+    }
+
+    /// <summary>
+    /// Sets the initially visible range.
+    /// </summary>
+    /// <param name="dataZoom">The DataZoom to configure.</param>
+    /// <param name="start">The start of the range, in percent of the data.</param>
+    /// <param name="end">The end of the range, in percent of the data.</param>
+    /// <returns>A new DataZoom instance with the updated range.</returns>
+    public static DataZoom Range(this DataZoom dataZoom, double start, double end)
+    {
+        return dataZoom with { Start = start, End = end };
+    }
+}
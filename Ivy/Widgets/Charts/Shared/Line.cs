@@ -78,6 +78,11 @@ public record Line
     /// Gets or sets the label configuration for displaying values on or near this line.
     /// </summary>
     public Label? Label { get; set; } = null;
+
+    /// <summary>
+    /// Gets or sets the index of the Y-axis the line is plotted against, for charts with two Y-axes such as <see cref="ComboChart"/>.
+    /// </summary>
+    public int YAxisIndex { get; set; } = 0;
 }
 
 /// <summary>
@@ -205,5 +210,15 @@ public static class LineExtensions
     {
         return line with { Scale = scale };
     }
-}
 
+    /// <summary>
+    /// Sets the index of the Y-axis the line is plotted against.
+    /// </summary>
+    /// <param name="line">The Line to configure.</param>
+    /// <param name="yAxisIndex">The index of the Y-axis, 1 for the second axis of a <see cref="ComboChart"/>.</param>
+    /// <returns>A new Line instance with the updated Y-axis index.</returns>
+    public static Line YAxisIndex(this Line line, int yAxisIndex)
+    {
+        return line with { YAxisIndex = yAxisIndex };
+    }
+}
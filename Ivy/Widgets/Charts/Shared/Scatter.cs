@@ -0,0 +1,166 @@
+﻿using Ivy.Shared;
+
+// ReSharper disable once CheckNamespace
+namespace Ivy.Charts;
+
+/// <summary>
+/// Represents a scatter series configuration, plotting one point per data row. With a size data key the points
+/// become bubbles scaled between <see cref="MinSize"/> and <see cref="MaxSize"/>.
+/// </summary>
+public record Scatter
+{
+    /// <summary>
+    /// Initializes a new instance of the Scatter class with the specified data keys.
+    /// </summary>
+    /// <param name="xDataKey">The key of the data property plotted on the X-axis.</param>
+    /// <param name="yDataKey">The key of the data property plotted on the Y-axis.</param>
+    /// <param name="name">Optional display name for the series.</param>
+    public Scatter(string xDataKey, string yDataKey, string? name = null)
+    {
+        XDataKey = xDataKey;
+        YDataKey = yDataKey;
+        Name = name ?? Utils.SplitPascalCase(yDataKey);
+    }
+
+    /// <summary>
+    /// Gets the key of the data property plotted on the X-axis.
+    /// </summary>
+    public string XDataKey { get; }
+
+    /// <summary>
+    /// Gets the key of the data property plotted on the Y-axis.
+    /// </summary>
+    public string YDataKey { get; }
+
+    /// <summary>
+    /// Gets or sets the key of the data property that sets the size of each point, turning the series into a bubble chart.
+    /// </summary>
+    public string? SizeDataKey { get; set; }
+
+    /// <summary>
+    /// Gets or sets the key of the data property used to filter the rows of this series. Only rows where it equals
+    /// <see cref="GroupValue"/> are plotted, so one data source can feed several series.
+    /// </summary>
+    public string? GroupDataKey { get; set; }
+
+    /// <summary>
+    /// Gets or sets the value of <see cref="GroupDataKey"/> of the rows in this series.
+    /// </summary>
+    public object? GroupValue { get; set; }
+
+    /// <summary>
+    /// Gets or sets the display name for the series in legends and tooltips.
+    /// </summary>
+    public string? Name { get; set; }
+
+    /// <summary>
+    /// Gets or sets the fill color of the points. If null, a color from the chart's color scheme is used.
+    /// </summary>
+    public Colors? Fill { get; set; } = null;
+
+    /// <summary>
+    /// Gets or sets the opacity of the points, from 0.0 (transparent) to 1.0 (opaque).
+    /// </summary>
+    public double? FillOpacity { get; set; } = null;
+
+    /// <summary>
+    /// Gets or sets the size of the points in pixels, or the smallest bubble size when a size data key is set.
+    /// </summary>
+    public int MinSize { get; set; } = 8;
+
+    /// <summary>
+    /// Gets or sets the largest bubble size in pixels when a size data key is set.
+    /// </summary>
+    public int MaxSize { get; set; } = 40;
+
+    /// <summary>
+    /// Gets or sets whether the points animate when the chart is first rendered.
+    /// </summary>
+    public bool Animated { get; set; } = false;
+}
+
+/// <summary>
+/// Extension methods for the Scatter class.
+/// </summary>
+public static class ScatterExtensions
+{
+    /// <summary>
+    /// Sizes the points by a data property, turning the series into a bubble chart.
+    /// </summary>
+    /// <param name="scatter">The Scatter to configure.</param>
+    /// <param name="sizeDataKey">The key of the data property that sets the size of each point.</param>
+    /// <param name="minSize">The smallest bubble size in pixels.</param>
+    /// <param name="maxSize">The largest bubble size in pixels.</param>
+    /// <returns>A new Scatter instance with the bubble sizing.</returns>
+    public static Scatter Size(this Scatter scatter, string sizeDataKey, int minSize = 8, int maxSize = 40)
+    {
+        return scatter with { SizeDataKey = sizeDataKey, MinSize = minSize, MaxSize = maxSize };
+    }
+
+    /// <summary>
+    /// Sets the size of the points in pixels.
+    /// </summary>
+    /// <param name="scatter">The Scatter to configure.</param>
+    /// <param name="size">The size of the points in pixels.</param>
+    /// <returns>A new Scatter instance with the updated point size.</returns>
+    public static Scatter Size(this Scatter scatter, int size)
+    {
+        return scatter with { SizeDataKey = null, MinSize = size };
+    }
+
+    /// <summary>
+    /// Plots only the rows where the group data property equals the value.
+    /// </summary>
+    /// <param name="scatter">The Scatter to configure.</param>
+    /// <param name="groupDataKey">The key of the data property to filter on.</param>
+    /// <param name="groupValue">The value of the rows in this series.</param>
+    /// <returns>A new Scatter instance with the group filter.</returns>
+    public static Scatter Group(this Scatter scatter, string groupDataKey, object groupValue)
+    {
+        return scatter with { GroupDataKey = groupDataKey, GroupValue = groupValue };
+    }
+
+    /// <summary>
+    /// Sets the display name for the series in legends and tooltips.
+    /// </summary>
+    /// <param name="scatter">The Scatter to configure.</param>
+    /// <param name="name">The display name for the series.</param>
+    /// <returns>A new Scatter instance with the updated name.</returns>
+    public static Scatter Name(this Scatter scatter, string name)
+    {
+        return scatter with { Name = name };
+    }
+
+    /// <summary>
+    /// Sets the fill color of the points. This overrides the chart's default color scheme.
+    /// </summary>
+    /// <param name="scatter">The Scatter to configure.</param>
+    /// <param name="fill">The color of the points.</param>
+    /// <returns>A new Scatter instance with the updated fill color.</returns>
+    public static Scatter Fill(this Scatter scatter, Colors fill)
+    {
+        return scatter with { Fill = fill };
+    }
+
+    /// <summary>
+    /// Sets the opacity of the points.
+    /// </summary>
+    /// <param name="scatter">The Scatter to configure.</param>
+    /// <param name="fillOpacity">The opacity, from 0.0 (transparent) to 1.0 (opaque).</param>
+    /// <returns>A new Scatter instance with the updated opacity.</returns>
+    public static Scatter FillOpacity(this Scatter scatter, double fillOpacity)
+    {
+        return scatter with { FillOpacity = fillOpacity };
+    }
+
+    /// <summary>
+    /// Sets whether the points animate when the chart is first rendered.
+    /// </summary>
+    /// <param name="scatter">The Scatter to configure.</param>
+    /// <param name="animated">Whether to animate the points.</param>
+    /// <returns>A new Scatter instance with the updated animation setting.</returns>
+    public static Scatter Animated(this Scatter scatter, bool animated = true)
+    {
+        return scatter with { Animated = animated };
+    }
+}
@@ -27,6 +27,14 @@ public record DataTable : WidgetBase<DataTable>
 
     [Prop] public DataTableConfiguration Configuration { get; set; }
 
+    [Prop] public bool Editable { get; set; }
+
+    [Event] public Func<Event<DataTable, DataTableCellUpdate>, ValueTask>? OnCellUpdate { get; set; }
+
+    [Event] public Func<Event<DataTable, DataTableViewState>, ValueTask>? OnViewSave { get; set; }
+
+    [Event] public Func<Event<DataTable, DataTableLinkClick>, ValueTask>? OnLinkClick { get; set; }
+
     public static Detail operator |(DataTable widget, object child)
     {
         throw new NotSupportedException("DataTable does not support children.");
@@ -0,0 +1,15 @@
+// ReSharper disable once CheckNamespace
+namespace Ivy;
+
+/// <summary>
+/// A single cell edit made in a DataTable. RowValues holds the values of the edited row before the edit,
+/// keyed by column name, so the handler can locate the underlying record.
+/// Throwing from the OnCellUpdate handler rejects the edit and rolls it back in the client.
+/// </summary>
+public record DataTableCellUpdate(
+    int Row,
+    string Column,
+    object? Value,
+    object? OldValue,
+    Dictionary<string, object?> RowValues
+);
@@ -22,6 +22,9 @@ public class DataTableColumn
     public int Order { get; set; } = 0;
     public string? Icon { get; set; } = null;
     public string? Help { get; set; } = null;
+    public bool Editable { get; set; } = true;
+    public AggregateFunction? Aggregate { get; set; } = null;
+    public Dictionary<string, string>? BadgeColors { get; set; } = null;
 
     [JsonIgnore]
     public IDataTableColumnRenderer? Renderer { get; set; } = null;
@@ -34,6 +37,15 @@ public enum SortDirection
     None
 }
 
+public enum AggregateFunction
+{
+    Sum,
+    Average,
+    Min,
+    Max,
+    Count
+}
+
 public enum ColType
 {
     Number,
@@ -41,7 +53,12 @@ public enum ColType
     Boolean,
     Date,
     DateTime,
-    Icon
+    Icon,
+    Link,
+    Image,
+    Progress,
+    Badge,
+    Sparkline
 }
 
 public interface IDataTableColumnRenderer
@@ -7,6 +7,9 @@ public record DataTableConfiguration
     public bool AllowSorting { get; set; } = true;
     public bool AllowFiltering { get; set; } = true;
     public bool AllowLlmFiltering { get; set; } = false;
+    public bool AllowExport { get; set; } = true;
+    public bool AllowViews { get; set; } = true;
+    public bool AllowColumnChooser { get; set; } = true;
     public bool AllowColumnReordering { get; set; } = true;
     public bool AllowColumnResizing { get; set; } = true;
     public bool AllowCopySelection { get; set; } = true;
@@ -15,6 +18,7 @@ public record DataTableConfiguration
     public bool ShowGroups { get; set; } = false;
     public int? BatchSize { get; set; } = null;
     public bool LoadAllRows { get; set; } = false;
+    public string[]? GroupBy { get; set; } = null;
 }
 
 public enum SelectionModes
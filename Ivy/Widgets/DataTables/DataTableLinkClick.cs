@@ -0,0 +1,12 @@
+// ReSharper disable once CheckNamespace
+namespace Ivy;
+
+/// <summary>
+/// A click on a Link cell in a DataTable. RowValues holds the values of the clicked row, keyed by column name.
+/// </summary>
+public record DataTableLinkClick(
+    int Row,
+    string Column,
+    string Url,
+    Dictionary<string, object?> RowValues
+);
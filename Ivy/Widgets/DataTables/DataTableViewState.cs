@@ -0,0 +1,19 @@
+using System.Text.Json.Nodes;
+
+// ReSharper disable once CheckNamespace
+namespace Ivy;
+
+/// <summary>
+/// A named DataTable view saved in the client. Columns are referenced by name; ColumnWidths holds pixel widths.
+/// Filter and Sort carry the client's filter and sort order as sent to the table service.
+/// PinnedColumns is null when the view keeps the columns the table pins by default, those of FreezeColumns.
+/// </summary>
+public record DataTableViewState(
+    string Name,
+    string[] ColumnOrder,
+    Dictionary<string, double> ColumnWidths,
+    string[] HiddenColumns,
+    JsonNode? Filter,
+    JsonNode? Sort,
+    string[]? PinnedColumns = null
+);
@@ -21,8 +21,23 @@ public record Form : WidgetBase<Form>
     /// <summary>Event handler called when form is submitted via Enter key on last field.</summary>
     [Event] public Func<Event<Form>, ValueTask>? OnSubmit { get; set; }
 
+    /// <summary>Event handler called when the fields start or stop differing from their initial values.</summary>
+    [Event] public Func<Event<Form, bool>, ValueTask>? OnDirtyChange { get; set; }
+
     /// <summary>The size of the form affecting spacing between fields. Default is Medium.</summary>
     [Prop] public Sizes Size { get; set; } = Sizes.Medium;
+
+    /// <summary>Validation rules evaluated in the browser. Clicks in the "Submit" slot are blocked while they fail.</summary>
+    [Prop] public FormValidationSchema? Validation { get; set; }
+
+    /// <summary>Title of a button that restores the initial field values. No button is shown when null.</summary>
+    [Prop] public string? ResetTitle { get; set; }
+
+    /// <summary>Whether the user is asked to confirm before unsaved changes are discarded. Default is true.</summary>
+    [Prop] public bool WarnOnUnsavedChanges { get; set; } = true;
+
+    /// <summary>Changing the revision makes the current field values the new initial values, e.g. after they were saved.</summary>
+    [Prop] public int Revision { get; set; }
 }
 
 public static class FormExtensions
@@ -51,6 +66,24 @@ public static class FormExtensions
         return form with { OnSubmit = _ => onSubmit() };
     }
 
+    /// <summary>Sets the handler called when the form becomes dirty or clean.</summary>
+    public static Form HandleDirtyChange(this Form form, Func<Event<Form, bool>, ValueTask> onDirtyChange)
+    {
+        return form with { OnDirtyChange = onDirtyChange };
+    }
+
+    /// <summary>Sets the handler called when the form becomes dirty or clean.</summary>
+    public static Form HandleDirtyChange(this Form form, Action<Event<Form, bool>> onDirtyChange)
+    {
+        return form with { OnDirtyChange = onDirtyChange.ToValueTask() };
+    }
+
+    /// <summary>Sets a simple handler called with whether the form is dirty.</summary>
+    public static Form HandleDirtyChange(this Form form, Action<bool> onDirtyChange)
+    {
+        return form with { OnDirtyChange = e => { onDirtyChange(e.Value); return ValueTask.CompletedTask; } };
+    }
+
     /// <summary>Sets the size of the form affecting spacing between fields.</summary>
     /// <param name="form">The form to configure.</param>
     /// <param name="size">The size of the form (Small, Medium, Large).</param>
@@ -58,4 +91,32 @@ public static class FormExtensions
     {
         return form with { Size = size };
     }
+
+    /// <summary>Sets the validation rules evaluated in the browser.</summary>
+    /// <param name="form">The form to configure.</param>
+    /// <param name="validation">The validation schema, or null to validate on the server only.</param>
+    public static Form Validation(this Form form, FormValidationSchema? validation)
+    {
+        return form with { Validation = validation };
+    }
+
+    /// <summary>Shows a button that restores the initial field values in the browser.</summary>
+    /// <param name="form">The form to configure.</param>
+    /// <param name="title">The button title, or null to hide the button.</param>
+    public static Form ResetTitle(this Form form, string? title)
+    {
+        return form with { ResetTitle = title };
+    }
+
+    /// <summary>Sets whether the user is asked to confirm before unsaved changes are discarded.</summary>
+    public static Form WarnOnUnsavedChanges(this Form form, bool warn = true)
+    {
+        return form with { WarnOnUnsavedChanges = warn };
+    }
+
+    /// <summary>Sets the revision; changing it makes the current field values the new initial values.</summary>
+    public static Form Revision(this Form form, int revision)
+    {
+        return form with { Revision = revision };
+    }
 }
\ No newline at end of file
@@ -0,0 +1,67 @@
+using Ivy.Views.Forms;
+
+// ReSharper disable once CheckNamespace
+namespace Ivy;
+
+/// <summary>Kind of validation rule evaluated by the browser before values are sent to the server.</summary>
+public enum FormValidationRuleType
+{
+    /// <summary>Value must not be empty.</summary>
+    Required,
+    /// <summary>Numeric value must be greater than or equal to the rule value.</summary>
+    Min,
+    /// <summary>Numeric value must be less than or equal to the rule value.</summary>
+    Max,
+    /// <summary>Text or list must have at least the rule value number of characters or items.</summary>
+    MinLength,
+    /// <summary>Text or list must have at most the rule value number of characters or items.</summary>
+    MaxLength,
+    /// <summary>Text must fully match the regular expression in the rule value.</summary>
+    Pattern,
+    /// <summary>Text must be an email address.</summary>
+    Email
+}
+
+/// <summary>Operator used by cross-field rules to compare two field values.</summary>
+public enum FormCompareOperator
+{
+    /// <summary>Values must be equal.</summary>
+    Equal,
+    /// <summary>Values must differ.</summary>
+    NotEqual,
+    /// <summary>Value must be greater than the other value.</summary>
+    GreaterThan,
+    /// <summary>Value must be greater than or equal to the other value.</summary>
+    GreaterThanOrEqual,
+    /// <summary>Value must be less than the other value.</summary>
+    LessThan,
+    /// <summary>Value must be less than or equal to the other value.</summary>
+    LessThanOrEqual
+}
+
+/// <summary>Single validation rule for a form field.</summary>
+/// <param name="Type">Kind of rule.</param>
+/// <param name="Message">Error message shown when the rule fails.</param>
+/// <param name="Value">Rule argument such as the minimum, maximum length or pattern.</param>
+public record FormValidationRule(FormValidationRuleType Type, string Message, object? Value = null);
+
+/// <summary>Validation rules for one form field, identified by its model member name.</summary>
+/// <param name="Field">Name of the field as set on <see cref="Field.Name"/>.</param>
+/// <param name="Rules">Rules evaluated in order; the first failing rule provides the message.</param>
+public record FormFieldValidation(string Field, FormValidationRule[] Rules);
+
+/// <summary>Rule comparing the value of one field to another, reported on <paramref name="Field"/>.</summary>
+/// <param name="Field">Name of the field that shows the error.</param>
+/// <param name="Operator">How the field value is compared.</param>
+/// <param name="CompareTo">Name of the field it is compared to.</param>
+/// <param name="Message">Error message shown when the comparison fails.</param>
+public record FormCrossFieldRule(string Field, FormCompareOperator Operator, string CompareTo, string Message);
+
+/// <summary>Declarative validation schema shipped with a form so that it can be validated in the browser.</summary>
+/// <param name="Fields">Rules per field.</param>
+/// <param name="Rules">Rules spanning two fields.</param>
+/// <param name="Strategy">When errors are shown before the form is submitted.</param>
+public record FormValidationSchema(
+    FormFieldValidation[] Fields,
+    FormCrossFieldRule[] Rules,
+    FormValidationStrategy Strategy = FormValidationStrategy.OnBlur);
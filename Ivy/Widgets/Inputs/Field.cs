@@ -51,6 +51,9 @@ public record Field : WidgetBase<Field>
     /// <summary>Whether field is required. Default is false.</summary>
     [Prop] public bool Required { get; set; }
 
+    /// <summary>Name of the form field, used to look up its rules in the form's validation schema.</summary>
+    [Prop] public string? Name { get; set; }
+
     /// <summary>The size of the field affecting label and input sizing. Default is Medium.</summary>
     [Prop] public Sizes Size { get; set; } = Sizes.Medium;
 
@@ -91,6 +94,11 @@ public static class FieldExtensions
     /// <param name="size">The size of the field (Small, Medium, Large).</param>
     public static Field Size(this Field field, Sizes size) => field with { Size = size };
 
+    /// <summary>Sets the name used to look up the field's rules in the form's validation schema.</summary>
+    /// <param name="field">The field to configure.</param>
+    /// <param name="name">The field name, typically the model member name.</param>
+    public static Field Name(this Field field, string name) => field with { Name = name };
+
     /// <summary>
     /// Wraps the specified input control in a <see cref="Field"/> widget.
     /// </summary>
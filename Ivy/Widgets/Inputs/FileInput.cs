@@ -80,6 +80,9 @@ public abstract record FileInputBase : WidgetBase<FileInputBase>, IAnyFileInput
     /// <summary>Gets or sets the maximum number of files that can be selected (only applicable when Multiple is true).</summary>
     [Prop] public int? MaxFiles { get; set; }
 
+    /// <summary>Gets or sets the maximum size in bytes of each selected file.</summary>
+    [Prop] public long? MaxFileSize { get; set; }
+
     /// <summary>Gets or sets the upload URL for automatic file uploads.</summary>
     [Prop] public string? UploadUrl { get; set; }
 
@@ -104,6 +107,12 @@ public abstract record FileInputBase : WidgetBase<FileInputBase>, IAnyFileInput
 
         if (value is FileInput file)
         {
+            var sizeValidation = FileInputValidation.ValidateFileSize(file, MaxFileSize);
+            if (!sizeValidation.IsValid)
+            {
+                return sizeValidation;
+            }
+
             return FileInputValidation.ValidateFileType(file, Accept);
         }
         else if (value is IEnumerable<FileInput> files)
@@ -120,6 +129,16 @@ public abstract record FileInputBase : WidgetBase<FileInputBase>, IAnyFileInput
                 }
             }
 
+            // Then validate file sizes if MaxFileSize is set
+            if (MaxFileSize.HasValue)
+            {
+                var sizeValidation = FileInputValidation.ValidateFileSizes(filesList, MaxFileSize);
+                if (!sizeValidation.IsValid)
+                {
+                    return sizeValidation;
+                }
+            }
+
             // Then validate file types if Accept is set
             if (!string.IsNullOrWhiteSpace(Accept))
             {
@@ -347,6 +366,18 @@ public static class FileInputExtensions
         return widget with { MaxFiles = maxFiles };
     }
 
+    /// <summary>Sets the maximum size of each selected file. Larger files are rejected before they are uploaded.</summary>
+    /// <param name="widget">The file input to configure.</param>
+    /// <param name="maxFileSize">The maximum file size in bytes.</param>
+    public static FileInputBase MaxFileSize(this FileInputBase widget, long maxFileSize)
+    {
+        if (maxFileSize <= 0)
+        {
+            throw new ArgumentOutOfRangeException(nameof(maxFileSize), "MaxFileSize must be greater than zero.");
+        }
+        return widget with { MaxFileSize = maxFileSize };
+    }
+
     /// <summary>Sets the upload URL for automatic file uploads.</summary>
     /// <param name="widget">The file input to configure.</param>
     /// <param name="uploadUrl">The upload URL where files should be automatically uploaded.</param>
@@ -70,6 +70,50 @@ public static class FileInputValidation
         return ValidationResult.Success();
     }
 
+    /// <summary>
+    /// Validates a single file's size
+    /// </summary>
+    /// <param name="file">The file to validate</param>
+    /// <param name="maxFileSize">Maximum file size in bytes</param>
+    public static ValidationResult ValidateFileSize(FileInput file, long? maxFileSize)
+    {
+        if (maxFileSize == null || file.Size <= maxFileSize.Value) return ValidationResult.Success();
+
+        return ValidationResult.Error($"File too large: {file.Name}. Maximum size: {FormatFileSize(maxFileSize.Value)}");
+    }
+
+    /// <summary>
+    /// Validates file sizes against a maximum size per file
+    /// </summary>
+    /// <param name="files">The files to validate</param>
+    /// <param name="maxFileSize">Maximum file size in bytes</param>
+    public static ValidationResult ValidateFileSizes(IEnumerable<FileInput> files, long? maxFileSize)
+    {
+        if (maxFileSize == null) return ValidationResult.Success();
+
+        var oversizedFiles = files.Where(f => f.Size > maxFileSize.Value).Select(f => f.Name).ToList();
+        if (oversizedFiles.Any())
+        {
+            var fileList = string.Join(", ", oversizedFiles);
+            return ValidationResult.Error($"File(s) too large: {fileList}. Maximum size: {FormatFileSize(maxFileSize.Value)}");
+        }
+
+        return ValidationResult.Success();
+    }
+
+    private static string FormatFileSize(long bytes)
+    {
+        string[] units = ["B", "KB", "MB", "GB", "TB"];
+        double size = bytes;
+        var unit = 0;
+        while (size >= 1024 && unit < units.Length - 1)
+        {
+            size /= 1024;
+            unit++;
+        }
+        return unit == 0 ? $"{bytes} B" : $"{size:0.#} {units[unit]}";
+    }
+
     private static List<string> ParseAcceptPattern(string accept)
     {
         return accept.Split(',')
@@ -23,6 +23,9 @@ public abstract record WidgetBase<T> : AbstractWidget where T : WidgetBase<T>
 
     /// <summary>The test ID of the widget. Used for finding the widget in the DOM for testing.</summary>
     [Prop] public string? TestId { get; set; }
+
+    /// <summary>How the client sends events of the widget, for example debounced while typing.</summary>
+    [Prop] public EventPolicy[]? EventPolicies { get; set; }
 }
 
 public static class WidgetBaseExtensions
@@ -194,4 +197,52 @@ public static class WidgetBaseExtensions
     {
         return widget with { TestId = testId };
     }
-}
\ No newline at end of file
+
+    /// <summary>Wait until no event was raised for some time before sending the latest one.</summary>
+    /// <param name="widget">The widget to set the event policy of.</param>
+    /// <param name="delay">The time without events before the latest one is sent.</param>
+    /// <param name="eventName">The event to debounce.</param>
+    public static T Debounce<T>(this T widget, TimeSpan delay, string eventName = "OnChange") where T : WidgetBase<T>
+    {
+        return widget.WithEventPolicy(eventName, policy => policy with { Debounce = (int)delay.TotalMilliseconds });
+    }
+
+    /// <summary>Send at most one event per interval.</summary>
+    /// <param name="widget">The widget to set the event policy of.</param>
+    /// <param name="interval">The minimum time between two events.</param>
+    /// <param name="eventName">The event to throttle.</param>
+    public static T Throttle<T>(this T widget, TimeSpan interval, string eventName = "OnChange") where T : WidgetBase<T>
+    {
+        return widget.WithEventPolicy(eventName, policy => policy with { Throttle = (int)interval.TotalMilliseconds });
+    }
+
+    /// <summary>Send the latest event when the focus leaves the widget.</summary>
+    /// <param name="widget">The widget to set the event policy of.</param>
+    /// <param name="eventName">The event to send on blur.</param>
+    public static T SendOnBlur<T>(this T widget, string eventName = "OnChange") where T : WidgetBase<T>
+    {
+        return widget.WithEventPolicy(eventName, policy => policy with { OnBlur = true });
+    }
+
+    /// <summary>Drop all but the latest event while the previous one is handled by the server.</summary>
+    /// <param name="widget">The widget to set the event policy of.</param>
+    /// <param name="eventName">The event to coalesce.</param>
+    public static T Coalesce<T>(this T widget, string eventName = "OnChange") where T : WidgetBase<T>
+    {
+        return widget.WithEventPolicy(eventName, policy => policy with { Coalesce = true });
+    }
+
+    /// <summary>Change the policy of an event of the widget.</summary>
+    /// <param name="widget">The widget to set the event policy of.</param>
+    /// <param name="eventName">The event the policy applies to.</param>
+    /// <param name="update">Changes the current policy of the event.</param>
+    public static T WithEventPolicy<T>(this T widget, string eventName, Func<EventPolicy, EventPolicy> update) where T : WidgetBase<T>
+    {
+        var policies = widget.EventPolicies ?? [];
+        var current = policies.FirstOrDefault(p => p.EventName == eventName) ?? new EventPolicy(eventName);
+        return widget with
+        {
+            EventPolicies = [.. policies.Where(p => p.EventName != eventName), update(current)]
+        };
+    }
+}
@@ -3,6 +3,11 @@ import { renderWidgetTree, loadingState } from '@/widgets/WidgetRenderer';
 import { useBackend } from '@/hooks/use-backend';
 import { Toaster } from '@/components/ui/toaster';
 import { ErrorSheet } from '@/components/ErrorSheet';
+import { UnsavedChangesDialog } from '@/components/UnsavedChangesDialog';
+import { RenderCounterOverlay } from '@/components/RenderCounterOverlay';
+import { isRenderCounterEnabled } from '@/lib/render-stats';
+import { WidgetInspector } from '@/components/WidgetInspector';
+import { isInspectorAvailable } from '@/services/inspectorService';
 import ErrorBoundary from './ErrorBoundary';
 import MadeWithIvy from './MadeWithIvy';
 import { getAppArgs, getAppId, getParentId } from '@/lib/utils';
@@ -15,7 +20,7 @@ export function App() {
   const appId = getAppId();
   const appArgs = getAppArgs();
   const parentId = getParentId();
-  const { widgetTree, eventHandler, disconnected } = useBackend(
+  const { widgetTree, eventHandler, disconnected, pendingEvents } = useBackend(
     appId,
     appArgs,
     parentId
@@ -29,13 +34,16 @@ export function App() {
   return (
     <ThemeProvider defaultTheme="light" storageKey="ivy-ui-theme">
       <ErrorBoundary>
-        <EventHandlerProvider eventHandler={eventHandler}>
+        <EventHandlerProvider eventHandler={eventHandler} root>
           <>
             {!removeBranding && <MadeWithIvy />}
             {renderWidgetTree(widgetTree || loadingState())}
             <ErrorSheet />
+            <UnsavedChangesDialog />
             <Toaster />
-            {disconnected && <ConnectionModal />}
+            {isRenderCounterEnabled() && <RenderCounterOverlay />}
+            {isInspectorAvailable() && <WidgetInspector />}
+            {disconnected && <ConnectionModal pendingEvents={pendingEvents} />}
           </>
         </EventHandlerProvider>
       </ErrorBoundary>
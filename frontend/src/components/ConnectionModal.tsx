@@ -1,10 +1,22 @@
 import { TextShimmer } from './TextShimmer';
 
-export function ConnectionModal() {
+interface ConnectionModalProps {
+  /** Number of events that are sent once the connection is back */
+  pendingEvents?: number;
+}
+
+export function ConnectionModal({ pendingEvents = 0 }: ConnectionModalProps) {
   return (
     <div className="fixed inset-0 bg-background/80 flex items-center justify-center z-[1000]">
       <div className="px-8 py-4 bg-card border border-border rounded-lg shadow-lg">
         <TextShimmer>Connection lost. Trying to reconnect...</TextShimmer>
+        {pendingEvents > 0 && (
+          <p className="mt-2 text-xs text-muted-foreground">
+            {pendingEvents === 1
+              ? '1 change will be sent when the connection is back.'
+              : `${pendingEvents} changes will be sent when the connection is back.`}
+          </p>
+        )}
       </div>
     </div>
   );
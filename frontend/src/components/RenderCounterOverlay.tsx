@@ -0,0 +1,46 @@
+import { useSyncExternalStore } from 'react';
+import {
+  getRenderStats,
+  resetRenderStats,
+  subscribeRenderStats,
+} from '@/lib/render-stats';
+
+const MAX_LISTED_WIDGETS = 8;
+
+/**
+ * Development overlay listing how many widgets each update rendered again.
+ * Enabled with ?renderCounter in the URL.
+ */
+export function RenderCounterOverlay() {
+  const stats = useSyncExternalStore(subscribeRenderStats, getRenderStats);
+
+  return (
+    <div className="fixed bottom-2 left-2 z-[1001] w-64 rounded-md border border-border bg-card/95 p-2 font-mono text-xs text-foreground shadow-lg">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold">Renders</span>
+        <button
+          className="text-muted-foreground hover:text-foreground cursor-pointer"
+          onClick={resetRenderStats}
+        >
+          Reset
+        </button>
+      </div>
+      <div className="mt-1 text-muted-foreground">
+        Last update: {stats.rendered} rendered, {stats.reused} reused
+      </div>
+      <div className="text-muted-foreground">Total: {stats.total}</div>
+      {stats.widgets.length > 0 && (
+        <ul className="mt-1 border-t border-border pt-1">
+          {stats.widgets.slice(0, MAX_LISTED_WIDGETS).map(widget => (
+            <li key={widget.id} className="flex justify-between gap-2">
+              <span className="truncate">
+                {widget.type.replace('Ivy.', '')}#{widget.id}
+              </span>
+              <span>{widget.count}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
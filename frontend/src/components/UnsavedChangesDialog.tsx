@@ -0,0 +1,70 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { unsavedChangesService } from '@/services/unsavedChangesService';
+
+export function UnsavedChangesDialog() {
+  const [open, setOpen] = useState(false);
+  const resolveRef = useRef<((confirmed: boolean) => void) | null>(null);
+
+  useEffect(() => {
+    const removePrompt = unsavedChangesService.setPrompt(
+      () =>
+        new Promise<boolean>(resolve => {
+          // A newer navigation replaces one that is still waiting
+          resolveRef.current?.(false);
+          resolveRef.current = resolve;
+          setOpen(true);
+        })
+    );
+
+    // Browsers show their own dialog when the tab is closed or reloaded
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      if (!unsavedChangesService.hasUnsavedChanges()) return;
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+
+    return () => {
+      removePrompt();
+      window.removeEventListener('beforeunload', handleBeforeUnload);
+    };
+  }, []);
+
+  const close = (confirmed: boolean) => {
+    resolveRef.current?.(confirmed);
+    resolveRef.current = null;
+    setOpen(false);
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={isOpen => !isOpen && close(false)}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Discard unsaved changes?</AlertDialogTitle>
+          <AlertDialogDescription>
+            You have changes that have not been saved. They will be lost if you
+            continue.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={() => close(false)}>
+            Keep editing
+          </AlertDialogCancel>
+          <AlertDialogAction onClick={() => close(true)}>
+            Discard
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,307 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { ChevronDown, ChevronRight, X } from 'lucide-react';
+import { WidgetNode } from '@/types/widgets';
+import { cn } from '@/lib/utils';
+import { getWidgetRect } from '@/lib/widget-dom';
+import { widgetTreeToXml } from '@/lib/widget-tree-xml';
+import {
+  InspectorLogEntry,
+  inspectorService,
+} from '@/services/inspectorService';
+import { JsonRenderer } from './JsonRenderer';
+
+const OPEN_BY_DEFAULT_DEPTH = 2;
+
+const findNode = (node: WidgetNode | null, id: string): WidgetNode | null => {
+  if (!node) return null;
+  if (node.id === id) return node;
+  for (const child of node.children ?? []) {
+    const found = findNode(child, id);
+    if (found) return found;
+  }
+  return null;
+};
+
+const formatTime = (ms: number) => (ms / 1000).toFixed(3);
+
+const describeEntry = (entry: InspectorLogEntry): string => {
+  if (entry.kind === 'Event') return `${entry.name} → ${entry.widgetId}`;
+  if (entry.kind === 'Update' && Array.isArray(entry.payload)) {
+    const operations = entry.payload.reduce(
+      (count: number, update: { patch?: unknown[] }) =>
+        count + (update.patch?.length ?? 0),
+      0
+    );
+    return `${entry.payload.length} widgets, ${operations} operations`;
+  }
+  return 'Whole tree';
+};
+
+const describeResult = (entry: InspectorLogEntry): string => {
+  if (entry.result === 'queued') return 'queued';
+  if (entry.duration === undefined) return 'pending';
+  const duration = `${entry.duration.toFixed(1)} ms`;
+  return entry.result === false ? `${duration} failed` : duration;
+};
+
+interface TreeNodeProps {
+  node: WidgetNode;
+  depth: number;
+  selectedId: string | null;
+  expanded: Map<string, boolean>;
+  onToggle: (id: string, open: boolean) => void;
+  onSelect: (id: string) => void;
+  onHover: (id: string | null) => void;
+}
+
+function TreeNode({
+  node,
+  depth,
+  selectedId,
+  expanded,
+  onToggle,
+  onSelect,
+  onHover,
+}: TreeNodeProps) {
+  const children = node.children ?? [];
+  const isOpen = expanded.get(node.id) ?? depth < OPEN_BY_DEFAULT_DEPTH;
+
+  return (
+    <li>
+      <div
+        className={cn(
+          'flex items-center gap-1 rounded px-1 cursor-pointer hover:bg-accent',
+          node.id === selectedId && 'bg-accent'
+        )}
+        style={{ paddingLeft: depth * 12 }}
+        onClick={() => onSelect(node.id)}
+        onMouseEnter={() => onHover(node.id)}
+        onMouseLeave={() => onHover(null)}
+      >
+        {children.length > 0 ? (
+          <button
+            className="text-muted-foreground"
+            onClick={e => {
+              e.stopPropagation();
+              onToggle(node.id, !isOpen);
+            }}
+          >
+            {isOpen ? (
+              <ChevronDown className="h-3 w-3" />
+            ) : (
+              <ChevronRight className="h-3 w-3" />
+            )}
+          </button>
+        ) : (
+          <span className="w-3" />
+        )}
+        <span>{node.type.replace('Ivy.', '')}</span>
+        <span className="truncate text-muted-foreground">#{node.id}</span>
+      </div>
+      {isOpen && children.length > 0 && (
+        <ul>
+          {children.map(child => (
+            // Widget ids are the keys of widget elements, see widget-dom
+            <TreeNode
+              key={`inspector-${child.id}`}
+              node={child}
+              depth={depth + 1}
+              selectedId={selectedId}
+              expanded={expanded}
+              onToggle={onToggle}
+              onSelect={onSelect}
+              onHover={onHover}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Development panel with the live widget tree and the hub messages of the
+ * app. Toggled with Alt+Shift+I.
+ */
+export function WidgetInspector() {
+  const { open, sources, log } = useSyncExternalStore(
+    inspectorService.subscribe,
+    inspectorService.getState
+  );
+  const [tab, setTab] = useState<'tree' | 'log'>('tree');
+  const [connectionId, setConnectionId] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState(new Map<string, boolean>());
+  const [highlight, setHighlight] = useState<DOMRect | null>(null);
+  const [expandedEntry, setExpandedEntry] = useState<number | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.altKey && e.shiftKey && e.code === 'KeyI') {
+        e.preventDefault();
+        inspectorService.toggle();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  if (!open) return null;
+
+  const source =
+    sources.find(s => s.connectionId === connectionId) ?? sources[0];
+  const tree = source?.tree ?? null;
+  const selected = selectedId ? findNode(tree, selectedId) : null;
+
+  const handleToggle = (id: string, isOpen: boolean) =>
+    setExpanded(current => new Map(current).set(id, isOpen));
+
+  const handleHover = (id: string | null) =>
+    setHighlight(id ? getWidgetRect(id) : null);
+
+  return (
+    <>
+      {highlight && (
+        <div
+          className="pointer-events-none fixed z-[1001] border-2 border-primary bg-primary/10"
+          style={{
+            left: highlight.left,
+            top: highlight.top,
+            width: highlight.width,
+            height: highlight.height,
+          }}
+        />
+      )}
+      <div className="fixed inset-y-0 right-0 z-[1002] flex w-[420px] flex-col border-l border-border bg-card font-mono text-xs text-foreground shadow-lg">
+        <div className="flex items-center gap-2 border-b border-border p-2">
+          <span className="font-semibold">Widget Inspector</span>
+          {(['tree', 'log'] as const).map(name => (
+            <button
+              key={name}
+              className={cn(
+                'rounded px-2 py-0.5 capitalize',
+                tab === name
+                  ? 'bg-accent'
+                  : 'text-muted-foreground hover:text-foreground'
+              )}
+              onClick={() => setTab(name)}
+            >
+              {name}
+            </button>
+          ))}
+          <button
+            className="ml-auto text-muted-foreground hover:text-foreground"
+            aria-label="Close inspector"
+            onClick={() => inspectorService.setOpen(false)}
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        {tab === 'tree' && (
+          <>
+            {sources.length > 1 && (
+              <select
+                className="m-2 rounded border border-border bg-background p-1"
+                value={source?.connectionId}
+                onChange={e => setConnectionId(e.target.value)}
+              >
+                {sources.map(s => (
+                  <option key={s.connectionId} value={s.connectionId}>
+                    {s.appId ?? 'App'} ({s.connectionId})
+                  </option>
+                ))}
+              </select>
+            )}
+            <ul className="min-h-0 flex-1 overflow-auto p-2">
+              {tree ? (
+                <TreeNode
+                  node={tree}
+                  depth={0}
+                  selectedId={selectedId}
+                  expanded={expanded}
+                  onToggle={handleToggle}
+                  onSelect={setSelectedId}
+                  onHover={handleHover}
+                />
+              ) : (
+                <li className="text-muted-foreground">No widget tree yet</li>
+              )}
+            </ul>
+            {selected && (
+              <div className="max-h-[45%] overflow-auto border-t border-border p-2">
+                <div className="flex items-center justify-between">
+                  <span className="font-semibold">
+                    {selected.type}#{selected.id}
+                  </span>
+                  <button
+                    className="text-muted-foreground hover:text-foreground"
+                    onClick={() =>
+                      navigator.clipboard.writeText(widgetTreeToXml(selected))
+                    }
+                  >
+                    Copy XML
+                  </button>
+                </div>
+                <div className="mt-1 text-muted-foreground">
+                  Events:{' '}
+                  {selected.events.length > 0
+                    ? selected.events.join(', ')
+                    : 'none'}
+                </div>
+                <JsonRenderer data={selected.props} />
+              </div>
+            )}
+          </>
+        )}
+
+        {tab === 'log' && (
+          <>
+            <div className="flex items-center justify-between border-b border-border p-2 text-muted-foreground">
+              <span>{log.length} messages</span>
+              <button
+                className="hover:text-foreground"
+                onClick={() => inspectorService.clearLog()}
+              >
+                Clear
+              </button>
+            </div>
+            <ul className="min-h-0 flex-1 overflow-auto">
+              {log
+                .slice()
+                .reverse()
+                .map(entry => (
+                  <li
+                    key={entry.id}
+                    className="cursor-pointer border-b border-border px-2 py-1 hover:bg-accent"
+                    onClick={() =>
+                      setExpandedEntry(
+                        expandedEntry === entry.id ? null : entry.id
+                      )
+                    }
+                  >
+                    <div className="flex gap-2">
+                      <span className="text-muted-foreground">
+                        {formatTime(entry.time)}
+                      </span>
+                      <span>{entry.direction === 'in' ? '↓' : '↑'}</span>
+                      <span className="font-semibold">{entry.kind}</span>
+                      <span className="truncate">{describeEntry(entry)}</span>
+                      <span className="ml-auto shrink-0 text-muted-foreground">
+                        {describeResult(entry)}
+                      </span>
+                    </div>
+                    {expandedEntry === entry.id && (
+                      <div onClick={e => e.stopPropagation()}>
+                        <JsonRenderer data={entry.payload} />
+                      </div>
+                    )}
+                  </li>
+                ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { WidgetEventHandlerType } from '@/types/widgets';
+import { eventPolicyRegistry } from '@/services/eventPolicies';
+import { EventHandlerProvider } from './EventHandlerProvider';
+import { useEventHandler } from './hooks';
+
+const Widget = ({
+  onRender,
+}: {
+  onRender: (handler: WidgetEventHandlerType) => void;
+}) => {
+  onRender(useEventHandler());
+  return null;
+};
+
+// Renders the providers and returns the handler a widget inside them gets
+const renderHandler = (
+  wrap: (widget: React.ReactElement) => React.ReactElement
+): WidgetEventHandlerType => {
+  const handlers: WidgetEventHandlerType[] = [];
+  renderToStaticMarkup(
+    wrap(React.createElement(Widget, { onRender: h => handlers.push(h) }))
+  );
+  return handlers[0];
+};
+
+describe('EventHandlerProvider', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should apply event policies once through nested providers', async () => {
+    vi.useFakeTimers();
+    const policies = [{ eventName: 'OnChange', debounce: 300 }];
+    eventPolicyRegistry.set('input', policies);
+    const send = vi.fn<WidgetEventHandlerType>(() => Promise.resolve(true));
+    const wrapped = vi.fn();
+
+    const handler = renderHandler(widget =>
+      React.createElement(EventHandlerProvider, {
+        eventHandler: send,
+        root: true,
+        children: React.createElement(() => {
+          const parent = useEventHandler();
+          return React.createElement(EventHandlerProvider, {
+            eventHandler: (eventName, widgetId, args) => {
+              wrapped(args[0]);
+              return parent(eventName, widgetId, args);
+            },
+            children: widget,
+          });
+        }),
+      })
+    );
+
+    void handler('OnChange', 'input', ['a']);
+    void handler('OnChange', 'input', ['ab']);
+    await vi.advanceTimersByTimeAsync(299);
+    expect(send).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledWith('OnChange', 'input', ['ab']);
+    expect(wrapped).toHaveBeenCalledTimes(2);
+
+    eventPolicyRegistry.delete('input', policies);
+  });
+});
@@ -1,12 +1,46 @@
-import React from 'react';
+import React, { useEffect, useMemo } from 'react';
 import { WidgetEventHandlerType } from '@/types/widgets';
+import { EventDispatcher } from '@/services/eventPolicies';
 import { EventHandlerContext } from './context';
 
+/**
+ * Provides the event handler to widgets. The root provider of an app sends
+ * events according to the event policies the server declared for each
+ * widget; nested providers only wrap the handler, whose events then pass
+ * through the root's policies once.
+ */
 export const EventHandlerProvider: React.FC<{
   eventHandler: WidgetEventHandlerType;
+  root?: boolean;
   children: React.ReactNode;
-}> = ({ eventHandler, children }) => (
-  <EventHandlerContext.Provider value={{ eventHandler }}>
-    {children}
-  </EventHandlerContext.Provider>
-);
+}> = ({ eventHandler, root = false, children }) => {
+  const dispatcher = useMemo(
+    () => (root ? new EventDispatcher(eventHandler) : null),
+    [eventHandler, root]
+  );
+
+  useEffect(() => {
+    if (!dispatcher) return;
+    const handleFocusOut = () => dispatcher.flushOnBlur();
+    // Nothing held may be lost when the page goes away
+    const handlePageHide = () => dispatcher.flush();
+    document.addEventListener('focusout', handleFocusOut);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      document.removeEventListener('focusout', handleFocusOut);
+      window.removeEventListener('pagehide', handlePageHide);
+      dispatcher.dispose();
+    };
+  }, [dispatcher]);
+
+  const value = useMemo(
+    () => ({ eventHandler: dispatcher?.dispatch ?? eventHandler }),
+    [dispatcher, eventHandler]
+  );
+
+  return (
+    <EventHandlerContext.Provider value={value}>
+      {children}
+    </EventHandlerContext.Provider>
+  );
+};
@@ -1,20 +1,31 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import * as signalR from '@microsoft/signalr';
+import { MessagePackHubProtocol } from '@microsoft/signalr-protocol-msgpack';
 import { WidgetEventHandlerType, WidgetNode } from '@/types/widgets';
 import { useToast } from '@/hooks/use-toast';
 import { showError } from '@/hooks/use-error-sheet';
-import { getIvyHost, getMachineId } from '@/lib/utils';
+import { getIvyHost, getMachineId, isMessagePackEnabled } from '@/lib/utils';
 import { logger } from '@/lib/logger';
-import { applyPatch, Operation } from 'fast-json-patch';
-import { cloneDeep } from 'lodash';
+import { uploadService } from '@/services/uploadService';
+import { EventQueue } from '@/services/eventQueue';
+import { inspectorService } from '@/services/inspectorService';
+import { applyUpdateMessage, UpdateMessage } from '@/lib/widget-tree-patch';
+import { widgetTreeToXml } from '@/lib/widget-tree-xml';
+import { getUrlState, setUrlState } from '@/lib/url-state';
+import {
+  download,
+  DownloadMessage,
+  DownloadProgressMessage,
+  LARGE_DOWNLOAD_BYTES,
+} from '@/services/downloadService';
+import { formatBytes } from '@/services/uploadService';
 import { ToastAction } from '@/components/ui/toast';
+import { Progress } from '@/components/ui/progress';
 import { setThemeGlobal } from '@/components/theme-provider';
-
-type UpdateMessage = Array<{
-  viewId: string;
-  indices: number[];
-  patch: Operation[];
-}>;
+import {
+  ChartDataMessage,
+  chartStreamService,
+} from '@/services/chartStreamService';
 
 type RefreshMessage = {
   widgets: WidgetNode;
@@ -39,93 +50,6 @@ type SetAuthTokenMessage = {
   reloadPage: boolean;
 };
 
-const widgetTreeToXml = (node: WidgetNode) => {
-  const tagName = node.type.replace('Ivy.', '');
-  const attributes: string[] = [`Id="${escapeXml(node.id)}"`];
-  if (node.props) {
-    for (const [key, value] of Object.entries(node.props)) {
-      const pascalCaseKey = key.charAt(0).toUpperCase() + key.slice(1);
-      attributes.push(`${pascalCaseKey}="${escapeXml(String(value))}"`);
-    }
-  }
-  let childrenXml = '';
-  if (node.children && node.children.length > 0) {
-    childrenXml = node.children.map(child => widgetTreeToXml(child)).join('');
-    return `<${tagName} ${attributes.join(' ')}>${childrenXml}</${tagName}>`;
-  } else {
-    return `<${tagName} ${attributes.join(' ')} />`;
-  }
-};
-
-const escapeXml = (str: string) => {
-  return str
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&apos;');
-};
-
-function applyUpdateMessage(
-  tree: WidgetNode,
-  message: UpdateMessage
-): WidgetNode {
-  const newTree = cloneDeep(tree);
-
-  message.forEach(update => {
-    let parent = newTree;
-
-    if (!parent) {
-      logger.error('No parent found in applyUpdateMessage', { message });
-      return;
-    }
-
-    if (update.indices.length === 0) {
-      applyPatch(parent, update.patch);
-    } else {
-      update.indices.forEach((index, i) => {
-        if (i === update.indices.length - 1) {
-          if (!parent.children) {
-            logger.error('No children found in parent', { parent });
-            return;
-          }
-          applyPatch(parent.children[index], update.patch);
-        } else {
-          if (!parent) {
-            logger.error('No parent found in applyUpdateMessage', { message });
-            return;
-          }
-          if (!parent.children) {
-            logger.error('No children found in parent', { parent });
-            return;
-          }
-          if (index >= parent.children.length) {
-            logger.error('Index out of bounds', {
-              index,
-              childrenLength: parent.children.length,
-              parent,
-            });
-            return;
-          }
-          const nextParent = parent.children[index];
-          if (!nextParent) {
-            logger.error('Child at index is null/undefined', {
-              index,
-              childrenLength: parent.children.length,
-              parentType: parent.type,
-              parentId: parent.id,
-            });
-            return;
-          }
-          parent = nextParent;
-        }
-      });
-    }
-  });
-
-  return newTree;
-}
-
 export const useBackend = (
   appId: string | null,
   appArgs: string | null,
@@ -136,6 +60,9 @@ export const useBackend = (
   );
   const [widgetTree, setWidgetTree] = useState<WidgetNode | null>(null);
   const [disconnected, setDisconnected] = useState(false);
+  // Events raised while disconnected are sent once the connection is back
+  const [eventQueue] = useState(() => new EventQueue());
+  const [pendingEvents, setPendingEvents] = useState(0);
   const { toast } = useToast();
   const machineId = getMachineId();
   const connectionId = connection?.connectionId;
@@ -165,6 +92,15 @@ export const useBackend = (
     }
   }, [widgetTree, connectionId]);
 
+  useEffect(() => {
+    if (connectionId) inspectorService.setTree(connectionId, appId, widgetTree);
+  }, [widgetTree, connectionId, appId]);
+
+  useEffect(() => {
+    if (!connectionId) return;
+    return () => inspectorService.setTree(connectionId, appId, undefined);
+  }, [connectionId, appId]);
+
   const handleRefreshMessage = useCallback((message: RefreshMessage) => {
     setWidgetTree(message.widgets);
   }, []);
@@ -249,6 +185,74 @@ export const useBackend = (
     [toast]
   );
 
+  // Names and progress toasts of the streamed downloads, by download id
+  const downloadsRef = useRef(
+    new Map<
+      string,
+      { fileName: string; toast: ReturnType<typeof toast> | null }
+    >()
+  );
+
+  const handleDownload = useCallback(
+    (message: DownloadMessage) => {
+      const fileName = message.fileName || 'file';
+      try {
+        download(message);
+        if (message.id) {
+          downloadsRef.current.set(message.id, { fileName, toast: null });
+        }
+      } catch (error) {
+        logger.error('Download failed', { url: message.url, error });
+        toast({
+          title: `Failed to download ${fileName}`,
+          description: error instanceof Error ? error.message : String(error),
+          variant: 'destructive',
+        });
+      }
+    },
+    [toast]
+  );
+
+  // The browser saves the file itself, so the progress comes from the server as it sends the file
+  const handleDownloadProgress = useCallback(
+    ({ id, loaded, total, done }: DownloadProgressMessage) => {
+      const entry = downloadsRef.current.get(id);
+      if (!entry) return;
+
+      if (done) {
+        entry.toast?.dismiss();
+        downloadsRef.current.delete(id);
+        return;
+      }
+
+      // Only large files get a toast, small ones are saved before it would be seen
+      const large =
+        total >= LARGE_DOWNLOAD_BYTES || loaded >= LARGE_DOWNLOAD_BYTES;
+      if (!entry.toast && !large) return;
+
+      const props = {
+        title: `Downloading ${entry.fileName}`,
+        description: (
+          <div className="space-y-2">
+            <div>
+              {total > 0
+                ? `${formatBytes(loaded)} / ${formatBytes(total)}`
+                : formatBytes(loaded)}
+            </div>
+            {total > 0 && <Progress value={(loaded / total) * 100} />}
+          </div>
+        ),
+        duration: Infinity,
+      };
+      if (entry.toast) {
+        entry.toast.update({ ...props, id: entry.toast.id });
+      } else {
+        entry.toast = toast(props);
+      }
+    },
+    [toast]
+  );
+
   useEffect(() => {
     // Clean up the previous connection before creating a new one
     if (currentConnectionRef.current) {
@@ -257,12 +261,16 @@ export const useBackend = (
       });
     }
 
-    const newConnection = new signalR.HubConnectionBuilder()
+    const builder = new signalR.HubConnectionBuilder()
       .withUrl(
-        `${getIvyHost()}/messages?appId=${appId ?? ''}&appArgs=${appArgs ?? ''}&machineId=${machineId}&parentId=${parentId ?? ''}`
+        `${getIvyHost()}/messages?appId=${appId ?? ''}&appArgs=${appArgs ?? ''}&machineId=${machineId}&parentId=${parentId ?? ''}&urlState=${encodeURIComponent(window.location.search)}`
       )
-      .withAutomaticReconnect()
-      .build();
+      .withAutomaticReconnect();
+    // Large widget trees are a lot smaller in the binary protocol
+    if (isMessagePackEnabled()) {
+      builder.withHubProtocol(new MessagePackHubProtocol());
+    }
+    const newConnection = builder.build();
 
     currentConnectionRef.current = newConnection;
     queueMicrotask(() => setConnection(newConnection));
@@ -283,6 +291,21 @@ export const useBackend = (
       connection &&
       connection.state === signalR.HubConnectionState.Disconnected
     ) {
+      const replayQueuedEvents = async () => {
+        if (eventQueue.size === 0) return;
+        logger.info(
+          `[${connection.connectionId}] Replaying ${eventQueue.size} queued events`
+        );
+        await eventQueue.flush(({ eventName, widgetId, args }) =>
+          connection
+            .invoke<boolean | null>('Event', eventName, widgetId, args)
+            .then(handled => handled !== false)
+        );
+        // Replayed after the Refresh of the new session, whose tree the
+        // server then patches with Update messages like for any other event
+        setPendingEvents(eventQueue.size);
+      };
+
       connection
         .start()
         .then(() => {
@@ -294,11 +317,21 @@ export const useBackend = (
 
           connection.on('Refresh', message => {
             logger.debug(`[${connection.connectionId}] Refresh`, message);
+            inspectorService.recordMessage(
+              connection.connectionId,
+              'Refresh',
+              message
+            );
             handleRefreshMessage(message);
           });
 
           connection.on('Update', message => {
             logger.debug(`[${connection.connectionId}] Update`, message);
+            inspectorService.recordMessage(
+              connection.connectionId,
+              'Update',
+              message
+            );
             handleUpdateMessage(message);
           });
 
@@ -350,6 +383,32 @@ export const useBackend = (
             document.head.appendChild(styleElement);
           });
 
+          connection.on('Download', (message: DownloadMessage) => {
+            logger.debug(`[${connection.connectionId}] Download`, {
+              url: message.url,
+              fileName: message.fileName,
+            });
+            handleDownload(message);
+          });
+
+          // Not logged, sent several times a second while a file downloads
+          connection.on(
+            'DownloadProgress',
+            (message: DownloadProgressMessage) => {
+              handleDownloadProgress(message);
+            }
+          );
+
+          connection.on('SetUrlState', message => {
+            logger.debug(`[${connection.connectionId}] SetUrlState`, message);
+            setUrlState(message);
+          });
+
+          // Not logged, streams of live chart data can send many per second
+          connection.on('ChartData', (message: ChartDataMessage) => {
+            chartStreamService.publish(message);
+          });
+
           connection.on('HotReload', () => {
             logger.debug(`[${connection.connectionId}] HotReload`);
             handleHotReloadMessage();
@@ -358,17 +417,28 @@ export const useBackend = (
           connection.onreconnecting(() => {
             logger.warn(`[${connection.connectionId}] Reconnecting`);
             setDisconnected(true);
+            uploadService.pauseAll();
           });
 
           connection.onreconnected(() => {
             logger.info(`[${connection.connectionId}] Reconnected`);
             setDisconnected(false);
+            // The new session started from the URL the page was opened with
+            connection.invoke('PopState', getUrlState()).catch(err => {
+              logger.error('SignalR Error when sending PopState:', err);
+            });
+            void replayQueuedEvents();
           });
 
           connection.onclose(() => {
             logger.warn(`[${connection.connectionId}] Closed`);
             setDisconnected(true);
+            // Reconnecting gave up, so queued events can never be sent
+            eventQueue.clear();
+            setPendingEvents(0);
           });
+
+          void replayQueuedEvents();
         })
         .catch(e => {
           logger.error('SignalR connection failed:', e);
@@ -385,6 +455,10 @@ export const useBackend = (
         connection.off('SetTheme');
         connection.off('OpenUrl');
         connection.off('ApplyTheme');
+        connection.off('Download');
+        connection.off('DownloadProgress');
+        connection.off('SetUrlState');
+        connection.off('ChartData');
         connection.off('reconnecting');
         connection.off('reconnected');
         connection.off('close');
@@ -409,25 +483,66 @@ export const useBackend = (
     handleSetAuthToken,
     handleSetTheme,
     handleError,
+    handleDownload,
+    handleDownloadProgress,
     appId,
     parentId,
+    eventQueue,
   ]);
 
+  // Back and forward in the browser change the URL state of the app
+  useEffect(() => {
+    if (!connection) return;
+    const handlePopState = () => {
+      if (connection.state !== signalR.HubConnectionState.Connected) return;
+      connection.invoke('PopState', getUrlState()).catch(err => {
+        logger.error('SignalR Error when sending PopState:', err);
+      });
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [connection]);
+
   const eventHandler: WidgetEventHandlerType = useCallback(
     (eventName, widgetId, args) => {
       logger.debug(`[${connectionId}] Event: ${eventName}`, { widgetId, args });
+      const recordResult = inspectorService.recordEvent(
+        connectionId ?? null,
+        eventName,
+        widgetId,
+        args
+      );
       if (!connection) {
         logger.warn('No SignalR connection available for event', {
           eventName,
           widgetId,
         });
-        return;
+        recordResult(false);
+        return Promise.resolve(false);
       }
-      connection.invoke('Event', eventName, widgetId, args).catch(err => {
-        logger.error('SignalR Error when sending event:', err);
-      });
+      if (connection.state !== signalR.HubConnectionState.Connected) {
+        logger.info('Queueing event until the connection is back', {
+          eventName,
+          widgetId,
+        });
+        const handled = eventQueue.enqueue(eventName, widgetId, args);
+        setPendingEvents(eventQueue.size);
+        recordResult('queued');
+        return handled;
+      }
+      return connection
+        .invoke<boolean | null>('Event', eventName, widgetId, args)
+        .then(handled => handled !== false)
+        .catch(err => {
+          logger.error('SignalR Error when sending event:', err);
+          return false;
+        })
+        .then(handled => {
+          recordResult(handled);
+          return handled;
+        });
     },
-    [connection, connectionId]
+    [connection, connectionId, eventQueue]
   );
 
   return {
@@ -435,5 +550,6 @@ export const useBackend = (
     widgetTree,
     eventHandler,
     disconnected,
+    pendingEvents,
   };
 };
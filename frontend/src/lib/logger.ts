@@ -6,13 +6,19 @@
 // Local storage key for developer options
 const DEVELOPER_OPTIONS_KEY = 'ivy-developer-options';
 
+export interface DeveloperOptions {
+  showDetailedLogging: boolean;
+  /** Opens the widget inspector panel, also toggled with Alt+Shift+I */
+  showWidgetInspector?: boolean;
+}
+
 // Global developer options state (cached from localStorage)
-let developerOptions = {
+let developerOptions: DeveloperOptions = {
   showDetailedLogging: false,
 };
 
 // Function to get developer options from localStorage
-const getDeveloperOptionsFromStorage = () => {
+const getDeveloperOptionsFromStorage = (): DeveloperOptions => {
   try {
     const stored = localStorage.getItem(DEVELOPER_OPTIONS_KEY);
     if (stored) {
@@ -30,9 +36,7 @@ const initializeDeveloperOptions = () => {
 };
 
 // Function to update developer options in localStorage and update cached state
-export const setDeveloperOptions = (options: {
-  showDetailedLogging: boolean;
-}) => {
+export const setDeveloperOptions = (options: Partial<DeveloperOptions>) => {
   try {
     const currentOptions = getDeveloperOptionsFromStorage();
     const newOptions = { ...currentOptions, ...options };
@@ -0,0 +1,81 @@
+// Development counters showing which widgets were rendered again by an update
+
+export interface WidgetRenderCount {
+  id: string;
+  type: string;
+  count: number;
+}
+
+export interface RenderStats {
+  /** Widgets rendered again by the last update */
+  rendered: number;
+  /** Subtrees reused without rendering by the last update */
+  reused: number;
+  /** Widgets rendered since the counters were reset */
+  total: number;
+  widgets: WidgetRenderCount[];
+}
+
+const emptyStats: RenderStats = {
+  rendered: 0,
+  reused: 0,
+  total: 0,
+  widgets: [],
+};
+
+let stats = emptyStats;
+let pending: { rendered: number; reused: number } | null = null;
+const counts = new Map<string, WidgetRenderCount>();
+const listeners = new Set<() => void>();
+
+export const isRenderCounterEnabled = (): boolean =>
+  import.meta.env.DEV &&
+  new URLSearchParams(window.location.search).has('renderCounter');
+
+// Published after the render pass so the overlay never updates while the tree renders
+const publish = () => {
+  if (!pending) return;
+  stats = {
+    rendered: pending.rendered,
+    reused: pending.reused,
+    total: stats.total + pending.rendered,
+    widgets: Array.from(counts.values())
+      .sort((a, b) => b.count - a.count)
+      .map(widget => ({ ...widget })),
+  };
+  pending = null;
+  listeners.forEach(listener => listener());
+};
+
+export function recordRender(id: string, type: string, reused: boolean): void {
+  if (!pending) {
+    pending = { rendered: 0, reused: 0 };
+    queueMicrotask(publish);
+  }
+  if (reused) {
+    pending.reused++;
+    return;
+  }
+  pending.rendered++;
+  const widget = counts.get(id);
+  if (widget) {
+    widget.count++;
+  } else {
+    counts.set(id, { id, type, count: 1 });
+  }
+}
+
+export function resetRenderStats(): void {
+  counts.clear();
+  stats = emptyStats;
+  listeners.forEach(listener => listener());
+}
+
+export const getRenderStats = (): RenderStats => stats;
+
+export function subscribeRenderStats(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { applyUrlState, getUrlState } from './url-state';
+
+describe('url-state', () => {
+  describe('getUrlState', () => {
+    it('should leave out the parameters used by Ivy', () => {
+      expect(
+        getUrlState('?appId=chrome&app=orders&tab=2&parentId=abc&ivyHost=x')
+      ).toEqual({ app: 'orders', tab: '2' });
+    });
+
+    it('should be empty without a query', () => {
+      expect(getUrlState('')).toEqual({});
+    });
+  });
+
+  describe('applyUrlState', () => {
+    it('should set and remove parameters and keep the others', () => {
+      expect(
+        applyUrlState('?appId=chrome&tab=2&blades=3', {
+          tab: '1',
+          blades: null,
+          app: 'orders list',
+        })
+      ).toBe('?appId=chrome&tab=1&app=orders+list');
+    });
+
+    it('should never change the parameters used by Ivy', () => {
+      expect(applyUrlState('?appId=chrome', { appId: 'other' })).toBe(
+        '?appId=chrome'
+      );
+    });
+
+    it('should return an empty query when nothing is left', () => {
+      expect(applyUrlState('?tab=2', { tab: null })).toBe('');
+    });
+  });
+});
@@ -0,0 +1,72 @@
+// Query parameters of the page that belong to the app, kept in sync with IUrlStateService on the server
+
+/** Parameters Ivy itself uses, which are never part of the app's URL state */
+export const RESERVED_URL_PARAMS = [
+  'appId',
+  'appArgs',
+  'parentId',
+  'machineId',
+  'ivyHost',
+];
+
+export interface SetUrlStateMessage {
+  /** Parameters to set, or to remove when null */
+  state: Record<string, string | null>;
+  /** Whether the current history entry is replaced instead of adding one */
+  replace: boolean;
+}
+
+const isReserved = (key: string) =>
+  RESERVED_URL_PARAMS.some(
+    reserved => reserved.toLowerCase() === key.toLowerCase()
+  );
+
+/**
+ * The app's state in a query string
+ */
+export function getUrlState(
+  search: string = window.location.search
+): Record<string, string> {
+  const state: Record<string, string> = {};
+  new URLSearchParams(search).forEach((value, key) => {
+    if (!isReserved(key)) state[key] = value;
+  });
+  return state;
+}
+
+/**
+ * The query string with the changed parameters, keeping all others
+ */
+export function applyUrlState(
+  search: string,
+  state: Record<string, string | null>
+): string {
+  const params = new URLSearchParams(search);
+  for (const [key, value] of Object.entries(state)) {
+    if (isReserved(key)) continue;
+    if (value === null) {
+      params.delete(key);
+    } else {
+      params.set(key, value);
+    }
+  }
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+/**
+ * Changes the page URL as asked by the server, adding a history entry
+ * unless the message replaces the current one
+ */
+export function setUrlState({ state, replace }: SetUrlStateMessage): void {
+  const { pathname, search, hash } = window.location;
+  const newSearch = applyUrlState(search, state);
+  if (newSearch === search) return;
+
+  const url = `${pathname}${newSearch}${hash}`;
+  if (replace) {
+    window.history.replaceState(window.history.state, '', url);
+  } else {
+    window.history.pushState(null, '', url);
+  }
+}
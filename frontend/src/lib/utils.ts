@@ -21,7 +21,7 @@ export function getParentId(): string | null {
   return urlParams.get('parentId');
 }
 
-function generateUUID(): string {
+export function generateUUID(): string {
   if (typeof crypto.randomUUID === 'function') {
     return crypto.randomUUID();
   }
@@ -55,6 +55,17 @@ export function getIvyHost(): string {
   return window.location.origin;
 }
 
+/**
+ * Whether the binary MessagePack hub protocol is used instead of JSON, as
+ * declared by the server when it is started with --message-pack
+ */
+export function isMessagePackEnabled(): boolean {
+  const hubProtocol = document
+    .querySelector('meta[name="ivy-hub-protocol"]')
+    ?.getAttribute('content');
+  return hubProtocol?.toLowerCase() === 'messagepack';
+}
+
 export function camelCase(titleCase: unknown): unknown {
   if (typeof titleCase !== 'string') {
     return titleCase;
@@ -0,0 +1,76 @@
+// Finds the DOM elements rendered by a widget, used by the widget inspector
+
+/**
+ * The part of a React fiber that is read here. Widgets do not render their id
+ * into the DOM, but every widget element is keyed by its id.
+ */
+interface Fiber {
+  key: string | null;
+  stateNode: unknown;
+  child: Fiber | null;
+  sibling: Fiber | null;
+}
+
+const getCurrentRootFiber = (container: Element): Fiber | null => {
+  const key = Object.keys(container).find(k =>
+    k.startsWith('__reactContainer$')
+  );
+  if (!key) return null;
+  // The container keeps the first root fiber; the fiber root knows the current one
+  const rootFiber = (container as unknown as Record<string, Fiber>)[key];
+  return (
+    (rootFiber?.stateNode as { current?: Fiber } | null)?.current ?? rootFiber
+  );
+};
+
+const findFiber = (fiber: Fiber | null, key: string): Fiber | null => {
+  const stack: Fiber[] = fiber ? [fiber] : [];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current.key === key) return current;
+    if (current.sibling) stack.push(current.sibling);
+    if (current.child) stack.push(current.child);
+  }
+  return null;
+};
+
+const collectElements = (fiber: Fiber | null, elements: Element[]) => {
+  for (let child = fiber; child; child = child.sibling) {
+    if (child.stateNode instanceof Element) {
+      elements.push(child.stateNode);
+    } else {
+      collectElements(child.child, elements);
+    }
+  }
+};
+
+/**
+ * The outermost DOM elements rendered by the widget with the given id
+ */
+export function findWidgetElements(
+  widgetId: string,
+  container: Element | null = document.getElementById('root')
+): Element[] {
+  const fiber =
+    container && findFiber(getCurrentRootFiber(container), widgetId);
+  const elements: Element[] = [];
+  if (fiber) collectElements(fiber.child, elements);
+  return elements;
+}
+
+/**
+ * The area covered by the visible elements of a widget, or null when it has
+ * none
+ */
+export function getWidgetRect(widgetId: string): DOMRect | null {
+  const rects = findWidgetElements(widgetId)
+    .map(element => element.getBoundingClientRect())
+    .filter(rect => rect.width > 0 || rect.height > 0);
+  if (rects.length === 0) return null;
+
+  const left = Math.min(...rects.map(rect => rect.left));
+  const top = Math.min(...rects.map(rect => rect.top));
+  const right = Math.max(...rects.map(rect => rect.right));
+  const bottom = Math.max(...rects.map(rect => rect.bottom));
+  return new DOMRect(left, top, right - left, bottom - top);
+}
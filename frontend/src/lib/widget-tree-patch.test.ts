@@ -0,0 +1,169 @@
+import { describe, it, expect, vi } from 'vitest';
+import { applyOperations, applyUpdateMessage } from './widget-tree-patch';
+import { WidgetNode } from '@/types/widgets';
+
+vi.mock('@/lib/logger');
+
+const createTree = (): WidgetNode => ({
+  type: 'Ivy.StackLayout',
+  id: 'root',
+  props: { gap: 4 },
+  events: [],
+  children: [
+    {
+      type: 'Ivy.TextInput',
+      id: 'name',
+      props: { value: 'Alice' },
+      events: ['OnChange'],
+    },
+    {
+      type: 'Ivy.StackLayout',
+      id: 'details',
+      props: {},
+      events: [],
+      children: [
+        {
+          type: 'Ivy.Badge',
+          id: 'badge',
+          props: { title: 'New' },
+          events: [],
+        },
+        {
+          type: 'Ivy.Button',
+          id: 'save',
+          props: { title: 'Save' },
+          events: ['OnClick'],
+        },
+      ],
+    },
+  ],
+});
+
+describe('widget-tree-patch', () => {
+  describe('applyOperations', () => {
+    it('should apply operations without changing the document', () => {
+      const document = { a: { b: [1, 2, 3] }, c: { d: 1 } };
+
+      const result = applyOperations(document, [
+        { op: 'add', path: '/a/b/-', value: 4 },
+        { op: 'remove', path: '/a/b/0' },
+        { op: 'replace', path: '/c/d', value: 2 },
+        { op: 'add', path: '/e~1f', value: true },
+      ]);
+
+      expect(result).toEqual({
+        a: { b: [2, 3, 4] },
+        c: { d: 2 },
+        'e/f': true,
+      });
+      expect(document).toEqual({ a: { b: [1, 2, 3] }, c: { d: 1 } });
+    });
+
+    it('should move and copy values', () => {
+      const result = applyOperations({ a: { x: 1 }, b: {} }, [
+        { op: 'copy', from: '/a/x', path: '/b/y' },
+        { op: 'move', from: '/a/x', path: '/b/z' },
+      ]);
+
+      expect(result).toEqual({ a: {}, b: { y: 1, z: 1 } });
+    });
+
+    it('should reject invalid paths and failed tests', () => {
+      expect(() =>
+        applyOperations({ a: [] }, [{ op: 'replace', path: '/a/3', value: 1 }])
+      ).toThrow(
+        expect.objectContaining({ name: 'OPERATION_PATH_UNRESOLVABLE' })
+      );
+      expect(() =>
+        applyOperations({ a: 1 }, [{ op: 'remove', path: '/b' }])
+      ).toThrow(
+        expect.objectContaining({ name: 'OPERATION_PATH_UNRESOLVABLE' })
+      );
+      expect(() =>
+        applyOperations({ a: 1 }, [{ op: 'test', path: '/a', value: 2 }])
+      ).toThrow(expect.objectContaining({ name: 'TEST_OPERATION_FAILED' }));
+    });
+
+    it('should replace and remove at the root', () => {
+      const document = { a: 1 };
+
+      expect(
+        applyOperations(document, [{ op: 'replace', path: '', value: [1] }])
+      ).toEqual([1]);
+      expect(applyOperations(document, [{ op: 'remove', path: '/a' }])).toEqual(
+        {}
+      );
+      expect(document).toEqual({ a: 1 });
+    });
+
+    it('should share the parts off the patched path', () => {
+      const document = { a: { b: [1] }, c: { d: 1 } };
+
+      const result = applyOperations(document, [
+        { op: 'add', path: '/a/b/-', value: 2 },
+      ]);
+
+      expect(result.a.b).toEqual([1, 2]);
+      expect(result.c).toBe(document.c);
+      expect(document.a.b).toEqual([1]);
+    });
+  });
+
+  describe('applyUpdateMessage', () => {
+    it('should only copy the widgets on the updated path', () => {
+      const tree = createTree();
+
+      const result = applyUpdateMessage(tree, [
+        {
+          viewId: 'view',
+          indices: [1, 0],
+          patch: [{ op: 'replace', path: '/props/title', value: 'Updated' }],
+        },
+      ]);
+
+      expect(result.children![1].children![0].props.title).toBe('Updated');
+      expect(tree.children![1].children![0].props.title).toBe('New');
+      expect(result).not.toBe(tree);
+      expect(result.children![1]).not.toBe(tree.children![1]);
+      expect(result.children![0]).toBe(tree.children![0]);
+      expect(result.children![1].children![1]).toBe(
+        tree.children![1].children![1]
+      );
+    });
+
+    it('should patch the root when there are no indices', () => {
+      const tree = createTree();
+
+      const result = applyUpdateMessage(tree, [
+        {
+          viewId: 'view',
+          indices: [],
+          patch: [{ op: 'replace', path: '/props/gap', value: 8 }],
+        },
+      ]);
+
+      expect(result.props.gap).toBe(8);
+      expect(result.children).toBe(tree.children);
+    });
+
+    it('should skip updates for widgets that do not exist', () => {
+      const tree = createTree();
+
+      const result = applyUpdateMessage(tree, [
+        {
+          viewId: 'view',
+          indices: [5, 0],
+          patch: [{ op: 'replace', path: '/props/title', value: 'Lost' }],
+        },
+        {
+          viewId: 'view',
+          indices: [0],
+          patch: [{ op: 'replace', path: '/props/value', value: 'Bob' }],
+        },
+      ]);
+
+      expect(result.children![0].props.value).toBe('Bob');
+      expect(result.children![1]).toBe(tree.children![1]);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { applyOperation, Operation } from 'fast-json-patch';
+import { WidgetNode } from '@/types/widgets';
+import { logger } from '@/lib/logger';
+
+export type UpdateMessage = Array<{
+  viewId: string;
+  indices: number[];
+  patch: Operation[];
+}>;
+
+type Container = Record<string, unknown> | unknown[];
+
+const isContainer = (value: unknown): value is Container =>
+  typeof value === 'object' && value !== null;
+
+const copyContainer = (value: Container): Container =>
+  Array.isArray(value) ? value.slice() : { ...value };
+
+const parsePointer = (pointer: string): string[] =>
+  pointer === ''
+    ? []
+    : pointer
+        .slice(1)
+        .split('/')
+        .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+
+/**
+ * Copies the containers from the root down to the parent of the pointer, so
+ * it can be changed in place. Everything off the path is shared with the
+ * original document.
+ */
+const copyPath = (document: unknown, pointer: string): unknown => {
+  if (!isContainer(document)) return document;
+  const root = copyContainer(document);
+  let parent: Record<string, unknown> = root as Record<string, unknown>;
+  for (const token of parsePointer(pointer).slice(0, -1)) {
+    const child = parent[token];
+    if (!isContainer(child)) break;
+    const copy = copyContainer(child);
+    parent[token] = copy;
+    parent = copy as Record<string, unknown>;
+  }
+  return root;
+};
+
+/**
+ * Applies JSON patch operations without mutating the document. Only the
+ * objects and arrays on a patched path are copied, so unchanged parts keep
+ * their identity; the operations themselves are applied by fast-json-patch.
+ */
+export function applyOperations<T>(document: T, operations: Operation[]): T {
+  let result: unknown = document;
+  for (const operation of operations) {
+    if (operation.op !== 'test') {
+      result = copyPath(result, operation.path);
+      if (operation.op === 'move') {
+        result = copyPath(result, operation.from);
+      }
+    }
+    result = applyOperation(result, operation, true, true).newDocument;
+  }
+  return result as T;
+}
+
+const patchNode = (
+  node: WidgetNode,
+  indices: number[],
+  patch: Operation[]
+): WidgetNode | null => {
+  if (indices.length === 0) return applyOperations(node, patch);
+
+  const [index, ...rest] = indices;
+  const child = node.children?.[index];
+  if (!child) {
+    logger.error('Child at index not found in applyUpdateMessage', {
+      index,
+      childrenLength: node.children?.length ?? 0,
+      parentType: node.type,
+      parentId: node.id,
+    });
+    return null;
+  }
+
+  const patched = patchNode(child, rest, patch);
+  if (!patched) return null;
+
+  const children = node.children!.slice();
+  children[index] = patched;
+  return { ...node, children };
+};
+
+/**
+ * Applies server updates to the widget tree. Widgets that are not on an
+ * updated path are the same objects as before, so renders can skip them.
+ */
+export function applyUpdateMessage(
+  tree: WidgetNode,
+  message: UpdateMessage
+): WidgetNode {
+  return message.reduce((current, update) => {
+    try {
+      return patchNode(current, update.indices, update.patch) ?? current;
+    } catch (error) {
+      logger.error('Failed to apply update', { error, viewId: update.viewId });
+      return current;
+    }
+  }, tree);
+}
@@ -0,0 +1,31 @@
+import { WidgetNode } from '@/types/widgets';
+
+/**
+ * Serializes a widget tree to XML, with props as PascalCase attributes
+ */
+export const widgetTreeToXml = (node: WidgetNode): string => {
+  const tagName = node.type.replace('Ivy.', '');
+  const attributes: string[] = [`Id="${escapeXml(node.id)}"`];
+  if (node.props) {
+    for (const [key, value] of Object.entries(node.props)) {
+      const pascalCaseKey = key.charAt(0).toUpperCase() + key.slice(1);
+      attributes.push(`${pascalCaseKey}="${escapeXml(String(value))}"`);
+    }
+  }
+  let childrenXml = '';
+  if (node.children && node.children.length > 0) {
+    childrenXml = node.children.map(child => widgetTreeToXml(child)).join('');
+    return `<${tagName} ${attributes.join(' ')}>${childrenXml}</${tagName}>`;
+  } else {
+    return `<${tagName} ${attributes.join(' ')} />`;
+  }
+};
+
+const escapeXml = (str: string) => {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
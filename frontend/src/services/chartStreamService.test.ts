@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ChartStreamService } from './chartStreamService';
+
+describe('ChartStreamService', () => {
+  it('should send messages to the listeners of their stream', () => {
+    const service = new ChartStreamService();
+    const first = vi.fn();
+    const second = vi.fn();
+    service.subscribe('a', first);
+    service.subscribe('b', second);
+
+    const message = { streamId: 'a', rows: [{ time: '10:00', cpu: 12 }] };
+    service.publish(message);
+
+    expect(first).toHaveBeenCalledWith(message);
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  it('should hold messages until the stream has a listener', () => {
+    const service = new ChartStreamService();
+    service.publish({ streamId: 'a', rows: [{ cpu: 1 }] });
+    service.publish({ streamId: 'a', trim: 1 });
+
+    const listener = vi.fn();
+    service.subscribe('a', listener);
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener).toHaveBeenLastCalledWith({ streamId: 'a', trim: 1 });
+  });
+
+  it('should drop held messages before a reset', () => {
+    const service = new ChartStreamService();
+    service.publish({ streamId: 'a', rows: [{ cpu: 1 }] });
+    service.publish({ streamId: 'a', rows: [{ cpu: 2 }], reset: true });
+
+    const listener = vi.fn();
+    service.subscribe('a', listener);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({
+      streamId: 'a',
+      rows: [{ cpu: 2 }],
+      reset: true,
+    });
+  });
+
+  it('should stop sending messages after unsubscribing', () => {
+    const service = new ChartStreamService();
+    const listener = vi.fn();
+    const unsubscribe = service.subscribe('a', listener);
+
+    unsubscribe();
+    service.publish({ streamId: 'a', rows: [{ cpu: 1 }] });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,68 @@
+// Live chart rows the server streams with the ChartData hub message
+import type { ChartData } from '@/widgets/charts/chartTypes';
+
+/**
+ * A change to the rows of a streamed chart, sent by the server with the ChartData hub message
+ */
+export interface ChartDataMessage {
+  streamId: string;
+  /** Rows appended after the current ones, or all rows when resetting */
+  rows?: ChartData[] | null;
+  /** Number of rows removed from the start before appending */
+  trim?: number | null;
+  reset?: boolean;
+}
+
+type ChartDataListener = (message: ChartDataMessage) => void;
+
+/** Messages kept for a stream until a chart shows it */
+const MAX_PENDING_MESSAGES = 1000;
+
+/**
+ * Routes ChartData messages to the charts showing the streams. Messages for
+ * a stream without a chart yet are held, as the first rows can arrive before
+ * the chart is rendered.
+ */
+export class ChartStreamService {
+  private readonly listeners = new Map<string, Set<ChartDataListener>>();
+  private readonly pending = new Map<string, ChartDataMessage[]>();
+
+  publish(message: ChartDataMessage): void {
+    const listeners = this.listeners.get(message.streamId);
+    if (listeners?.size) {
+      listeners.forEach(listener => listener(message));
+      return;
+    }
+
+    const pending = message.reset
+      ? []
+      : (this.pending.get(message.streamId) ?? []);
+    pending.push(message);
+    if (pending.length > MAX_PENDING_MESSAGES) pending.shift();
+    this.pending.set(message.streamId, pending);
+  }
+
+  /**
+   * Listens to the messages of a stream, starting with the held ones;
+   * returns a callback that stops listening
+   */
+  subscribe(streamId: string, listener: ChartDataListener): () => void {
+    const pending = this.pending.get(streamId);
+    this.pending.delete(streamId);
+    pending?.forEach(message => listener(message));
+
+    let listeners = this.listeners.get(streamId);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(streamId, listeners);
+    }
+    listeners.add(listener);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) this.listeners.delete(streamId);
+    };
+  }
+}
+
+export const chartStreamService = new ChartStreamService();
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { decodeBase64, download, getDownloadUrl } from './downloadService';
+
+vi.mock('@/lib/utils', () => ({
+  getIvyHost: () => 'http://host',
+}));
+
+const mockFetch = vi.fn();
+
+interface FakeLink {
+  href: string;
+  download: string;
+  rel: string;
+  click: () => void;
+}
+
+describe('downloadService', () => {
+  let clicked: FakeLink[];
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', mockFetch);
+    mockFetch.mockReset();
+    clicked = [];
+    vi.stubGlobal('document', {
+      createElement: () => {
+        const link: FakeLink = {
+          href: '',
+          download: '',
+          rel: '',
+          click: () => clicked.push(link),
+        };
+        return link;
+      },
+      body: { appendChild: vi.fn(), removeChild: vi.fn() },
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe('getDownloadUrl', () => {
+    it('should resolve paths against the Ivy host', () => {
+      expect(getDownloadUrl('/download/c/d')).toBe('http://host/download/c/d');
+      expect(getDownloadUrl('files/report.pdf')).toBe(
+        'http://host/files/report.pdf'
+      );
+    });
+
+    it('should keep absolute URLs', () => {
+      expect(getDownloadUrl('https://cdn.example.com/a.csv')).toBe(
+        'https://cdn.example.com/a.csv'
+      );
+    });
+  });
+
+  it('should decode base64 content', () => {
+    expect(Array.from(decodeBase64('SXZ5'))).toEqual([73, 118, 121]);
+  });
+
+  describe('download', () => {
+    it('should leave files at a URL to the browser download', () => {
+      download({ url: '/download/c/d' });
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(clicked).toHaveLength(1);
+      expect(clicked[0].href).toBe('http://host/download/c/d');
+      // An empty name lets the browser use the name from the response
+      expect(clicked[0].download).toBe('');
+    });
+
+    it('should save inline content as a blob', () => {
+      const createObjectURL = vi
+        .spyOn(URL, 'createObjectURL')
+        .mockReturnValue('blob:file');
+      vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {});
+
+      download({
+        content: 'SXZ5',
+        fileName: 'ivy.txt',
+        mimeType: 'text/plain',
+      });
+
+      const blob = createObjectURL.mock.calls[0][0] as Blob;
+      expect(blob.size).toBe(3);
+      expect(blob.type).toBe('text/plain');
+      expect(clicked[0].download).toBe('ivy.txt');
+    });
+
+    it('should fail without a URL or content', () => {
+      expect(() => download({ fileName: 'a.txt' })).toThrow(
+        'Download has neither a URL nor content.'
+      );
+    });
+  });
+});
@@ -0,0 +1,82 @@
+// Files handed to the browser by the server with the Download hub message
+import { getIvyHost } from '@/lib/utils';
+
+/** Downloads at least this large (or of unknown size) show their progress */
+export const LARGE_DOWNLOAD_BYTES = 1024 * 1024;
+
+export interface DownloadMessage {
+  /** Id of the DownloadProgress messages the server sends while it streams the file */
+  id?: string | null;
+  url?: string | null;
+  /** Base64 encoded content of the file, when sent inline */
+  content?: string | null;
+  fileName?: string | null;
+  mimeType?: string | null;
+}
+
+/** Bytes of a streamed download sent by the server so far */
+export interface DownloadProgressMessage {
+  id: string;
+  loaded: number;
+  /** Size of the file, 0 when unknown */
+  total: number;
+  /** Whether the server finished sending the file, or stopped */
+  done: boolean;
+}
+
+/**
+ * Resolves a download path from the server against the Ivy host
+ */
+export function getDownloadUrl(url: string): string {
+  if (/^(https?:|blob:|data:)/i.test(url)) return url;
+  return `${getIvyHost()}${url.startsWith('/') ? '' : '/'}${url}`;
+}
+
+export function decodeBase64(content: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(content);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function saveUrl(url: string, fileName: string): void {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.rel = 'noopener';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
+
+/**
+ * Triggers the browser save for a blob
+ */
+export function saveBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  saveUrl(url, fileName);
+  // Revoke later, some browsers start reading the blob after the click returns
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Saves the file of a Download message. Files at a URL are left to the
+ * browser's own download, so large files are never held in memory; without a
+ * file name the name from the response is used.
+ */
+export function download(message: DownloadMessage): void {
+  if (message.content != null) {
+    const mimeType = message.mimeType || 'application/octet-stream';
+    const blob = new Blob([decodeBase64(message.content)], { type: mimeType });
+    saveBlob(blob, message.fileName || 'download');
+    return;
+  }
+
+  if (!message.url) {
+    throw new Error('Download has neither a URL nor content.');
+  }
+
+  saveUrl(getDownloadUrl(message.url), message.fileName || '');
+}
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  EventDispatcher,
+  EventPolicy,
+  EventPolicyRegistry,
+} from './eventPolicies';
+
+const createDispatcher = (policies: Record<string, EventPolicy>) => {
+  const sent: [string, string, unknown[]][] = [];
+  const send = vi.fn((eventName: string, widgetId: string, args: unknown[]) => {
+    sent.push([eventName, widgetId, args]);
+    return Promise.resolve(true);
+  });
+  const dispatcher = new EventDispatcher(
+    send,
+    (widgetId, eventName) => policies[`${widgetId}:${eventName}`]
+  );
+  return { dispatcher, send, sent };
+};
+
+describe('EventPolicyRegistry', () => {
+  it('should find the policy of an event', () => {
+    const registry = new EventPolicyRegistry();
+    registry.set('input', [{ eventName: 'OnChange', debounce: 300 }]);
+
+    expect(registry.get('input', 'OnChange')?.debounce).toBe(300);
+    expect(registry.get('input', 'OnBlur')).toBeUndefined();
+
+    registry.set('input', undefined);
+
+    expect(registry.get('input', 'OnChange')).toBeUndefined();
+  });
+
+  it('should only forget policies no newer render registered', () => {
+    const registry = new EventPolicyRegistry();
+    const first = [{ eventName: 'OnChange', debounce: 300 }];
+    const second = [{ eventName: 'OnChange', debounce: 500 }];
+    registry.set('input', first);
+    registry.set('input', second);
+
+    registry.delete('input', first);
+    expect(registry.get('input', 'OnChange')?.debounce).toBe(500);
+
+    registry.delete('input', second);
+    expect(registry.get('input', 'OnChange')).toBeUndefined();
+  });
+});
+
+describe('EventDispatcher', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should send events without a policy right away', async () => {
+    const { dispatcher, sent } = createDispatcher({});
+
+    await expect(dispatcher.dispatch('OnClick', 'button', [])).resolves.toBe(
+      true
+    );
+
+    expect(sent).toEqual([['OnClick', 'button', []]]);
+  });
+
+  it('should send only the latest debounced event', async () => {
+    const { dispatcher, sent } = createDispatcher({
+      'input:OnChange': { eventName: 'OnChange', debounce: 300 },
+    });
+
+    const first = dispatcher.dispatch('OnChange', 'input', ['a']);
+    vi.advanceTimersByTime(200);
+    const second = dispatcher.dispatch('OnChange', 'input', ['ab']);
+    vi.advanceTimersByTime(200);
+    expect(sent).toEqual([]);
+
+    vi.advanceTimersByTime(100);
+
+    expect(sent).toEqual([['OnChange', 'input', ['ab']]]);
+    await expect(first).resolves.toBe(true);
+    await expect(second).resolves.toBe(true);
+  });
+
+  it('should send held events before events of other widgets', () => {
+    const { dispatcher, sent } = createDispatcher({
+      'input:OnChange': { eventName: 'OnChange', debounce: 300 },
+    });
+
+    dispatcher.dispatch('OnChange', 'input', ['a']);
+    dispatcher.dispatch('OnClick', 'submit', []);
+
+    expect(sent).toEqual([
+      ['OnChange', 'input', ['a']],
+      ['OnClick', 'submit', []],
+    ]);
+  });
+
+  it('should throttle events and send the latest at the end of a window', () => {
+    const { dispatcher, sent } = createDispatcher({
+      'slider:OnChange': { eventName: 'OnChange', throttle: 100 },
+    });
+
+    dispatcher.dispatch('OnChange', 'slider', [1]);
+    dispatcher.dispatch('OnChange', 'slider', [2]);
+    dispatcher.dispatch('OnChange', 'slider', [3]);
+    expect(sent).toEqual([['OnChange', 'slider', [1]]]);
+
+    vi.advanceTimersByTime(100);
+    expect(sent).toEqual([
+      ['OnChange', 'slider', [1]],
+      ['OnChange', 'slider', [3]],
+    ]);
+
+    dispatcher.dispatch('OnChange', 'slider', [4]);
+    expect(sent).toHaveLength(2);
+
+    vi.advanceTimersByTime(100);
+    expect(sent[2]).toEqual(['OnChange', 'slider', [4]]);
+
+    vi.advanceTimersByTime(100);
+    dispatcher.dispatch('OnChange', 'slider', [5]);
+    expect(sent[3]).toEqual(['OnChange', 'slider', [5]]);
+  });
+
+  it('should hold on-blur events until the focus moves', () => {
+    const { dispatcher, sent } = createDispatcher({
+      'input:OnChange': { eventName: 'OnChange', onBlur: true },
+    });
+
+    dispatcher.dispatch('OnChange', 'input', ['a']);
+    dispatcher.dispatch('OnChange', 'input', ['ab']);
+    vi.advanceTimersByTime(10000);
+    expect(sent).toEqual([]);
+
+    dispatcher.flushOnBlur();
+
+    expect(sent).toEqual([['OnChange', 'input', ['ab']]]);
+  });
+
+  it('should only send the latest coalesced event after the one in flight', async () => {
+    const { dispatcher, send } = createDispatcher({
+      'color:OnChange': { eventName: 'OnChange', coalesce: true },
+    });
+    let finish: (handled: boolean) => void = () => {};
+    send.mockImplementationOnce(
+      () => new Promise<boolean>(resolve => (finish = resolve))
+    );
+
+    const first = dispatcher.dispatch('OnChange', 'color', ['red']);
+    const second = dispatcher.dispatch('OnChange', 'color', ['green']);
+    const third = dispatcher.dispatch('OnChange', 'color', ['blue']);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    finish(true);
+    await first;
+    await Promise.all([second, third]);
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send).toHaveBeenLastCalledWith('OnChange', 'color', ['blue']);
+  });
+
+  it('should send everything held when disposed', () => {
+    const { dispatcher, sent } = createDispatcher({
+      'a:OnChange': { eventName: 'OnChange', debounce: 300 },
+      'b:OnChange': { eventName: 'OnChange', onBlur: true },
+    });
+
+    dispatcher.dispatch('OnChange', 'a', [1]);
+    dispatcher.dispatch('OnChange', 'b', [2]);
+    dispatcher.dispose();
+
+    expect(sent).toEqual([
+      ['OnChange', 'a', [1]],
+      ['OnChange', 'b', [2]],
+    ]);
+  });
+});
@@ -0,0 +1,214 @@
+// Debounces, throttles and coalesces widget events as declared by the server
+
+import { WidgetEventHandlerType } from '@/types/widgets';
+
+/**
+ * How an event of a widget is sent, from the widget's eventPolicies prop
+ */
+export interface EventPolicy {
+  eventName: string;
+  /** Milliseconds without a new event before the latest one is sent */
+  debounce?: number | null;
+  /** Milliseconds between two sent events; the latest one is sent when the time is up */
+  throttle?: number | null;
+  /** Holds the latest event until the focus moves */
+  onBlur?: boolean;
+  /** Only the latest event waits while the previous one is handled */
+  coalesce?: boolean;
+}
+
+/**
+ * Event policies of the rendered widgets by widget id
+ */
+export class EventPolicyRegistry {
+  private readonly policies = new Map<string, EventPolicy[]>();
+
+  set(widgetId: string, policies: EventPolicy[] | undefined): void {
+    if (policies && policies.length > 0) {
+      this.policies.set(widgetId, policies);
+    } else {
+      this.policies.delete(widgetId);
+    }
+  }
+
+  /**
+   * Forgets the policies of a widget, unless a newer render of it already
+   * registered others
+   */
+  delete(widgetId: string, policies: EventPolicy[]): void {
+    if (this.policies.get(widgetId) === policies) {
+      this.policies.delete(widgetId);
+    }
+  }
+
+  get(widgetId: string, eventName: string): EventPolicy | undefined {
+    return this.policies
+      .get(widgetId)
+      ?.find(policy => policy.eventName === eventName);
+  }
+}
+
+export const eventPolicyRegistry = new EventPolicyRegistry();
+
+interface PendingEvent {
+  eventName: string;
+  widgetId: string;
+  args: unknown[];
+  /** Callers of the events this one replaced; they all get its result */
+  resolvers: ((handled: boolean) => void)[];
+  timer?: ReturnType<typeof setTimeout>;
+  onBlur?: boolean;
+}
+
+const keyOf = (widgetId: string, eventName: string) =>
+  `${widgetId}:${eventName}`;
+
+/**
+ * Sends widget events according to their policies. Held events of other
+ * widgets are sent before a new event so the server sees changes in the
+ * order they were made.
+ */
+export class EventDispatcher {
+  /** Debounced, throttled and on-blur events in the order they were raised */
+  private readonly held = new Map<string, PendingEvent>();
+  private readonly throttleWindows = new Map<
+    string,
+    ReturnType<typeof setTimeout>
+  >();
+  private readonly inFlight = new Set<string>();
+  /** The latest event of each coalesced key that waits for the one in flight */
+  private readonly coalesced = new Map<string, PendingEvent>();
+
+  constructor(
+    private readonly send: WidgetEventHandlerType,
+    private readonly getPolicy: (
+      widgetId: string,
+      eventName: string
+    ) => EventPolicy | undefined = (widgetId, eventName) =>
+      eventPolicyRegistry.get(widgetId, eventName)
+  ) {}
+
+  dispatch: WidgetEventHandlerType = (eventName, widgetId, args) => {
+    const key = keyOf(widgetId, eventName);
+    const policy = this.getPolicy(widgetId, eventName);
+
+    if (!policy?.onBlur && !policy?.debounce && !policy?.throttle) {
+      this.flush();
+      return this.sendNow({ eventName, widgetId, args, resolvers: [] });
+    }
+
+    this.flush(key);
+
+    return new Promise<boolean>(resolve => {
+      const previous = this.held.get(key);
+      if (previous?.timer) clearTimeout(previous.timer);
+      this.held.delete(key);
+      const event: PendingEvent = {
+        eventName,
+        widgetId,
+        args,
+        resolvers: [...(previous?.resolvers ?? []), resolve],
+      };
+
+      if (policy.onBlur) {
+        this.held.set(key, { ...event, onBlur: true });
+      } else if (policy.throttle) {
+        if (this.throttleWindows.has(key)) {
+          // Sent when the current window ends
+          this.held.set(key, event);
+        } else {
+          this.openThrottleWindow(key, policy.throttle);
+          this.sendHeld(event);
+        }
+      } else {
+        this.held.set(key, {
+          ...event,
+          timer: setTimeout(() => this.flushKey(key), policy.debounce!),
+        });
+      }
+    });
+  };
+
+  /**
+   * Sends all held events now, except those of the given key
+   */
+  flush(exceptKey?: string): void {
+    for (const key of Array.from(this.held.keys())) {
+      if (key !== exceptKey) this.flushKey(key);
+    }
+  }
+
+  /**
+   * Sends the events held until the focus moves
+   */
+  flushOnBlur(): void {
+    for (const [key, event] of Array.from(this.held)) {
+      if (event.onBlur) this.flushKey(key);
+    }
+  }
+
+  /**
+   * Sends all held events and stops the timers
+   */
+  dispose(): void {
+    this.flush();
+    this.throttleWindows.forEach(timer => clearTimeout(timer));
+    this.throttleWindows.clear();
+  }
+
+  private flushKey(key: string): void {
+    const event = this.held.get(key);
+    if (!event) return;
+    if (event.timer) clearTimeout(event.timer);
+    this.held.delete(key);
+    this.sendHeld(event);
+  }
+
+  private openThrottleWindow(key: string, throttle: number): void {
+    this.throttleWindows.set(
+      key,
+      setTimeout(() => {
+        this.throttleWindows.delete(key);
+        const trailing = this.held.get(key);
+        if (!trailing) return;
+        this.openThrottleWindow(key, throttle);
+        this.flushKey(key);
+      }, throttle)
+    );
+  }
+
+  private sendHeld(event: PendingEvent): void {
+    void this.sendNow(event).then(handled =>
+      event.resolvers.forEach(resolve => resolve(handled))
+    );
+  }
+
+  private sendNow(event: PendingEvent): Promise<boolean> {
+    const { eventName, widgetId, args } = event;
+    const key = keyOf(widgetId, eventName);
+    if (!this.getPolicy(widgetId, eventName)?.coalesce) {
+      return this.send(eventName, widgetId, args);
+    }
+
+    if (this.inFlight.has(key)) {
+      // Latest wins: replaces any event already waiting for this key
+      return new Promise<boolean>(resolve => {
+        const waiting = this.coalesced.get(key);
+        this.coalesced.set(key, {
+          ...event,
+          resolvers: [...(waiting?.resolvers ?? []), resolve],
+        });
+      });
+    }
+
+    this.inFlight.add(key);
+    return this.send(eventName, widgetId, args).finally(() => {
+      this.inFlight.delete(key);
+      const next = this.coalesced.get(key);
+      if (next) {
+        this.coalesced.delete(key);
+        this.sendHeld(next);
+      }
+    });
+  }
+}
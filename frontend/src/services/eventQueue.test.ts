@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventQueue, MAX_QUEUED_EVENTS, type QueuedEvent } from './eventQueue';
+
+const describeEvent = ({ eventName, widgetId, args }: QueuedEvent) =>
+  `${eventName} ${widgetId} ${JSON.stringify(args)}`;
+
+describe('EventQueue', () => {
+  it('should replay events in the order they were raised', async () => {
+    const queue = new EventQueue();
+    const sent: string[] = [];
+
+    const results = [
+      queue.enqueue('OnChange', 'a', ['x']),
+      queue.enqueue('OnClick', 'b', []),
+      queue.enqueue('OnBlur', 'a', []),
+    ];
+    await queue.flush(event => {
+      sent.push(describeEvent(event));
+      return Promise.resolve(true);
+    });
+
+    expect(sent).toEqual(['OnChange a ["x"]', 'OnClick b []', 'OnBlur a []']);
+    expect(await Promise.all(results)).toEqual([true, true, true]);
+    expect(queue.size).toBe(0);
+  });
+
+  it('should only send the last value of an OnChange burst', async () => {
+    const queue = new EventQueue();
+    const sent: string[] = [];
+
+    const first = queue.enqueue('OnChange', 'a', ['h']);
+    queue.enqueue('OnChange', 'b', [1]);
+    const last = queue.enqueue('OnChange', 'a', ['hello']);
+    await queue.flush(event => {
+      sent.push(describeEvent(event));
+      return Promise.resolve(event.widgetId === 'a');
+    });
+
+    expect(sent).toEqual(['OnChange a ["hello"]', 'OnChange b [1]']);
+    expect(await first).toBe(true);
+    expect(await last).toBe(true);
+  });
+
+  it('should not merge changes across other events', async () => {
+    const queue = new EventQueue();
+    const sent: string[] = [];
+
+    queue.enqueue('OnChange', 'a', ['before']);
+    queue.enqueue('OnClick', 'save', []);
+    queue.enqueue('OnChange', 'a', ['after']);
+    await queue.flush(event => {
+      sent.push(describeEvent(event));
+      return Promise.resolve(true);
+    });
+
+    expect(sent).toEqual([
+      'OnChange a ["before"]',
+      'OnClick save []',
+      'OnChange a ["after"]',
+    ]);
+  });
+
+  it('should keep sending when an event fails', async () => {
+    const queue = new EventQueue();
+    const send = vi
+      .fn<(event: QueuedEvent) => Promise<boolean>>()
+      .mockRejectedValueOnce(new Error('Invocation failed'))
+      .mockResolvedValue(true);
+
+    const results = [
+      queue.enqueue('OnClick', 'a', []),
+      queue.enqueue('OnClick', 'b', []),
+    ];
+    await queue.flush(send);
+
+    expect(await Promise.all(results)).toEqual([false, true]);
+  });
+
+  it('should drop the oldest events when full', async () => {
+    const queue = new EventQueue();
+    const oldest = queue.enqueue('OnClick', 'first', []);
+    for (let i = 0; i < MAX_QUEUED_EVENTS; i++) {
+      void queue.enqueue('OnClick', `w${i}`, []);
+    }
+
+    expect(queue.size).toBe(MAX_QUEUED_EVENTS);
+    expect(await oldest).toBe(false);
+  });
+
+  it('should answer dropped events when cleared', async () => {
+    const queue = new EventQueue();
+    const result = queue.enqueue('OnClick', 'a', []);
+
+    queue.clear();
+
+    expect(await result).toBe(false);
+    expect(queue.size).toBe(0);
+  });
+});
@@ -0,0 +1,97 @@
+// Widget events raised while the connection to the server is down
+
+export const MAX_QUEUED_EVENTS = 500;
+
+export interface QueuedEvent {
+  eventName: string;
+  widgetId: string;
+  args: unknown[];
+}
+
+export type SendEvent = (event: QueuedEvent) => Promise<boolean>;
+
+interface PendingEvent extends QueuedEvent {
+  resolvers: Array<(handled: boolean) => void>;
+}
+
+/**
+ * Holds events until they can be sent again, in the order they were raised.
+ * A burst of OnChange events for the same widget only sends the last value.
+ */
+export class EventQueue {
+  private events: PendingEvent[] = [];
+  private flushing: Promise<void> | null = null;
+
+  get size(): number {
+    return this.events.length;
+  }
+
+  /**
+   * Queues an event; resolves with the server's answer once it was replayed
+   */
+  enqueue(
+    eventName: string,
+    widgetId: string,
+    args: unknown[]
+  ): Promise<boolean> {
+    return new Promise(resolve => {
+      const queued = eventName === 'OnChange' && this.findChange(widgetId);
+      if (queued) {
+        // The earlier value is superseded, its caller gets the answer for the latest one
+        queued.args = args;
+        queued.resolvers.push(resolve);
+        return;
+      }
+
+      this.events.push({ eventName, widgetId, args, resolvers: [resolve] });
+      if (this.events.length > MAX_QUEUED_EVENTS) {
+        this.events.shift()!.resolvers.forEach(r => r(false));
+      }
+    });
+  }
+
+  /**
+   * Sends the queued events one after another. Events queued while flushing
+   * are sent as well; a failed event does not stop the ones after it.
+   */
+  flush(send: SendEvent): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.sendAll(send).finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  /**
+   * Drops all queued events, e.g. when the connection is closed for good
+   */
+  clear(): void {
+    const events = this.events;
+    this.events = [];
+    events.forEach(e => e.resolvers.forEach(r => r(false)));
+  }
+
+  // Only OnChange events queued after the last event of another kind are merged
+  private findChange(widgetId: string): PendingEvent | undefined {
+    for (let i = this.events.length - 1; i >= 0; i--) {
+      const event = this.events[i];
+      if (event.eventName !== 'OnChange') return undefined;
+      if (event.widgetId === widgetId) return event;
+    }
+    return undefined;
+  }
+
+  private async sendAll(send: SendEvent): Promise<void> {
+    while (this.events.length > 0) {
+      const event = this.events.shift()!;
+      let handled = false;
+      try {
+        handled = await send(event);
+      } catch {
+        handled = false;
+      }
+      event.resolvers.forEach(r => r(handled));
+    }
+  }
+}
@@ -2,6 +2,8 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import * as arrow from 'apache-arrow';
 import { logger } from '../lib/logger';
 import {
+  GrpcError,
+  GrpcStatusCode,
   GrpcTableService,
   grpcTableService,
   type TableQuery,
@@ -9,6 +11,7 @@ import {
   type Filter,
   type Condition,
   type Aggregation,
+  type DataTableResult,
 } from './grpcTableService';
 
 // Mock dependencies
@@ -35,6 +38,7 @@ interface GrpcTableServicePrivate {
   serializeAggregation(aggregation: Aggregation): Uint8Array;
   parseGrpcMessage(data: Uint8Array): Uint8Array;
   parseTableResultProtobuf(data: Uint8Array): Uint8Array;
+  parseDataTableResult(grpcData: Uint8Array): Partial<DataTableResult>;
   parseGrpcResponse(
     response: Response
   ): Promise<{ arrow_ipc_stream: Uint8Array; table?: arrow.Table }>;
@@ -235,6 +239,83 @@ describe('GrpcTableService', () => {
     });
   });
 
+  describe('distinct', () => {
+    it('should query the Values endpoint and parse distinct values', async () => {
+      // values: "Red", "Blue"; total_values: 2
+      const message = new Uint8Array([
+        0x0a, 0x03, 0x52, 0x65, 0x64, 0x0a, 0x04, 0x42, 0x6c, 0x75, 0x65, 0x10,
+        0x02,
+      ]);
+      const grpcMessage = (
+        service as unknown as GrpcTableServicePrivate
+      ).createGrpcMessage(message);
+
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Map(),
+        arrayBuffer: vi.fn().mockResolvedValue(grpcMessage.buffer),
+      } as unknown as Response);
+
+      const result = await service.distinct(
+        {
+          column: 'Color',
+          search: 'e',
+          limit: 100,
+          connectionId: 'test-conn',
+          sourceId: 'test-source',
+        },
+        'http://localhost:8080'
+      );
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:8080/datatable.DataTableService/Values',
+        expect.objectContaining({ method: 'POST' })
+      );
+      expect(result).toEqual({ values: ['Red', 'Blue'], total_values: 2 });
+    });
+
+    it('should throw on HTTP error responses', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+        text: vi.fn().mockResolvedValue('Queryable not found'),
+      } as unknown as Response);
+
+      await expect(
+        service.distinct(
+          { column: 'Color', connectionId: 'c', sourceId: 's' },
+          'http://localhost:8080'
+        )
+      ).rejects.toThrow('gRPC Error: 404 Not Found - Queryable not found');
+    });
+
+    it('should throw a GrpcError for a failed status trailer', async () => {
+      const trailer = new TextEncoder().encode(
+        'grpc-status: 3\r\ngrpc-message: Unknown%20column\r\n'
+      );
+      const body = new Uint8Array([0x80, 0, 0, 0, trailer.length, ...trailer]);
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Map(),
+        arrayBuffer: vi.fn().mockResolvedValue(body.buffer),
+      } as unknown as Response);
+
+      await expect(
+        service.distinct(
+          { column: 'Colour', connectionId: 'c', sourceId: 's' },
+          'http://localhost:8080'
+        )
+      ).rejects.toMatchObject({
+        name: 'GrpcError',
+        code: GrpcStatusCode.InvalidArgument,
+        message: 'gRPC Error: InvalidArgument - Unknown column',
+      });
+    });
+  });
+
   describe('createGrpcMessage', () => {
     it('should create proper gRPC message with header', () => {
       const testData = new Uint8Array([1, 2, 3, 4, 5]);
@@ -610,6 +691,145 @@ describe('GrpcTableService', () => {
     });
   });
 
+  describe('parseDataTableResult', () => {
+    const encoder = new TextEncoder();
+
+    const stringField = (field: number, value: string) => {
+      const bytes = encoder.encode(value);
+      return [(field << 3) | 2, bytes.length, ...bytes];
+    };
+
+    const aggregationMessage = (
+      column: string,
+      fn: string,
+      value?: number
+    ): number[] => {
+      const bytes = [...stringField(1, column), ...stringField(2, fn)];
+      if (value !== undefined) {
+        const buffer = new ArrayBuffer(8);
+        new DataView(buffer).setFloat64(0, value, true);
+        bytes.push(0x19, ...new Uint8Array(buffer)); // Field 3, wire type 1
+        bytes.push(0x20, 0x01); // Field 4 (has_value) = true
+      }
+      return bytes;
+    };
+
+    const wrap = (message: number[]) =>
+      new Uint8Array([0, 0, 0, 0, message.length, ...message]);
+
+    it('should parse aggregation results', () => {
+      const sum = aggregationMessage('Revenue', 'sum', 1234.5);
+      const max = aggregationMessage('Price', 'max');
+      const message = [
+        0x20,
+        0x0a, // Field 4 (total_rows) = 10
+        0x2a,
+        sum.length,
+        ...sum,
+        0x2a,
+        max.length,
+        ...max,
+      ];
+
+      const result = (
+        service as unknown as GrpcTableServicePrivate
+      ).parseDataTableResult(wrap(message));
+
+      expect(result.total_rows).toBe(10);
+      expect(result.aggregations).toEqual([
+        { column: 'Revenue', function: 'sum', value: 1234.5 },
+        { column: 'Price', function: 'max', value: null },
+      ]);
+    });
+
+    it('should parse group results', () => {
+      const sum = aggregationMessage('Revenue', 'sum', 10);
+      const books = [
+        ...stringField(1, 'Books'),
+        0x18,
+        0x03, // Field 3 (count) = 3
+        0x22,
+        sum.length,
+        ...sum,
+      ];
+      const empty = [
+        0x10,
+        0x01, // Field 2 (is_null) = true
+        0x18,
+        0x02, // Field 3 (count) = 2
+      ];
+      const message = [
+        0x32,
+        books.length,
+        ...books,
+        0x32,
+        empty.length,
+        ...empty,
+      ];
+
+      const result = (
+        service as unknown as GrpcTableServicePrivate
+      ).parseDataTableResult(wrap(message));
+
+      expect(result.groups).toEqual([
+        {
+          key: 'Books',
+          count: 3,
+          aggregations: [{ column: 'Revenue', function: 'sum', value: 10 }],
+        },
+        { key: null, count: 2, aggregations: [] },
+      ]);
+    });
+
+    it('should return group results from queryTable', async () => {
+      const count = aggregationMessage('Revenue', 'sum', 42);
+      const books = [
+        ...stringField(1, 'Books'),
+        0x18,
+        0x04, // Field 3 (count) = 4
+        0x22,
+        count.length,
+        ...count,
+      ];
+      const message = [
+        0x0a,
+        0x01,
+        0x07, // Field 1 (arrow_ipc_stream)
+        0x20,
+        0x04, // Field 4 (total_rows) = 4
+        0x32,
+        books.length,
+        ...books,
+      ];
+      const body = wrap(message);
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Map([['content-type', 'application/grpc-web+proto']]),
+        arrayBuffer: vi.fn().mockResolvedValue(body.buffer),
+      } as unknown as Response);
+      mockArrow.tableFromIPC.mockReturnValue({
+        numRows: 0,
+        numCols: 0,
+        schema: { fields: [] },
+      } as unknown as arrow.Table);
+
+      const result = await service.queryTable({
+        serverUrl: 'http://localhost:8080',
+        query: { limit: 0, group_by: 'Category' },
+      });
+
+      expect(result.total_rows).toBe(4);
+      expect(result.groups).toEqual([
+        {
+          key: 'Books',
+          count: 4,
+          aggregations: [{ column: 'Revenue', function: 'sum', value: 42 }],
+        },
+      ]);
+    });
+  });
+
   describe('parseGrpcResponse', () => {
     it('should parse successful response with Arrow table', async () => {
       const mockArrowData = new Uint8Array([1, 2, 3, 4]);
@@ -764,6 +984,214 @@ describe('GrpcTableService', () => {
     });
   });
 
+  describe('streaming queryTable', () => {
+    const frame = (flags: number, payload: number[]) => [
+      flags,
+      0,
+      0,
+      0,
+      payload.length,
+      ...payload,
+    ];
+
+    // DataTableResult with a small arrow_ipc_stream, row_count and total_rows
+    const resultMessage = (arrowByte: number, rowCount: number) => [
+      0x0a,
+      1,
+      arrowByte,
+      0x18,
+      rowCount,
+      0x20,
+      5,
+    ];
+
+    const trailer = (text: string) =>
+      frame(0x80, [...new TextEncoder().encode(text)]);
+
+    // Splits the body into chunks that cut through frame boundaries
+    const streamResponse = (bytes: number[], chunkSize = 3) =>
+      ({
+        ok: true,
+        status: 200,
+        headers: new Map([['content-type', 'application/grpc-web+proto']]),
+        body: new ReadableStream<Uint8Array>({
+          start(controller) {
+            for (let i = 0; i < bytes.length; i += chunkSize) {
+              controller.enqueue(new Uint8Array(bytes.slice(i, i + chunkSize)));
+            }
+            controller.close();
+          },
+        }),
+      }) as unknown as Response;
+
+    it('should emit each record batch as it arrives without keeping it', async () => {
+      const first = {
+        numRows: 3,
+        numCols: 1,
+        schema: { fields: [] },
+        concat: vi.fn(),
+      } as unknown as arrow.Table;
+      const second = {
+        numRows: 2,
+        numCols: 1,
+        schema: { fields: [] },
+      } as unknown as arrow.Table;
+      mockArrow.tableFromIPC
+        .mockReturnValueOnce(first)
+        .mockReturnValueOnce(second);
+
+      mockFetch.mockResolvedValue(
+        streamResponse([
+          ...frame(0, resultMessage(1, 3)),
+          ...frame(0, resultMessage(2, 2)),
+          ...trailer('grpc-status: 0\r\ngrpc-message: \r\n'),
+        ])
+      );
+      const onData = vi.fn();
+
+      const result = await service.queryTable({
+        serverUrl: 'http://localhost:8080',
+        query: { limit: 5 },
+        stream: true,
+        onData,
+      });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:8080/datatable.DataTableService/QueryStream',
+        expect.anything()
+      );
+      expect(onData).toHaveBeenCalledTimes(2);
+      expect(onData.mock.calls[0][0]).toMatchObject({
+        row_count: 3,
+        total_rows: 5,
+        table: first,
+      });
+      expect(first.concat).not.toHaveBeenCalled();
+      expect(mockArrow.tableToIPC).not.toHaveBeenCalled();
+      expect(result).toMatchObject({
+        arrow_ipc_stream: new Uint8Array(0),
+        row_count: 5,
+        total_rows: 5,
+        table: undefined,
+      });
+    });
+
+    it('should merge the record batches when nothing consumes them', async () => {
+      const merged = { numRows: 5 } as arrow.Table;
+      const first = {
+        numRows: 3,
+        numCols: 1,
+        schema: { fields: [] },
+        concat: vi.fn().mockReturnValue(merged),
+      } as unknown as arrow.Table;
+      const second = {
+        numRows: 2,
+        numCols: 1,
+        schema: { fields: [] },
+      } as unknown as arrow.Table;
+      mockArrow.tableFromIPC
+        .mockReturnValueOnce(first)
+        .mockReturnValueOnce(second);
+
+      mockFetch.mockResolvedValue(
+        streamResponse([
+          ...frame(0, resultMessage(1, 3)),
+          ...frame(0, resultMessage(2, 2)),
+          ...trailer('grpc-status: 0\r\ngrpc-message: \r\n'),
+        ])
+      );
+
+      const result = await service.queryTable({
+        serverUrl: 'http://localhost:8080',
+        query: { limit: 5 },
+        stream: true,
+      });
+
+      expect(first.concat).toHaveBeenCalledWith(second);
+      expect(mockArrow.tableToIPC).not.toHaveBeenCalled();
+      expect(result).toMatchObject({
+        arrow_ipc_stream: new Uint8Array(0),
+        row_count: 5,
+        total_rows: 5,
+        table: merged,
+      });
+    });
+
+    it('should throw a GrpcError for a failed status trailer', async () => {
+      mockArrow.tableFromIPC.mockReturnValue({
+        numRows: 3,
+        numCols: 1,
+        schema: { fields: [] },
+      } as unknown as arrow.Table);
+      mockFetch.mockResolvedValue(
+        streamResponse([
+          ...frame(0, resultMessage(1, 3)),
+          ...trailer('grpc-status: 5\r\ngrpc-message: Queryable%20missing\r\n'),
+        ])
+      );
+      const onData = vi.fn();
+
+      const error = await service
+        .queryTable({
+          serverUrl: 'http://localhost:8080',
+          query: { limit: 5 },
+          stream: true,
+          onData,
+        })
+        .catch(err => err);
+
+      expect(onData).toHaveBeenCalledTimes(1);
+      expect(error).toBeInstanceOf(GrpcError);
+      expect(error.code).toBe(GrpcStatusCode.NotFound);
+      expect(error.message).toBe('gRPC Error: NotFound - Queryable missing');
+    });
+
+    it('should throw a GrpcError for a failed status trailer of a unary query', async () => {
+      const body = new Uint8Array([
+        ...frame(0, resultMessage(1, 3)),
+        ...trailer('grpc-status: 13\r\ngrpc-message: Query%20failed\r\n'),
+      ]);
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Map(),
+        arrayBuffer: vi.fn().mockResolvedValue(body.buffer),
+      } as unknown as Response);
+
+      await expect(
+        service.queryTable({
+          serverUrl: 'http://localhost:8080',
+          query: { limit: 5 },
+        })
+      ).rejects.toMatchObject({
+        name: 'GrpcError',
+        code: GrpcStatusCode.Internal,
+        message: 'gRPC Error: Internal - Query failed',
+      });
+    });
+
+    it('should throw a GrpcError for a trailers-only response', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Map([
+          ['grpc-status', '16'],
+          ['grpc-message', 'Not signed in'],
+        ]),
+      } as unknown as Response);
+
+      await expect(
+        service.queryTable({
+          serverUrl: 'http://localhost:8080',
+          query: { limit: 5 },
+        })
+      ).rejects.toMatchObject({
+        name: 'GrpcError',
+        code: GrpcStatusCode.Unauthenticated,
+      });
+    });
+  });
+
   describe('singleton instance', () => {
     it('should export a singleton grpcTableService', () => {
       expect(grpcTableService).toBeInstanceOf(GrpcTableService);
@@ -1,6 +1,17 @@
 // Browser-compatible gRPC client for Apache Arrow table service
 import * as arrow from 'apache-arrow';
 import { logger } from '../lib/logger';
+import {
+  GrpcError,
+  GrpcWebFrame,
+  GrpcWebFrameReader,
+  GrpcStatusCode,
+  getGrpcStatusError,
+  httpStatusToGrpcCode,
+  parseGrpcTrailers,
+} from './grpcWeb';
+
+export { GrpcError, GrpcStatusCode } from './grpcWeb';
 
 // Browser-compatible EventEmitter implementation
 class EventEmitter {
@@ -63,16 +74,32 @@ export interface DataTableQuery {
   aggregations?: Aggregation[];
   connectionId?: string;
   sourceId?: string;
+  group_by?: string;
 }
 
 // Alias for backward compatibility with tests
 export type TableQuery = DataTableQuery;
 
+export interface AggregationResult {
+  column: string;
+  function: string;
+  value: number | null; // null when there were no values to aggregate
+}
+
+export interface GroupResult {
+  key: string | null; // null for the group of null and empty values
+  count: number;
+  aggregations: AggregationResult[];
+}
+
 export interface DataTableResult {
+  // Empty for a streamed result, whose rows are in table or were handed to onData
   arrow_ipc_stream: Uint8Array;
   offset: number;
   row_count: number;
   total_rows: number;
+  aggregations?: AggregationResult[];
+  groups?: GroupResult[];
   table?: arrow.Table;
 }
 
@@ -86,6 +113,7 @@ export interface DataTableDistinctQuery {
 
 export interface DataTableDistinctResult {
   values: string[];
+  total_values: number;
 }
 
 export interface ParseFilterRequest {
@@ -104,6 +132,10 @@ export interface GrpcTableStreamOptions {
   onData?: (data: DataTableResult) => void;
   onError?: (error: Error) => void;
   onComplete?: () => void;
+  signal?: AbortSignal;
+  // Use the server-streaming QueryStream call; onData is called once per record batch,
+  // and the batches are only kept for the returned result when there is no onData
+  stream?: boolean;
 }
 
 export class GrpcTableService extends EventEmitter {
@@ -168,8 +200,65 @@ export class GrpcTableService extends EventEmitter {
     }
   }
 
+  async distinct(
+    query: DataTableDistinctQuery,
+    serverUrl: string
+  ): Promise<DataTableDistinctResult> {
+    try {
+      logger.debug('distinct - Query:', query);
+
+      // Create gRPC-Web request headers
+      const grpcHeaders = {
+        'Content-Type': 'application/grpc-web+proto',
+        Accept: 'application/grpc-web+proto',
+        'X-Grpc-Web': '1',
+      };
+
+      // Serialize the request
+      const serializedQuery = this.serializeDistinctQuery(query);
+      const grpcMessage = this.createGrpcMessage(serializedQuery);
+
+      // Distinct values are served by the Values RPC
+      const requestUrl = `${serverUrl}/datatable.DataTableService/Values`;
+      logger.debug('distinct - Request URL:', requestUrl);
+
+      const response = await fetch(requestUrl, {
+        method: 'POST',
+        headers: grpcHeaders,
+        body: grpcMessage as BodyInit,
+      });
+
+      logger.debug('distinct - Response status:', response.status);
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        logger.error('distinct - Error response:', errorText);
+        throw new Error(
+          `gRPC Error: ${response.status} ${response.statusText} - ${errorText}`
+        );
+      }
+
+      // Errors before any message are sent as a trailers-only response in the headers
+      const statusError = getGrpcStatusError(
+        response.headers.get('grpc-status'),
+        response.headers.get('grpc-message')
+      );
+      if (statusError) {
+        throw statusError;
+      }
+
+      return await this.parseDistinctResponse(response);
+    } catch (error) {
+      const errorObj =
+        error instanceof Error ? error : new Error('Distinct failed');
+      logger.error('distinct - Error:', errorObj);
+      throw errorObj;
+    }
+  }
+
   async queryTable(options: GrpcTableStreamOptions): Promise<DataTableResult> {
-    const { serverUrl, query, onData, onError, onComplete } = options;
+    const { serverUrl, query, onData, onError, onComplete, signal, stream } =
+      options;
 
     try {
       this.isConnected = true;
@@ -191,7 +280,8 @@ export class GrpcTableService extends EventEmitter {
       // Create gRPC message with proper header
       const grpcMessage = this.createGrpcMessage(serializedQuery);
 
-      const requestUrl = `${serverUrl}/datatable.DataTableService/Query`;
+      const method = stream ? 'QueryStream' : 'Query';
+      const requestUrl = `${serverUrl}/datatable.DataTableService/${method}`;
       logger.debug('gRPC Table Service - Request URL:', requestUrl);
 
       // Make the gRPC-Web request
@@ -199,6 +289,7 @@ export class GrpcTableService extends EventEmitter {
         method: 'POST',
         headers: grpcHeaders,
         body: grpcMessage as BodyInit,
+        ...(signal && { signal }),
       });
 
       logger.debug('gRPC Table Service - Response status:', response.status);
@@ -210,19 +301,43 @@ export class GrpcTableService extends EventEmitter {
       if (!response.ok) {
         const errorText = await response.text();
         logger.error('gRPC Table Service - Error response:', errorText);
-        throw new Error(
+        throw new GrpcError(
+          httpStatusToGrpcCode(response.status),
           `gRPC Error: ${response.status} ${response.statusText} - ${errorText}`
         );
       }
 
-      // Parse the gRPC-Web response
-      const result = await this.parseGrpcResponse(response);
-
-      if (onData) {
-        onData(result);
+      // Errors before any message are sent as a trailers-only response in the headers
+      const statusError = getGrpcStatusError(
+        response.headers.get('grpc-status'),
+        response.headers.get('grpc-message')
+      );
+      if (statusError) {
+        throw statusError;
       }
 
-      this.emit('data', result);
+      let result: DataTableResult;
+      if (stream && response.body) {
+        result = await this.readResultStream(
+          response.body,
+          batch => {
+            if (onData) {
+              onData(batch);
+            }
+            this.emit('data', batch);
+          },
+          !onData
+        );
+      } else {
+        // Parse the gRPC-Web response
+        result = await this.parseGrpcResponse(response);
+
+        if (onData) {
+          onData(result);
+        }
+
+        this.emit('data', result);
+      }
 
       if (onComplete) {
         onComplete();
@@ -302,6 +417,37 @@ export class GrpcTableService extends EventEmitter {
     return this.combineChunks(chunks);
   }
 
+  // Serialize DataTableDistinctQuery to protobuf format (DataTableValuesQuery)
+  private serializeDistinctQuery(query: DataTableDistinctQuery): Uint8Array {
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+
+    // Field 1: column (string)
+    chunks.push(this.encodeField(1, 2, encoder.encode(query.column)));
+
+    // Field 2: search (string)
+    if (query.search) {
+      chunks.push(this.encodeField(2, 2, encoder.encode(query.search)));
+    }
+
+    // Field 3: limit (int32)
+    if (query.limit !== undefined) {
+      chunks.push(this.encodeField(3, 0, this.encodeVarint(query.limit)));
+    }
+
+    // Field 4: connectionId (string)
+    if (query.connectionId) {
+      chunks.push(this.encodeField(4, 2, encoder.encode(query.connectionId)));
+    }
+
+    // Field 5: sourceId (string)
+    if (query.sourceId) {
+      chunks.push(this.encodeField(5, 2, encoder.encode(query.sourceId)));
+    }
+
+    return this.combineChunks(chunks);
+  }
+
   // Serialize DataTableQuery to protobuf format
   private serializeDataTableQuery(query: DataTableQuery): Uint8Array {
     logger.debug('serializeDataTableQuery: Starting serialization', query);
@@ -380,6 +526,12 @@ export class GrpcTableService extends EventEmitter {
       chunks.push(this.encodeField(8, 2, sourceData)); // Field 8, wire type 2
     }
 
+    // Serialize group_by (field 9, string)
+    if (query.group_by) {
+      const groupByData = encoder.encode(query.group_by);
+      chunks.push(this.encodeField(9, 2, groupByData)); // Field 9, wire type 2
+    }
+
     // Combine all chunks
     const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
     const result = new Uint8Array(totalLength);
@@ -714,13 +866,78 @@ export class GrpcTableService extends EventEmitter {
     };
   }
 
-  // Parse gRPC-Web response
+  // Parse Values response into distinct values, failing with the status of its trailers
+  private async parseDistinctResponse(
+    response: Response
+  ): Promise<DataTableDistinctResult> {
+    const buffer = await response.arrayBuffer();
+    const frames = new GrpcWebFrameReader().push(new Uint8Array(buffer));
+
+    const statusError = this.getTrailerStatusError(frames);
+    if (statusError) {
+      throw statusError;
+    }
+
+    const message = frames.find(frame => !frame.isTrailer);
+    if (!message) {
+      throw new Error('Invalid gRPC message: too short');
+    }
+    const messageData = message.data;
+
+    const decoder = new TextDecoder();
+    const result: DataTableDistinctResult = { values: [], total_values: 0 };
+    let offset = 0;
+
+    while (offset < messageData.length) {
+      const tag = this.decodeVarint(messageData, offset);
+      offset += this.getVarintLength(tag);
+
+      const fieldNumber = tag >>> 3;
+      const wireType = tag & 0x7;
+
+      if (fieldNumber === 1 && wireType === 2) {
+        // values field (repeated string)
+        const length = this.decodeVarint(messageData, offset);
+        offset += this.getVarintLength(length);
+        result.values.push(
+          decoder.decode(messageData.slice(offset, offset + length))
+        );
+        offset += length;
+      } else if (fieldNumber === 2 && wireType === 0) {
+        // total_values field (int32)
+        result.total_values = this.decodeVarint(messageData, offset);
+        offset += this.getVarintLength(result.total_values);
+      } else {
+        offset = this.skipField(messageData, offset, wireType);
+      }
+    }
+
+    return result;
+  }
+
+  // The error of a failed grpc-status in the trailer frame of a unary response
+  private getTrailerStatusError(frames: GrpcWebFrame[]): GrpcError | null {
+    const trailer = frames.find(frame => frame.isTrailer);
+    const trailers = trailer && parseGrpcTrailers(trailer.data);
+    return trailers
+      ? getGrpcStatusError(trailers['grpc-status'], trailers['grpc-message'])
+      : null;
+  }
+
+  // Parse gRPC-Web response, failing with the status of its trailers
   private async parseGrpcResponse(
     response: Response
   ): Promise<DataTableResult> {
     const buffer = await response.arrayBuffer();
     const uint8Array = new Uint8Array(buffer);
 
+    const statusError = this.getTrailerStatusError(
+      new GrpcWebFrameReader().push(uint8Array)
+    );
+    if (statusError) {
+      throw statusError;
+    }
+
     logger.debug(
       'gRPC Table Service - Response buffer size:',
       buffer.byteLength
@@ -759,6 +976,13 @@ export class GrpcTableService extends EventEmitter {
       }
     }
 
+    return this.toDataTableResult(fullResult);
+  }
+
+  // Fill in defaults and decode the Arrow IPC stream of a parsed result
+  private toDataTableResult(
+    fullResult: Partial<DataTableResult>
+  ): DataTableResult {
     // Parse the Arrow IPC stream if we have it
     let table: arrow.Table | undefined;
     if (fullResult.arrow_ipc_stream) {
@@ -779,10 +1003,85 @@ export class GrpcTableService extends EventEmitter {
       offset: fullResult.offset || 0,
       row_count: fullResult.row_count || 0,
       total_rows: fullResult.total_rows || 0,
+      aggregations: fullResult.aggregations,
+      groups: fullResult.groups,
       table,
     };
   }
 
+  // Read a server-streaming response, decoding each record batch as its frame arrives.
+  // The batches are only kept, and concatenated into the table of the result, with keepRows;
+  // totals and aggregates come with the first batch.
+  private async readResultStream(
+    body: ReadableStream<Uint8Array>,
+    onBatch: (batch: DataTableResult) => void,
+    keepRows: boolean
+  ): Promise<DataTableResult> {
+    const reader = body.getReader();
+    const frameReader = new GrpcWebFrameReader();
+    const tables: arrow.Table[] = [];
+    let first: DataTableResult | undefined;
+    let batchCount = 0;
+    let rowCount = 0;
+    let trailers: Record<string, string> | null = null;
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        for (const frame of frameReader.push(value)) {
+          if (frame.isTrailer) {
+            trailers = parseGrpcTrailers(frame.data);
+            continue;
+          }
+
+          const batch = this.toDataTableResult(
+            this.parseDataTableResultMessage(frame.data)
+          );
+          first ??= batch;
+          batchCount++;
+          rowCount += batch.row_count;
+          if (keepRows && batch.table) {
+            tables.push(batch.table);
+          }
+          onBatch(batch);
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+
+    const statusError =
+      trailers &&
+      getGrpcStatusError(trailers['grpc-status'], trailers['grpc-message']);
+    if (statusError) {
+      throw statusError;
+    }
+
+    if (frameReader.hasPendingData()) {
+      throw new GrpcError(
+        GrpcStatusCode.DataLoss,
+        'gRPC Error: stream ended in the middle of a message'
+      );
+    }
+
+    logger.debug('gRPC Table Service - Stream batches received:', batchCount);
+
+    if (keepRows && batchCount === 1 && first) return first;
+
+    return {
+      arrow_ipc_stream: new Uint8Array(0),
+      offset: first?.offset ?? 0,
+      row_count: rowCount,
+      total_rows: first?.total_rows ?? 0,
+      aggregations: first?.aggregations,
+      groups: first?.groups,
+      table:
+        tables.length > 0 ? tables[0].concat(...tables.slice(1)) : undefined,
+    };
+  }
+
   // Parse gRPC message format: [compression-flag][message-length][message-data]
   private parseGrpcMessage(data: Uint8Array): Uint8Array {
     if (data.length < 5) {
@@ -808,17 +1107,24 @@ export class GrpcTableService extends EventEmitter {
 
   // Parse DataTableResult to get all fields
   private parseDataTableResult(grpcData: Uint8Array): Partial<DataTableResult> {
-    const result: Partial<DataTableResult> = {};
-
     // Extract protobuf message from gRPC wrapper manually
-    if (grpcData.length < 5) return result;
+    if (grpcData.length < 5) return {};
 
     const messageLength =
       (grpcData[1] << 24) |
       (grpcData[2] << 16) |
       (grpcData[3] << 8) |
       grpcData[4];
-    const messageData = grpcData.slice(5, 5 + messageLength);
+    return this.parseDataTableResultMessage(
+      grpcData.slice(5, 5 + messageLength)
+    );
+  }
+
+  // Parse the protobuf fields of a DataTableResult message without the gRPC wrapper
+  private parseDataTableResultMessage(
+    messageData: Uint8Array
+  ): Partial<DataTableResult> {
+    const result: Partial<DataTableResult> = {};
     let offset = 0;
 
     while (offset < messageData.length) {
@@ -876,6 +1182,30 @@ export class GrpcTableService extends EventEmitter {
             offset += this.getVarintLength(result.total_rows);
           }
           break;
+        case 5: // aggregations (repeated AggregationResult)
+          if (wireType === 2) {
+            const length = this.decodeVarint(messageData, offset);
+            offset += this.getVarintLength(length);
+            result.aggregations = [
+              ...(result.aggregations ?? []),
+              this.parseAggregationResult(
+                messageData.slice(offset, offset + length)
+              ),
+            ];
+            offset += length;
+          }
+          break;
+        case 6: // groups (repeated GroupResult)
+          if (wireType === 2) {
+            const length = this.decodeVarint(messageData, offset);
+            offset += this.getVarintLength(length);
+            result.groups = [
+              ...(result.groups ?? []),
+              this.parseGroupResult(messageData.slice(offset, offset + length)),
+            ];
+            offset += length;
+          }
+          break;
         default:
           // Log unknown fields for debugging
           logger.warn(
@@ -889,6 +1219,97 @@ export class GrpcTableService extends EventEmitter {
     return result;
   }
 
+  // Parse AggregationResult message
+  private parseAggregationResult(data: Uint8Array): AggregationResult {
+    const decoder = new TextDecoder();
+    const result: AggregationResult = { column: '', function: '', value: null };
+    let hasValue = false;
+    let value = 0;
+    let offset = 0;
+
+    while (offset < data.length) {
+      const tag = this.decodeVarint(data, offset);
+      offset += this.getVarintLength(tag);
+
+      const fieldNumber = tag >>> 3;
+      const wireType = tag & 0x7;
+
+      if ((fieldNumber === 1 || fieldNumber === 2) && wireType === 2) {
+        // column / function (string)
+        const length = this.decodeVarint(data, offset);
+        offset += this.getVarintLength(length);
+        const text = decoder.decode(data.slice(offset, offset + length));
+        if (fieldNumber === 1) {
+          result.column = text;
+        } else {
+          result.function = text;
+        }
+        offset += length;
+      } else if (fieldNumber === 3 && wireType === 1) {
+        // value (double, little-endian fixed64)
+        value = new DataView(
+          data.buffer,
+          data.byteOffset + offset,
+          8
+        ).getFloat64(0, true);
+        offset += 8;
+      } else if (fieldNumber === 4 && wireType === 0) {
+        // has_value (bool)
+        const flag = this.decodeVarint(data, offset);
+        offset += this.getVarintLength(flag);
+        hasValue = flag !== 0;
+      } else {
+        offset = this.skipField(data, offset, wireType);
+      }
+    }
+
+    result.value = hasValue ? value : null;
+    return result;
+  }
+
+  // Parse GroupResult message
+  private parseGroupResult(data: Uint8Array): GroupResult {
+    const decoder = new TextDecoder();
+    const result: GroupResult = { key: '', count: 0, aggregations: [] };
+    let isNull = false;
+    let offset = 0;
+
+    while (offset < data.length) {
+      const tag = this.decodeVarint(data, offset);
+      offset += this.getVarintLength(tag);
+
+      const fieldNumber = tag >>> 3;
+      const wireType = tag & 0x7;
+
+      if ((fieldNumber === 1 || fieldNumber === 4) && wireType === 2) {
+        // key (string) / aggregations (repeated AggregationResult)
+        const length = this.decodeVarint(data, offset);
+        offset += this.getVarintLength(length);
+        const fieldData = data.slice(offset, offset + length);
+        if (fieldNumber === 1) {
+          result.key = decoder.decode(fieldData);
+        } else {
+          result.aggregations.push(this.parseAggregationResult(fieldData));
+        }
+        offset += length;
+      } else if ((fieldNumber === 2 || fieldNumber === 3) && wireType === 0) {
+        // is_null (bool) / count (int32)
+        const value = this.decodeVarint(data, offset);
+        offset += this.getVarintLength(value);
+        if (fieldNumber === 2) {
+          isNull = value !== 0;
+        } else {
+          result.count = value;
+        }
+      } else {
+        offset = this.skipField(data, offset, wireType);
+      }
+    }
+
+    if (isNull) result.key = null;
+    return result;
+  }
+
   // Helper method to skip unknown fields
   private skipField(
     data: Uint8Array,
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+  GrpcError,
+  GrpcStatusCode,
+  GrpcWebFrameReader,
+  getGrpcStatusError,
+  httpStatusToGrpcCode,
+  parseGrpcTrailers,
+} from './grpcWeb';
+
+describe('grpcWeb', () => {
+  describe('GrpcWebFrameReader', () => {
+    it('should return frames once all of their bytes have arrived', () => {
+      const reader = new GrpcWebFrameReader();
+
+      expect(reader.push(new Uint8Array([0, 0, 0]))).toEqual([]);
+      expect(reader.push(new Uint8Array([0, 2, 7]))).toEqual([]);
+      expect(reader.hasPendingData()).toBe(true);
+
+      const frames = reader.push(new Uint8Array([8, 0x80, 0, 0, 0, 1, 65]));
+      expect(frames).toEqual([
+        { isTrailer: false, data: new Uint8Array([7, 8]) },
+        { isTrailer: true, data: new Uint8Array([65]) },
+      ]);
+      expect(reader.hasPendingData()).toBe(false);
+    });
+  });
+
+  describe('parseGrpcTrailers', () => {
+    it('should parse lower-cased trailer names and values', () => {
+      const data = new TextEncoder().encode(
+        'Grpc-Status: 0\r\ngrpc-message: done\r\n'
+      );
+
+      expect(parseGrpcTrailers(data)).toEqual({
+        'grpc-status': '0',
+        'grpc-message': 'done',
+      });
+    });
+  });
+
+  describe('getGrpcStatusError', () => {
+    it('should return null for missing or OK statuses', () => {
+      expect(getGrpcStatusError(null, null)).toBeNull();
+      expect(getGrpcStatusError('0', 'ignored')).toBeNull();
+    });
+
+    it('should create a typed error with the decoded message', () => {
+      const error = getGrpcStatusError('3', 'Bad%20filter');
+
+      expect(error).toBeInstanceOf(GrpcError);
+      expect(error?.code).toBe(GrpcStatusCode.InvalidArgument);
+      expect(error?.message).toBe('gRPC Error: InvalidArgument - Bad filter');
+    });
+  });
+
+  describe('httpStatusToGrpcCode', () => {
+    it('should map HTTP failures to gRPC statuses', () => {
+      expect(httpStatusToGrpcCode(401)).toBe(GrpcStatusCode.Unauthenticated);
+      expect(httpStatusToGrpcCode(503)).toBe(GrpcStatusCode.Unavailable);
+      expect(httpStatusToGrpcCode(500)).toBe(GrpcStatusCode.Unknown);
+    });
+  });
+});
@@ -0,0 +1,165 @@
+// gRPC-Web framing, trailers and status codes shared by the browser gRPC clients
+
+/**
+ * gRPC status codes as sent in the grpc-status trailer
+ */
+export enum GrpcStatusCode {
+  Ok = 0,
+  Cancelled = 1,
+  Unknown = 2,
+  InvalidArgument = 3,
+  DeadlineExceeded = 4,
+  NotFound = 5,
+  AlreadyExists = 6,
+  PermissionDenied = 7,
+  ResourceExhausted = 8,
+  FailedPrecondition = 9,
+  Aborted = 10,
+  OutOfRange = 11,
+  Unimplemented = 12,
+  Internal = 13,
+  Unavailable = 14,
+  DataLoss = 15,
+  Unauthenticated = 16,
+}
+
+/**
+ * Error raised when a gRPC call fails with a non-OK status
+ */
+export class GrpcError extends Error {
+  readonly code: GrpcStatusCode;
+
+  constructor(code: GrpcStatusCode, message: string) {
+    super(message);
+    this.name = 'GrpcError';
+    this.code = code;
+  }
+}
+
+export interface GrpcWebFrame {
+  isTrailer: boolean;
+  data: Uint8Array;
+}
+
+// Frame flag marking a trailer frame instead of a message frame
+const TRAILER_FLAG = 0x80;
+const FRAME_HEADER_LENGTH = 5;
+
+/**
+ * Incremental parser for gRPC-Web response frames
+ * Chunks are pushed as they arrive from the network; complete frames are
+ * returned as soon as all of their bytes are available.
+ */
+export class GrpcWebFrameReader {
+  private buffer: Uint8Array = new Uint8Array(0);
+
+  push(chunk: Uint8Array): GrpcWebFrame[] {
+    if (this.buffer.length === 0) {
+      this.buffer = chunk;
+    } else {
+      const combined = new Uint8Array(this.buffer.length + chunk.length);
+      combined.set(this.buffer, 0);
+      combined.set(chunk, this.buffer.length);
+      this.buffer = combined;
+    }
+
+    const frames: GrpcWebFrame[] = [];
+    let offset = 0;
+
+    while (this.buffer.length - offset >= FRAME_HEADER_LENGTH) {
+      const flags = this.buffer[offset];
+      const length =
+        ((this.buffer[offset + 1] << 24) |
+          (this.buffer[offset + 2] << 16) |
+          (this.buffer[offset + 3] << 8) |
+          this.buffer[offset + 4]) >>>
+        0;
+      const end = offset + FRAME_HEADER_LENGTH + length;
+      if (end > this.buffer.length) break;
+
+      frames.push({
+        isTrailer: (flags & TRAILER_FLAG) !== 0,
+        data: this.buffer.slice(offset + FRAME_HEADER_LENGTH, end),
+      });
+      offset = end;
+    }
+
+    this.buffer = this.buffer.slice(offset);
+    return frames;
+  }
+
+  /**
+   * Whether bytes of an incomplete frame are still buffered
+   */
+  hasPendingData(): boolean {
+    return this.buffer.length > 0;
+  }
+}
+
+/**
+ * Parses a trailer frame into lower-cased header names and values
+ */
+export function parseGrpcTrailers(data: Uint8Array): Record<string, string> {
+  const trailers: Record<string, string> = {};
+  const text = new TextDecoder().decode(data);
+
+  for (const line of text.split('\r\n')) {
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const name = line.slice(0, separator).trim().toLowerCase();
+    trailers[name] = line.slice(separator + 1).trim();
+  }
+
+  return trailers;
+}
+
+/**
+ * Returns the error described by a grpc-status / grpc-message pair, or null for OK
+ */
+export function getGrpcStatusError(
+  status: string | null | undefined,
+  message: string | null | undefined
+): GrpcError | null {
+  if (status === null || status === undefined || status === '') return null;
+
+  const code = Number(status);
+  if (code === GrpcStatusCode.Ok) return null;
+
+  const details = message ? decodeGrpcMessage(message) : '';
+  return new GrpcError(
+    Number.isInteger(code) ? code : GrpcStatusCode.Unknown,
+    `gRPC Error: ${GrpcStatusCode[code] ?? status}${details ? ` - ${details}` : ''}`
+  );
+}
+
+// grpc-message is percent-encoded; fall back to the raw text if it is malformed
+function decodeGrpcMessage(message: string): string {
+  try {
+    return decodeURIComponent(message);
+  } catch {
+    return message;
+  }
+}
+
+/**
+ * Maps an HTTP status of a failed gRPC-Web call to the matching gRPC status
+ */
+export function httpStatusToGrpcCode(status: number): GrpcStatusCode {
+  switch (status) {
+    case 400:
+      return GrpcStatusCode.Internal;
+    case 401:
+      return GrpcStatusCode.Unauthenticated;
+    case 403:
+      return GrpcStatusCode.PermissionDenied;
+    case 404:
+      return GrpcStatusCode.Unimplemented;
+    case 429:
+    case 502:
+    case 503:
+    case 504:
+      return GrpcStatusCode.Unavailable;
+    default:
+      return GrpcStatusCode.Unknown;
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest';
+import { InspectorService, MAX_LOG_ENTRIES } from './inspectorService';
+import { WidgetNode } from '@/types/widgets';
+
+const createTree = (title: string): WidgetNode => ({
+  type: 'Ivy.Button',
+  id: 'button',
+  props: { title },
+  events: ['OnClick'],
+});
+
+describe('InspectorService', () => {
+  it('should keep the latest tree of each connection', () => {
+    const service = new InspectorService();
+
+    service.setTree('a', 'app', createTree('First'));
+    service.setTree('a', 'app', createTree('Second'));
+    service.setTree('b', null, null);
+
+    const { sources } = service.getState();
+    expect(sources).toHaveLength(2);
+    expect(sources[0].tree?.props.title).toBe('Second');
+
+    service.setTree('a', 'app', undefined);
+
+    expect(service.getState().sources.map(s => s.connectionId)).toEqual(['b']);
+  });
+
+  it('should time received messages until their tree is set', () => {
+    const service = new InspectorService();
+    service.recordMessage('a', 'Update', []);
+    service.recordMessage('b', 'Update', []);
+
+    service.setTree('a', null, createTree('Updated'));
+
+    const [a, b] = service.getState().log;
+    expect(a.duration).toBeGreaterThanOrEqual(0);
+    expect(b.duration).toBeUndefined();
+  });
+
+  it('should record the outcome of events', () => {
+    const service = new InspectorService();
+
+    service.recordEvent('a', 'OnClick', 'button', [])(true);
+    service.recordEvent('a', 'OnClick', 'button', [])(false);
+    service.recordEvent(null, 'OnChange', 'input', ['x'])('queued');
+
+    const [handled, failed, queued] = service.getState().log;
+    expect(handled).toMatchObject({ kind: 'Event', direction: 'out' });
+    expect(handled.result).toBe(true);
+    expect(handled.duration).toBeGreaterThanOrEqual(0);
+    expect(failed.result).toBe(false);
+    expect(queued).toMatchObject({ result: 'queued', payload: ['x'] });
+    expect(queued.duration).toBeUndefined();
+  });
+
+  it('should keep only the newest messages', () => {
+    const service = new InspectorService();
+
+    for (let i = 0; i < MAX_LOG_ENTRIES + 10; i++) {
+      service.recordMessage('a', 'Update', i);
+    }
+
+    const { log } = service.getState();
+    expect(log).toHaveLength(MAX_LOG_ENTRIES);
+    expect(log[0].payload).toBe(10);
+  });
+
+  it('should notify listeners with a new state', () => {
+    const service = new InspectorService();
+    const listener = vi.fn();
+    const unsubscribe = service.subscribe(listener);
+    const before = service.getState();
+
+    service.toggle();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(service.getState()).not.toBe(before);
+    expect(service.getState().open).toBe(true);
+
+    unsubscribe();
+    service.clearLog();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should record nothing when recording is off', () => {
+    const service = new InspectorService(false, false);
+
+    service.setTree('a', null, createTree('First'));
+    service.recordMessage('a', 'Refresh', {});
+    service.recordEvent('a', 'OnClick', 'button', [])(true);
+
+    expect(service.getState()).toMatchObject({ sources: [], log: [] });
+  });
+});
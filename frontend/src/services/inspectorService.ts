@@ -0,0 +1,198 @@
+// Live widget trees and hub traffic shown in the widget inspector
+
+import { WidgetNode } from '@/types/widgets';
+import { getCurrentDeveloperOptions, setDeveloperOptions } from '@/lib/logger';
+
+export const MAX_LOG_ENTRIES = 500;
+
+export type InspectorMessageKind = 'Refresh' | 'Update' | 'Event';
+
+export interface InspectorLogEntry {
+  id: number;
+  kind: InspectorMessageKind;
+  direction: 'in' | 'out';
+  connectionId: string | null;
+  /** Event name for events */
+  name?: string;
+  widgetId?: string;
+  payload: unknown;
+  /** Milliseconds since the page was loaded */
+  time: number;
+  /**
+   * Milliseconds until an update was rendered or the server handled an
+   * event; undefined while that is still pending
+   */
+  duration?: number;
+  /** Whether the server handled an event, 'queued' while disconnected */
+  result?: boolean | 'queued';
+}
+
+export interface InspectorSource {
+  connectionId: string;
+  appId: string | null;
+  tree: WidgetNode | null;
+}
+
+export interface InspectorState {
+  open: boolean;
+  sources: InspectorSource[];
+  log: InspectorLogEntry[];
+}
+
+/**
+ * Collects what the inspector panel shows. Every backend connection reports
+ * its tree and messages here; nothing is recorded while recording is off.
+ */
+export class InspectorService {
+  private readonly sources = new Map<string, InspectorSource>();
+  private readonly listeners = new Set<() => void>();
+  private log: InspectorLogEntry[] = [];
+  private nextId = 1;
+  private state: InspectorState;
+
+  constructor(
+    private open = false,
+    private readonly recording = true
+  ) {
+    this.state = { open, sources: [], log: [] };
+  }
+
+  get isRecording(): boolean {
+    return this.recording;
+  }
+
+  setOpen(open: boolean): void {
+    if (this.open === open) return;
+    this.open = open;
+    this.publish();
+  }
+
+  toggle(): void {
+    this.setOpen(!this.open);
+  }
+
+  /**
+   * Sets the current tree of a connection, or removes the connection when
+   * the tree is undefined. Updates received before count as rendered.
+   */
+  setTree(
+    connectionId: string,
+    appId: string | null,
+    tree: WidgetNode | null | undefined
+  ): void {
+    if (!this.recording) return;
+    if (tree === undefined) {
+      this.sources.delete(connectionId);
+    } else {
+      this.sources.set(connectionId, { connectionId, appId, tree });
+      const now = performance.now();
+      this.log = this.log.map(entry =>
+        entry.direction === 'in' &&
+        entry.connectionId === connectionId &&
+        entry.duration === undefined
+          ? { ...entry, duration: now - entry.time }
+          : entry
+      );
+    }
+    this.publish();
+  }
+
+  /**
+   * Records a Refresh or Update received from the server
+   */
+  recordMessage(
+    connectionId: string | null,
+    kind: 'Refresh' | 'Update',
+    payload: unknown
+  ): void {
+    if (!this.recording) return;
+    this.add({ kind, direction: 'in', connectionId, payload });
+  }
+
+  /**
+   * Records an event sent to the server; call the returned function with
+   * the outcome once it is known
+   */
+  recordEvent(
+    connectionId: string | null,
+    name: string,
+    widgetId: string,
+    args: unknown[]
+  ): (result: boolean | 'queued') => void {
+    if (!this.recording) return () => {};
+    const id = this.add({
+      kind: 'Event',
+      direction: 'out',
+      connectionId,
+      name,
+      widgetId,
+      payload: args,
+    });
+    return result => {
+      const now = performance.now();
+      this.log = this.log.map(entry =>
+        entry.id === id
+          ? {
+              ...entry,
+              result,
+              duration: result === 'queued' ? undefined : now - entry.time,
+            }
+          : entry
+      );
+      this.publish();
+    };
+  }
+
+  clearLog(): void {
+    this.log = [];
+    this.publish();
+  }
+
+  getState = (): InspectorState => this.state;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private add(entry: Omit<InspectorLogEntry, 'id' | 'time'>): number {
+    const id = this.nextId++;
+    this.log = [...this.log, { ...entry, id, time: performance.now() }].slice(
+      -MAX_LOG_ENTRIES
+    );
+    this.publish();
+    return id;
+  }
+
+  private publish(): void {
+    this.state = {
+      open: this.open,
+      sources: Array.from(this.sources.values()),
+      log: this.log,
+    };
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Whether the inspector can be used: always in development, and in
+ * production when it was opened through the developer options
+ */
+export const isInspectorAvailable = (): boolean =>
+  import.meta.env.DEV ||
+  getCurrentDeveloperOptions().showWidgetInspector === true;
+
+export const inspectorService = new InspectorService(
+  getCurrentDeveloperOptions().showWidgetInspector === true,
+  isInspectorAvailable()
+);
+
+// The open state survives reloads through the developer options
+inspectorService.subscribe(() => {
+  const { open } = inspectorService.getState();
+  if ((getCurrentDeveloperOptions().showWidgetInspector === true) !== open) {
+    setDeveloperOptions({ showWidgetInspector: open });
+  }
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from 'vitest';
+import { UnsavedChangesService } from './unsavedChangesService';
+
+interface FakeElement {
+  parent?: FakeElement;
+  contains: (other: FakeElement) => boolean;
+}
+
+// Minimal stand-in for DOM elements, the tests run without a document
+const createElement = (parent?: HTMLElement): HTMLElement => {
+  const element: FakeElement = {
+    parent: parent as unknown as FakeElement | undefined,
+    contains: other => {
+      for (
+        let node: FakeElement | undefined = other;
+        node;
+        node = node.parent
+      ) {
+        if (node === element) return true;
+      }
+      return false;
+    },
+  };
+  return element as unknown as HTMLElement;
+};
+
+describe('UnsavedChangesService', () => {
+  it('should track dirty forms inside a container', () => {
+    const service = new UnsavedChangesService();
+    const sheet = createElement();
+    const blade = createElement();
+    service.setDirty('form-1', createElement(sheet));
+
+    expect(service.hasUnsavedChanges()).toBe(true);
+    expect(service.hasUnsavedChanges(sheet)).toBe(true);
+    expect(service.hasUnsavedChanges(blade)).toBe(false);
+
+    service.setDirty('form-1', null);
+    expect(service.hasUnsavedChanges()).toBe(false);
+  });
+
+  it('should not prompt when nothing would be discarded', async () => {
+    const service = new UnsavedChangesService();
+    const prompt = vi.fn(() => Promise.resolve(false));
+    service.setPrompt(prompt);
+    service.setDirty('form-1', createElement(createElement()));
+
+    expect(await service.confirmDiscard(createElement())).toBe(true);
+    expect(prompt).not.toHaveBeenCalled();
+  });
+
+  it('should keep the forms dirty when the user cancels', async () => {
+    const service = new UnsavedChangesService();
+    const prompt = vi
+      .fn<() => Promise<boolean>>()
+      .mockResolvedValueOnce(false)
+      .mockResolvedValueOnce(true);
+    service.setPrompt(prompt);
+    service.setDirty('form-1', createElement());
+
+    expect(await service.confirmDiscard()).toBe(false);
+    expect(service.hasUnsavedChanges()).toBe(true);
+
+    expect(await service.confirmDiscard()).toBe(true);
+    expect(service.hasUnsavedChanges()).toBe(false);
+    expect(prompt).toHaveBeenCalledTimes(2);
+  });
+
+  it('should tell discarded forms so they can be guarded again', async () => {
+    const service = new UnsavedChangesService();
+    service.setPrompt(() => Promise.resolve(true));
+    const sheet = createElement();
+    const discarded = vi.fn();
+    const kept = vi.fn();
+    service.setDirty('form-1', createElement(sheet), discarded);
+    service.setDirty('form-2', createElement(), kept);
+
+    expect(await service.confirmDiscard(sheet)).toBe(true);
+
+    expect(discarded).toHaveBeenCalledTimes(1);
+    expect(kept).not.toHaveBeenCalled();
+  });
+
+  it('should only remove the prompt it registered', async () => {
+    const service = new UnsavedChangesService();
+    const removeFirst = service.setPrompt(() => Promise.resolve(true));
+    const second = vi.fn(() => Promise.resolve(false));
+    service.setPrompt(second);
+
+    removeFirst();
+    service.setDirty('form-1', createElement());
+
+    expect(await service.confirmDiscard()).toBe(false);
+    expect(second).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,76 @@
+// Tracks forms with unsaved changes and asks before they are discarded
+
+export type DiscardPrompt = () => Promise<boolean>;
+
+interface DirtyForm {
+  element: HTMLElement;
+  onDiscard?: () => void;
+}
+
+/**
+ * Registry of dirty forms. Navigation that would remove a form asks the user
+ * to confirm first through the prompt registered by the app.
+ */
+export class UnsavedChangesService {
+  private readonly forms = new Map<string, DirtyForm>();
+  private prompt: DiscardPrompt | null = null;
+
+  /**
+   * Marks a form as dirty, or clean when no element is given. onDiscard is
+   * called when the user agreed to discard the form's changes.
+   */
+  setDirty(
+    formId: string,
+    element: HTMLElement | null,
+    onDiscard?: () => void
+  ): void {
+    if (element) {
+      this.forms.set(formId, { element, onDiscard });
+    } else {
+      this.forms.delete(formId);
+    }
+  }
+
+  /**
+   * Whether a dirty form is inside the container, or anywhere without one
+   */
+  hasUnsavedChanges(container?: Element | null): boolean {
+    for (const { element } of this.forms.values()) {
+      if (!container || container.contains(element)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Sets the prompt shown to the user; returns a callback that removes it
+   */
+  setPrompt(prompt: DiscardPrompt): () => void {
+    this.prompt = prompt;
+    return () => {
+      if (this.prompt === prompt) this.prompt = null;
+    };
+  }
+
+  /**
+   * Resolves to whether changes in the container may be discarded. The
+   * forms count as clean afterwards so they are not asked about again.
+   */
+  async confirmDiscard(container?: Element | null): Promise<boolean> {
+    if (!this.hasUnsavedChanges(container)) return true;
+
+    const confirmed = this.prompt
+      ? await this.prompt()
+      : window.confirm('You have unsaved changes. Discard them?');
+    if (confirmed) {
+      for (const [formId, form] of Array.from(this.forms)) {
+        if (!container || container.contains(form.element)) {
+          this.forms.delete(formId);
+          form.onDiscard?.();
+        }
+      }
+    }
+    return confirmed;
+  }
+}
+
+export const unsavedChangesService = new UnsavedChangesService();
@@ -0,0 +1,210 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  UploadService,
+  UploadTask,
+  formatBytes,
+  matchesAccept,
+  validateFiles,
+  type UploadProgress,
+} from './uploadService';
+
+vi.mock('@/lib/logger');
+vi.mock('@/lib/utils', () => ({
+  getIvyHost: () => 'http://host',
+  generateUUID: () => 'file-1',
+}));
+
+const mockFetch = vi.fn();
+
+const okResponse = (body?: unknown) =>
+  ({
+    ok: true,
+    statusText: 'OK',
+    json: () => Promise.resolve(body),
+  }) as Response;
+
+const failedResponse = () =>
+  ({ ok: false, statusText: 'Bad Gateway' }) as Response;
+
+const createFile = (name: string, size: number, type = 'text/plain') =>
+  new File([new Uint8Array(size)], name, { type });
+
+describe('uploadService', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', mockFetch);
+    mockFetch.mockReset();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('matchesAccept', () => {
+    it('should match extensions, exact and wildcard mime types', () => {
+      const image = { name: 'photo.PNG', type: 'image/png' };
+
+      expect(matchesAccept(image, undefined)).toBe(true);
+      expect(matchesAccept(image, 'image/*')).toBe(true);
+      expect(matchesAccept(image, '.png')).toBe(true);
+      expect(matchesAccept(image, 'pdf, image/png')).toBe(true);
+      expect(matchesAccept(image, '.pdf,text/*')).toBe(false);
+    });
+  });
+
+  describe('validateFiles', () => {
+    it('should reject files by type, size and count', () => {
+      const files = [
+        createFile('a.txt', 10),
+        createFile('b.exe', 10, 'application/octet-stream'),
+        createFile('c.txt', 5000),
+        createFile('d.txt', 10),
+        createFile('e.txt', 10),
+      ];
+
+      const { accepted, rejected } = validateFiles(files, {
+        accept: '.txt',
+        maxFiles: 2,
+        maxFileSize: 1024,
+      });
+
+      expect(accepted.map(f => f.name)).toEqual(['a.txt', 'd.txt']);
+      expect(rejected.map(r => [r.file.name, r.reason])).toEqual([
+        ['b.exe', 'File type not allowed (.txt)'],
+        ['c.txt', 'File exceeds 1.0 KB'],
+        ['e.txt', 'Maximum 2 files allowed'],
+      ]);
+    });
+  });
+
+  describe('formatBytes', () => {
+    it('should format sizes with binary units', () => {
+      expect(formatBytes(512)).toBe('512 B');
+      expect(formatBytes(1536)).toBe('1.5 KB');
+      expect(formatBytes(20 * 1024 * 1024)).toBe('20 MB');
+    });
+  });
+
+  describe('UploadTask', () => {
+    it('should upload a file in chunks and report progress', async () => {
+      mockFetch.mockResolvedValue(okResponse());
+      const progress: UploadProgress[] = [];
+      const task = new UploadTask(
+        '/upload/conn/up',
+        createFile('a.txt', 10),
+        p => progress.push(p),
+        4
+      );
+
+      await task.start();
+
+      expect(mockFetch.mock.calls.map(c => c[0])).toEqual([
+        'http://host/upload/conn/up/file-1?index=0&total=3',
+        'http://host/upload/conn/up/file-1?index=1&total=3',
+        'http://host/upload/conn/up/file-1?index=2&total=3',
+      ]);
+      expect(progress.map(p => [p.status, p.loaded])).toEqual([
+        ['uploading', 0],
+        ['uploading', 4],
+        ['uploading', 8],
+        ['uploading', 10],
+        ['done', 10],
+      ]);
+    });
+
+    it('should skip chunks the server already received when retried', async () => {
+      vi.useFakeTimers();
+      try {
+        mockFetch
+          .mockResolvedValueOnce(okResponse())
+          .mockResolvedValue(failedResponse());
+        const task = new UploadTask(
+          '/upload/conn/up',
+          createFile('a.txt', 8),
+          () => {},
+          4
+        );
+
+        const run = task.start();
+        await vi.runAllTimersAsync();
+        await run;
+        expect(task.getProgress()).toMatchObject({
+          status: 'error',
+          loaded: 4,
+          error: 'Upload failed: Bad Gateway',
+        });
+
+        mockFetch.mockReset();
+        mockFetch
+          .mockResolvedValueOnce(okResponse({ received: [0] }))
+          .mockResolvedValue(okResponse());
+        await task.retry();
+
+        expect(mockFetch.mock.calls.map(c => c[0])).toEqual([
+          'http://host/upload/conn/up/file-1',
+          'http://host/upload/conn/up/file-1?index=1&total=2',
+        ]);
+        expect(task.getProgress()).toMatchObject({ status: 'done', loaded: 8 });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should stop sending chunks when cancelled', async () => {
+      const task = new UploadTask(
+        '/upload/conn/up',
+        createFile('a.txt', 8),
+        () => {},
+        4
+      );
+      mockFetch.mockImplementation(() => {
+        task.cancel();
+        return Promise.reject(new DOMException('Aborted', 'AbortError'));
+      });
+
+      await task.start();
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(task.getProgress().status).toBe('cancelled');
+    });
+  });
+
+  describe('UploadService', () => {
+    it('should move paused uploads to the upload URL of a new session', async () => {
+      const service = new UploadService();
+      let release: () => void = () => {};
+      mockFetch.mockImplementationOnce(
+        (_url: string, init: RequestInit) =>
+          new Promise((_, reject) => {
+            release = () => reject(new DOMException('Aborted', 'AbortError'));
+            init.signal?.addEventListener('abort', () => release());
+          })
+      );
+      const statuses: string[] = [];
+      const task = service.upload(
+        '/upload/conn/up',
+        createFile('a.txt', 4),
+        p => statuses.push(p.status),
+        4
+      );
+
+      service.pauseAll();
+      expect(task.getProgress().status).toBe('paused');
+
+      mockFetch.mockResolvedValue(okResponse());
+      await task.moveTo('/upload/conn2/up2');
+
+      expect(mockFetch.mock.calls.map(c => c[0])).toEqual([
+        'http://host/upload/conn/up/file-1?index=0&total=1',
+        'http://host/upload/conn2/up2/file-1?index=0&total=1',
+      ]);
+      expect(statuses).toEqual([
+        'uploading',
+        'paused',
+        'uploading',
+        'uploading',
+        'done',
+      ]);
+      expect(service.activeCount).toBe(0);
+    });
+  });
+});
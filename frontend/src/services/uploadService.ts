@@ -0,0 +1,417 @@
+// Chunked, resumable file uploads to the Ivy upload endpoints
+import { generateUUID, getIvyHost } from '@/lib/utils';
+import { logger } from '@/lib/logger';
+
+export const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+const MAX_CHUNK_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 500;
+
+export type UploadStatus =
+  | 'pending'
+  | 'uploading'
+  | 'paused'
+  | 'done'
+  | 'error'
+  | 'cancelled';
+
+export interface UploadProgress {
+  id: string;
+  file: File;
+  status: UploadStatus;
+  loaded: number;
+  total: number;
+  /** Upload speed in bytes per second, 0 when not uploading */
+  speed: number;
+  error?: string;
+}
+
+export interface FileLimits {
+  accept?: string;
+  maxFiles?: number;
+  maxFileSize?: number;
+}
+
+export interface FileRejection {
+  file: File;
+  reason: string;
+}
+
+/**
+ * Resolves an upload path from the server against the Ivy host
+ */
+export function getUploadUrl(uploadUrl: string): string {
+  if (/^https?:\/\//i.test(uploadUrl)) return uploadUrl;
+  return getIvyHost() + uploadUrl;
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return unit === 0
+    ? `${bytes} B`
+    : `${size.toFixed(size < 10 ? 1 : 0)} ${units[unit]}`;
+}
+
+/**
+ * Checks a file against an accept pattern such as "image/*,.pdf"
+ * Uses the same rules as the server side FileInputValidation.
+ */
+export function matchesAccept(
+  file: Pick<File, 'name' | 'type'>,
+  accept: string | undefined
+): boolean {
+  const patterns = (accept ?? '')
+    .split(',')
+    .map(p => p.trim().toLowerCase())
+    .filter(p => p.length > 0);
+  if (patterns.length === 0) return true;
+
+  const type = file.type.toLowerCase();
+  const dot = file.name.lastIndexOf('.');
+  const extension = dot > 0 ? file.name.slice(dot + 1).toLowerCase() : '';
+
+  return patterns.some(pattern => {
+    if (pattern.includes('/')) {
+      return pattern.endsWith('/*')
+        ? type.startsWith(pattern.slice(0, -1))
+        : type === pattern;
+    }
+    const patternExtension = pattern.startsWith('.')
+      ? pattern.slice(1)
+      : pattern;
+    return extension !== '' && extension === patternExtension;
+  });
+}
+
+/**
+ * Splits selected files into the ones that satisfy the input limits and the
+ * ones that are rejected, so nothing is sent that the server would refuse
+ */
+export function validateFiles(
+  files: File[],
+  limits: FileLimits
+): { accepted: File[]; rejected: FileRejection[] } {
+  const accepted: File[] = [];
+  const rejected: FileRejection[] = [];
+
+  for (const file of files) {
+    if (!matchesAccept(file, limits.accept)) {
+      rejected.push({
+        file,
+        reason: `File type not allowed (${limits.accept})`,
+      });
+    } else if (limits.maxFileSize != null && file.size > limits.maxFileSize) {
+      rejected.push({
+        file,
+        reason: `File exceeds ${formatBytes(limits.maxFileSize)}`,
+      });
+    } else if (limits.maxFiles != null && accepted.length >= limits.maxFiles) {
+      rejected.push({
+        file,
+        reason: `Maximum ${limits.maxFiles} file${limits.maxFiles === 1 ? '' : 's'} allowed`,
+      });
+    } else {
+      accepted.push(file);
+    }
+  }
+
+  return { accepted, rejected };
+}
+
+/**
+ * Sends a blob to an upload URL in a single request
+ */
+export async function uploadBlob(
+  uploadUrl: string,
+  blob: Blob,
+  signal?: AbortSignal
+): Promise<void> {
+  const formData = new FormData();
+  formData.append('file', blob);
+
+  const response = await fetch(getUploadUrl(uploadUrl), {
+    method: 'POST',
+    body: formData,
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Upload failed: ${response.statusText}`);
+  }
+}
+
+const delay = (ms: number, signal: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+
+/**
+ * Uploads one file in chunks. Chunks already received by the server are
+ * skipped when the upload is resumed or retried.
+ */
+export class UploadTask {
+  readonly id: string;
+  readonly file: File;
+  private uploadUrl: string;
+  private readonly chunkSize: number;
+  private readonly onProgress: (progress: UploadProgress) => void;
+  private controller: AbortController | null = null;
+  private status: UploadStatus = 'pending';
+  private loaded = 0;
+  private speed = 0;
+  private error: string | undefined;
+  private attempted = false;
+  private run: Promise<void> | null = null;
+
+  constructor(
+    uploadUrl: string,
+    file: File,
+    onProgress: (progress: UploadProgress) => void,
+    chunkSize = DEFAULT_CHUNK_SIZE
+  ) {
+    this.id = generateUUID();
+    this.uploadUrl = uploadUrl;
+    this.file = file;
+    this.onProgress = onProgress;
+    this.chunkSize = chunkSize;
+  }
+
+  get totalChunks(): number {
+    return Math.max(1, Math.ceil(this.file.size / this.chunkSize));
+  }
+
+  getProgress(): UploadProgress {
+    return {
+      id: this.id,
+      file: this.file,
+      status: this.status,
+      loaded: this.loaded,
+      total: this.file.size,
+      speed: this.speed,
+      error: this.error,
+    };
+  }
+
+  /**
+   * Starts or continues the upload; resolves when it stops for any reason
+   */
+  start(): Promise<void> {
+    if (this.run) return this.run;
+    if (this.status === 'done' || this.status === 'cancelled') {
+      return Promise.resolve();
+    }
+
+    this.controller = new AbortController();
+    this.run = this.upload(this.controller.signal).finally(() => {
+      this.run = null;
+      this.controller = null;
+    });
+    return this.run;
+  }
+
+  /**
+   * Stops sending chunks but keeps what the server received, e.g. while disconnected
+   */
+  pause(): void {
+    if (this.status !== 'uploading' && this.status !== 'pending') return;
+    this.setStatus('paused');
+    this.controller?.abort();
+  }
+
+  /**
+   * Uploads the chunks that are still missing after a failure or cancellation
+   */
+  retry(): Promise<void> {
+    if (this.status !== 'error' && this.status !== 'cancelled') {
+      return Promise.resolve();
+    }
+    this.status = 'pending';
+    return this.afterRun(() => this.start());
+  }
+
+  /**
+   * Sends the whole file again to another upload URL, e.g. the one of the new
+   * session after a reconnect, whose server has none of its chunks. Paused
+   * and failed uploads are started again there.
+   */
+  moveTo(uploadUrl: string): Promise<void> {
+    if (
+      uploadUrl === this.uploadUrl ||
+      this.status === 'done' ||
+      this.status === 'cancelled'
+    ) {
+      return Promise.resolve();
+    }
+    this.pause();
+    this.uploadUrl = uploadUrl;
+    this.attempted = false;
+    this.loaded = 0;
+    return this.afterRun(() => this.start());
+  }
+
+  cancel(): void {
+    if (this.status === 'done' || this.status === 'cancelled') return;
+    this.setStatus('cancelled');
+    this.controller?.abort();
+  }
+
+  // An aborted run may still be unwinding when the upload is started again
+  private afterRun(next: () => Promise<void>): Promise<void> {
+    return this.run ? this.run.then(next) : next();
+  }
+
+  private setStatus(status: UploadStatus, error?: string): void {
+    this.status = status;
+    this.error = error;
+    if (status !== 'uploading') this.speed = 0;
+    this.onProgress(this.getProgress());
+  }
+
+  private chunkUrl(query = ''): string {
+    return `${getUploadUrl(this.uploadUrl)}/${this.id}${query}`;
+  }
+
+  private async upload(signal: AbortSignal): Promise<void> {
+    this.error = undefined;
+    this.setStatus('uploading');
+
+    try {
+      // Nothing can have been received before the first attempt
+      const received = this.attempted
+        ? await this.getReceivedChunks(signal)
+        : new Set<number>();
+      this.attempted = true;
+      let loaded = 0;
+      for (const index of received) loaded += this.chunkBytes(index);
+      if (loaded !== this.loaded) {
+        this.loaded = loaded;
+        this.onProgress(this.getProgress());
+      }
+
+      for (let index = 0; index < this.totalChunks; index++) {
+        if (received.has(index)) continue;
+        await this.sendChunk(index, signal);
+      }
+
+      this.setStatus('done');
+    } catch (error) {
+      // Pause and cancel set their own status before aborting
+      if (signal.aborted) return;
+      logger.error('File upload error:', error);
+      this.setStatus(
+        'error',
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+
+  private chunkBytes(index: number): number {
+    const start = index * this.chunkSize;
+    return Math.max(0, Math.min(this.chunkSize, this.file.size - start));
+  }
+
+  private async getReceivedChunks(signal: AbortSignal): Promise<Set<number>> {
+    try {
+      const response = await fetch(this.chunkUrl(), { signal });
+      if (!response.ok) return new Set();
+      const { received } = (await response.json()) as { received?: number[] };
+      return new Set(received ?? []);
+    } catch (error) {
+      if (signal.aborted) throw error;
+      // Without a status the whole file is sent again
+      return new Set();
+    }
+  }
+
+  private async sendChunk(index: number, signal: AbortSignal): Promise<void> {
+    const start = index * this.chunkSize;
+    const chunk = this.file.slice(start, start + this.chunkSize);
+    const url = this.chunkUrl(`?index=${index}&total=${this.totalChunks}`);
+
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = performance.now();
+      try {
+        const formData = new FormData();
+        formData.append('file', chunk, this.file.name);
+        const response = await fetch(url, {
+          method: 'POST',
+          body: formData,
+          signal,
+        });
+        if (!response.ok) {
+          throw new Error(`Upload failed: ${response.statusText}`);
+        }
+
+        const seconds = Math.max((performance.now() - startedAt) / 1000, 0.001);
+        const chunkSpeed = chunk.size / seconds;
+        // Smooth the speed so it does not jump around between chunks
+        this.speed =
+          this.speed === 0 ? chunkSpeed : this.speed * 0.7 + chunkSpeed * 0.3;
+        this.loaded += chunk.size;
+        this.onProgress(this.getProgress());
+        return;
+      } catch (error) {
+        if (signal.aborted || attempt >= MAX_CHUNK_ATTEMPTS) throw error;
+        await delay(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), signal);
+        if (signal.aborted) throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Keeps track of running uploads so they can be paused while the connection
+ * to the server is lost. The new session after a reconnect has new upload
+ * URLs, so each file input moves its uploads there (UploadTask.moveTo).
+ */
+export class UploadService {
+  private readonly tasks = new Set<UploadTask>();
+
+  upload(
+    uploadUrl: string,
+    file: File,
+    onProgress: (progress: UploadProgress) => void,
+    chunkSize = DEFAULT_CHUNK_SIZE
+  ): UploadTask {
+    const task = new UploadTask(
+      uploadUrl,
+      file,
+      progress => {
+        if (progress.status === 'done' || progress.status === 'cancelled') {
+          this.tasks.delete(task);
+        } else if (progress.status === 'uploading') {
+          // Retried tasks are tracked again
+          this.tasks.add(task);
+        }
+        onProgress(progress);
+      },
+      chunkSize
+    );
+    this.tasks.add(task);
+    void task.start();
+    return task;
+  }
+
+  pauseAll(): void {
+    this.tasks.forEach(task => task.pause());
+  }
+
+  get activeCount(): number {
+    return this.tasks.size;
+  }
+}
+
+export const uploadService = new UploadService();
@@ -8,11 +8,15 @@ export interface WidgetNode {
   events: string[];
 }
 
+/**
+ * Sends a widget event to the server.
+ * Resolves to false when the event could not be delivered or its handler failed.
+ */
 export type WidgetEventHandlerType = (
   eventName: string,
   widgetId: string,
   args: unknown[]
-) => void;
+) => Promise<boolean>;
 
 export interface MenuItem {
   label: string;
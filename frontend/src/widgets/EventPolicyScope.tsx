@@ -0,0 +1,18 @@
+import React, { useLayoutEffect } from 'react';
+import { EventPolicy, eventPolicyRegistry } from '@/services/eventPolicies';
+
+/**
+ * Registers the event policies of a widget while it is mounted. Registered in
+ * a layout effect, so they apply before the user can raise the first event.
+ */
+export const EventPolicyScope: React.FC<{
+  widgetId: string;
+  policies: EventPolicy[];
+  children: React.ReactNode;
+}> = ({ widgetId, policies, children }) => {
+  useLayoutEffect(() => {
+    eventPolicyRegistry.set(widgetId, policies);
+    return () => eventPolicyRegistry.delete(widgetId, policies);
+  }, [widgetId, policies]);
+  return children;
+};
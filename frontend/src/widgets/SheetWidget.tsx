@@ -8,7 +8,8 @@ import {
 } from '@/components/ui/sheet';
 import { getWidth } from '@/lib/styles';
 import { cn } from '@/lib/utils';
-import React, { useState } from 'react';
+import { unsavedChangesService } from '@/services/unsavedChangesService';
+import React, { useRef, useState } from 'react';
 
 interface SheetWidgetProps {
   id: string;
@@ -29,8 +30,12 @@ export const SheetWidget: React.FC<SheetWidgetProps> = ({
 }) => {
   const eventHandler = useEventHandler();
   const [isOpen, setIsOpen] = useState(true);
+  const contentRef = useRef<HTMLDivElement>(null);
 
-  const handleClose = () => {
+  const handleClose = async () => {
+    if (!(await unsavedChangesService.confirmDiscard(contentRef.current))) {
+      return;
+    }
     setIsOpen(false);
     // Delay the event handler to allow animation to complete
     setTimeout(() => eventHandler('OnClose', id, []), 300);
@@ -66,7 +71,10 @@ export const SheetWidget: React.FC<SheetWidgetProps> = ({
             {description && <SheetDescription>{description}</SheetDescription>}
           </SheetHeader>
         )}
-        <div className="flex-1 pb-0 pt-0 pl-4 pr-4 mt-4 overflow-y-auto">
+        <div
+          ref={contentRef}
+          className="flex-1 pb-0 pt-0 pl-4 pr-4 mt-4 overflow-y-auto"
+        >
           {slots.Content}
         </div>
       </SheetContent>
@@ -1,6 +1,13 @@
 import React, { Suspense } from 'react';
 import { WidgetNode } from '@/types/widgets';
 import { widgetMap } from '@/widgets/widgetMap';
+import { isRenderCounterEnabled, recordRender } from '@/lib/render-stats';
+import { EventPolicy } from '@/services/eventPolicies';
+import { EventPolicyScope } from './EventPolicyScope';
+import { WidgetElementCache } from './widgetMemo';
+
+const elementCache = new WidgetElementCache();
+const countRenders = isRenderCounterEnabled();
 
 const isLazyComponent = (
   component:
@@ -26,7 +33,24 @@ const flattenChildren = (children: WidgetNode[]): WidgetNode[] => {
   });
 };
 
+/**
+ * Renders a widget node. Widgets that did not change since the last render
+ * return the same element, so React skips their whole subtree.
+ */
 export const renderWidgetTree = (node: WidgetNode): React.ReactNode => {
+  const cached = elementCache.get(node);
+  if (cached !== undefined) {
+    if (countRenders) recordRender(node.id, node.type, true);
+    return cached;
+  }
+
+  if (countRenders) recordRender(node.id, node.type, false);
+  const element = renderWidget(node);
+  elementCache.set(node, element);
+  return element;
+};
+
+const renderWidget = (node: WidgetNode): React.ReactNode => {
   const Component = widgetMap[
     node.type as keyof typeof widgetMap
   ] as React.ComponentType<Record<string, unknown>>;
@@ -41,6 +65,10 @@ export const renderWidgetTree = (node: WidgetNode): React.ReactNode => {
     events: node.events,
   };
 
+  // Enforced by the EventHandlerProvider, so widgets never see them
+  const policies = props.eventPolicies as EventPolicy[] | undefined;
+  delete props.eventPolicies;
+
   if ('testId' in props && props.testId) {
     props['data-testid'] = props.testId;
     delete props.testId;
@@ -48,6 +76,12 @@ export const renderWidgetTree = (node: WidgetNode): React.ReactNode => {
 
   const children = flattenChildren(node.children || []);
 
+  // A field tracks the input it wraps for the enclosing form
+  if (node.type === 'Ivy.Field') {
+    props.inputId = children[0]?.id;
+    props.inputValue = children[0]?.props.value;
+  }
+
   // Process children, grouping by Slot widgets (original behavior)
   const slots = children.reduce(
     (acc, child) => {
@@ -71,6 +105,21 @@ export const renderWidgetTree = (node: WidgetNode): React.ReactNode => {
     </Component>
   );
 
+  const element = wrapLazy(Component, node, content);
+  return policies && policies.length > 0 ? (
+    <EventPolicyScope key={node.id} widgetId={node.id} policies={policies}>
+      {element}
+    </EventPolicyScope>
+  ) : (
+    element
+  );
+};
+
+const wrapLazy = (
+  Component: React.ComponentType<Record<string, unknown>>,
+  node: WidgetNode,
+  content: React.ReactElement
+): React.ReactNode => {
   // For chart components, provide a specific fallback
   if (isLazyComponent(Component) && isChartComponent(node.type)) {
     return (
@@ -1,8 +1,9 @@
-import { ReactNode } from 'react';
+import { ReactNode, useRef } from 'react';
 import { X, RotateCw } from 'lucide-react';
 import { useEventHandler } from '@/components/event-handler';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { getWidth } from '@/lib/styles';
+import { unsavedChangesService } from '@/services/unsavedChangesService';
 
 interface BladeWidgetProps {
   id: string;
@@ -26,11 +27,18 @@ export function BladeWidget({
   const handleMouseDown = (e: React.MouseEvent<HTMLDivElement, MouseEvent>) => {
     if (e.button === 1) {
       e.preventDefault();
-      eventHandler('OnClose', id, []);
+      void handleClose();
     }
   };
 
   const eventHandler = useEventHandler();
+  const bladeRef = useRef<HTMLDivElement>(null);
+
+  const handleClose = async () => {
+    if (await unsavedChangesService.confirmDiscard(bladeRef.current)) {
+      eventHandler('OnClose', id, []);
+    }
+  };
 
   const styles = {
     ...getWidth(width),
@@ -41,6 +49,7 @@ export function BladeWidget({
 
   return (
     <div
+      ref={bladeRef}
       style={styles}
       className={`flex flex-col bg-background border-r border-border h-full ${flexClass}`}
     >
@@ -61,7 +70,7 @@ export function BladeWidget({
           </button>
           {index > 0 && (
             <button
-              onClick={() => eventHandler('OnClose', id, [])}
+              onClick={() => void handleClose()}
               className="hover:bg-accent border border-transparent hover:border-border rounded-sm transition-colors h-9 w-9 inline-flex items-center justify-center cursor-pointer"
             >
               <X className="h-4 w-4" />
@@ -1,8 +1,11 @@
-import React, { useEffect, useState } from 'react';
+import React, { useRef } from 'react';
 import { ColorScheme } from './sharedUtils';
 import { getHeight, getWidth } from '@/lib/styles';
-import { useTheme } from '@/components/theme-provider';
 import ReactECharts from 'echarts-for-react';
+import { ChartToolbar, ChartZoomReset } from './ChartToolbar';
+import { generateDataZoom, useChartZoom } from './chartZoom';
+import { generateBrush, useChartEvents } from './chartEvents';
+import { useChartStream } from './chartStream';
 import {
   generateDataProps,
   getColors,
@@ -14,6 +17,8 @@ import {
   generateYAxis,
 } from './sharedUtils';
 import {
+  ChartStreamProps,
+  DataZoomProps,
   ChartType,
   XAxisProps,
   YAxisProps,
@@ -27,9 +32,11 @@ import {
 import { ChartData } from './chartTypes';
 import { getTransformValueFn } from './sharedUtils';
 import { ReferenceDot } from './chartTypes';
+import { useChartThemeColors } from './useChartThemeColors';
 
 interface AreaChartWidgetProps {
   id: string;
+  events?: string[];
   data: ChartData[];
   width?: string;
   height?: string;
@@ -43,9 +50,15 @@ interface AreaChartWidgetProps {
   referenceAreas?: MarkArea;
   referenceDots?: ReferenceDot;
   colorScheme: ColorScheme;
+  stream?: ChartStreamProps | null;
+  dataZoom?: DataZoomProps | null;
+  /** Whether the export toolbar is shown, true by default */
+  toolbar?: boolean;
 }
 
 const AreaChartWidget: React.FC<AreaChartWidgetProps> = ({
+  id,
+  events = [],
   data,
   width,
   height,
@@ -59,51 +72,12 @@ const AreaChartWidget: React.FC<AreaChartWidgetProps> = ({
   referenceAreas,
   referenceDots,
   colorScheme,
+  stream,
+  toolbar = true,
+  dataZoom,
 }) => {
-  const { theme } = useTheme();
-  const [themeColors, setThemeColors] = useState({
-    foreground: '#000000',
-    mutedForeground: '#666666',
-    fontSans: 'Geist, sans-serif',
-    background: '#ffffff',
-  });
-
-  useEffect(() => {
-    const getThemeColors = () => {
-      const root = document.documentElement;
-      const computedStyle = getComputedStyle(root);
-
-      // Use the theme value directly instead of checking DOM classes
-      const isDarkMode =
-        theme === 'dark' ||
-        (theme === 'system' &&
-          window.matchMedia('(prefers-color-scheme: dark)').matches);
-
-      return {
-        foreground:
-          computedStyle.getPropertyValue('--foreground').trim() ||
-          (isDarkMode ? '#f8f8f8' : '#000000'),
-        mutedForeground:
-          computedStyle.getPropertyValue('--muted-foreground').trim() ||
-          (isDarkMode ? '#a1a1aa' : '#666666'),
-        fontSans:
-          computedStyle.getPropertyValue('--font-sans').trim() ||
-          'Geist, sans-serif',
-        background:
-          computedStyle.getPropertyValue('--background').trim() ||
-          (isDarkMode ? '#000000' : '#ffffff'),
-      };
-    };
-
-    // Update colors on next frame to avoid synchronous setState in effect
-    const frame = requestAnimationFrame(() => {
-      setThemeColors(getThemeColors());
-    });
-
-    return () => {
-      cancelAnimationFrame(frame);
-    };
-  }, [theme]);
+  const { theme, themeColors } = useChartThemeColors();
+  const chartRef = useRef<ReactECharts>(null);
 
   // When height is Full (100%), use flex to expand. Otherwise use explicit height.
   const heightStyle = height ? getHeight(height) : {};
@@ -123,11 +97,20 @@ const AreaChartWidget: React.FC<AreaChartWidgetProps> = ({
     width: '100%',
   };
 
-  const { categories, valueKeys } = generateDataProps(data);
+  const { rows } = useChartStream(stream, data);
+  const { categoryKey, categories, valueKeys } = generateDataProps(rows);
+  const { range: zoomRange, onZoom, zoomed } = useChartZoom(dataZoom);
+  const { onEvents, hasBrush } = useChartEvents(
+    id,
+    events,
+    rows,
+    categoryKey,
+    onZoom
+  );
 
   const colors = getColors(colorScheme);
   const { transform, largeSpread, minValue, maxValue } =
-    getTransformValueFn(data);
+    getTransformValueFn(rows);
   // precompute
   const gradientColors = colors.map(color => ({
     opacity: 0.4,
@@ -156,15 +139,20 @@ const AreaChartWidget: React.FC<AreaChartWidgetProps> = ({
       showSymbol: false,
       areaStyle: gradientColors[i],
       emphasis: { focus: 'series' },
-      data: data.map(d => d[key]),
+      data: rows.map(d => d[key]),
       markPoint: referenceDots ?? {},
       markLine: referenceLines ?? {},
       markArea: referenceAreas ?? {},
     };
   });
 
+  const grid = generateEChartGrid(cartesianGrid);
   const option = {
-    grid: generateEChartGrid(cartesianGrid),
+    ...(hasBrush && generateBrush(false)),
+    // Redrawing on every update of a stream would animate constantly
+    ...(stream && { animation: false }),
+    grid,
+    ...(dataZoom && generateDataZoom(dataZoom, zoomRange, false, grid)),
     color: colors,
     tooltip: generateTooltip(tooltip, 'cross', {
       foreground: themeColors.foreground,
@@ -197,8 +185,23 @@ const AreaChartWidget: React.FC<AreaChartWidgetProps> = ({
   };
 
   return (
-    <div style={styles}>
-      <ReactECharts key={theme} option={option} style={chartStyles} />
+    <div style={styles} className="relative group">
+      {toolbar && (
+        <ChartToolbar
+          chartRef={chartRef}
+          data={rows}
+          background={themeColors.background}
+          fileName="area-chart"
+        />
+      )}
+      {zoomed && <ChartZoomReset chartRef={chartRef} />}
+      <ReactECharts
+        ref={chartRef}
+        key={theme}
+        option={option}
+        style={chartStyles}
+        onEvents={onEvents}
+      />
     </div>
   );
 };
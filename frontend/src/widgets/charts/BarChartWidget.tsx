@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useRef } from 'react';
 import {
   ColorScheme,
   generateTooltip,
@@ -12,12 +12,17 @@ import {
   generateEChartLegend,
   getColors,
 } from './sharedUtils';
-import { useTheme } from '@/components/theme-provider';
 import { getHeight, getWidth } from '@/lib/styles';
 import ReactECharts from 'echarts-for-react';
+import { ChartToolbar, ChartZoomReset } from './ChartToolbar';
+import { generateDataZoom, useChartZoom } from './chartZoom';
+import { generateBrush, useChartEvents } from './chartEvents';
+import { useChartStream } from './chartStream';
 import {
   BarProps,
   CartesianGridProps,
+  ChartStreamProps,
+  DataZoomProps,
   ChartType,
   LegendProps,
   MarkArea,
@@ -28,9 +33,11 @@ import {
   YAxisProps,
 } from './chartTypes';
 import { ChartData } from './chartTypes';
+import { useChartThemeColors } from './useChartThemeColors';
 
 interface BarChartWidgetProps {
   id: string;
+  events?: string[];
   data: ChartData[];
   width?: string;
   height?: string;
@@ -44,6 +51,10 @@ interface BarChartWidgetProps {
   referenceAreas?: MarkArea;
   referenceDots?: ReferenceDot;
   colorScheme: ColorScheme;
+  stream?: ChartStreamProps | null;
+  dataZoom?: DataZoomProps | null;
+  /** Whether the export toolbar is shown, true by default */
+  toolbar?: boolean;
   barGap?: number;
   barCategoryGap?: number | string;
   maxBarSize?: number;
@@ -52,6 +63,8 @@ interface BarChartWidgetProps {
 }
 
 const BarChartWidget: React.FC<BarChartWidgetProps> = ({
+  id,
+  events = [],
   data,
   width,
   height,
@@ -71,51 +84,12 @@ const BarChartWidget: React.FC<BarChartWidgetProps> = ({
   maxBarSize,
   reverseStackOrder,
   layout,
+  stream,
+  toolbar = true,
+  dataZoom,
 }) => {
-  const { theme } = useTheme();
-  const [themeColors, setThemeColors] = useState({
-    foreground: '#000000',
-    mutedForeground: '#666666',
-    fontSans: 'Geist, sans-serif',
-    background: '#ffffff',
-  });
-
-  useEffect(() => {
-    const getThemeColors = () => {
-      const root = document.documentElement;
-      const computedStyle = getComputedStyle(root);
-
-      // Use the theme value directly instead of checking DOM classes
-      const isDarkMode =
-        theme === 'dark' ||
-        (theme === 'system' &&
-          window.matchMedia('(prefers-color-scheme: dark)').matches);
-
-      return {
-        foreground:
-          computedStyle.getPropertyValue('--foreground').trim() ||
-          (isDarkMode ? '#f8f8f8' : '#000000'),
-        mutedForeground:
-          computedStyle.getPropertyValue('--muted-foreground').trim() ||
-          (isDarkMode ? '#a1a1aa' : '#666666'),
-        fontSans:
-          computedStyle.getPropertyValue('--font-sans').trim() ||
-          'Geist, sans-serif',
-        background:
-          computedStyle.getPropertyValue('--background').trim() ||
-          (isDarkMode ? '#000000' : '#ffffff'),
-      };
-    };
-
-    // Update colors on next frame to avoid synchronous setState in effect
-    const frame = requestAnimationFrame(() => {
-      setThemeColors(getThemeColors());
-    });
-
-    return () => {
-      cancelAnimationFrame(frame);
-    };
-  }, [theme]);
+  const { theme, themeColors } = useChartThemeColors();
+  const chartRef = useRef<ReactECharts>(null);
 
   // When height is Full (100%), use flex to expand. Otherwise use explicit height.
   const heightStyle = height ? getHeight(height) : {};
@@ -135,15 +109,31 @@ const BarChartWidget: React.FC<BarChartWidgetProps> = ({
     width: '100%',
   };
 
-  const { categories, valueKeys, transform, largeSpread, minValue, maxValue } =
-    generateDataProps(data);
+  const { rows } = useChartStream(stream, data);
+  const {
+    categoryKey,
+    categories,
+    valueKeys,
+    transform,
+    largeSpread,
+    minValue,
+    maxValue,
+  } = generateDataProps(rows);
+  const { range: zoomRange, onZoom, zoomed } = useChartZoom(dataZoom);
+  const { onEvents, hasBrush } = useChartEvents(
+    id,
+    events,
+    rows,
+    categoryKey,
+    onZoom
+  );
   const colors = getColors(colorScheme);
   const series = valueKeys.map((key, i) => ({
     name: key,
     type: ChartType.Bar,
     legendHoverLink: true,
     showBackground: true,
-    data: data.map(d => d[key]),
+    data: rows.map(d => d[key]),
     stack:
       bars && bars[i]?.stackId !== undefined
         ? String(bars[i].stackId)
@@ -162,8 +152,13 @@ const BarChartWidget: React.FC<BarChartWidgetProps> = ({
   }));
   const isVertical = layout?.toLowerCase() === 'vertical';
 
+  const grid = generateEChartGrid(cartesianGrid);
   const option = {
-    grid: generateEChartGrid(cartesianGrid),
+    ...(hasBrush && generateBrush(isVertical)),
+    // Redrawing on every update of a stream would animate constantly
+    ...(stream && { animation: false }),
+    grid,
+    ...(dataZoom && generateDataZoom(dataZoom, zoomRange, isVertical, grid)),
     color: colors,
     textStyle: generateTextStyle(themeColors.foreground, themeColors.fontSans),
     xAxis: generateXAxis(categories, xAxis, isVertical, {
@@ -196,8 +191,23 @@ const BarChartWidget: React.FC<BarChartWidgetProps> = ({
   };
 
   return (
-    <div style={styles}>
-      <ReactECharts key={theme} option={option} style={chartStyles} />
+    <div style={styles} className="relative group">
+      {toolbar && (
+        <ChartToolbar
+          chartRef={chartRef}
+          data={rows}
+          background={themeColors.background}
+          fileName="bar-chart"
+        />
+      )}
+      {zoomed && <ChartZoomReset chartRef={chartRef} />}
+      <ReactECharts
+        ref={chartRef}
+        key={theme}
+        option={option}
+        style={chartStyles}
+        onEvents={onEvents}
+      />
     </div>
   );
 };
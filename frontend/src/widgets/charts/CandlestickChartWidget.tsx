@@ -0,0 +1,137 @@
+import React, { useRef } from 'react';
+import ReactECharts from 'echarts-for-react';
+import { ChartToolbar, ChartZoomReset } from './ChartToolbar';
+import { generateDataZoom, useChartZoom } from './chartZoom';
+import {
+  generateCandlestickData,
+  generateEChartGrid,
+  generateEChartLegend,
+  generateTextStyle,
+  generateTooltip,
+  generateXAxis,
+  generateYAxis,
+  resolveColor,
+} from './sharedUtils';
+import { CandlestickChartWidgetProps, ChartType } from './chartTypes';
+import { generateBrush, useChartEvents } from './chartEvents';
+import { getChartStyles, useChartThemeColors } from './useChartThemeColors';
+
+const CandlestickChartWidget: React.FC<CandlestickChartWidgetProps> = ({
+  id,
+  events = [],
+  data,
+  width,
+  height,
+  categoryDataKey,
+  openDataKey,
+  highDataKey,
+  lowDataKey,
+  closeDataKey,
+  name,
+  upColor,
+  downColor,
+  cartesianGrid,
+  xAxis,
+  yAxis,
+  tooltip,
+  legend,
+  toolbar = true,
+  dataZoom,
+}) => {
+  const { theme, themeColors } = useChartThemeColors();
+  const chartRef = useRef<ReactECharts>(null);
+  const { styles, chartStyles } = getChartStyles(width, height);
+
+  const { categoryKey, categories, values } = generateCandlestickData(data, {
+    categoryDataKey,
+    openDataKey,
+    highDataKey,
+    lowDataKey,
+    closeDataKey,
+  });
+  const { range: zoomRange, onZoom, zoomed } = useChartZoom(dataZoom);
+  const { onEvents, hasBrush } = useChartEvents(
+    id,
+    events,
+    data,
+    categoryKey,
+    onZoom
+  );
+
+  const axisColors = {
+    mutedForeground: themeColors.mutedForeground,
+    fontSans: themeColors.fontSans,
+  };
+  const up = resolveColor(upColor ?? 'Green');
+  const down = resolveColor(downColor ?? 'Red');
+
+  const grid = generateEChartGrid(cartesianGrid);
+  const option = {
+    ...(hasBrush && generateBrush(false)),
+    grid,
+    ...(dataZoom && generateDataZoom(dataZoom, zoomRange, false, grid)),
+    textStyle: generateTextStyle(themeColors.foreground, themeColors.fontSans),
+    xAxis: generateXAxis(categories, xAxis, false, axisColors),
+    // Prices rarely start at zero, so the axis is scaled to the data
+    yAxis: {
+      ...generateYAxis(
+        false,
+        undefined,
+        0,
+        100,
+        yAxis,
+        false,
+        undefined,
+        axisColors
+      ),
+      min: undefined,
+      max: undefined,
+      scale: true,
+    },
+    legend: generateEChartLegend(legend, {
+      foreground: themeColors.foreground,
+      fontSans: themeColors.fontSans,
+    }),
+    tooltip: generateTooltip(tooltip, 'cross', {
+      foreground: themeColors.foreground,
+      fontSans: themeColors.fontSans,
+      background: themeColors.background,
+    }),
+    series: [
+      {
+        name: name ?? 'OHLC',
+        type: ChartType.Candlestick,
+        data: values,
+        itemStyle: {
+          color: up,
+          color0: down,
+          borderColor: up,
+          borderColor0: down,
+        },
+      },
+    ],
+  };
+
+  return (
+    <div style={styles} className="relative group">
+      {toolbar && (
+        <ChartToolbar
+          chartRef={chartRef}
+          data={data}
+          background={themeColors.background}
+          fileName="candlestick-chart"
+        />
+      )}
+      {zoomed && <ChartZoomReset chartRef={chartRef} />}
+      <ReactECharts
+        ref={chartRef}
+        key={theme}
+        option={option}
+        style={chartStyles}
+        onEvents={onEvents}
+      />
+    </div>
+  );
+};
+
+export default CandlestickChartWidget;
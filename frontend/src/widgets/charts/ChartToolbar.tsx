@@ -0,0 +1,101 @@
+import React from 'react';
+import ReactECharts from 'echarts-for-react';
+import { Download, ZoomOut } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { logger } from '@/lib/logger';
+import {
+  CHART_EXPORT_FORMATS,
+  ChartExportFormat,
+  exportChart,
+} from './chartExport';
+import { ChartData } from './chartTypes';
+
+interface ChartToolbarProps {
+  chartRef: React.RefObject<ReactECharts | null>;
+  data: ChartData[];
+  /** Background of the exported images, the background of the current theme */
+  background: string;
+  fileName: string;
+}
+
+/**
+ * Export menu shown over the top right corner of a chart while it is hovered.
+ * The chart needs the group class.
+ */
+export const ChartToolbar: React.FC<ChartToolbarProps> = ({
+  chartRef,
+  data,
+  background,
+  fileName,
+}) => {
+  const { toast } = useToast();
+
+  const handleExport = (format: ChartExportFormat) => {
+    const chart = chartRef.current?.getEchartsInstance();
+    if (!chart) return;
+    try {
+      exportChart(chart, data, format, background, fileName);
+    } catch (error) {
+      logger.error('Failed to export chart:', error);
+      toast({
+        title: 'Export Failed',
+        description:
+          error instanceof Error ? error.message : 'Failed to export chart',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="absolute top-0 right-0 z-10 opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" aria-label="Export chart">
+            <Download />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {(Object.keys(CHART_EXPORT_FORMATS) as ChartExportFormat[]).map(
+            format => (
+              <DropdownMenuItem
+                key={format}
+                onClick={() => handleExport(format)}
+              >
+                {CHART_EXPORT_FORMATS[format].label}
+              </DropdownMenuItem>
+            )
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+};
+
+/**
+ * Button over the top left corner of a zoomed chart that shows all data again
+ */
+export const ChartZoomReset: React.FC<{
+  chartRef: React.RefObject<ReactECharts | null>;
+}> = ({ chartRef }) => (
+  <div className="absolute top-0 left-0 z-10">
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={() =>
+        chartRef.current
+          ?.getEchartsInstance()
+          .dispatchAction({ type: 'dataZoom', start: 0, end: 100 })
+      }
+    >
+      <ZoomOut />
+      Reset zoom
+    </Button>
+  </div>
+);
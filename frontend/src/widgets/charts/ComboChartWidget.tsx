@@ -0,0 +1,120 @@
+import React, { useRef } from 'react';
+import ReactECharts from 'echarts-for-react';
+import { ChartToolbar, ChartZoomReset } from './ChartToolbar';
+import { generateDataZoom, useChartZoom } from './chartZoom';
+import {
+  generateComboSeries,
+  generateDataProps,
+  generateEChartGrid,
+  generateEChartLegend,
+  generateTextStyle,
+  generateTooltip,
+  generateXAxis,
+  generateYAxis,
+  getColors,
+} from './sharedUtils';
+import { ComboChartWidgetProps, YAxisProps } from './chartTypes';
+import { generateBrush, useChartEvents } from './chartEvents';
+import { getChartStyles, useChartThemeColors } from './useChartThemeColors';
+
+const ComboChartWidget: React.FC<ComboChartWidgetProps> = ({
+  id,
+  events = [],
+  data,
+  width,
+  height,
+  bars = [],
+  lines = [],
+  cartesianGrid,
+  xAxis,
+  yAxis = [],
+  tooltip,
+  legend,
+  colorScheme,
+  toolbar = true,
+  dataZoom,
+}) => {
+  const { theme, themeColors } = useChartThemeColors();
+  const chartRef = useRef<ReactECharts>(null);
+  const { styles, chartStyles } = getChartStyles(width, height);
+
+  const { categoryKey, categories } = generateDataProps(data);
+  const { range: zoomRange, onZoom, zoomed } = useChartZoom(dataZoom);
+  const { onEvents, hasBrush } = useChartEvents(
+    id,
+    events,
+    data,
+    categoryKey,
+    onZoom
+  );
+
+  const axisColors = {
+    mutedForeground: themeColors.mutedForeground,
+    fontSans: themeColors.fontSans,
+  };
+  const series = generateComboSeries(data, bars, lines);
+  const axisCount = Math.max(1, ...series.map(s => s.yAxisIndex + 1));
+
+  // The second axis goes to the right unless configured otherwise
+  const yAxes = Array.from({ length: axisCount }, (_, i) => {
+    const config = yAxis[i] ?? ({} as YAxisProps);
+    const orientation = config.orientation ?? (i === 0 ? 'Left' : 'Right');
+    return {
+      ...generateYAxis(
+        false,
+        undefined,
+        0,
+        100,
+        [{ ...config, orientation }],
+        false,
+        undefined,
+        axisColors
+      ),
+      splitLine: { show: i === 0 },
+    };
+  });
+
+  const grid = generateEChartGrid(cartesianGrid);
+  const option = {
+    ...(hasBrush && generateBrush(false)),
+    grid,
+    ...(dataZoom && generateDataZoom(dataZoom, zoomRange, false, grid)),
+    color: getColors(colorScheme),
+    textStyle: generateTextStyle(themeColors.foreground, themeColors.fontSans),
+    xAxis: generateXAxis(categories, xAxis, false, axisColors),
+    yAxis: yAxes,
+    legend: generateEChartLegend(legend, {
+      foreground: themeColors.foreground,
+      fontSans: themeColors.fontSans,
+    }),
+    tooltip: generateTooltip(tooltip, 'shadow', {
+      foreground: themeColors.foreground,
+      fontSans: themeColors.fontSans,
+      background: themeColors.background,
+    }),
+    series,
+  };
+
+  return (
+    <div style={styles} className="relative group">
+      {toolbar && (
+        <ChartToolbar
+          chartRef={chartRef}
+          data={data}
+          background={themeColors.background}
+          fileName="combo-chart"
+        />
+      )}
+      {zoomed && <ChartZoomReset chartRef={chartRef} />}
+      <ReactECharts
+        ref={chartRef}
+        key={theme}
+        option={option}
+        style={chartStyles}
+        onEvents={onEvents}
+      />
+    </div>
+  );
+};
+
+export default ComboChartWidget;
@@ -0,0 +1,168 @@
+import React, { useRef } from 'react';
+import ReactECharts from 'echarts-for-react';
+import { ChartToolbar } from './ChartToolbar';
+import {
+  generateAxisLabelStyle,
+  generateHeatmapCalendar,
+  generateHeatmapMatrix,
+  generateTextStyle,
+  generateTooltip,
+  getColors,
+  resolveColor,
+  resolveDataKey,
+} from './sharedUtils';
+import { ChartType, HeatmapChartWidgetProps } from './chartTypes';
+import { useChartEvents } from './chartEvents';
+import { getChartStyles, useChartThemeColors } from './useChartThemeColors';
+
+const HeatmapChartWidget: React.FC<HeatmapChartWidgetProps> = ({
+  id,
+  events = [],
+  data,
+  width,
+  height,
+  layout,
+  xDataKey,
+  yDataKey,
+  valueDataKey,
+  min,
+  max,
+  fill,
+  showLabels,
+  tooltip,
+  legend,
+  colorScheme,
+  toolbar = true,
+}) => {
+  const { theme, themeColors } = useChartThemeColors();
+  const chartRef = useRef<ReactECharts>(null);
+  const { styles, chartStyles } = getChartStyles(width, height);
+  const { onEvents } = useChartEvents(
+    id,
+    events,
+    data,
+    resolveDataKey(data[0], xDataKey)
+  );
+
+  const isCalendar = layout === 'Calendar';
+  const valueKey = resolveDataKey(data[0], valueDataKey);
+  const values = data.map(d => Number(d[valueKey]));
+  const color = resolveColor(fill) ?? getColors(colorScheme)[0] ?? '#2563eb';
+  const labelStyle = generateAxisLabelStyle(
+    themeColors.mutedForeground,
+    themeColors.fontSans
+  );
+
+  // Cells fade from transparent to the full color, the legend shows the scale
+  const visualMap = {
+    min: min ?? (values.length > 0 ? Math.min(...values) : 0),
+    max: max ?? (values.length > 0 ? Math.max(...values) : 0),
+    show: !!legend,
+    calculable: true,
+    orient: 'horizontal',
+    left: 'center',
+    bottom: 0,
+    inRange: { color: [color], colorAlpha: [0.1, 1] },
+    textStyle: labelStyle,
+  };
+
+  const coordinates = (() => {
+    if (isCalendar) {
+      const { items, range } = generateHeatmapCalendar(
+        data,
+        xDataKey,
+        valueDataKey
+      );
+      return {
+        calendar: {
+          range,
+          top: 40,
+          left: 40,
+          right: 20,
+          bottom: legend ? 60 : 20,
+          cellSize: ['auto', 'auto'],
+          itemStyle: { borderColor: themeColors.background, borderWidth: 2 },
+          splitLine: { show: false },
+          dayLabel: labelStyle,
+          monthLabel: labelStyle,
+          yearLabel: { show: false },
+        },
+        series: {
+          type: ChartType.Heatmap,
+          coordinateSystem: 'calendar',
+          data: items,
+        },
+      };
+    }
+
+    const { xCategories, yCategories, items } = generateHeatmapMatrix(
+      data,
+      xDataKey,
+      yDataKey,
+      valueDataKey
+    );
+    return {
+      grid: {
+        top: 10,
+        left: 2,
+        right: 2,
+        bottom: legend ? 60 : 10,
+        containLabel: true,
+      },
+      xAxis: {
+        type: 'category',
+        data: xCategories,
+        splitArea: { show: true },
+        axisLabel: labelStyle,
+      },
+      yAxis: {
+        type: 'category',
+        data: yCategories,
+        splitArea: { show: true },
+        axisLabel: labelStyle,
+      },
+      series: {
+        type: ChartType.Heatmap,
+        data: items,
+        label: { show: showLabels ?? false, ...labelStyle },
+        emphasis: { itemStyle: { shadowBlur: 6 } },
+      },
+    };
+  })();
+
+  const option = {
+    textStyle: generateTextStyle(themeColors.foreground, themeColors.fontSans),
+    tooltip: {
+      ...generateTooltip(tooltip, undefined, {
+        foreground: themeColors.foreground,
+        fontSans: themeColors.fontSans,
+        background: themeColors.background,
+      }),
+      trigger: 'item',
+    },
+    visualMap,
+    ...coordinates,
+  };
+
+  return (
+    <div style={styles} className="relative group">
+      {toolbar && (
+        <ChartToolbar
+          chartRef={chartRef}
+          data={data}
+          background={themeColors.background}
+          fileName="heatmap-chart"
+        />
+      )}
+      <ReactECharts
+        ref={chartRef}
+        key={theme}
+        option={option}
+        style={chartStyles}
+        onEvents={onEvents}
+      />
+    </div>
+  );
+};
+
+export default HeatmapChartWidget;
@@ -1,7 +1,10 @@
-import React, { useEffect, useState } from 'react';
+import React, { useRef } from 'react';
 import ReactECharts from 'echarts-for-react';
+import { ChartToolbar, ChartZoomReset } from './ChartToolbar';
+import { generateDataZoom, useChartZoom } from './chartZoom';
+import { generateBrush, useChartEvents } from './chartEvents';
+import { useChartStream } from './chartStream';
 import { getHeight, getWidth } from '@/lib/styles';
-import { useTheme } from '@/components/theme-provider';
 import {
   generateDataProps,
   generateEChartGrid,
@@ -15,8 +18,11 @@ import {
   getTransformValueFn,
 } from './sharedUtils';
 import { LineChartWidgetProps } from './chartTypes';
+import { useChartThemeColors } from './useChartThemeColors';
 
 const LineChartWidget: React.FC<LineChartWidgetProps> = ({
+  id,
+  events = [],
   data,
   width,
   height,
@@ -30,51 +36,12 @@ const LineChartWidget: React.FC<LineChartWidgetProps> = ({
   referenceAreas,
   referenceDots,
   colorScheme,
+  stream,
+  toolbar = true,
+  dataZoom,
 }) => {
-  const { theme } = useTheme();
-  const [themeColors, setThemeColors] = useState({
-    foreground: '#000000',
-    mutedForeground: '#666666',
-    fontSans: 'Geist, sans-serif',
-    background: '#ffffff',
-  });
-
-  useEffect(() => {
-    const getThemeColors = () => {
-      const root = document.documentElement;
-      const computedStyle = getComputedStyle(root);
-
-      // Use the theme value directly instead of checking DOM classes
-      const isDarkMode =
-        theme === 'dark' ||
-        (theme === 'system' &&
-          window.matchMedia('(prefers-color-scheme: dark)').matches);
-
-      return {
-        foreground:
-          computedStyle.getPropertyValue('--foreground').trim() ||
-          (isDarkMode ? '#f8f8f8' : '#000000'),
-        mutedForeground:
-          computedStyle.getPropertyValue('--muted-foreground').trim() ||
-          (isDarkMode ? '#a1a1aa' : '#666666'),
-        fontSans:
-          computedStyle.getPropertyValue('--font-sans').trim() ||
-          'Geist, sans-serif',
-        background:
-          computedStyle.getPropertyValue('--background').trim() ||
-          (isDarkMode ? '#000000' : '#ffffff'),
-      };
-    };
-
-    // Update colors on next frame to avoid synchronous setState in effect
-    const frame = requestAnimationFrame(() => {
-      setThemeColors(getThemeColors());
-    });
-
-    return () => {
-      cancelAnimationFrame(frame);
-    };
-  }, [theme]);
+  const { theme, themeColors } = useChartThemeColors();
+  const chartRef = useRef<ReactECharts>(null);
 
   // When height is Full (100%), use flex to expand. Otherwise use explicit height.
   const heightStyle = height ? getHeight(height) : {};
@@ -95,12 +62,26 @@ const LineChartWidget: React.FC<LineChartWidgetProps> = ({
   };
 
   const colors = getColors(colorScheme);
-  const { categories, valueKeys } = generateDataProps(data);
+  const { rows } = useChartStream(stream, data);
+  const { categoryKey, categories, valueKeys } = generateDataProps(rows);
+  const { range: zoomRange, onZoom, zoomed } = useChartZoom(dataZoom);
+  const { onEvents, hasBrush } = useChartEvents(
+    id,
+    events,
+    rows,
+    categoryKey,
+    onZoom
+  );
   const { transform, largeSpread, minValue, maxValue } =
-    getTransformValueFn(data);
+    getTransformValueFn(rows);
 
+  const grid = generateEChartGrid(cartesianGrid);
   const option = {
-    grid: generateEChartGrid(cartesianGrid),
+    ...(hasBrush && generateBrush(false)),
+    // Redrawing on every update of a stream would animate constantly
+    ...(stream && { animation: false }),
+    grid,
+    ...(dataZoom && generateDataZoom(dataZoom, zoomRange, false, grid)),
     xAxis: generateXAxis(categories as string[], xAxis, false, {
       mutedForeground: themeColors.mutedForeground,
       fontSans: themeColors.fontSans,
@@ -130,7 +111,7 @@ const LineChartWidget: React.FC<LineChartWidgetProps> = ({
     textStyle: generateTextStyle(themeColors.foreground, themeColors.fontSans),
     color: colors,
     series: generateSeries(
-      data,
+      rows,
       valueKeys,
       lines,
       transform,
@@ -141,8 +122,23 @@ const LineChartWidget: React.FC<LineChartWidgetProps> = ({
   };
 
   return (
-    <div style={styles}>
-      <ReactECharts key={theme} option={option} style={chartStyles} />
+    <div style={styles} className="relative group">
+      {toolbar && (
+        <ChartToolbar
+          chartRef={chartRef}
+          data={rows}
+          background={themeColors.background}
+          fileName="line-chart"
+        />
+      )}
+      {zoomed && <ChartZoomReset chartRef={chartRef} />}
+      <ReactECharts
+        ref={chartRef}
+        key={theme}
+        option={option}
+        style={chartStyles}
+        onEvents={onEvents}
+      />
     </div>
   );
 };
@@ -1,12 +1,16 @@
-import React, { useEffect, useState } from 'react';
+import React, { useRef } from 'react';
 import { getHeight, getWidth } from '@/lib/styles';
-import { useTheme } from '@/components/theme-provider';
 import ReactECharts from 'echarts-for-react';
+import { ChartToolbar } from './ChartToolbar';
+import { useChartEvents } from './chartEvents';
 import { getColors, generateTextStyle } from './sharedUtils';
 import { ChartType, PieChartWidgetProps } from './chartTypes';
 import { generateDataProps } from './sharedUtils';
+import { useChartThemeColors } from './useChartThemeColors';
 
 const PieChartWidget: React.FC<PieChartWidgetProps> = ({
+  id,
+  events = [],
   data,
   width,
   height,
@@ -15,47 +19,10 @@ const PieChartWidget: React.FC<PieChartWidgetProps> = ({
   legend,
   colorScheme,
   total,
+  toolbar = true,
 }) => {
-  const { theme } = useTheme();
-  const [themeColors, setThemeColors] = useState({
-    foreground: '#000000',
-    fontSans: 'Geist, sans-serif',
-    background: '#ffffff',
-  });
-
-  useEffect(() => {
-    const getThemeColors = () => {
-      const root = document.documentElement;
-      const computedStyle = getComputedStyle(root);
-
-      // Use the theme value directly instead of checking DOM classes
-      const isDarkMode =
-        theme === 'dark' ||
-        (theme === 'system' &&
-          window.matchMedia('(prefers-color-scheme: dark)').matches);
-
-      return {
-        foreground:
-          computedStyle.getPropertyValue('--foreground').trim() ||
-          (isDarkMode ? '#f8f8f8' : '#000000'),
-        fontSans:
-          computedStyle.getPropertyValue('--font-sans').trim() ||
-          'Geist, sans-serif',
-        background:
-          computedStyle.getPropertyValue('--background').trim() ||
-          (isDarkMode ? '#000000' : '#ffffff'),
-      };
-    };
-
-    // Update colors on next frame to avoid synchronous setState in effect
-    const frame = requestAnimationFrame(() => {
-      setThemeColors(getThemeColors());
-    });
-
-    return () => {
-      cancelAnimationFrame(frame);
-    };
-  }, [theme]);
+  const { theme, themeColors } = useChartThemeColors();
+  const chartRef = useRef<ReactECharts>(null);
 
   // When height is Full (100%), use flex to expand. Otherwise use explicit height.
   const heightStyle = height ? getHeight(height) : {};
@@ -75,7 +42,9 @@ const PieChartWidget: React.FC<PieChartWidgetProps> = ({
     width: '100%',
   };
 
-  const { valueKeys } = generateDataProps(data);
+  const { categoryKey, valueKeys } = generateDataProps(data);
+  // Pie charts have no axis to brush, so only clicks and legend toggles apply
+  const { onEvents } = useChartEvents(id, events, data, categoryKey);
 
   const colors = getColors(colorScheme);
 
@@ -180,8 +149,22 @@ const PieChartWidget: React.FC<PieChartWidgetProps> = ({
   };
 
   return (
-    <div style={styles}>
-      <ReactECharts key={theme} option={option} style={chartStyles} />
+    <div style={styles} className="relative group">
+      {toolbar && (
+        <ChartToolbar
+          chartRef={chartRef}
+          data={data}
+          background={themeColors.background}
+          fileName="pie-chart"
+        />
+      )}
+      <ReactECharts
+        ref={chartRef}
+        key={theme}
+        option={option}
+        style={chartStyles}
+        onEvents={onEvents}
+      />
     </div>
   );
 };
@@ -0,0 +1,139 @@
+import React, { useRef } from 'react';
+import { isEqual } from 'lodash';
+import ReactECharts from 'echarts-for-react';
+import { ChartToolbar } from './ChartToolbar';
+import {
+  generateEChartGrid,
+  generateEChartLegend,
+  generateScatterSeries,
+  generateTextStyle,
+  generateTooltip,
+  generateXAxis,
+  generateYAxis,
+  getColors,
+  resolveDataKey,
+} from './sharedUtils';
+import { ChartData, ScatterChartWidgetProps } from './chartTypes';
+import { useChartEvents } from './chartEvents';
+import { useChartStream } from './chartStream';
+import { getChartStyles, useChartThemeColors } from './useChartThemeColors';
+
+const ScatterChartWidget: React.FC<ScatterChartWidgetProps> = ({
+  id,
+  events = [],
+  data,
+  width,
+  height,
+  scatters = [],
+  cartesianGrid,
+  xAxis,
+  yAxis,
+  tooltip,
+  legend,
+  colorScheme,
+  stream,
+  toolbar = true,
+}) => {
+  const { theme, themeColors } = useChartThemeColors();
+  const { styles, chartStyles } = getChartStyles(width, height);
+
+  const chartRef = useRef<ReactECharts>(null);
+  // Appended points are added to the chart as they are, without a full update
+  const appendRows = (rows: ChartData[], offset: number) => {
+    const chart = chartRef.current?.getEchartsInstance();
+    if (!chart) return false;
+    generateScatterSeries(rows, scatters, offset).forEach(
+      (series, seriesIndex) => {
+        if (series.data.length > 0) {
+          chart.appendData({ seriesIndex, data: series.data });
+        }
+      }
+    );
+    return true;
+  };
+  const { rows, consumeAppend } = useChartStream(
+    stream,
+    data,
+    scatters[0]?.xDataKey,
+    appendRows
+  );
+
+  const categoryKey = scatters[0]
+    ? resolveDataKey(rows[0], scatters[0].xDataKey)
+    : '';
+  const { onEvents } = useChartEvents(id, events, rows, categoryKey);
+
+  const axisColors = {
+    mutedForeground: themeColors.mutedForeground,
+    fontSans: themeColors.fontSans,
+  };
+  // Both axes of a scatter chart are value axes scaled to the data
+  const x = generateXAxis([], xAxis, false, axisColors);
+  const y = generateYAxis(
+    false,
+    undefined,
+    0,
+    100,
+    yAxis,
+    false,
+    undefined,
+    axisColors
+  );
+
+  const option = {
+    grid: generateEChartGrid(cartesianGrid),
+    color: getColors(colorScheme),
+    textStyle: generateTextStyle(themeColors.foreground, themeColors.fontSans),
+    xAxis: {
+      ...x,
+      type: 'value',
+      data: undefined,
+      scale: true,
+      axisLabel: { ...x.axisLabel, formatter: undefined },
+    },
+    yAxis: { ...y, min: undefined, max: undefined, scale: true },
+    legend: generateEChartLegend(legend, {
+      foreground: themeColors.foreground,
+      fontSans: themeColors.fontSans,
+    }),
+    tooltip: {
+      ...generateTooltip(tooltip, 'cross', {
+        foreground: themeColors.foreground,
+        fontSans: themeColors.fontSans,
+        background: themeColors.background,
+      }),
+      trigger: 'item',
+    },
+    ...(stream && { animation: false }),
+    series: generateScatterSeries(rows, scatters),
+  };
+
+  return (
+    <div style={styles} className="relative group">
+      {toolbar && (
+        <ChartToolbar
+          chartRef={chartRef}
+          data={rows}
+          background={themeColors.background}
+          fileName="scatter-chart"
+        />
+      )}
+      <ReactECharts
+        ref={chartRef}
+        key={theme}
+        option={option}
+        style={chartStyles}
+        onEvents={onEvents}
+        shouldSetOption={(previous, next) =>
+          !consumeAppend() ||
+          !isEqual(
+            { ...previous.option, series: undefined },
+            { ...next.option, series: undefined }
+          )
+        }
+      />
+    </div>
+  );
+};
+
+export default ScatterChartWidget;
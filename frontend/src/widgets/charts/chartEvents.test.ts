@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toBrushSelection,
+  toChartZoom,
+  toLegendToggle,
+  toPointClick,
+} from './chartEvents';
+
+const data = [
+  { month: 'Jan', sales: 10, costs: 4 },
+  { month: 'Feb', sales: 12, costs: 5 },
+  { month: 'Mar', sales: 9, costs: 6 },
+  { month: 'Apr', sales: 15, costs: 7 },
+];
+
+describe('chartEvents', () => {
+  describe('toPointClick', () => {
+    it('should include the row of the clicked point', () => {
+      expect(
+        toPointClick(
+          {
+            componentType: 'series',
+            seriesName: 'sales',
+            name: 'Feb',
+            value: 12,
+            dataIndex: 1,
+          },
+          data
+        )
+      ).toEqual({
+        series: 'sales',
+        category: 'Feb',
+        value: 12,
+        dataIndex: 1,
+        row: data[1],
+      });
+    });
+
+    it('should use the row index of series showing a subset of rows', () => {
+      const click = toPointClick(
+        {
+          componentType: 'series',
+          dataIndex: 0,
+          data: { value: [9, 15], rowIndex: 3 },
+        },
+        data
+      );
+      expect(click?.dataIndex).toBe(3);
+      expect(click?.row).toBe(data[3]);
+    });
+
+    it('should ignore clicks outside the series', () => {
+      expect(toPointClick({ componentType: 'markLine' }, data)).toBeNull();
+    });
+  });
+
+  describe('toBrushSelection', () => {
+    it('should select the rows in the brushed range', () => {
+      expect(
+        toBrushSelection({ areas: [{ coordRange: [2, 1] }] }, data, 'month')
+      ).toEqual({
+        startIndex: 1,
+        endIndex: 2,
+        categories: ['Feb', 'Mar'],
+        rows: [data[1], data[2]],
+      });
+    });
+
+    it('should clamp the range to the data', () => {
+      const selection = toBrushSelection(
+        { areas: [{ coordRange: [-1, 10] }] },
+        data,
+        'month'
+      );
+      expect(selection.startIndex).toBe(0);
+      expect(selection.endIndex).toBe(3);
+      expect(selection.rows).toHaveLength(4);
+    });
+
+    it('should report a cleared brush as an empty selection', () => {
+      expect(toBrushSelection({ areas: [] }, data, 'month')).toEqual({
+        startIndex: -1,
+        endIndex: -1,
+        categories: [],
+        rows: [],
+      });
+    });
+  });
+
+  describe('toChartZoom', () => {
+    it('should map the zoomed range to rows', () => {
+      expect(toChartZoom({ start: 25, end: 75 }, data, 'month')).toEqual({
+        start: 25,
+        end: 75,
+        startIndex: 1,
+        endIndex: 2,
+        startCategory: 'Feb',
+        endCategory: 'Mar',
+      });
+    });
+
+    it('should read the range of wheel and touch zooms from the batch', () => {
+      const zoom = toChartZoom(
+        { batch: [{ start: 0, end: 40 }] },
+        data,
+        'month'
+      );
+      expect(zoom.startIndex).toBe(0);
+      expect(zoom.endIndex).toBe(1);
+    });
+
+    it('should report no rows without data', () => {
+      expect(toChartZoom({ start: 0, end: 100 }, [], 'month')).toEqual({
+        start: 0,
+        end: 100,
+        startIndex: -1,
+        endIndex: -1,
+      });
+    });
+  });
+
+  it('should map legend toggles', () => {
+    expect(
+      toLegendToggle({ name: 'costs', selected: { sales: true, costs: false } })
+    ).toEqual({
+      series: 'costs',
+      selected: false,
+      selectedSeries: { sales: true, costs: false },
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useEventHandler } from '@/components/event-handler';
+import { ChartData } from './chartTypes';
+
+export interface ChartPointClick {
+  series?: string;
+  category?: string;
+  value?: unknown;
+  dataIndex: number;
+  /** The ChartData row of the clicked point or slice */
+  row?: ChartData;
+}
+
+export interface ChartBrushSelection {
+  /** Index of the first selected row, -1 when the selection was cleared */
+  startIndex: number;
+  /** Index of the last selected row, -1 when the selection was cleared */
+  endIndex: number;
+  categories: string[];
+  rows: ChartData[];
+}
+
+export interface ChartLegendToggle {
+  series: string;
+  selected: boolean;
+  /** Visibility of every series after the toggle */
+  selectedSeries: Record<string, boolean>;
+}
+
+export interface ChartZoom {
+  /** Start of the visible range, in percent of the data */
+  start: number;
+  /** End of the visible range, in percent of the data */
+  end: number;
+  /** Index of the first visible row, -1 without data */
+  startIndex: number;
+  /** Index of the last visible row, -1 without data */
+  endIndex: number;
+  startCategory?: string;
+  endCategory?: string;
+}
+
+interface EChartsClickParams {
+  componentType?: string;
+  seriesName?: string;
+  name?: string;
+  value?: unknown;
+  dataIndex?: number;
+  /** Item of the series data, which carries the row index when the series shows a subset of the rows */
+  data?: unknown;
+}
+
+interface EChartsBrushEndParams {
+  areas?: { coordRange?: number[] | number[][] }[];
+}
+
+interface EChartsDataZoomParams {
+  start?: number;
+  end?: number;
+  /** Zooming with the mouse wheel or touch reports its range in a batch */
+  batch?: { start?: number; end?: number }[];
+}
+
+interface EChartsLegendSelectChangedParams {
+  name: string;
+  selected: Record<string, boolean>;
+}
+
+export function toPointClick(
+  params: EChartsClickParams,
+  data: ChartData[]
+): ChartPointClick | null {
+  if (params.componentType !== 'series' || params.dataIndex === undefined) {
+    return null;
+  }
+  const rowIndex =
+    typeof params.data === 'object' &&
+    params.data !== null &&
+    'rowIndex' in params.data &&
+    typeof params.data.rowIndex === 'number'
+      ? params.data.rowIndex
+      : params.dataIndex;
+  return {
+    series: params.seriesName,
+    category: params.name,
+    value: params.value,
+    dataIndex: rowIndex,
+    row: data[rowIndex],
+  };
+}
+
+/**
+ * Maps the brushed range of a category axis to the rows in it
+ */
+export function toBrushSelection(
+  params: EChartsBrushEndParams,
+  data: ChartData[],
+  categoryKey: string
+): ChartBrushSelection {
+  const range = params.areas?.[0]?.coordRange;
+  if (!range || range.length < 2 || Array.isArray(range[0])) {
+    return { startIndex: -1, endIndex: -1, categories: [], rows: [] };
+  }
+
+  const last = data.length - 1;
+  const [from, to] = (range as number[]).map(index =>
+    Math.min(Math.max(Math.round(index), 0), last)
+  );
+  const startIndex = Math.min(from, to);
+  const endIndex = Math.max(from, to);
+  const rows = data.slice(startIndex, endIndex + 1);
+
+  return {
+    startIndex,
+    endIndex,
+    categories: rows.map(row => String(row[categoryKey] ?? '')),
+    rows,
+  };
+}
+
+export function toLegendToggle(
+  params: EChartsLegendSelectChangedParams
+): ChartLegendToggle {
+  return {
+    series: params.name,
+    selected: params.selected[params.name] ?? true,
+    selectedSeries: params.selected,
+  };
+}
+
+/**
+ * Maps the zoomed range of a category axis to the rows in it
+ */
+export function toChartZoom(
+  params: EChartsDataZoomParams,
+  data: ChartData[],
+  categoryKey: string
+): ChartZoom {
+  const range = params.batch?.[0] ?? params;
+  const start = range.start ?? 0;
+  const end = range.end ?? 100;
+  if (data.length === 0) {
+    return { start, end, startIndex: -1, endIndex: -1 };
+  }
+
+  const last = data.length - 1;
+  const toIndex = (percent: number) =>
+    Math.min(Math.max(Math.round((percent / 100) * last), 0), last);
+  const startIndex = toIndex(start);
+  const endIndex = Math.max(toIndex(end), startIndex);
+  return {
+    start,
+    end,
+    startIndex,
+    endIndex,
+    startCategory: String(data[startIndex][categoryKey] ?? ''),
+    endCategory: String(data[endIndex][categoryKey] ?? ''),
+  };
+}
+
+/**
+ * Brush option for range selection along the category axis of a cartesian chart
+ */
+export function generateBrush(vertical: boolean) {
+  const type = vertical ? 'lineY' : 'lineX';
+  return {
+    brush: {
+      toolbox: [type, 'clear'],
+      ...(vertical ? { yAxisIndex: 0 } : { xAxisIndex: 0 }),
+    },
+    toolbox: {
+      show: true,
+      // Leaves room for the export toolbar over the top right corner
+      right: 40,
+      top: 0,
+      feature: { brush: { type: [type, 'clear'] } },
+    },
+  };
+}
+
+/**
+ * Forwards point clicks, brush selections, legend toggles and zooms of a chart to the server
+ * Only the events the server handles are bound. The handlers read the latest data
+ * through a ref so the echarts instance is not re-created on every render.
+ * onZoom, which must not change between renders, follows the zoom of a zoomable chart.
+ */
+export function useChartEvents(
+  id: string,
+  events: string[],
+  data: ChartData[],
+  categoryKey: string,
+  onZoom?: (zoom: ChartZoom) => void
+) {
+  const eventHandler = useEventHandler();
+  const dataRef = useRef({ data, categoryKey });
+  useEffect(() => {
+    dataRef.current = { data, categoryKey };
+  }, [data, categoryKey]);
+
+  const hasPointClick = events.includes('OnPointClick');
+  const hasBrush = events.includes('OnBrush');
+  const hasLegendToggle = events.includes('OnLegendToggle');
+  const hasZoom = events.includes('OnZoom');
+
+  const onEvents = useMemo(() => {
+    const handlers: Record<string, (params: never) => void> = {};
+    if (hasPointClick) {
+      handlers.click = (params: EChartsClickParams) => {
+        const click = toPointClick(params, dataRef.current.data);
+        if (click) eventHandler('OnPointClick', id, [click]);
+      };
+    }
+    if (hasBrush) {
+      const sendSelection = (params: EChartsBrushEndParams) => {
+        const { data, categoryKey } = dataRef.current;
+        eventHandler('OnBrush', id, [
+          toBrushSelection(params, data, categoryKey),
+        ]);
+      };
+      handlers.brushEnd = sendSelection;
+      // Clearing the brush raises no brushEnd, only a brush event without areas
+      handlers.brush = (params: EChartsBrushEndParams) => {
+        if (!params.areas?.length) sendSelection(params);
+      };
+    }
+    if (hasLegendToggle) {
+      handlers.legendselectchanged = (
+        params: EChartsLegendSelectChangedParams
+      ) => eventHandler('OnLegendToggle', id, [toLegendToggle(params)]);
+    }
+    if (hasZoom || onZoom) {
+      handlers.datazoom = (params: EChartsDataZoomParams) => {
+        const { data, categoryKey } = dataRef.current;
+        const zoom = toChartZoom(params, data, categoryKey);
+        onZoom?.(zoom);
+        if (hasZoom) eventHandler('OnZoom', id, [zoom]);
+      };
+    }
+    return handlers;
+  }, [
+    id,
+    eventHandler,
+    hasPointClick,
+    hasBrush,
+    hasLegendToggle,
+    hasZoom,
+    onZoom,
+  ]);
+
+  return { onEvents, hasBrush };
+}
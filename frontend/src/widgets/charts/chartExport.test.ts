@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { chartDataToCsv } from './chartExport';
+
+describe('chartExport', () => {
+  describe('chartDataToCsv', () => {
+    it('should write a header and a line per row', () => {
+      expect(
+        chartDataToCsv([
+          { month: 'Jan', sales: 10 },
+          { month: 'Feb', sales: 12.5 },
+        ])
+      ).toBe('month,sales\r\nJan,10\r\nFeb,12.5');
+    });
+
+    it('should include keys missing from the first row', () => {
+      expect(
+        chartDataToCsv([{ month: 'Jan' }, { month: 'Feb', sales: 12 }])
+      ).toBe('month,sales\r\nJan,\r\nFeb,12');
+    });
+
+    it('should quote values with separators and quotes', () => {
+      expect(chartDataToCsv([{ name: 'Smith, "Jr"' }])).toBe(
+        'name\r\n"Smith, ""Jr"""'
+      );
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import * as echarts from 'echarts';
+import { decodeBase64, saveBlob } from '@/services/downloadService';
+import { ChartData } from './chartTypes';
+
+export type ChartExportFormat = 'png' | 'svg' | 'csv';
+
+export const CHART_EXPORT_FORMATS: Record<
+  ChartExportFormat,
+  { label: string; extension: string; mimeType: string }
+> = {
+  png: { label: 'PNG image', extension: 'png', mimeType: 'image/png' },
+  svg: { label: 'SVG image', extension: 'svg', mimeType: 'image/svg+xml' },
+  csv: {
+    label: 'CSV data',
+    extension: 'csv',
+    mimeType: 'text/csv;charset=utf-8',
+  },
+};
+
+function formatCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes chart data as RFC 4180 CSV, with a column for every key in the
+ * order the keys first appear
+ */
+export function chartDataToCsv(data: ChartData[]): string {
+  const keys: string[] = [];
+  data.forEach(row => {
+    Object.keys(row).forEach(key => {
+      if (!keys.includes(key)) keys.push(key);
+    });
+  });
+  const lines = data.map(row =>
+    keys.map(key => formatCsvValue(row[key])).join(',')
+  );
+  return [keys.map(formatCsvValue).join(','), ...lines].join('\r\n');
+}
+
+/**
+ * Renders the chart as an image on the background of the current theme,
+ * without the echarts toolbox. SVG is rendered by a temporary instance, as
+ * the charts draw on a canvas.
+ */
+export function createChartImage(
+  chart: echarts.ECharts,
+  format: 'png' | 'svg',
+  backgroundColor: string
+): Blob {
+  if (format === 'png') {
+    const url = chart.getDataURL({
+      type: 'png',
+      pixelRatio: 2,
+      backgroundColor,
+      excludeComponents: ['toolbox'],
+    });
+    return new Blob([decodeBase64(url.slice(url.indexOf(',') + 1))], {
+      type: CHART_EXPORT_FORMATS.png.mimeType,
+    });
+  }
+
+  const svgChart = echarts.init(null, null, {
+    renderer: 'svg',
+    ssr: true,
+    width: chart.getWidth(),
+    height: chart.getHeight(),
+  });
+  try {
+    svgChart.setOption({
+      ...chart.getOption(),
+      backgroundColor,
+      animation: false,
+      toolbox: { show: false },
+    });
+    return new Blob([svgChart.renderToSVGString()], {
+      type: CHART_EXPORT_FORMATS.svg.mimeType,
+    });
+  } finally {
+    svgChart.dispose();
+  }
+}
+
+/**
+ * Saves the chart image or its data as a file
+ */
+export function exportChart(
+  chart: echarts.ECharts,
+  data: ChartData[],
+  format: ChartExportFormat,
+  backgroundColor: string,
+  fileName: string
+): void {
+  const blob =
+    format === 'csv'
+      ? // Prefix a BOM so Excel detects UTF-8 when opening the CSV
+        new Blob(['\uFEFF' + chartDataToCsv(data)], {
+          type: CHART_EXPORT_FORMATS.csv.mimeType,
+        })
+      : createChartImage(chart, format, backgroundColor);
+  saveBlob(blob, `${fileName}.${CHART_EXPORT_FORMATS[format].extension}`);
+}
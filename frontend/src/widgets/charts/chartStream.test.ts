@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { applyChartData, applyChartWindow } from './chartStream';
+
+const rows = [
+  { time: '2024-01-01T10:00:00Z', cpu: 10 },
+  { time: '2024-01-01T10:00:01Z', cpu: 12 },
+  { time: '2024-01-01T10:00:02Z', cpu: 9 },
+];
+
+describe('chartStream', () => {
+  describe('applyChartData', () => {
+    it('should append rows after trimming the start', () => {
+      const row = { time: '2024-01-01T10:00:03Z', cpu: 15 };
+      expect(
+        applyChartData(rows, { streamId: 's', rows: [row], trim: 2 })
+      ).toEqual([rows[2], row]);
+    });
+
+    it('should replace the rows on reset', () => {
+      expect(
+        applyChartData(rows, { streamId: 's', rows: [rows[0]], reset: true })
+      ).toEqual([rows[0]]);
+    });
+
+    it('should keep the rows when nothing changes', () => {
+      expect(applyChartData(rows, { streamId: 's', rows: [] })).toBe(rows);
+    });
+  });
+
+  describe('applyChartWindow', () => {
+    it('should keep the newest rows up to the maximum', () => {
+      expect(applyChartWindow(rows, 2)).toEqual([rows[1], rows[2]]);
+      expect(applyChartWindow(rows, 5)).toBe(rows);
+    });
+
+    it('should keep the rows within the window of the newest row', () => {
+      expect(applyChartWindow(rows, null, 1000, 'time')).toEqual([
+        rows[1],
+        rows[2],
+      ]);
+    });
+
+    it('should keep rows without a time', () => {
+      const untimed = [{ time: 'start', cpu: 1 }, ...rows];
+      expect(applyChartWindow(untimed, null, 0, 'time')).toEqual([
+        untimed[0],
+        ...rows,
+      ]);
+    });
+  });
+});
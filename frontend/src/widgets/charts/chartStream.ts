@@ -0,0 +1,167 @@
+import { useEffect, useRef, useState } from 'react';
+import { ChartData, ChartStreamProps } from './chartTypes';
+import { resolveDataKey } from './sharedUtils';
+import {
+  ChartDataMessage,
+  chartStreamService,
+} from '@/services/chartStreamService';
+
+/**
+ * Applies a ChartData message to the rows of a chart
+ */
+export function applyChartData(
+  rows: ChartData[],
+  message: ChartDataMessage
+): ChartData[] {
+  if (message.reset) return message.rows ?? [];
+  const trim = Math.max(message.trim ?? 0, 0);
+  if (!trim && !message.rows?.length) return rows;
+  return rows.slice(trim).concat(message.rows ?? []);
+}
+
+const getTime = (value: unknown) => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return Date.parse(value);
+  return NaN;
+};
+
+/**
+ * The key of the time of a row, by default its first text value like the
+ * category of a chart
+ */
+const getTimeKey = (row: ChartData | undefined, timeKey?: string | null) => {
+  if (!row) return undefined;
+  if (timeKey) return resolveDataKey(row, timeKey);
+  return Object.keys(row).find(k => typeof row[k] === 'string');
+};
+
+/**
+ * Drops the rows before the rolling window. Rows without a time are kept.
+ */
+export function applyChartWindow(
+  rows: ChartData[],
+  maxPoints?: number | null,
+  window?: number | null,
+  timeKey?: string
+): ChartData[] {
+  let start = 0;
+  if (maxPoints != null && maxPoints >= 0 && rows.length > maxPoints) {
+    start = rows.length - maxPoints;
+  }
+  if (window != null && timeKey && rows.length > 0) {
+    const newest = getTime(rows[rows.length - 1][timeKey]);
+    if (!isNaN(newest)) {
+      while (
+        start < rows.length &&
+        getTime(rows[start][timeKey]) < newest - window
+      ) {
+        start++;
+      }
+    }
+  }
+  return start > 0 ? rows.slice(start) : rows;
+}
+
+/**
+ * Rows of a chart with the messages of its stream applied and the rolling
+ * window kept, timed by the time key of the stream or else by timeKey.
+ * Messages are applied once per animation frame, so a fast stream renders a
+ * chart at most once a frame. The rows start over from data when the server
+ * sends new data.
+ *
+ * Rows that were only appended can be handed to onAppend, which returns
+ * whether it added them to the chart itself (with echarts appendData).
+ * consumeAppend then reports once that the next option needs no setOption
+ * for its data.
+ *
+ * Only the scatter chart appends: echarts supports appendData for scatter
+ * series alone, and not for the line and bar series the line, area and bar
+ * charts draw. Those charts also have a category axis, whose labels are part
+ * of the option and change with every append and rolling window trim, so a
+ * partial setOption would still carry the axis and every series. They set the
+ * whole option once per animation frame instead, without animation, which
+ * echarts merges into the existing chart.
+ */
+export function useChartStream(
+  stream: ChartStreamProps | null | undefined,
+  data: ChartData[],
+  timeKey?: string,
+  onAppend?: (rows: ChartData[], offset: number) => boolean
+) {
+  const getWindowed = (rows: ChartData[]) =>
+    stream
+      ? applyChartWindow(
+          rows,
+          stream.maxPoints,
+          stream.window,
+          getTimeKey(rows[0], stream.timeKey ?? timeKey)
+        )
+      : rows;
+
+  const [streamed, setStreamed] = useState({ source: data, rows: data });
+  const rows = streamed.source === data ? streamed.rows : getWindowed(data);
+
+  const latest = useRef({ data, rows, getWindowed, onAppend });
+  const rendered = useRef(rows);
+  const appended = useRef(false);
+  useEffect(() => {
+    latest.current = { data, rows, getWindowed, onAppend };
+  });
+  useEffect(() => {
+    rendered.current = rows;
+  }, [rows]);
+
+  const streamId = stream?.id;
+  useEffect(() => {
+    if (!streamId) return;
+
+    let queue: ChartDataMessage[] = [];
+    let frame = 0;
+
+    const flush = () => {
+      frame = 0;
+      const messages = queue;
+      queue = [];
+
+      const { data, rows: current, getWindowed, onAppend } = latest.current;
+      let rows = current;
+      let appendOnly = true;
+      const added: ChartData[] = [];
+      for (const message of messages) {
+        if (message.reset || message.trim) appendOnly = false;
+        else if (message.rows) added.push(...message.rows);
+        rows = applyChartData(rows, message);
+      }
+      const windowed = getWindowed(rows);
+
+      // Only rows the chart already shows can be appended to
+      appended.current =
+        appendOnly &&
+        windowed === rows &&
+        added.length > 0 &&
+        rendered.current === current &&
+        (onAppend?.(added, current.length) ?? false);
+
+      latest.current = { ...latest.current, rows: windowed };
+      setStreamed({ source: data, rows: windowed });
+    };
+
+    const unsubscribe = chartStreamService.subscribe(streamId, message => {
+      queue.push(message);
+      if (!frame) frame = requestAnimationFrame(flush);
+    });
+
+    return () => {
+      unsubscribe();
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, [streamId]);
+
+  const consumeAppend = () => {
+    const value = appended.current;
+    appended.current = false;
+    return value;
+  };
+
+  return { rows, consumeAppend };
+}
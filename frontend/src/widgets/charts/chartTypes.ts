@@ -4,6 +4,9 @@ export enum ChartType {
   Bar = 'bar',
   Line = 'line',
   Pie = 'pie',
+  Scatter = 'scatter',
+  Heatmap = 'heatmap',
+  Candlestick = 'candlestick',
 }
 
 export interface ChartData {
@@ -23,6 +26,7 @@ export type BarProps = {
   strokeDashArray?: string | null;
   strokeWidth?: number;
   unit?: string | null;
+  yAxisIndex?: number;
 };
 
 interface PieChartTotalProps {
@@ -32,6 +36,7 @@ interface PieChartTotalProps {
 
 export interface PieChartWidgetProps {
   id: string;
+  events?: string[];
   data: ChartData[];
   width?: string;
   height?: string;
@@ -40,6 +45,8 @@ export interface PieChartWidgetProps {
   legend?: PieLegendProps;
   colorScheme: ColorScheme;
   total?: PieChartTotalProps;
+  /** Whether the export toolbar is shown, true by default */
+  toolbar?: boolean;
 }
 
 export type YAxisProps = {
@@ -227,10 +234,34 @@ export interface LinesProps {
   strokeDashArray?: string | null;
   strokeWidth?: number;
   unit?: string | null;
+  yAxisIndex?: number;
+}
+
+/** Zooming and panning along the category axis */
+export interface DataZoomProps {
+  /** Zoom with the mouse wheel or pinch and pan by dragging */
+  inside: boolean;
+  /** Range slider below the chart */
+  slider: boolean;
+  /** Start of the initial range, in percent of the data */
+  start?: number | null;
+  /** End of the initial range, in percent of the data */
+  end?: number | null;
+}
+
+/** The stream of live rows of a chart and the rolling window of rows kept */
+export interface ChartStreamProps {
+  id: string;
+  maxPoints?: number | null;
+  /** Span in milliseconds of the rows kept, measured back from the newest row */
+  window?: number | null;
+  /** Key of the time of a row for the window, the category key by default */
+  timeKey?: string | null;
 }
 
 export interface LineChartWidgetProps {
   id: string;
+  events?: string[];
   data: ChartData[];
   width?: string;
   height?: string;
@@ -244,6 +275,10 @@ export interface LineChartWidgetProps {
   referenceAreas?: MarkArea;
   referenceDots?: ReferenceDot;
   colorScheme: ColorScheme;
+  stream?: ChartStreamProps | null;
+  dataZoom?: DataZoomProps | null;
+  /** Whether the export toolbar is shown, true by default */
+  toolbar?: boolean;
 }
 
 export interface ReferenceDot {
@@ -282,3 +317,73 @@ export interface PieLegendProps {
   layout?: string;
   verticalAlign?: string;
 }
+
+export interface ScatterProps {
+  xDataKey: string;
+  yDataKey: string;
+  sizeDataKey?: string | null;
+  groupDataKey?: string | null;
+  groupValue?: string | number | boolean | null;
+  name?: string | null;
+  fill?: string | null;
+  fillOpacity?: number | null;
+  minSize?: number;
+  maxSize?: number;
+  animated?: boolean;
+}
+
+interface ChartWidgetBaseProps {
+  id: string;
+  events?: string[];
+  data: ChartData[];
+  width?: string;
+  height?: string;
+  tooltip?: ToolTipProps;
+  legend?: LegendProps;
+  colorScheme: ColorScheme;
+  /** Whether the export toolbar is shown, true by default */
+  toolbar?: boolean;
+}
+
+export interface ScatterChartWidgetProps extends ChartWidgetBaseProps {
+  scatters?: ScatterProps[];
+  cartesianGrid?: CartesianGridProps;
+  xAxis?: XAxisProps[];
+  yAxis?: YAxisProps[];
+  stream?: ChartStreamProps | null;
+}
+
+export interface HeatmapChartWidgetProps extends ChartWidgetBaseProps {
+  layout?: 'Matrix' | 'Calendar';
+  xDataKey: string;
+  yDataKey: string;
+  valueDataKey: string;
+  min?: number | null;
+  max?: number | null;
+  fill?: string | null;
+  showLabels?: boolean;
+}
+
+export interface CandlestickChartWidgetProps extends ChartWidgetBaseProps {
+  categoryDataKey: string;
+  openDataKey: string;
+  highDataKey: string;
+  lowDataKey: string;
+  closeDataKey: string;
+  name?: string | null;
+  upColor?: string;
+  downColor?: string;
+  cartesianGrid?: CartesianGridProps;
+  xAxis?: XAxisProps[];
+  yAxis?: YAxisProps[];
+  dataZoom?: DataZoomProps | null;
+}
+
+export interface ComboChartWidgetProps extends ChartWidgetBaseProps {
+  bars?: BarProps[];
+  lines?: LinesProps[];
+  cartesianGrid?: CartesianGridProps;
+  xAxis?: XAxisProps[];
+  yAxis?: YAxisProps[];
+  dataZoom?: DataZoomProps | null;
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { generateDataZoom } from './chartZoom';
+
+const grid = { left: 2, right: 2, top: 30, bottom: 30 };
+
+describe('chartZoom', () => {
+  describe('generateDataZoom', () => {
+    it('should zoom the category axis inside the chart and with a slider', () => {
+      const { dataZoom, grid: zoomGrid } = generateDataZoom(
+        { inside: true, slider: true },
+        { start: 10, end: 60 },
+        false,
+        grid
+      );
+
+      expect(dataZoom).toEqual([
+        { type: 'inside', xAxisIndex: 0, start: 10, end: 60 },
+        { type: 'slider', xAxisIndex: 0, start: 10, end: 60, bottom: 8 },
+      ]);
+      expect(zoomGrid.bottom).toBe(70);
+    });
+
+    it('should put the slider beside vertical charts', () => {
+      const { dataZoom, grid: zoomGrid } = generateDataZoom(
+        { inside: false, slider: true },
+        { start: 0, end: 100 },
+        true,
+        grid
+      );
+
+      expect(dataZoom).toEqual([
+        { type: 'slider', yAxisIndex: 0, start: 0, end: 100, right: 8 },
+      ]);
+      expect(zoomGrid.right).toBe(42);
+      expect(zoomGrid.bottom).toBe(30);
+    });
+
+    it('should keep the grid without a slider', () => {
+      expect(
+        generateDataZoom(
+          { inside: true, slider: false },
+          { start: 0, end: 100 },
+          false,
+          grid
+        ).grid
+      ).toBe(grid);
+    });
+  });
+});
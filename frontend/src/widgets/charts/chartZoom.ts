@@ -0,0 +1,64 @@
+import { useCallback, useState } from 'react';
+import { ChartZoom } from './chartEvents';
+import { DataZoomProps } from './chartTypes';
+
+/** Space taken by the range slider below (or beside) the chart */
+const SLIDER_SPACE = 40;
+
+/**
+ * dataZoom option for the category axis of a cartesian chart, with the grid
+ * moved out of the way of the range slider
+ */
+export function generateDataZoom(
+  dataZoom: DataZoomProps,
+  range: { start: number; end: number },
+  vertical: boolean,
+  grid: { bottom?: number; right?: number }
+) {
+  const axis = vertical ? { yAxisIndex: 0 } : { xAxisIndex: 0 };
+  const zooms: Record<string, unknown>[] = [];
+  if (dataZoom.inside) {
+    zooms.push({ type: 'inside', ...axis, ...range });
+  }
+  if (dataZoom.slider) {
+    zooms.push({
+      type: 'slider',
+      ...axis,
+      ...range,
+      ...(vertical ? { right: 8 } : { bottom: 8 }),
+    });
+  }
+
+  return {
+    dataZoom: zooms,
+    grid: dataZoom.slider
+      ? {
+          ...grid,
+          ...(vertical
+            ? { right: (grid.right ?? 0) + SLIDER_SPACE }
+            : { bottom: (grid.bottom ?? 0) + SLIDER_SPACE }),
+        }
+      : grid,
+  };
+}
+
+/**
+ * Visible range of a zoomable chart. The range is kept in state so the
+ * options of later renders, such as for streamed rows, keep the zoom.
+ */
+export function useChartZoom(dataZoom?: DataZoomProps | null) {
+  const [range, setRange] = useState({
+    start: dataZoom?.start ?? 0,
+    end: dataZoom?.end ?? 100,
+  });
+  const onZoom = useCallback(
+    ({ start, end }: ChartZoom) => setRange({ start, end }),
+    []
+  );
+
+  return {
+    range,
+    onZoom: dataZoom ? onZoom : undefined,
+    zoomed: !!dataZoom && (range.start > 0 || range.end < 100),
+  };
+}
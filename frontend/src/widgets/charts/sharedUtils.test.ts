@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generateCandlestickData,
+  generateComboSeries,
+  generateHeatmapCalendar,
+  generateHeatmapMatrix,
+  generateScatterSeries,
+  resolveDataKey,
+} from './sharedUtils';
+
+describe('sharedUtils', () => {
+  it('should resolve PascalCase data keys to camelCase properties', () => {
+    expect(resolveDataKey({ revenue: 1 }, 'Revenue')).toBe('revenue');
+    expect(resolveDataKey({ Revenue: 1 }, 'Revenue')).toBe('Revenue');
+    expect(resolveDataKey(undefined, 'Revenue')).toBe('Revenue');
+  });
+
+  describe('generateScatterSeries', () => {
+    const data = [
+      { region: 'North', price: 10, sales: 100, share: 1 },
+      { region: 'South', price: 20, sales: 150, share: 3 },
+      { region: 'North', price: 30, sales: 120, share: 5 },
+    ];
+
+    it('should scale bubbles between the min and max size', () => {
+      const [series] = generateScatterSeries(data, [
+        {
+          xDataKey: 'Price',
+          yDataKey: 'Sales',
+          sizeDataKey: 'Share',
+          minSize: 10,
+          maxSize: 30,
+        },
+      ]);
+
+      const symbolSize = series.symbolSize as (value: number[]) => number;
+      expect(series.data.map(item => symbolSize(item.value))).toEqual([
+        10, 20, 30,
+      ]);
+    });
+
+    it('should keep the row index of grouped points', () => {
+      const [series] = generateScatterSeries(data, [
+        {
+          xDataKey: 'Price',
+          yDataKey: 'Sales',
+          groupDataKey: 'Region',
+          groupValue: 'North',
+        },
+      ]);
+
+      expect(series.data).toEqual([
+        { value: [10, 100], rowIndex: 0 },
+        { value: [30, 120], rowIndex: 2 },
+      ]);
+      expect(series.symbolSize).toBe(8);
+    });
+  });
+
+  it('should place heatmap cells by category', () => {
+    const { xCategories, yCategories, items } = generateHeatmapMatrix(
+      [
+        { day: 'Mon', hour: '9', count: 3 },
+        { day: 'Tue', hour: '9', count: 5 },
+        { day: 'Mon', hour: '10', count: 1 },
+      ],
+      'Day',
+      'Hour',
+      'Count'
+    );
+
+    expect(xCategories).toEqual(['Mon', 'Tue']);
+    expect(yCategories).toEqual(['9', '10']);
+    expect(items.map(item => item.value)).toEqual([
+      [0, 0, 3],
+      [1, 0, 5],
+      [0, 1, 1],
+    ]);
+  });
+
+  it('should map calendar cells to days and find their range', () => {
+    const { items, range } = generateHeatmapCalendar(
+      [
+        { date: '2024-03-02T00:00:00', commits: 4 },
+        { date: '2024-01-15T00:00:00', commits: 2 },
+      ],
+      'Date',
+      'Commits'
+    );
+
+    expect(items.map(item => item.value)).toEqual([
+      ['2024-03-02', 4],
+      ['2024-01-15', 2],
+    ]);
+    expect(range).toEqual(['2024-01-15', '2024-03-02']);
+  });
+
+  it('should order candles as open, close, low, high', () => {
+    expect(
+      generateCandlestickData(
+        [{ date: 'Mon', open: 10, high: 14, low: 9, close: 12 }],
+        {
+          categoryDataKey: 'Date',
+          openDataKey: 'Open',
+          highDataKey: 'High',
+          lowDataKey: 'Low',
+          closeDataKey: 'Close',
+        }
+      )
+    ).toEqual({
+      categoryKey: 'date',
+      categories: ['Mon'],
+      values: [[10, 12, 9, 14]],
+    });
+  });
+
+  it('should put combo series on their Y-axis', () => {
+    const series = generateComboSeries(
+      [
+        { month: 'Jan', revenue: 100, margin: 0.2 },
+        { month: 'Feb', revenue: 120, margin: 0.25 },
+      ],
+      [{ dataKey: 'Revenue', name: 'Revenue' }],
+      [{ dataKey: 'Margin', name: 'Margin', yAxisIndex: 1 }]
+    );
+
+    expect(
+      series.map(s => ({ type: s.type, axis: s.yAxisIndex, data: s.data }))
+    ).toEqual([
+      { type: 'bar', axis: 0, data: [100, 120] },
+      { type: 'line', axis: 1, data: [0.2, 0.25] },
+    ]);
+  });
+});
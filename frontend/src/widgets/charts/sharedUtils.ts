@@ -1,4 +1,5 @@
 import {
+  BarProps,
   CartesianGridProps,
   ChartType,
   LegendProps,
@@ -6,6 +7,7 @@ import {
   MarkArea,
   MarkLine,
   ReferenceDot,
+  ScatterProps,
   ToolTipProps,
   XAxisProps,
   YAxisProps,
@@ -49,6 +51,33 @@ export const getColors = (scheme: ColorScheme): string[] => {
   }
 };
 
+/**
+ * Finds the property of a data row for a data key from the server, which sends
+ * data keys in PascalCase and the rows with camelCase properties
+ */
+export const resolveDataKey = (
+  row: Record<string, unknown> | undefined,
+  dataKey: string
+): string => {
+  if (!row || dataKey in row) return dataKey;
+  const lower = dataKey.toLowerCase();
+  return Object.keys(row).find(k => k.toLowerCase() === lower) ?? dataKey;
+};
+
+/**
+ * Resolves an Ivy color name to the value of its CSS variable, as echarts
+ * draws on a canvas and cannot use var()
+ */
+export const resolveColor = (color?: string | null): string | undefined => {
+  if (!color) return undefined;
+  const name = color.toLowerCase();
+  return (
+    getComputedStyle(document.documentElement)
+      .getPropertyValue(`--${name}`)
+      .trim() || name
+  );
+};
+
 export const generateDataProps = (data: Record<string, unknown>[]) => {
   if (data.length === 0) {
     return { categoryKey: '', categories: [], valueKeys: [] };
@@ -293,3 +322,218 @@ export const generateTooltip = (
   borderColor: themeColors?.foreground || '#000',
   borderWidth: 1,
 });
+
+/** A series data item that remembers the data row it came from */
+export interface ChartDataItem<T> {
+  value: T;
+  rowIndex: number;
+}
+
+/**
+ * Scatter series, with bubbles sized linearly between minSize and maxSize
+ * when the series has a size data key. rowOffset is the index of the first
+ * row, for rows appended to a chart.
+ */
+export const generateScatterSeries = (
+  data: ChartData[],
+  scatters: ScatterProps[],
+  rowOffset = 0
+) => {
+  const row = data[0];
+  return scatters.map(scatter => {
+    const xKey = resolveDataKey(row, scatter.xDataKey);
+    const yKey = resolveDataKey(row, scatter.yDataKey);
+    const sizeKey = scatter.sizeDataKey
+      ? resolveDataKey(row, scatter.sizeDataKey)
+      : undefined;
+    const groupKey = scatter.groupDataKey
+      ? resolveDataKey(row, scatter.groupDataKey)
+      : undefined;
+
+    const items: ChartDataItem<number[]>[] = [];
+    data.forEach((d, rowIndex) => {
+      if (groupKey && String(d[groupKey]) !== String(scatter.groupValue)) {
+        return;
+      }
+      const value = [Number(d[xKey]), Number(d[yKey])];
+      if (sizeKey) value.push(Number(d[sizeKey]));
+      items.push({ value, rowIndex: rowOffset + rowIndex });
+    });
+
+    const minSize = scatter.minSize ?? 8;
+    const maxSize = scatter.maxSize ?? 40;
+    const sizes = items.map(item => item.value[2]);
+    const minValue = Math.min(...sizes);
+    const spread = Math.max(...sizes) - minValue;
+    const symbolSize = sizeKey
+      ? (value: number[]) =>
+          spread > 0
+            ? minSize + ((value[2] - minValue) / spread) * (maxSize - minSize)
+            : (minSize + maxSize) / 2
+      : minSize;
+
+    return {
+      name: scatter.name ?? scatter.yDataKey,
+      type: ChartType.Scatter,
+      data: items,
+      symbolSize,
+      itemStyle: {
+        color: resolveColor(scatter.fill),
+        opacity: scatter.fillOpacity ?? (sizeKey ? 0.7 : undefined),
+      },
+      emphasis: { focus: 'series' },
+      animation: scatter.animated ?? false,
+    };
+  });
+};
+
+/**
+ * Heatmap cells of a matrix, with the categories in the order they first appear
+ */
+export const generateHeatmapMatrix = (
+  data: ChartData[],
+  xDataKey: string,
+  yDataKey: string,
+  valueDataKey: string
+) => {
+  const xKey = resolveDataKey(data[0], xDataKey);
+  const yKey = resolveDataKey(data[0], yDataKey);
+  const valueKey = resolveDataKey(data[0], valueDataKey);
+  const xCategories: string[] = [];
+  const yCategories: string[] = [];
+
+  const items = data.map((d, rowIndex) => {
+    const x = String(d[xKey]);
+    const y = String(d[yKey]);
+    if (!xCategories.includes(x)) xCategories.push(x);
+    if (!yCategories.includes(y)) yCategories.push(y);
+    return {
+      value: [
+        xCategories.indexOf(x),
+        yCategories.indexOf(y),
+        Number(d[valueKey]),
+      ],
+      rowIndex,
+    };
+  });
+
+  return { xCategories, yCategories, items };
+};
+
+const toIsoDate = (value: string | number): string | null => {
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) {
+    return value.slice(0, 10);
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+};
+
+/**
+ * Heatmap cells of a calendar, one per day, and the range of days to show
+ */
+export const generateHeatmapCalendar = (
+  data: ChartData[],
+  dateDataKey: string,
+  valueDataKey: string
+) => {
+  const dateKey = resolveDataKey(data[0], dateDataKey);
+  const valueKey = resolveDataKey(data[0], valueDataKey);
+
+  const items: ChartDataItem<[string, number]>[] = [];
+  data.forEach((d, rowIndex) => {
+    const date = toIsoDate(d[dateKey]);
+    if (date) items.push({ value: [date, Number(d[valueKey])], rowIndex });
+  });
+
+  const dates = items.map(item => item.value[0]).sort();
+  const range =
+    dates.length > 0
+      ? [dates[0], dates[dates.length - 1]]
+      : [new Date().getFullYear().toString()];
+
+  return { items, range };
+};
+
+/**
+ * Candles in echarts order: open, close, low, high
+ */
+export const generateCandlestickData = (
+  data: ChartData[],
+  keys: {
+    categoryDataKey: string;
+    openDataKey: string;
+    highDataKey: string;
+    lowDataKey: string;
+    closeDataKey: string;
+  }
+) => {
+  const row = data[0];
+  const categoryKey = resolveDataKey(row, keys.categoryDataKey);
+  const [open, close, low, high] = [
+    keys.openDataKey,
+    keys.closeDataKey,
+    keys.lowDataKey,
+    keys.highDataKey,
+  ].map(key => resolveDataKey(row, key));
+
+  return {
+    categoryKey,
+    categories: data.map(d => String(d[categoryKey])),
+    values: data.map(d => [
+      Number(d[open]),
+      Number(d[close]),
+      Number(d[low]),
+      Number(d[high]),
+    ]),
+  };
+};
+
+/**
+ * Bar and line series of a combo chart, each on the Y-axis of its yAxisIndex
+ */
+export const generateComboSeries = (
+  data: ChartData[],
+  bars: BarProps[],
+  lines: LinesProps[]
+) => {
+  const row = data[0];
+  const values = (dataKey: string) => {
+    const key = resolveDataKey(row, dataKey);
+    return data.map(d => (d[key] == null ? null : Number(d[key])));
+  };
+
+  return [
+    ...bars.map(bar => ({
+      name: bar.name ?? bar.dataKey,
+      type: ChartType.Bar,
+      yAxisIndex: bar.yAxisIndex ?? 0,
+      stack: bar.stackId != null ? String(bar.stackId) : undefined,
+      data: values(bar.dataKey),
+      itemStyle: {
+        color: resolveColor(bar.fill),
+        opacity: bar.fillOpacity ?? undefined,
+        borderRadius: bar.radius,
+      },
+      animation: bar.animated ?? true,
+    })),
+    ...lines.map(line => ({
+      name: line.name ?? line.dataKey,
+      type: ChartType.Line,
+      yAxisIndex: line.yAxisIndex ?? 0,
+      data: values(line.dataKey),
+      smooth: line.curveType === 'Natural',
+      step: line.curveType === 'Step' ? 'middle' : false,
+      connectNulls: line.connectNulls ?? false,
+      showSymbol: true,
+      symbolSize: 6,
+      lineStyle: {
+        width: line.strokeWidth ?? 2,
+        color: resolveColor(line.stroke),
+        type: line.strokeDashArray ? 'dashed' : 'solid',
+      },
+      itemStyle: { color: resolveColor(line.stroke) },
+      emphasis: { focus: 'series' },
+      animation: line.animated ?? true,
+    })),
+  ];
+};
@@ -0,0 +1,85 @@
+import { CSSProperties, useEffect, useState } from 'react';
+import { useTheme } from '@/components/theme-provider';
+import { getHeight, getWidth } from '@/lib/styles';
+
+export interface ChartThemeColors {
+  foreground: string;
+  mutedForeground: string;
+  fontSans: string;
+  background: string;
+}
+
+/**
+ * Theme colors for echarts options, which cannot read CSS variables
+ * Re-read when the theme changes.
+ */
+export function useChartThemeColors() {
+  const { theme } = useTheme();
+  const [themeColors, setThemeColors] = useState<ChartThemeColors>({
+    foreground: '#000000',
+    mutedForeground: '#666666',
+    fontSans: 'Geist, sans-serif',
+    background: '#ffffff',
+  });
+
+  useEffect(() => {
+    const getThemeColors = () => {
+      const computedStyle = getComputedStyle(document.documentElement);
+      const isDarkMode =
+        theme === 'dark' ||
+        (theme === 'system' &&
+          window.matchMedia('(prefers-color-scheme: dark)').matches);
+
+      return {
+        foreground:
+          computedStyle.getPropertyValue('--foreground').trim() ||
+          (isDarkMode ? '#f8f8f8' : '#000000'),
+        mutedForeground:
+          computedStyle.getPropertyValue('--muted-foreground').trim() ||
+          (isDarkMode ? '#a1a1aa' : '#666666'),
+        fontSans:
+          computedStyle.getPropertyValue('--font-sans').trim() ||
+          'Geist, sans-serif',
+        background:
+          computedStyle.getPropertyValue('--background').trim() ||
+          (isDarkMode ? '#000000' : '#ffffff'),
+      };
+    };
+
+    // Update colors on next frame to avoid synchronous setState in effect
+    const frame = requestAnimationFrame(() => {
+      setThemeColors(getThemeColors());
+    });
+
+    return () => {
+      cancelAnimationFrame(frame);
+    };
+  }, [theme]);
+
+  return { theme, themeColors };
+}
+
+/**
+ * Container and chart styles for the width and height of a chart widget
+ * When height is Full (100%), the chart uses flex to expand.
+ */
+export function getChartStyles(width?: string, height?: string) {
+  const heightStyle = height ? getHeight(height) : {};
+  const isFull = height?.toLowerCase().startsWith('full');
+
+  const styles: CSSProperties = {
+    ...getWidth(width),
+    ...(isFull
+      ? { display: 'flex', flexDirection: 'column', height: '100%' }
+      : {}),
+  };
+
+  const chartStyles: CSSProperties = {
+    ...(isFull
+      ? { flex: 1, minHeight: '200px' }
+      : { ...heightStyle, minHeight: '200px' }),
+    width: '100%',
+  };
+
+  return { styles, chartStyles };
+}
@@ -0,0 +1,121 @@
+import React, { useMemo, useState } from 'react';
+import { Columns3, GripVertical, Pin, PinOff } from 'lucide-react';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { useTable } from './DataTableContext';
+import { tableStyles } from './styles/style';
+import { getOrderedColumns } from './utils/cellContent';
+
+/**
+ * Column chooser listing every column in display order
+ * Columns can be shown or hidden, dragged to reorder and pinned to the left
+ */
+export const DataTableColumnChooser: React.FC = () => {
+  const {
+    columns,
+    columnOrder,
+    pinnedColumns,
+    setColumnHidden,
+    setColumnPinned,
+    moveColumn,
+  } = useTable();
+
+  const [search, setSearch] = useState('');
+  const [dragColumn, setDragColumn] = useState<string | null>(null);
+
+  const orderedColumns = useMemo(
+    () => getOrderedColumns(columns, columnOrder),
+    [columns, columnOrder]
+  );
+
+  const filteredColumns = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return orderedColumns;
+    return orderedColumns.filter(col =>
+      (col.header || col.name).toLowerCase().includes(term)
+    );
+  }, [orderedColumns, search]);
+
+  const visibleCount = columns.filter(col => !col.hidden).length;
+  const styles = tableStyles.tableOptions.columnChooser;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Columns3 />
+          Columns
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className={styles.content}>
+        <Input
+          value={search}
+          onChange={event => setSearch(event.target.value)}
+          placeholder="Search columns..."
+          className="h-8"
+        />
+        <div className={styles.list}>
+          {filteredColumns.length === 0 && (
+            <div className={styles.message}>No columns</div>
+          )}
+          {filteredColumns.map(col => {
+            const pinned = pinnedColumns.includes(col.name);
+            const label = col.header || col.name;
+
+            return (
+              <div
+                key={col.name}
+                className={
+                  dragColumn === col.name ? styles.itemDragging : styles.item
+                }
+                draggable
+                onDragStart={event => {
+                  event.dataTransfer.effectAllowed = 'move';
+                  setDragColumn(col.name);
+                }}
+                onDragOver={event => {
+                  if (dragColumn) event.preventDefault();
+                }}
+                onDrop={event => {
+                  event.preventDefault();
+                  if (dragColumn && dragColumn !== col.name) {
+                    moveColumn(dragColumn, col.name);
+                  }
+                  setDragColumn(null);
+                }}
+                onDragEnd={() => setDragColumn(null)}
+              >
+                <GripVertical className={styles.grip} />
+                <Checkbox
+                  id={`${col.name}-column-visible`}
+                  checked={!col.hidden}
+                  disabled={!col.hidden && visibleCount <= 1}
+                  onCheckedChange={checked =>
+                    setColumnHidden(col.name, !checked)
+                  }
+                  aria-label={`Show ${label}`}
+                />
+                <span className={styles.itemLabel}>{label}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className={pinned ? styles.pinActive : styles.pin}
+                  onClick={() => setColumnPinned(col.name, !pinned)}
+                  aria-label={pinned ? `Unpin ${label}` : `Pin ${label}`}
+                >
+                  {pinned ? <PinOff /> : <Pin />}
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,205 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Rectangle } from '@glideapps/glide-data-grid';
+import { Loader2 } from 'lucide-react';
+import {
+  Popover,
+  PopoverAnchor,
+  PopoverContent,
+} from '@/components/ui/popover';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { useTable } from './DataTableContext';
+import { tableStyles } from './styles/style';
+import { DataColumn } from './types/types';
+import { fetchDistinctValues } from './utils/tableDataFetcher';
+import {
+  getColumnValueFilter,
+  mergeColumnValueFilter,
+} from './utils/columnFilters';
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+interface DataTableColumnFilterProps {
+  column: DataColumn;
+  bounds: Rectangle;
+  onClose: () => void;
+}
+
+/**
+ * Header dropdown listing the distinct values of a column with checkboxes
+ * Applying it merges an inSet condition for the column into the active filter
+ */
+export const DataTableColumnFilter: React.FC<DataTableColumnFilterProps> = ({
+  column,
+  bounds,
+  onClose,
+}) => {
+  const { connection, activeFilter, setActiveFilter } = useTable();
+
+  const [search, setSearch] = useState('');
+  const [values, setValues] = useState<string[]>([]);
+  const [totalValues, setTotalValues] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // null means no value filter, i.e. every value is selected
+  const [selected, setSelected] = useState<string[] | null>(() =>
+    getColumnValueFilter(activeFilter, column.name)
+  );
+
+  // Load distinct values, debounced while the user types
+  useEffect(() => {
+    let cancelled = false;
+    const timeout = setTimeout(
+      async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+          const result = await fetchDistinctValues(
+            connection,
+            column.name,
+            search || undefined
+          );
+          if (!cancelled) {
+            setValues(result.values);
+            setTotalValues(result.total_values);
+          }
+        } catch (err) {
+          if (!cancelled) {
+            setError(
+              err instanceof Error ? err.message : 'Failed to load values'
+            );
+          }
+        } finally {
+          if (!cancelled) setIsLoading(false);
+        }
+      },
+      search ? SEARCH_DEBOUNCE_MS : 0
+    );
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [connection, column.name, search]);
+
+  const selectedSet = useMemo(
+    () => (selected === null ? null : new Set(selected)),
+    [selected]
+  );
+
+  const isChecked = useCallback(
+    (value: string) => selectedSet === null || selectedSet.has(value),
+    [selectedSet]
+  );
+
+  const allChecked = values.length > 0 && values.every(isChecked);
+
+  const handleToggle = useCallback(
+    (value: string, checked: boolean) => {
+      setSelected(prev => {
+        // Expand "everything selected" into the loaded values before editing
+        const current = prev ?? values;
+        return checked
+          ? [...current.filter(v => v !== value), value]
+          : current.filter(v => v !== value);
+      });
+    },
+    [values]
+  );
+
+  const handleToggleAll = useCallback(
+    (checked: boolean) => {
+      setSelected(prev => {
+        const current = prev ?? values;
+        const rest = current.filter(v => !values.includes(v));
+        return checked ? [...rest, ...values] : rest;
+      });
+    },
+    [values]
+  );
+
+  const handleApply = useCallback(() => {
+    setActiveFilter(
+      mergeColumnValueFilter(activeFilter, column.name, selected)
+    );
+    onClose();
+  }, [activeFilter, column.name, selected, setActiveFilter, onClose]);
+
+  const handleClear = useCallback(() => {
+    setActiveFilter(mergeColumnValueFilter(activeFilter, column.name, null));
+    onClose();
+  }, [activeFilter, column.name, setActiveFilter, onClose]);
+
+  const styles = tableStyles.columnFilter;
+
+  return (
+    <Popover open onOpenChange={open => !open && onClose()}>
+      <PopoverAnchor asChild>
+        <div
+          style={{
+            position: 'fixed',
+            left: bounds.x,
+            top: bounds.y,
+            width: bounds.width,
+            height: bounds.height,
+            pointerEvents: 'none',
+          }}
+        />
+      </PopoverAnchor>
+      <PopoverContent align="start" className={styles.content}>
+        <Input
+          autoFocus
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+          placeholder={`Search ${column.header || column.name}...`}
+        />
+        <div className={styles.list}>
+          {isLoading && values.length === 0 ? (
+            <div className={styles.message}>
+              <Loader2 className="animate-spin h-4 w-4" />
+            </div>
+          ) : error ? (
+            <div className={styles.error}>{error}</div>
+          ) : values.length === 0 ? (
+            <div className={styles.message}>No values</div>
+          ) : (
+            <>
+              <label className={styles.item}>
+                <Checkbox
+                  id={`${column.name}-filter-all`}
+                  checked={allChecked}
+                  onCheckedChange={checked => handleToggleAll(!!checked)}
+                />
+                <span>Select all</span>
+              </label>
+              {values.map(value => (
+                <label key={value} className={styles.item}>
+                  <Checkbox
+                    id={`${column.name}-filter-${value}`}
+                    checked={isChecked(value)}
+                    onCheckedChange={checked => handleToggle(value, !!checked)}
+                  />
+                  <span className={styles.itemLabel}>{value}</span>
+                </label>
+              ))}
+            </>
+          )}
+        </div>
+        {totalValues > values.length && (
+          <div className={styles.message}>
+            Showing {values.length} of {totalValues} values
+          </div>
+        )}
+        <div className={styles.footer}>
+          <Button variant="ghost" size="sm" onClick={handleClear}>
+            Clear
+          </Button>
+          <Button size="sm" onClick={handleApply}>
+            Apply
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
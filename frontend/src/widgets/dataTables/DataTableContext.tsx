@@ -5,17 +5,56 @@ import React, {
   useCallback,
   useContext,
   useEffect,
+  useMemo,
   useRef,
   useState,
 } from 'react';
 import {
   DataColumn,
   DataRow,
+  DataTableCellUpdate,
   DataTableConfiguration,
   DataTableConnection,
+  DataTableLinkClick,
+  DataTableViewState,
   SortDirection,
 } from './types/types';
-import { fetchTableData } from './utils/tableDataFetcher';
+import {
+  fetchTableAggregates,
+  fetchTableData,
+  fetchTableGroups,
+} from './utils/tableDataFetcher';
+import { CellValue, getCellKey } from './utils/cellEditing';
+import { buildAggregations, mapAggregationResults } from './utils/aggregations';
+import { toggleSort } from './utils/sorting';
+import {
+  StoredTableViews,
+  TableLayoutState,
+  captureView,
+  loadTableViews,
+  resolveView,
+  saveTableViews,
+  upsertView,
+} from './utils/tableViews';
+import {
+  alignRowsToColumns,
+  getEffectiveOrder,
+  getSelectColumns,
+  moveColumnInOrder,
+  pinColumnsFirst,
+} from './utils/columnChooser';
+import { getVisibleOrderedColumns } from './utils/cellContent';
+import {
+  GROUP_LOAD_LIMIT,
+  GroupDisplayRow,
+  GroupNode,
+  GroupPathEntry,
+  buildGroupFilter,
+  flattenGroupRows,
+  getGroupPathKey,
+} from './utils/rowGrouping';
+
+export type CellEditStatus = 'pending' | 'saved';
 
 /**
  * Parses a Size string (e.g., "Px:200") to a numeric pixel value
@@ -52,14 +91,35 @@ interface TableContextType {
   activeFilter: Filter | null;
   activeSort: SortOrder[] | null;
   columnOrder: number[];
+  cellEdits: Record<string, CellEditStatus>;
+  aggregates: Record<string, number | null> | null;
+  views: DataTableViewState[];
+  activeView: string | null;
+  pinnedColumns: string[];
+  groupBy: string[];
+  groupRows: GroupDisplayRow[] | null;
 
   // Methods
   loadMoreData: () => Promise<void>;
   handleColumnResize: (column: GridColumn, newSize: number) => void;
-  handleSort: (columnName: string) => void;
+  handleSort: (columnName: string, append?: boolean) => void;
+  clearSort: () => void;
   setActiveFilter: (filter: Filter | null) => void;
   setError: (error: string | null) => void;
   handleColumnReorder: (startIndex: number, endIndex: number) => void;
+  updateCell: (
+    row: number,
+    columnName: string,
+    value: CellValue
+  ) => Promise<void>;
+  saveView: (name: string) => void;
+  applyView: (name: string | null) => void;
+  deleteView: (name: string) => void;
+  setColumnHidden: (columnName: string, hidden: boolean) => void;
+  setColumnPinned: (columnName: string, pinned: boolean) => void;
+  moveColumn: (columnName: string, targetColumnName: string) => void;
+  toggleGroup: (path: GroupPathEntry[]) => void;
+  openLink: (rowData: DataRow, row: number, columnName: string) => void;
 }
 
 // eslint-disable-next-line react-refresh/only-export-components
@@ -67,12 +127,42 @@ export const TableContext = createContext<TableContextType | undefined>(
   undefined
 );
 
+// The leading visible columns frozen by the server, pinned by default
+const getFrozenColumnNames = (
+  columns: DataColumn[],
+  freezeColumns?: number | null
+): string[] =>
+  getVisibleOrderedColumns(columns, [])
+    .slice(0, freezeColumns ?? 0)
+    .map(col => col.name);
+
+// Views that do not pin columns keep the columns frozen by the server in front
+const withDefaultPins = (
+  state: TableLayoutState,
+  columns: DataColumn[],
+  freezeColumns?: number | null
+): TableLayoutState & { pinnedColumns: string[] } => {
+  if (state.pinnedColumns) {
+    return { ...state, pinnedColumns: state.pinnedColumns };
+  }
+  const pinnedColumns = getFrozenColumnNames(columns, freezeColumns);
+  return {
+    ...state,
+    pinnedColumns,
+    columnOrder: pinColumnsFirst(state.columnOrder, columns, pinnedColumns),
+  };
+};
+
 interface TableProviderProps {
   children: React.ReactNode;
   columns: DataColumn[];
   connection: DataTableConnection;
   config: DataTableConfiguration;
   editable?: boolean;
+  onCellUpdate?: (update: DataTableCellUpdate) => Promise<boolean>;
+  viewKey?: string;
+  onViewSave?: (view: DataTableViewState) => void;
+  onLinkClick?: (click: DataTableLinkClick) => void;
 }
 
 export const TableProvider: React.FC<TableProviderProps> = ({
@@ -81,25 +171,90 @@ export const TableProvider: React.FC<TableProviderProps> = ({
   connection,
   config,
   editable = false,
+  onCellUpdate,
+  viewKey,
+  onViewSave,
+  onLinkClick,
 }) => {
+  const [storedViews, setStoredViews] = useState<StoredTableViews>(() =>
+    viewKey ? loadTableViews(viewKey) : { views: [], activeView: null }
+  );
+  // Restore the last applied view before the first fetch
+  const [initialView] = useState(() => {
+    const view = storedViews.views.find(v => v.name === storedViews.activeView);
+    return view
+      ? withDefaultPins(
+          resolveView(view, columnsProp),
+          columnsProp,
+          config.freezeColumns
+        )
+      : null;
+  });
+
   const [data, setData] = useState<DataRow[]>([]);
-  const [columns, setColumns] = useState<DataColumn[]>(columnsProp);
-  const [columnWidths, setColumnWidths] = useState<Record<string, number>>({});
+  const [loadedColumns, setColumns] = useState<DataColumn[]>(columnsProp);
+  const [hiddenColumns, setHiddenColumns] = useState<Record<string, boolean>>(
+    initialView?.hiddenColumns ?? {}
+  );
+  const [columnWidths, setColumnWidths] = useState<Record<string, number>>(
+    initialView?.columnWidths ?? {}
+  );
   const [visibleRows, setVisibleRows] = useState(0);
   const [isLoading, setIsLoading] = useState(false);
   const [hasMore, setHasMore] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [activeFilter, setActiveFilter] = useState<Filter | null>(null);
-  const [activeSort, setActiveSort] = useState<SortOrder[] | null>(null);
-  const [columnOrder, setColumnOrder] = useState<number[]>([]);
+  const [activeFilter, setActiveFilter] = useState<Filter | null>(
+    initialView?.filter ?? null
+  );
+  const [activeSort, setActiveSort] = useState<SortOrder[] | null>(
+    initialView?.sort ?? null
+  );
+  const [columnOrder, setColumnOrder] = useState<number[]>(
+    initialView?.columnOrder ?? []
+  );
+  // Pinned columns start as those of the view, else the columns frozen by the server
+  const [pinnedColumns, setPinnedColumns] = useState<string[]>(
+    () =>
+      initialView?.pinnedColumns ??
+      getFrozenColumnNames(columnsProp, config.freezeColumns)
+  );
+  const [cellEdits, setCellEdits] = useState<Record<string, CellEditStatus>>(
+    {}
+  );
+  const [aggregates, setAggregates] = useState<Record<
+    string,
+    number | null
+  > | null>(null);
 
   const loadingRef = useRef(false);
   const currentRowCountRef = useRef(0);
   const isReorderingRef = useRef(false);
+  const prevConnectionRef = useRef(connection);
   const batchSize = config.batchSize ?? 20;
 
   const { allowColumnResizing, allowSorting } = config;
 
+  // Column visibility chosen in a view overrides the server default
+  const columns = useMemo(
+    () =>
+      loadedColumns.map(col =>
+        col.name in hiddenColumns
+          ? { ...col, hidden: hiddenColumns[col.name] }
+          : col
+      ),
+    [loadedColumns, hiddenColumns]
+  );
+
+  // Hidden columns are not fetched. Editable tables fetch every column since
+  // edits send the full row to the server
+  const selectKey = editable
+    ? ''
+    : (getSelectColumns(columns)?.join('\n') ?? '');
+  const selectColumns = useMemo(
+    () => (selectKey ? selectKey.split('\n') : undefined),
+    [selectKey]
+  );
+
   // Update columns when columnsProp changes
   useEffect(() => {
     // Don't update columns during reordering
@@ -122,6 +277,10 @@ export const TableProvider: React.FC<TableProviderProps> = ({
 
   // Reset row count and column widths when connection changes
   useEffect(() => {
+    // Keep the widths restored from a view on mount
+    if (prevConnectionRef.current === connection) return;
+    prevConnectionRef.current = connection;
+
     currentRowCountRef.current = 0;
     setColumnWidths({});
   }, [connection]);
@@ -133,6 +292,9 @@ export const TableProvider: React.FC<TableProviderProps> = ({
 
   // Load initial data
   useEffect(() => {
+    // Cancels the in-flight request when the filter, sort or columns change
+    const controller = new AbortController();
+
     const loadInitialData = async () => {
       if (!connection.port || !connection.path) {
         setError('Connection configuration is required');
@@ -151,13 +313,38 @@ export const TableProvider: React.FC<TableProviderProps> = ({
             ? currentRowCountRef.current
             : batchSize;
 
+        // Loading all rows streams them in batches so the first rows show up early
+        let streamedRows: DataRow[] = [];
+        const onBatch = config.loadAllRows
+          ? (batch: { columns: DataColumn[]; rows: DataRow[] }) => {
+              if (controller.signal.aborted) return;
+              streamedRows = streamedRows.concat(
+                selectColumns
+                  ? alignRowsToColumns(batch.rows, batch.columns, columnsProp)
+                  : batch.rows
+              );
+              setData(streamedRows);
+              setVisibleRows(streamedRows.length);
+            }
+          : undefined;
+
         const result = await fetchTableData(
           connection,
           0,
           rowsToFetch,
           activeFilter,
-          activeSort
+          activeSort,
+          selectColumns,
+          { signal: controller.signal, onBatch }
         );
+        if (controller.signal.aborted) return;
+
+        // Streamed rows were already aligned batch by batch
+        const rows = onBatch
+          ? streamedRows
+          : selectColumns
+            ? alignRowsToColumns(result.rows, result.columns, columnsProp)
+            : result.rows;
 
         // Merge Arrow columns with columnsProp (columnsProp has all metadata)
         // Arrow columns only provide name, type, and calculated width
@@ -173,9 +360,10 @@ export const TableProvider: React.FC<TableProviderProps> = ({
         });
 
         setColumns(mergedColumns);
-        setData(result.rows);
-        setVisibleRows(result.rows.length);
-        currentRowCountRef.current = result.rows.length;
+        setData(rows);
+        setCellEdits({});
+        setVisibleRows(rows.length);
+        currentRowCountRef.current = rows.length;
         setHasMore(result.hasMore);
 
         // Initialize column order when columns are first loaded
@@ -217,15 +405,157 @@ export const TableProvider: React.FC<TableProviderProps> = ({
           return widths;
         });
       } catch (err) {
+        if (controller.signal.aborted) return;
         const errorMessage =
           err instanceof Error ? err.message : 'Failed to load data';
         setError(errorMessage);
       } finally {
-        setIsLoading(false);
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
       }
     };
     loadInitialData();
-  }, [connection, activeFilter, activeSort, columnOrder.length, columnsProp]);
+
+    return () => controller.abort();
+  }, [
+    connection,
+    activeFilter,
+    activeSort,
+    columnOrder.length,
+    columnsProp,
+    selectColumns,
+    batchSize,
+    config.loadAllRows,
+  ]);
+
+  const aggregations = useMemo(
+    () => buildAggregations(columnsProp),
+    [columnsProp]
+  );
+
+  // Recompute aggregates on the server for the active filter
+  const refreshAggregates = useCallback(async () => {
+    if (aggregations.length === 0 || !connection.port || !connection.path) {
+      setAggregates(null);
+      return;
+    }
+
+    try {
+      const results = await fetchTableAggregates(
+        connection,
+        aggregations,
+        activeFilter
+      );
+      setAggregates(mapAggregationResults(results));
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : 'Failed to load aggregates';
+      setError(errorMessage);
+    }
+  }, [connection, aggregations, activeFilter]);
+
+  useEffect(() => {
+    refreshAggregates();
+  }, [refreshAggregates]);
+
+  // Row grouping: each group level is loaded from the server when expanded
+  const groupByKey = (config.groupBy ?? [])
+    .filter(name => columnsProp.some(col => col.name === name))
+    .join('\n');
+  const groupBy = useMemo(
+    () => (groupByKey ? groupByKey.split('\n') : []),
+    [groupByKey]
+  );
+  const [groupNodes, setGroupNodes] = useState<Record<string, GroupNode>>({});
+  const [expandedGroups, setExpandedGroups] = useState<Record<string, boolean>>(
+    {}
+  );
+  const groupRequestRef = useRef(0);
+
+  const loadGroupNode = useCallback(
+    async (path: GroupPathEntry[]) => {
+      const key = getGroupPathKey(path);
+      const requestId = groupRequestRef.current;
+      setGroupNodes(prev => ({ ...prev, [key]: { isLoading: true } }));
+
+      try {
+        const filter = buildGroupFilter(activeFilter, path, columnsProp);
+        const node: GroupNode = { isLoading: false };
+
+        if (path.length < groupBy.length) {
+          node.groups = await fetchTableGroups(
+            connection,
+            groupBy[path.length],
+            aggregations,
+            GROUP_LOAD_LIMIT,
+            filter,
+            activeSort
+          );
+        } else {
+          const result = await fetchTableData(
+            connection,
+            0,
+            GROUP_LOAD_LIMIT,
+            filter,
+            activeSort,
+            selectColumns
+          );
+          node.rows = selectColumns
+            ? alignRowsToColumns(result.rows, result.columns, columnsProp)
+            : result.rows;
+        }
+
+        // Drop results from before the grouping was reset
+        if (requestId !== groupRequestRef.current) return;
+        setGroupNodes(prev => ({ ...prev, [key]: node }));
+      } catch (err) {
+        if (requestId !== groupRequestRef.current) return;
+        const errorMessage =
+          err instanceof Error ? err.message : 'Failed to load groups';
+        setError(errorMessage);
+      }
+    },
+    [
+      connection,
+      groupBy,
+      aggregations,
+      activeFilter,
+      activeSort,
+      selectColumns,
+      columnsProp,
+    ]
+  );
+
+  // Reload the top level whenever the query changes
+  useEffect(() => {
+    groupRequestRef.current += 1;
+    setGroupNodes({});
+    setExpandedGroups({});
+    if (groupBy.length > 0 && connection.port && connection.path) {
+      loadGroupNode([]);
+    }
+  }, [groupBy, loadGroupNode, connection]);
+
+  const toggleGroup = useCallback(
+    (path: GroupPathEntry[]) => {
+      const key = getGroupPathKey(path);
+      const expand = !expandedGroups[key];
+      setExpandedGroups(prev => ({ ...prev, [key]: expand }));
+      if (expand && !groupNodes[key]) {
+        loadGroupNode(path);
+      }
+    },
+    [expandedGroups, groupNodes, loadGroupNode]
+  );
+
+  const groupRows = useMemo(
+    () =>
+      groupBy.length > 0
+        ? flattenGroupRows(groupBy, groupNodes, expandedGroups)
+        : null,
+    [groupBy, groupNodes, expandedGroups]
+  );
 
   // Load more data
   const loadMoreData = useCallback(async () => {
@@ -240,13 +570,17 @@ export const TableProvider: React.FC<TableProviderProps> = ({
         data.length,
         batchSize,
         activeFilter,
-        activeSort
+        activeSort,
+        selectColumns
       );
-
-      if (result.rows.length > 0) {
-        setData(prev => [...prev, ...result.rows]);
-        setVisibleRows(prev => prev + result.rows.length);
-        currentRowCountRef.current += result.rows.length;
+      const rows = selectColumns
+        ? alignRowsToColumns(result.rows, result.columns, columnsProp)
+        : result.rows;
+
+      if (rows.length > 0) {
+        setData(prev => [...prev, ...rows]);
+        setVisibleRows(prev => prev + rows.length);
+        currentRowCountRef.current += rows.length;
       }
 
       setHasMore(result.hasMore);
@@ -258,7 +592,17 @@ export const TableProvider: React.FC<TableProviderProps> = ({
       setIsLoading(false);
       loadingRef.current = false;
     }
-  }, [connection, data.length, hasMore, activeFilter, activeSort]);
+  }, [
+    connection,
+    data.length,
+    hasMore,
+    activeFilter,
+    activeSort,
+    selectColumns,
+    columnsProp,
+    batchSize,
+    config.loadAllRows,
+  ]);
 
   // Handle column resize
   const handleColumnResize = useCallback(
@@ -281,33 +625,23 @@ export const TableProvider: React.FC<TableProviderProps> = ({
     [columns, allowColumnResizing]
   );
 
-  // Handle sort
+  // Handle sort, appending to the existing sorts for multi-column sorting
   const handleSort = useCallback(
-    (columnName: string) => {
+    (columnName: string, append = false) => {
       // Check if sorting is allowed
       if (!allowSorting) return;
 
-      setActiveSort(prevSort => {
-        // Check if we're already sorting by this column
-        const existingSort = prevSort?.find(sort => sort.column === columnName);
-
-        if (existingSort) {
-          // Toggle direction: ASC -> DESC -> remove sort
-          if (existingSort.direction === 'ASC') {
-            return [{ column: columnName, direction: 'DESC' as const }];
-          } else {
-            // Remove sort entirely
-            return null;
-          }
-        } else {
-          // Replace current sort with new column (ASC by default)
-          return [{ column: columnName, direction: 'ASC' }];
-        }
-      });
+      setActiveSort(prevSort => toggleSort(prevSort, columnName, append));
     },
     [allowSorting]
   );
 
+  // Clear all sorts. An empty list (rather than null) keeps the default
+  // column sort from being applied again
+  const clearSort = useCallback(() => {
+    setActiveSort([]);
+  }, []);
+
   // Handle column reorder
   const handleColumnReorder = useCallback(
     (startIndex: number, endIndex: number) => {
@@ -348,6 +682,226 @@ export const TableProvider: React.FC<TableProviderProps> = ({
     [columns]
   );
 
+  // Link clicks go to the server when it listens for them, otherwise the link opens in a new tab
+  const openLink = useCallback(
+    (rowData: DataRow, row: number, columnName: string) => {
+      const columnIndex = columns.findIndex(col => col.name === columnName);
+      const value = rowData.values[columnIndex];
+      if (columnIndex === -1 || value === null || value === undefined) return;
+
+      const url = String(value);
+      if (!onLinkClick) {
+        window.open(url, '_blank', 'noopener,noreferrer');
+        return;
+      }
+
+      const rowValues: Record<string, CellValue> = {};
+      columns.forEach((col, idx) => {
+        rowValues[col.name] = rowData.values[idx] ?? null;
+      });
+      onLinkClick({ row, column: columnName, url, rowValues });
+    },
+    [columns, onLinkClick]
+  );
+
+  // Handle cell edit: apply optimistically, roll back if the server rejects it
+  const updateCell = useCallback(
+    async (row: number, columnName: string, value: CellValue) => {
+      const columnIndex = columns.findIndex(col => col.name === columnName);
+      const rowData = data[row];
+      if (!editable || !onCellUpdate || columnIndex === -1 || !rowData) return;
+
+      const oldValue = rowData.values[columnIndex];
+      if (oldValue === value) return;
+
+      const key = getCellKey(row, columnName);
+      const setCellValue = (cellValue: CellValue) =>
+        setData(prev =>
+          prev.map((r, idx) =>
+            idx === row
+              ? {
+                  values: r.values.map((v, colIdx) =>
+                    colIdx === columnIndex ? cellValue : v
+                  ),
+                }
+              : r
+          )
+        );
+
+      const rowValues: Record<string, CellValue> = {};
+      columns.forEach((col, idx) => {
+        rowValues[col.name] = rowData.values[idx] ?? null;
+      });
+
+      setCellValue(value);
+      setCellEdits(prev => ({ ...prev, [key]: 'pending' }));
+
+      let accepted = false;
+      try {
+        accepted = await onCellUpdate({
+          row,
+          column: columnName,
+          value,
+          oldValue: oldValue ?? null,
+          rowValues,
+        });
+      } catch {
+        accepted = false;
+      }
+
+      if (accepted) {
+        setCellEdits(prev => ({ ...prev, [key]: 'saved' }));
+        refreshAggregates();
+      } else {
+        setCellValue(oldValue ?? null);
+        setCellEdits(prev => {
+          const next = { ...prev };
+          delete next[key];
+          return next;
+        });
+      }
+    },
+    [columns, data, editable, onCellUpdate, refreshAggregates]
+  );
+
+  const persistViews = useCallback(
+    (stored: StoredTableViews) => {
+      setStoredViews(stored);
+      if (viewKey) saveTableViews(viewKey, stored);
+    },
+    [viewKey]
+  );
+
+  // Save the current layout, filter and sort under a name and make it active
+  const saveView = useCallback(
+    (name: string) => {
+      const view = captureView(name, columns, {
+        columnOrder,
+        columnWidths,
+        hiddenColumns,
+        pinnedColumns,
+        filter: activeFilter,
+        sort: activeSort,
+      });
+      persistViews({
+        views: upsertView(storedViews.views, view),
+        activeView: name,
+      });
+      onViewSave?.(view);
+    },
+    [
+      columns,
+      columnOrder,
+      columnWidths,
+      hiddenColumns,
+      pinnedColumns,
+      activeFilter,
+      activeSort,
+      storedViews,
+      persistViews,
+      onViewSave,
+    ]
+  );
+
+  // Apply a saved view, or reset to the default layout when name is null
+  const applyView = useCallback(
+    (name: string | null) => {
+      const view = storedViews.views.find(v => v.name === name);
+      if (name !== null && !view) return;
+
+      if (view) {
+        const state = withDefaultPins(
+          resolveView(view, loadedColumns),
+          loadedColumns,
+          config.freezeColumns
+        );
+        setColumnOrder(state.columnOrder);
+        setColumnWidths(prev => ({ ...prev, ...state.columnWidths }));
+        setHiddenColumns(state.hiddenColumns);
+        setPinnedColumns(state.pinnedColumns);
+        setActiveFilter(state.filter);
+        setActiveSort(state.sort);
+      } else {
+        const widths: Record<string, number> = {};
+        loadedColumns.forEach((col, index) => {
+          widths[index.toString()] = parseSize(col.width);
+        });
+        setColumnOrder(loadedColumns.map((_, index) => index));
+        setColumnWidths(widths);
+        setHiddenColumns({});
+        setPinnedColumns(
+          getFrozenColumnNames(loadedColumns, config.freezeColumns)
+        );
+        setActiveFilter(null);
+        setActiveSort(null);
+      }
+
+      persistViews({ ...storedViews, activeView: name });
+    },
+    [loadedColumns, storedViews, persistViews, config.freezeColumns]
+  );
+
+  const deleteView = useCallback(
+    (name: string) => {
+      persistViews({
+        views: storedViews.views.filter(v => v.name !== name),
+        activeView:
+          storedViews.activeView === name ? null : storedViews.activeView,
+      });
+    },
+    [storedViews, persistViews]
+  );
+
+  // Show or hide a column from the column chooser, keeping at least one visible
+  const setColumnHidden = useCallback(
+    (columnName: string, hidden: boolean) => {
+      const visibleCount = columns.filter(col => !col.hidden).length;
+      const column = columns.find(col => col.name === columnName);
+      if (!column || (hidden && !column.hidden && visibleCount <= 1)) return;
+
+      setHiddenColumns(prev => ({ ...prev, [columnName]: hidden }));
+    },
+    [columns]
+  );
+
+  // Pinned columns are kept at the front of the order and frozen in the grid
+  const setColumnPinned = useCallback(
+    (columnName: string, pinned: boolean) => {
+      const nextPinned = pinned
+        ? [...pinnedColumns.filter(name => name !== columnName), columnName]
+        : pinnedColumns.filter(name => name !== columnName);
+
+      setPinnedColumns(nextPinned);
+      setColumnOrder(
+        pinColumnsFirst(
+          getEffectiveOrder(loadedColumns, columnOrder),
+          loadedColumns,
+          nextPinned
+        )
+      );
+    },
+    [pinnedColumns, loadedColumns, columnOrder]
+  );
+
+  // Move a column to the position of another, pinned columns stay in front
+  const moveColumn = useCallback(
+    (columnName: string, targetColumnName: string) => {
+      const fromIndex = loadedColumns.findIndex(col => col.name === columnName);
+      const toIndex = loadedColumns.findIndex(
+        col => col.name === targetColumnName
+      );
+      if (fromIndex === -1 || toIndex === -1) return;
+
+      const order = moveColumnInOrder(
+        getEffectiveOrder(loadedColumns, columnOrder),
+        fromIndex,
+        toIndex
+      );
+      setColumnOrder(pinColumnsFirst(order, loadedColumns, pinnedColumns));
+    },
+    [loadedColumns, columnOrder, pinnedColumns]
+  );
+
   const value: TableContextType = {
     data,
     columns,
@@ -362,12 +916,29 @@ export const TableProvider: React.FC<TableProviderProps> = ({
     activeFilter,
     activeSort,
     columnOrder,
+    cellEdits,
+    aggregates,
+    views: storedViews.views,
+    activeView: storedViews.activeView,
+    pinnedColumns,
+    groupBy,
+    groupRows,
     loadMoreData,
     handleColumnResize,
     handleSort,
+    clearSort,
     setActiveFilter,
     setError,
     handleColumnReorder,
+    updateCell,
+    saveView,
+    applyView,
+    deleteView,
+    setColumnHidden,
+    setColumnPinned,
+    moveColumn,
+    toggleGroup,
+    openLink,
   };
 
   return (
@@ -1,9 +1,12 @@
 import DataEditor, {
   CompactSelection,
   DataEditorRef,
+  EditableGridCell,
   GridCell,
   GridSelection,
+  HeaderClickedEventArgs,
   Item,
+  Rectangle,
   Theme,
 } from '@glideapps/glide-data-grid';
 import React, {
@@ -14,14 +17,40 @@ import React, {
   useState,
 } from 'react';
 import { useTable } from './DataTableContext';
+import { DataTableColumnFilter } from './DataTableColumnFilter';
 import { tableStyles } from './styles/style';
 import { useThemeWithMonitoring } from '@/components/theme-provider';
 import { getSelectionProps } from './utils/selectionModes';
-import { getCellContent as getCellContentUtil } from './utils/cellContent';
+import {
+  createEmptyCell,
+  getCellContent as getCellContentUtil,
+  getVisibleOrderedColumns,
+} from './utils/cellContent';
+import { getCellKey, parseEditedCell } from './utils/cellEditing';
+import { createSummaryCell } from './utils/aggregations';
 import { convertToGridColumns } from './utils/columnHelpers';
-import { iconCellRenderer } from './utils/customRenderers';
-import { generateHeaderIcons, addStandardIcons } from './utils/headerIcons';
+import { getFrozenColumnCount } from './utils/columnChooser';
+import { createGroupCell } from './utils/rowGrouping';
+import {
+  badgeCellRenderer,
+  iconCellRenderer,
+  progressCellRenderer,
+  sparklineCellRenderer,
+} from './utils/customRenderers';
+import {
+  generateHeaderIcons,
+  addStandardIcons,
+  addSortIcons,
+} from './utils/headerIcons';
 import { ThemeColors } from '@/lib/color-utils';
+import { ColType } from './types/types';
+
+const customRenderers = [
+  iconCellRenderer,
+  progressCellRenderer,
+  badgeCellRenderer,
+  sparklineCellRenderer,
+];
 
 interface TableEditorProps {
   hasOptions?: boolean;
@@ -40,10 +69,18 @@ export const DataTableEditor: React.FC<TableEditorProps> = ({
     editable,
     config,
     columnOrder,
+    activeSort,
+    pinnedColumns,
+    cellEdits,
+    aggregates,
+    groupRows,
     loadMoreData,
     handleColumnResize,
     handleSort,
     handleColumnReorder,
+    updateCell,
+    toggleGroup,
+    openLink,
   } = useTable();
 
   const {
@@ -51,7 +88,7 @@ export const DataTableEditor: React.FC<TableEditorProps> = ({
     allowColumnResizing,
     allowCopySelection,
     allowSorting,
-    freezeColumns,
+    allowFiltering,
     showIndexColumn,
     selectionMode,
     showGroups,
@@ -102,12 +139,16 @@ export const DataTableEditor: React.FC<TableEditorProps> = ({
     columns: CompactSelection.empty(),
     rows: CompactSelection.empty(),
   });
+  const [filterMenu, setFilterMenu] = useState<{
+    columnName: string;
+    bounds: Rectangle;
+  } | null>(null);
   const scrollThreshold = 10;
 
   // Generate header icons map for all column icons
   const headerIcons = useMemo(() => {
     const baseIcons = generateHeaderIcons(columns);
-    return addStandardIcons(baseIcons);
+    return addSortIcons(addStandardIcons(baseIcons));
   }, [columns]);
 
   // Track container width
@@ -127,44 +168,180 @@ export const DataTableEditor: React.FC<TableEditorProps> = ({
     };
   }, []);
 
+  // Grouped tables load rows per group instead of scrolling through all rows
+  const isGrouped = groupRows !== null;
+  const canEdit = editable && !isGrouped;
+  const rowCount = groupRows ? groupRows.length : data.length;
+
   // Handle scroll events
   const handleVisibleRegionChanged = useCallback(
     (range: { x: number; y: number; width: number; height: number }) => {
+      if (isGrouped) return;
       const bottomRow = range.y + range.height;
       const shouldLoadMore = bottomRow >= visibleRows - scrollThreshold;
       if (!isLoading && shouldLoadMore && hasMore) {
         loadMoreData();
       }
     },
-    [visibleRows, hasMore, loadMoreData, isLoading]
+    [visibleRows, hasMore, loadMoreData, isLoading, isGrouped]
   );
 
+  // Aggregates are shown in a summary row frozen to the bottom of the grid
+  const showSummaryRow = aggregates !== null;
+
   // Get cell content
   const getCellContent = useCallback(
     (cell: Item): GridCell => {
-      return getCellContentUtil(cell, data, columns, columnOrder, editable);
+      if (aggregates && cell[1] === rowCount) {
+        const column = getVisibleOrderedColumns(columns, columnOrder)[cell[0]];
+        return column
+          ? createSummaryCell(column, aggregates)
+          : createEmptyCell();
+      }
+
+      if (groupRows) {
+        const [col, row] = cell;
+        const displayRow = groupRows[row];
+        const column = getVisibleOrderedColumns(columns, columnOrder)[col];
+        if (!displayRow || !column) return createEmptyCell();
+
+        return displayRow.kind === 'row'
+          ? getCellContentUtil(
+              [col, 0],
+              [displayRow.row],
+              columns,
+              columnOrder,
+              false
+            )
+          : createGroupCell(displayRow, column, col === 0, columns);
+      }
+
+      const content = getCellContentUtil(
+        cell,
+        data,
+        columns,
+        columnOrder,
+        editable
+      );
+
+      const [col, row] = cell;
+      const column = getVisibleOrderedColumns(columns, columnOrder)[col];
+      const editStatus = column && cellEdits[getCellKey(row, column.name)];
+
+      if (editStatus === 'pending') {
+        return {
+          ...content,
+          themeOverride: tableStyles.tableEditor.pendingCell,
+        };
+      }
+      if (editStatus === 'saved') {
+        return { ...content, themeOverride: tableStyles.tableEditor.savedCell };
+      }
+      return content;
     },
-    [data, columns, columnOrder, editable]
+    [
+      data,
+      columns,
+      columnOrder,
+      editable,
+      cellEdits,
+      aggregates,
+      groupRows,
+      rowCount,
+    ]
   );
 
-  // Handle column header click for sorting
+  const getRowThemeOverride = useCallback(
+    (row: number): Partial<Theme> | undefined =>
+      (showSummaryRow && row === rowCount) || groupRows?.[row]?.kind === 'group'
+        ? { bgCell: tableTheme?.bgHeader }
+        : undefined,
+    [showSummaryRow, rowCount, groupRows, tableTheme]
+  );
+
+  // Expand or collapse a group when its row is clicked, and follow clicked links
+  const handleCellClicked = useCallback(
+    (cell: Item) => {
+      const [col, row] = cell;
+      const displayRow = groupRows?.[row];
+      if (displayRow?.kind === 'group') {
+        toggleGroup(displayRow.path);
+        return;
+      }
+
+      const column = getVisibleOrderedColumns(columns, columnOrder)[col];
+      if (column?.type !== ColType.Link) return;
+
+      const rowData = groupRows
+        ? displayRow?.kind === 'row'
+          ? displayRow.row
+          : undefined
+        : data[row];
+      if (rowData) {
+        openLink(rowData, row, column.name);
+      }
+    },
+    [groupRows, toggleGroup, columns, columnOrder, data, openLink]
+  );
+
+  // Validate edited values against the column type before they are committed
+  const validateCell = useCallback(
+    (cell: Item, newValue: EditableGridCell): boolean => {
+      const column = getVisibleOrderedColumns(columns, columnOrder)[cell[0]];
+      return !!column && parseEditedCell(newValue, column).valid;
+    },
+    [columns, columnOrder]
+  );
+
+  // Handle cell edits
+  const handleCellEdited = useCallback(
+    (cell: Item, newValue: EditableGridCell) => {
+      const [col, row] = cell;
+      const column = getVisibleOrderedColumns(columns, columnOrder)[col];
+      if (!column) return;
+
+      const parsed = parseEditedCell(newValue, column);
+      if (parsed.valid) {
+        updateCell(row, column.name, parsed.value);
+      }
+    },
+    [columns, columnOrder, updateCell]
+  );
+
+  // Handle column header click for sorting, shift-click adds a secondary sort
   const handleHeaderMenuClick = useCallback(
-    (col: number) => {
+    (col: number, event: HeaderClickedEventArgs) => {
       // Only handle sorting if it's enabled globally
       if (!allowSorting) return;
 
-      // Get visible columns to map the correct column index
-      const visibleColumns = columns.filter(c => !c.hidden);
-      const column = visibleColumns[col];
+      // Map the grid column index through the display order
+      const column = getVisibleOrderedColumns(columns, columnOrder)[col];
 
       // Check if this specific column is sortable (defaults to true if not specified)
       if (column && (column.sortable ?? true)) {
-        handleSort(column.name);
+        handleSort(column.name, event.shiftKey);
+      }
+    },
+    [columns, columnOrder, handleSort, allowSorting]
+  );
+
+  // Open the value filter popover from the column header menu
+  const handleHeaderMenuOpen = useCallback(
+    (col: number, bounds: Rectangle) => {
+      const column = getVisibleOrderedColumns(columns, columnOrder)[col];
+      if (column && (column.filterable ?? true)) {
+        setFilterMenu({ columnName: column.name, bounds });
       }
     },
-    [columns, handleSort, allowSorting]
+    [columns, columnOrder]
   );
 
+  const closeFilterMenu = useCallback(() => setFilterMenu(null), []);
+
+  const filterMenuColumn = filterMenu
+    ? columns.find(col => col.name === filterMenu.columnName)
+    : undefined;
+
   // Handle selection changes
   const handleGridSelectionChange = useCallback(
     (newSelection: GridSelection) => {
@@ -179,7 +356,14 @@ export const DataTableEditor: React.FC<TableEditorProps> = ({
     columnOrder,
     columnWidths,
     containerWidth,
-    showGroups ?? false
+    showGroups ?? false,
+    allowFiltering ?? false,
+    activeSort
+  );
+
+  const frozenColumns = getFrozenColumnCount(
+    getVisibleOrderedColumns(columns, columnOrder),
+    pinnedColumns
   );
 
   if (gridColumns.length === 0) {
@@ -195,19 +379,25 @@ export const DataTableEditor: React.FC<TableEditorProps> = ({
       <DataEditor
         ref={gridRef}
         columns={gridColumns}
-        rows={visibleRows}
+        rows={(isGrouped ? rowCount : visibleRows) + (showSummaryRow ? 1 : 0)}
+        freezeTrailingRows={showSummaryRow ? 1 : 0}
+        getRowThemeOverride={getRowThemeOverride}
         getCellContent={getCellContent}
-        customRenderers={[iconCellRenderer]}
+        onCellEdited={canEdit ? handleCellEdited : undefined}
+        validateCell={canEdit ? validateCell : undefined}
+        onCellClicked={handleCellClicked}
+        customRenderers={customRenderers}
         headerIcons={headerIcons}
         onColumnResize={allowColumnResizing ? handleColumnResize : undefined}
         onVisibleRegionChanged={handleVisibleRegionChanged}
         onHeaderClicked={allowSorting ? handleHeaderMenuClick : undefined}
+        onHeaderMenuClick={allowFiltering ? handleHeaderMenuOpen : undefined}
         smoothScrollX={true}
         smoothScrollY={true}
         theme={tableTheme}
         rowHeight={38}
         headerHeight={32}
-        freezeColumns={freezeColumns ?? 0}
+        freezeColumns={frozenColumns}
         getCellsForSelection={(allowCopySelection ?? true) ? true : undefined}
         keybindings={{ search: false }}
         rowSelect={selectionProps.rowSelect}
@@ -220,6 +410,14 @@ export const DataTableEditor: React.FC<TableEditorProps> = ({
         onColumnMoved={allowColumnReordering ? handleColumnReorder : undefined}
         groupHeaderHeight={showGroups ? 36 : undefined}
       />
+      {filterMenu && filterMenuColumn && (
+        <DataTableColumnFilter
+          key={filterMenu.columnName}
+          column={filterMenuColumn}
+          bounds={filterMenu.bounds}
+          onClose={closeFilterMenu}
+        />
+      )}
     </div>
   );
 };
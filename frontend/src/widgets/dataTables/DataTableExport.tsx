@@ -0,0 +1,135 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Download, X } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { logger } from '@/lib/logger';
+import { useTable } from './DataTableContext';
+import { tableStyles } from './styles/style';
+import { getVisibleOrderedColumns } from './utils/cellContent';
+import { fetchTableExport } from './utils/tableDataFetcher';
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  createExportBlob,
+  downloadBlob,
+} from './utils/tableExport';
+
+interface ExportProgress {
+  loadedRows: number;
+  totalRows: number;
+}
+
+/**
+ * Export menu that downloads the current view (filter, sort and visible
+ * column order) as CSV, XLSX or Arrow
+ */
+export const DataTableExport: React.FC = () => {
+  const { columns, columnOrder, connection, activeFilter, activeSort } =
+    useTable();
+  const { toast } = useToast();
+
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Cancel a running export when the table unmounts
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleExport = useCallback(
+    async (format: ExportFormat) => {
+      const exportColumns = getVisibleOrderedColumns(columns, columnOrder);
+      if (exportColumns.length === 0) return;
+
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setProgress({ loadedRows: 0, totalRows: 0 });
+
+      try {
+        const tables = await fetchTableExport(connection, {
+          filter: activeFilter,
+          sort: activeSort,
+          columns: exportColumns.map(col => col.name),
+          signal: controller.signal,
+          onProgress: (loadedRows, totalRows) =>
+            setProgress({ loadedRows, totalRows }),
+        });
+
+        const blob = createExportBlob(tables, exportColumns, format);
+        const { extension } = EXPORT_FORMATS[format];
+        downloadBlob(blob, `${connection.sourceId || 'table'}.${extension}`);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        logger.error('Failed to export table:', error);
+        toast({
+          title: 'Export Failed',
+          description:
+            error instanceof Error ? error.message : 'Failed to export table',
+          variant: 'destructive',
+        });
+      } finally {
+        if (abortRef.current === controller) {
+          abortRef.current = null;
+          setProgress(null);
+        }
+      }
+    },
+    [columns, columnOrder, connection, activeFilter, activeSort, toast]
+  );
+
+  const handleCancel = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setProgress(null);
+  }, []);
+
+  const styles = tableStyles.tableOptions.export;
+
+  if (progress) {
+    const percent =
+      progress.totalRows > 0
+        ? Math.min(100, (progress.loadedRows / progress.totalRows) * 100)
+        : 0;
+
+    return (
+      <div className={styles.progress}>
+        <Progress value={percent} className={styles.progressBar} />
+        <span className={styles.progressText}>
+          {progress.loadedRows.toLocaleString()} /{' '}
+          {progress.totalRows.toLocaleString()} rows
+        </span>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={handleCancel}
+          aria-label="Cancel export"
+        >
+          <X />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Download />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+          <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+            {EXPORT_FORMATS[format].label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
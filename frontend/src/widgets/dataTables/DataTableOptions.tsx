@@ -8,19 +8,42 @@ import {
 } from 'filter-query-editor';
 import { Filter } from '@/services/grpcTableService';
 import { parseInvalidQuery } from './utils/tableDataFetcher';
-import { Loader2 } from 'lucide-react';
+import { Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { DataTableExport } from './DataTableExport';
+import { DataTableViews } from './DataTableViews';
+import { DataTableColumnChooser } from './DataTableColumnChooser';
 
 export const DataTableOptions: React.FC<{
-  hasOptions: { allowFiltering: boolean; allowLlmFiltering: boolean };
+  hasOptions: {
+    allowFiltering: boolean;
+    allowLlmFiltering: boolean;
+    allowExport: boolean;
+    allowViews: boolean;
+    allowColumnChooser: boolean;
+  };
 }> = ({ hasOptions }) => {
   const [query, setQuery] = useState<string>('');
   const [pendingFilter, setPendingFilter] = useState<Filter | null>(null);
   const [isParsing, setIsParsing] = useState(false);
   const [isQueryValid, setIsQueryValid] = useState(true);
 
-  const { columns, setActiveFilter, connection } = useTable();
-
-  const { allowFiltering, allowLlmFiltering } = hasOptions;
+  const {
+    columns,
+    setActiveFilter,
+    connection,
+    activeSort,
+    clearSort,
+    config,
+  } = useTable();
+
+  const {
+    allowFiltering,
+    allowLlmFiltering,
+    allowExport,
+    allowViews,
+    allowColumnChooser,
+  } = hasOptions;
 
   // Filter columns to only include filterable ones (defaults to true if not specified)
   // Map DataColumn to ColumnDef format expected by QueryEditor
@@ -148,7 +171,12 @@ export const DataTableOptions: React.FC<{
   );
 
   // Early return after all hooks
-  if (columns.length === 0) {
+  const showClearSort = !!config.allowSorting && (activeSort?.length ?? 0) > 0;
+
+  if (
+    columns.length === 0 ||
+    (!allowFiltering && !allowExport && !allowViews && !allowColumnChooser)
+  ) {
     return null;
   }
 
@@ -180,6 +208,18 @@ export const DataTableOptions: React.FC<{
     <div style={tableStyles.tableOptions.container}>
       <div className={tableStyles.tableOptions.inner}>
         {allowFiltering && queryEditorContent}
+        <div className={tableStyles.tableOptions.rightSection}>
+          {showClearSort && (
+            <Button variant="ghost" size="sm" onClick={clearSort}>
+              <X />
+              Clear sort
+              {activeSort && activeSort.length > 1 && ` (${activeSort.length})`}
+            </Button>
+          )}
+          {allowColumnChooser && <DataTableColumnChooser />}
+          {allowViews && <DataTableViews />}
+          {allowExport && <DataTableExport />}
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,109 @@
+import React, { useCallback, useState } from 'react';
+import { Check, ChevronDown, Save, Trash2 } from 'lucide-react';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { useTable } from './DataTableContext';
+import { tableStyles } from './styles/style';
+
+const DEFAULT_VIEW_LABEL = 'Default view';
+
+/**
+ * View switcher that saves the current layout, filter and sort under a name
+ * and switches between saved views
+ */
+export const DataTableViews: React.FC = () => {
+  const { views, activeView, saveView, applyView, deleteView } = useTable();
+
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+
+  const trimmedName = name.trim();
+
+  const handleSave = useCallback(() => {
+    if (!trimmedName) return;
+    saveView(trimmedName);
+    setName('');
+    setOpen(false);
+  }, [trimmedName, saveView]);
+
+  const handleApply = useCallback(
+    (viewName: string | null) => {
+      applyView(viewName);
+      setOpen(false);
+    },
+    [applyView]
+  );
+
+  const styles = tableStyles.tableOptions.views;
+
+  const renderItem = (viewName: string | null, label: string) => (
+    <div
+      key={viewName ?? ''}
+      className={styles.item}
+      onClick={() => handleApply(viewName)}
+    >
+      <Check
+        className={activeView === viewName ? styles.check : styles.checkHidden}
+      />
+      <span className={styles.itemLabel}>{label}</span>
+      {viewName !== null && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className={styles.deleteButton}
+          onClick={event => {
+            event.stopPropagation();
+            deleteView(viewName);
+          }}
+          aria-label={`Delete view ${viewName}`}
+        >
+          <Trash2 />
+        </Button>
+      )}
+    </div>
+  );
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          {activeView ?? DEFAULT_VIEW_LABEL}
+          <ChevronDown />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className={styles.content}>
+        <div className={styles.list}>
+          {renderItem(null, DEFAULT_VIEW_LABEL)}
+          {views.map(view => renderItem(view.name, view.name))}
+        </div>
+        <div className={styles.saveRow}>
+          <Input
+            value={name}
+            onChange={event => setName(event.target.value)}
+            onKeyDown={event => {
+              if (event.key === 'Enter') {
+                event.preventDefault();
+                handleSave();
+              }
+            }}
+            placeholder="Save current view as..."
+            className="h-8"
+          />
+          <Button
+            size="sm"
+            onClick={handleSave}
+            disabled={!trimmedName}
+            aria-label="Save view"
+          >
+            <Save />
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -1,14 +1,20 @@
 import '@glideapps/glide-data-grid/dist/index.css';
 import './styles/checkbox.css';
-import React from 'react';
+import React, { useCallback } from 'react';
 import { TableProvider, useTable } from './DataTableContext';
 import { ErrorDisplay } from '@/components/ErrorDisplay';
 import { Loading } from '@/components/Loading';
 import { DataTableEditor } from './DataTableEditor';
 import { DataTableOptions } from './DataTableOptions';
 import { tableStyles } from './styles/style';
-import { TableProps } from './types/types';
+import {
+  DataTableCellUpdate,
+  DataTableLinkClick,
+  DataTableViewState,
+  TableProps,
+} from './types/types';
 import { getWidth, getHeight } from '@/lib/styles';
+import { useEventHandler } from '@/components/event-handler';
 
 interface TableLayoutProps {
   children?: React.ReactNode;
@@ -30,6 +36,8 @@ const TableLayout: React.FC<TableLayoutProps> = ({ children }) => {
 };
 
 export const DataTable: React.FC<TableProps> = ({
+  id,
+  events = [],
   columns,
   connection,
   config = {},
@@ -44,6 +52,9 @@ export const DataTable: React.FC<TableProps> = ({
     allowLlmFiltering: config.allowLlmFiltering ?? true,
     allowSorting: config.allowSorting ?? true,
     allowFiltering: config.allowFiltering ?? true,
+    allowExport: config.allowExport ?? true,
+    allowViews: config.allowViews ?? true,
+    allowColumnChooser: config.allowColumnChooser ?? true,
     allowColumnReordering: config.allowColumnReordering ?? true,
     allowColumnResizing: config.allowColumnResizing ?? true,
     allowCopySelection: config.allowCopySelection ?? true,
@@ -52,8 +63,32 @@ export const DataTable: React.FC<TableProps> = ({
     showGroups: config.showGroups ?? false,
     batchSize: config.batchSize,
     loadAllRows: config.loadAllRows ?? false,
+    groupBy: config.groupBy,
   };
 
+  const eventHandler = useEventHandler();
+  const hasCellUpdateHandler = events.includes('OnCellUpdate');
+  const hasViewSaveHandler = events.includes('OnViewSave');
+  const hasLinkClickHandler = events.includes('OnLinkClick');
+
+  // Edits are only allowed when the server listens for them
+  const handleCellUpdate = useCallback(
+    (update: DataTableCellUpdate) => eventHandler('OnCellUpdate', id, [update]),
+    [eventHandler, id]
+  );
+
+  // Saved views are also sent to the server when it listens for them
+  const handleViewSave = useCallback(
+    (view: DataTableViewState) => eventHandler('OnViewSave', id, [view]),
+    [eventHandler, id]
+  );
+
+  // Link clicks are raised on the server instead of opening the link when it listens for them
+  const handleLinkClick = useCallback(
+    (click: DataTableLinkClick) => eventHandler('OnLinkClick', id, [click]),
+    [eventHandler, id]
+  );
+
   // Create styles object with width and height if provided
   const containerStyle: React.CSSProperties = {
     ...getWidth(width),
@@ -66,7 +101,11 @@ export const DataTable: React.FC<TableProps> = ({
         columns={columns}
         connection={connection}
         config={finalConfig}
-        editable={editable}
+        editable={editable && hasCellUpdateHandler}
+        onCellUpdate={hasCellUpdateHandler ? handleCellUpdate : undefined}
+        viewKey={id || connection.sourceId}
+        onViewSave={hasViewSaveHandler ? handleViewSave : undefined}
+        onLinkClick={hasLinkClickHandler ? handleLinkClick : undefined}
       >
         <TableLayout>
           <>
@@ -74,10 +113,20 @@ export const DataTable: React.FC<TableProps> = ({
               hasOptions={{
                 allowFiltering: finalConfig.allowFiltering,
                 allowLlmFiltering: finalConfig.allowLlmFiltering,
+                allowExport: finalConfig.allowExport,
+                allowViews: finalConfig.allowViews,
+                allowColumnChooser: finalConfig.allowColumnChooser,
               }}
             />
 
-            <DataTableEditor hasOptions={finalConfig.allowFiltering} />
+            <DataTableEditor
+              hasOptions={
+                finalConfig.allowFiltering ||
+                finalConfig.allowExport ||
+                finalConfig.allowViews ||
+                finalConfig.allowColumnChooser
+              }
+            />
           </>
         </TableLayout>
       </TableProvider>
@@ -24,7 +24,7 @@ export const tableStyles = {
     },
     inner: 'flex items-center gap-4 px-3 py-3',
     leftSection: 'flex items-center gap-4',
-    rightSection: 'flex items-center gap-2',
+    rightSection: 'ml-auto flex items-center gap-2',
     dialog: {
       content: 'bg-white p-6 rounded-lg max-w-[600px] flex flex-col gap-4',
       header: 'flex items-center justify-between',
@@ -36,6 +36,34 @@ export const tableStyles = {
       helpText: 'text-xs text-muted-foreground mt-2',
       examplesList: 'list-disc list-inside space-y-1 mt-1',
     },
+    export: {
+      progress: 'flex items-center gap-2',
+      progressBar: 'w-32',
+      progressText: 'text-xs text-muted-foreground whitespace-nowrap',
+    },
+    views: {
+      content: 'w-64 p-2 flex flex-col gap-2',
+      list: 'max-h-64 overflow-y-auto flex flex-col',
+      item: 'flex items-center gap-2 px-2 py-1 rounded-sm text-sm cursor-pointer hover:bg-accent',
+      itemLabel: 'flex-1 truncate',
+      check: 'h-4 w-4 shrink-0',
+      checkHidden: 'h-4 w-4 shrink-0 invisible',
+      deleteButton: 'h-6 w-6',
+      saveRow: 'flex items-center gap-2 pt-2 border-t',
+    },
+    columnChooser: {
+      content: 'w-72 p-2 flex flex-col gap-2',
+      list: 'max-h-80 overflow-y-auto flex flex-col',
+      item: 'flex items-center gap-2 px-1 py-1 rounded-sm text-sm hover:bg-accent',
+      itemDragging:
+        'flex items-center gap-2 px-1 py-1 rounded-sm text-sm bg-accent opacity-50',
+      itemLabel: 'flex-1 truncate',
+      grip: 'h-4 w-4 shrink-0 cursor-grab text-muted-foreground',
+      pin: 'h-6 w-6 text-muted-foreground',
+      pinActive: 'h-6 w-6 text-primary',
+      message:
+        'flex items-center justify-center py-2 text-xs text-muted-foreground',
+    },
   },
 
   // TableEditor component
@@ -55,6 +83,25 @@ export const tableStyles = {
       borderRadius: '0 0 var(--radius) var(--radius)',
       overflow: 'hidden',
     },
+    // Theme overrides for cells edited in the grid
+    pendingCell: {
+      bgCell: 'rgba(59, 130, 246, 0.08)',
+    },
+    savedCell: {
+      bgCell: 'rgba(234, 179, 8, 0.12)',
+    },
+  },
+
+  // DataTableColumnFilter component
+  columnFilter: {
+    content: 'w-64 p-2 flex flex-col gap-2',
+    list: 'max-h-64 overflow-y-auto flex flex-col',
+    item: 'flex items-center gap-2 px-2 py-1.5 rounded-sm text-sm cursor-pointer hover:bg-accent',
+    itemLabel: 'truncate',
+    message:
+      'flex items-center justify-center py-2 text-xs text-muted-foreground',
+    error: 'py-2 text-xs text-destructive',
+    footer: 'flex items-center justify-between pt-1',
   },
 
   // LoadingDisplay component
@@ -1,5 +1,10 @@
+import { Filter, SortOrder } from '@/services/grpcTableService';
+
+// Sparkline columns hold arrays of numbers
+export type CellValue = string | number | boolean | number[] | null;
+
 export interface DataRow {
-  values: (string | number | boolean | null)[];
+  values: CellValue[];
 }
 
 export enum ColType {
@@ -9,6 +14,11 @@ export enum ColType {
   Date = 'Date',
   DateTime = 'DateTime',
   Icon = 'Icon',
+  Link = 'Link',
+  Image = 'Image',
+  Progress = 'Progress',
+  Badge = 'Badge',
+  Sparkline = 'Sparkline',
 }
 
 export enum SortDirection {
@@ -17,6 +27,14 @@ export enum SortDirection {
   None = 'None',
 }
 
+export enum AggregateFunction {
+  Sum = 'Sum',
+  Average = 'Average',
+  Min = 'Min',
+  Max = 'Max',
+  Count = 'Count',
+}
+
 export enum Align {
   Left = 'Left',
   Center = 'Center',
@@ -38,6 +56,10 @@ export interface DataColumn {
   icon?: string | null;
   help?: string | null;
   iconSet?: 'lucide' | 'custom';
+  editable?: boolean;
+  aggregate?: AggregateFunction | null;
+  // Badge background colors keyed by cell value
+  badgeColors?: Record<string, string> | null;
 }
 
 export interface DataTableConnection {
@@ -53,6 +75,9 @@ export interface DataTableConfiguration {
   allowSorting?: boolean;
   allowFiltering?: boolean;
   allowLlmFiltering?: boolean;
+  allowExport?: boolean;
+  allowViews?: boolean;
+  allowColumnChooser?: boolean;
   allowColumnReordering?: boolean;
   allowColumnResizing?: boolean;
   allowCopySelection?: boolean;
@@ -61,16 +86,44 @@ export interface DataTableConfiguration {
   showGroups?: boolean;
   batchSize?: number;
   loadAllRows?: boolean;
+  groupBy?: string[];
+}
+
+export interface DataTableViewState {
+  name: string;
+  columnOrder: string[];
+  columnWidths: Record<string, number>;
+  hiddenColumns: string[];
+  /** Missing when the view keeps the columns the table pins by default */
+  pinnedColumns?: string[];
+  filter: Filter | null;
+  sort: SortOrder[] | null;
+}
+
+export interface DataTableCellUpdate {
+  row: number;
+  column: string;
+  value: CellValue;
+  oldValue: CellValue;
+  rowValues: Record<string, CellValue>;
+}
+
+export interface DataTableLinkClick {
+  row: number;
+  column: string;
+  url: string;
+  rowValues: Record<string, CellValue>;
 }
 
 export interface TableProps {
+  id: string;
+  events?: string[];
   columns: DataColumn[];
   connection: DataTableConnection;
   config?: DataTableConfiguration;
   editable?: boolean;
   width?: string;
   height?: string;
-  onCellUpdate?: (row: number, col: number, value: unknown) => void;
 }
 
 export enum FilterTypes {
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { GridCellKind } from '@glideapps/glide-data-grid';
+import {
+  buildAggregations,
+  createSummaryCell,
+  formatAggregateValue,
+  mapAggregationResults,
+} from './aggregations';
+import { AggregateFunction, Align, ColType, DataColumn } from '../types/types';
+
+const columns: DataColumn[] = [
+  { name: 'Region', type: ColType.Text, width: 100 },
+  {
+    name: 'Revenue',
+    type: ColType.Number,
+    width: 100,
+    aggregate: AggregateFunction.Sum,
+    align: Align.Right,
+  },
+  {
+    name: 'Price',
+    type: ColType.Number,
+    width: 100,
+    aggregate: AggregateFunction.Average,
+  },
+];
+
+describe('aggregations', () => {
+  describe('buildAggregations', () => {
+    it('should build aggregations for columns with an aggregate', () => {
+      expect(buildAggregations(columns)).toEqual([
+        { column: 'Revenue', function: 'sum' },
+        { column: 'Price', function: 'avg' },
+      ]);
+    });
+
+    it('should return an empty array when no column aggregates', () => {
+      expect(buildAggregations([columns[0]])).toEqual([]);
+    });
+  });
+
+  describe('mapAggregationResults', () => {
+    it('should key results by column name', () => {
+      expect(
+        mapAggregationResults([
+          { column: 'Revenue', function: 'sum', value: 1200 },
+          { column: 'Price', function: 'avg', value: null },
+        ])
+      ).toEqual({ Revenue: 1200, Price: null });
+    });
+  });
+
+  describe('formatAggregateValue', () => {
+    it('should prefix values with the aggregate label', () => {
+      expect(formatAggregateValue(AggregateFunction.Sum, 1200)).toBe(
+        'Sum: 1200'
+      );
+      expect(formatAggregateValue(AggregateFunction.Average, 2.5)).toBe(
+        'Avg: 2.50'
+      );
+    });
+
+    it('should show a placeholder for missing values', () => {
+      expect(formatAggregateValue(AggregateFunction.Max, null)).toBe('Max: –');
+    });
+  });
+
+  describe('createSummaryCell', () => {
+    it('should create a readonly cell with the formatted aggregate', () => {
+      const cell = createSummaryCell(columns[1], { Revenue: 42 });
+      expect(cell.kind).toBe(GridCellKind.Text);
+      if (cell.kind === GridCellKind.Text) {
+        expect(cell.displayData).toBe('Sum: 42');
+        expect(cell.readonly).toBe(true);
+        expect(cell.contentAlign).toBe('right');
+      }
+    });
+
+    it('should create an empty cell for columns without an aggregate', () => {
+      const cell = createSummaryCell(columns[0], { Revenue: 42 });
+      if (cell.kind === GridCellKind.Text) {
+        expect(cell.displayData).toBe('');
+      }
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { GridCell, GridCellKind } from '@glideapps/glide-data-grid';
+import { Aggregation, AggregationResult } from '@/services/grpcTableService';
+import { AggregateFunction, DataColumn } from '../types/types';
+import { formatNumberValue, getContentAlign } from './cellContent';
+
+/**
+ * Maps AggregateFunction values to the function names used in DataTableQuery
+ */
+const QUERY_FUNCTIONS: Record<AggregateFunction, string> = {
+  [AggregateFunction.Sum]: 'sum',
+  [AggregateFunction.Average]: 'avg',
+  [AggregateFunction.Min]: 'min',
+  [AggregateFunction.Max]: 'max',
+  [AggregateFunction.Count]: 'count',
+};
+
+/**
+ * Short labels shown in front of aggregate values in the summary row
+ */
+const LABELS: Record<AggregateFunction, string> = {
+  [AggregateFunction.Sum]: 'Sum',
+  [AggregateFunction.Average]: 'Avg',
+  [AggregateFunction.Min]: 'Min',
+  [AggregateFunction.Max]: 'Max',
+  [AggregateFunction.Count]: 'Count',
+};
+
+/**
+ * Builds the aggregations to request for all columns that declare one
+ */
+export function buildAggregations(columns: DataColumn[]): Aggregation[] {
+  return columns
+    .filter(col => col.aggregate)
+    .map(col => ({
+      column: col.name,
+      function: QUERY_FUNCTIONS[col.aggregate!],
+    }));
+}
+
+/**
+ * Maps aggregation results to values keyed by column name
+ */
+export function mapAggregationResults(
+  results: AggregationResult[]
+): Record<string, number | null> {
+  const values: Record<string, number | null> = {};
+  results.forEach(result => {
+    values[result.column] = result.value;
+  });
+  return values;
+}
+
+/**
+ * Formats an aggregate value for display in the summary row
+ */
+export function formatAggregateValue(
+  aggregate: AggregateFunction,
+  value: number | null | undefined
+): string {
+  const label = LABELS[aggregate];
+  if (value === null || value === undefined) {
+    return `${label}: –`;
+  }
+  return `${label}: ${formatNumberValue(value)}`;
+}
+
+/**
+ * Creates a readonly cell for the summary row
+ * Columns without an aggregate get an empty cell
+ */
+export function createSummaryCell(
+  column: DataColumn,
+  aggregates: Record<string, number | null>
+): GridCell {
+  const displayData = column.aggregate
+    ? formatAggregateValue(column.aggregate, aggregates[column.name])
+    : '';
+
+  return {
+    kind: GridCellKind.Text,
+    data: displayData,
+    displayData,
+    allowOverlay: false,
+    readonly: true,
+    contentAlign: column.align ? getContentAlign(column.align) : undefined,
+  };
+}
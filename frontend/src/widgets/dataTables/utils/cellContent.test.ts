@@ -574,4 +574,75 @@ describe('cellContent utilities', () => {
       expect(rightCell.contentAlign).toBe('right');
     });
   });
+
+  describe('rich cell types', () => {
+    const columns: DataColumn[] = [
+      { name: 'Site', type: ColType.Link, width: 100 },
+      { name: 'Photo', type: ColType.Image, width: 100 },
+      { name: 'Done', type: ColType.Progress, width: 100 },
+      {
+        name: 'Status',
+        type: ColType.Badge,
+        width: 100,
+        badgeColors: { Active: '#16a34a' },
+      },
+      { name: 'Trend', type: ColType.Sparkline, width: 100 },
+    ];
+
+    const data: DataRow[] = [
+      {
+        values: [
+          'https://ivy.app',
+          'https://ivy.app/a.png',
+          42,
+          'Active',
+          [1, 3, 2],
+        ],
+      },
+    ];
+
+    const cellAt = (col: number) =>
+      getCellContent([col, 0], data, columns, [], true);
+
+    it('should create link and image cells', () => {
+      expect(cellAt(0)).toMatchObject({
+        kind: GridCellKind.Uri,
+        data: 'https://ivy.app',
+        readonly: true,
+      });
+      expect(cellAt(1)).toMatchObject({
+        kind: GridCellKind.Image,
+        data: ['https://ivy.app/a.png'],
+      });
+    });
+
+    it('should create progress, badge and sparkline custom cells', () => {
+      expect(cellAt(2)).toMatchObject({
+        kind: GridCellKind.Custom,
+        data: { kind: 'progress-cell', value: 42 },
+      });
+      expect(cellAt(3)).toMatchObject({
+        kind: GridCellKind.Custom,
+        data: { kind: 'badge-cell', label: 'Active', color: '#16a34a' },
+      });
+      expect(cellAt(4)).toMatchObject({
+        kind: GridCellKind.Custom,
+        copyData: '1, 3, 2',
+        data: { kind: 'sparkline-cell', values: [1, 3, 2] },
+      });
+    });
+
+    it('should leave badges without a mapped color uncolored', () => {
+      const cell = getCellContent(
+        [3, 0],
+        [{ values: [null, null, null, 'Archived', null] }],
+        columns,
+        [],
+        false
+      );
+      expect(cell).toMatchObject({
+        data: { kind: 'badge-cell', label: 'Archived', color: undefined },
+      });
+    });
+  });
 });
@@ -1,5 +1,6 @@
 import { GridCell, GridCellKind, Item } from '@glideapps/glide-data-grid';
-import { Align, DataColumn, DataRow } from '../types/types';
+import { Align, ColType, DataColumn, DataRow } from '../types/types';
+import { isColumnEditable } from './cellEditing';
 
 /**
  * Converts Align enum to contentAlign value for GridCell
@@ -76,6 +77,75 @@ export function createIconCell(iconName: string, align?: Align): GridCell {
   };
 }
 
+/**
+ * Creates a clickable link cell; clicks are handled by the grid's cell click handler
+ */
+export function createLinkCell(url: string, align?: Align): GridCell {
+  return {
+    kind: GridCellKind.Uri,
+    data: url,
+    hoverEffect: true,
+    allowOverlay: false,
+    readonly: true,
+    contentAlign: align ? getContentAlign(align) : undefined,
+  };
+}
+
+/**
+ * Creates a thumbnail image cell
+ */
+export function createImageCell(url: string): GridCell {
+  return {
+    kind: GridCellKind.Image,
+    data: [url],
+    allowOverlay: true,
+    readonly: true,
+    rounding: 4,
+  };
+}
+
+/**
+ * Creates a progress bar cell from a percentage value
+ */
+export function createProgressCell(value: number): GridCell {
+  return {
+    kind: GridCellKind.Custom,
+    allowOverlay: false,
+    readonly: true,
+    copyData: String(value),
+    data: { kind: 'progress-cell', value },
+  };
+}
+
+/**
+ * Creates a badge cell, colored through the column's value-to-color map
+ */
+export function createBadgeCell(
+  label: string,
+  colors?: Record<string, string> | null
+): GridCell {
+  return {
+    kind: GridCellKind.Custom,
+    allowOverlay: false,
+    readonly: true,
+    copyData: label,
+    data: { kind: 'badge-cell', label, color: colors?.[label] },
+  };
+}
+
+/**
+ * Creates a sparkline cell from an array of numbers
+ */
+export function createSparklineCell(values: number[]): GridCell {
+  return {
+    kind: GridCellKind.Custom,
+    allowOverlay: false,
+    readonly: true,
+    copyData: values.join(', '),
+    data: { kind: 'sparkline-cell', values },
+  };
+}
+
 /**
  * Checks if a column type represents a date/timestamp
  */
@@ -146,7 +216,8 @@ export function createDateCell(
 
   return {
     kind: GridCellKind.Text,
-    data: displayData,
+    // Editable cells expose an ISO string so the overlay editor round-trips reliably
+    data: editable ? dateValue.toISOString() : displayData,
     displayData,
     allowOverlay: editable,
     readonly: !editable,
@@ -230,6 +301,17 @@ export function getOrderedColumns(
     : columns;
 }
 
+/**
+ * Gets the visible columns in display order
+ * Applies column ordering first, then filters out hidden columns
+ */
+export function getVisibleOrderedColumns(
+  columns: DataColumn[],
+  columnOrder: number[]
+): DataColumn[] {
+  return getOrderedColumns(columns, columnOrder).filter(col => !col.hidden);
+}
+
 /**
  * Main function to get cell content for a grid cell
  * Filters out hidden columns and applies column ordering
@@ -243,17 +325,7 @@ export function getCellContent(
 ): GridCell {
   const [col, row] = cell;
 
-  // Apply column order first, then filter out hidden columns
-  let orderedCols: DataColumn[];
-  if (columnOrder.length === columns.length) {
-    // Map using columnOrder indices, then filter hidden
-    orderedCols = columnOrder
-      .map(idx => columns[idx])
-      .filter(col => !col.hidden);
-  } else {
-    // No reordering, just filter hidden columns
-    orderedCols = columns.filter(col => !col.hidden);
-  }
+  const orderedCols = getVisibleOrderedColumns(columns, columnOrder);
 
   // Safety check
   if (row >= data.length || col >= orderedCols.length) {
@@ -266,10 +338,11 @@ export function getCellContent(
   const cellValue = rowData.values[originalColumnIndex];
   const columnType = column.type?.toLowerCase() || 'text';
   const align = column.align;
+  const cellEditable = editable && isColumnEditable(column);
 
   // Handle null/undefined values
   if (cellValue === null || cellValue === undefined) {
-    return createNullCell(editable);
+    return createNullCell(cellEditable);
   }
 
   // Handle explicit icon type from backend metadata
@@ -277,9 +350,33 @@ export function getCellContent(
     return createIconCell(cellValue, align);
   }
 
+  // Handle rich cell types selected by the backend
+  if (column.type === ColType.Link) {
+    return createLinkCell(String(cellValue), align);
+  }
+
+  if (column.type === ColType.Image) {
+    return createImageCell(String(cellValue));
+  }
+
+  if (column.type === ColType.Progress && !Array.isArray(cellValue)) {
+    const value = Number(cellValue);
+    if (!Number.isNaN(value)) {
+      return createProgressCell(value);
+    }
+  }
+
+  if (column.type === ColType.Badge) {
+    return createBadgeCell(String(cellValue), column.badgeColors);
+  }
+
+  if (column.type === ColType.Sparkline && Array.isArray(cellValue)) {
+    return createSparklineCell(cellValue);
+  }
+
   // Handle Date and DateTime types
   if (isDateColumnType(columnType)) {
-    const dateCell = createDateCell(cellValue, columnType, editable, align);
+    const dateCell = createDateCell(cellValue, columnType, cellEditable, align);
     if (dateCell) {
       return dateCell;
     }
@@ -287,12 +384,12 @@ export function getCellContent(
 
   // Handle numeric types
   if (typeof cellValue === 'number' && isNumericColumnType(columnType)) {
-    return createNumberCell(cellValue, editable, align);
+    return createNumberCell(cellValue, cellEditable, align);
   }
 
   // Handle boolean types
   if (typeof cellValue === 'boolean') {
-    return createBooleanCell(cellValue, editable, align);
+    return createBooleanCell(cellValue, cellEditable, align);
   }
 
   // Fallback: Use heuristic icon detection if no metadata provided
@@ -302,5 +399,5 @@ export function getCellContent(
   }
 
   // Default to text
-  return createTextCell(cellValue, editable, align);
+  return createTextCell(cellValue, cellEditable, align);
 }
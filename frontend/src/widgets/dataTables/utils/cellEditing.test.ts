@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { EditableGridCell, GridCellKind } from '@glideapps/glide-data-grid';
+import { getCellKey, isColumnEditable, parseEditedCell } from './cellEditing';
+import { ColType, DataColumn } from '../types/types';
+
+const column = (type: ColType, editable?: boolean): DataColumn => ({
+  name: 'value',
+  type,
+  width: 100,
+  editable,
+});
+
+const textCell = (data: string): EditableGridCell => ({
+  kind: GridCellKind.Text,
+  data,
+  displayData: data,
+  allowOverlay: true,
+});
+
+const numberCell = (data: number | undefined): EditableGridCell => ({
+  kind: GridCellKind.Number,
+  data,
+  displayData: String(data),
+  allowOverlay: true,
+});
+
+const booleanCell = (data: boolean): EditableGridCell => ({
+  kind: GridCellKind.Boolean,
+  data,
+  allowOverlay: false,
+});
+
+describe('cellEditing', () => {
+  describe('isColumnEditable', () => {
+    it('should allow editing of primitive column types', () => {
+      expect(isColumnEditable(column(ColType.Number))).toBe(true);
+      expect(isColumnEditable(column(ColType.Text))).toBe(true);
+      expect(isColumnEditable(column(ColType.Boolean))).toBe(true);
+      expect(isColumnEditable(column(ColType.Date))).toBe(true);
+      expect(isColumnEditable(column(ColType.DateTime))).toBe(true);
+    });
+
+    it('should not allow editing of icon columns', () => {
+      expect(isColumnEditable(column(ColType.Icon))).toBe(false);
+    });
+
+    it('should respect the column editable flag', () => {
+      expect(isColumnEditable(column(ColType.Text, false))).toBe(false);
+    });
+  });
+
+  describe('getCellKey', () => {
+    it('should combine row and column name', () => {
+      expect(getCellKey(3, 'Name')).toBe('3:Name');
+    });
+  });
+
+  describe('parseEditedCell', () => {
+    it('should parse numbers from number and text cells', () => {
+      expect(parseEditedCell(numberCell(42), column(ColType.Number))).toEqual({
+        valid: true,
+        value: 42,
+      });
+      expect(
+        parseEditedCell(textCell(' 3.5 '), column(ColType.Number))
+      ).toEqual({ valid: true, value: 3.5 });
+    });
+
+    it('should reject invalid numbers', () => {
+      const result = parseEditedCell(textCell('abc'), column(ColType.Number));
+      expect(result.valid).toBe(false);
+    });
+
+    it('should treat empty input as null for non-text columns', () => {
+      expect(parseEditedCell(textCell(''), column(ColType.Number))).toEqual({
+        valid: true,
+        value: null,
+      });
+      expect(parseEditedCell(textCell(''), column(ColType.Text))).toEqual({
+        valid: true,
+        value: '',
+      });
+    });
+
+    it('should parse booleans', () => {
+      expect(
+        parseEditedCell(booleanCell(true), column(ColType.Boolean))
+      ).toEqual({ valid: true, value: true });
+      expect(
+        parseEditedCell(textCell('FALSE'), column(ColType.Boolean))
+      ).toEqual({ valid: true, value: false });
+      expect(
+        parseEditedCell(textCell('maybe'), column(ColType.Boolean)).valid
+      ).toBe(false);
+    });
+
+    it('should format dates without time for Date columns', () => {
+      const result = parseEditedCell(
+        textCell('2025-03-04T00:00:00'),
+        column(ColType.Date)
+      );
+      expect(result).toEqual({ valid: true, value: '2025-03-04' });
+    });
+
+    it('should format DateTime values as ISO strings', () => {
+      const result = parseEditedCell(
+        textCell('2025-03-04T10:20:30.000Z'),
+        column(ColType.DateTime)
+      );
+      expect(result).toEqual({
+        valid: true,
+        value: '2025-03-04T10:20:30.000Z',
+      });
+    });
+
+    it('should reject invalid dates', () => {
+      const result = parseEditedCell(
+        textCell('not a date'),
+        column(ColType.Date)
+      );
+      expect(result.valid).toBe(false);
+    });
+
+    it('should reject edits on non-editable columns', () => {
+      const result = parseEditedCell(
+        textCell('x'),
+        column(ColType.Text, false)
+      );
+      expect(result.valid).toBe(false);
+    });
+  });
+});
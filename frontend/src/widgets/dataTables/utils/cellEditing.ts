@@ -0,0 +1,121 @@
+import { EditableGridCell, GridCellKind } from '@glideapps/glide-data-grid';
+import { CellValue, ColType, DataColumn } from '../types/types';
+
+export type { CellValue };
+
+/**
+ * Result of parsing an edited grid cell back into a row value
+ */
+export type ParsedCellEdit =
+  | { valid: true; value: CellValue }
+  | { valid: false; error: string };
+
+/**
+ * Column types that support in-grid editing
+ */
+const EDITABLE_COLUMN_TYPES: ColType[] = [
+  ColType.Number,
+  ColType.Text,
+  ColType.Boolean,
+  ColType.Date,
+  ColType.DateTime,
+];
+
+/**
+ * Checks if a column can be edited in the grid
+ * Columns are editable by default unless their type doesn't support editing
+ */
+export function isColumnEditable(column: DataColumn): boolean {
+  return (
+    (column.editable ?? true) && EDITABLE_COLUMN_TYPES.includes(column.type)
+  );
+}
+
+/**
+ * Creates a stable key for tracking the edit state of a single cell
+ */
+export function getCellKey(row: number, columnName: string): string {
+  return `${row}:${columnName}`;
+}
+
+/**
+ * Extracts the raw value entered by the user from an edited grid cell
+ */
+function getEditedRawValue(cell: EditableGridCell): unknown {
+  switch (cell.kind) {
+    case GridCellKind.Text:
+    case GridCellKind.Boolean:
+      return cell.data;
+    case GridCellKind.Number:
+      return cell.data ?? null;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Formats a date for transport, keeping only the date part for Date columns
+ */
+function formatEditedDate(date: Date, type: ColType): string {
+  if (type === ColType.Date) {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+  }
+  return date.toISOString();
+}
+
+/**
+ * Parses and validates an edited grid cell against the column type
+ * Empty input is treated as null for every type except Text
+ */
+export function parseEditedCell(
+  cell: EditableGridCell,
+  column: DataColumn
+): ParsedCellEdit {
+  if (!isColumnEditable(column)) {
+    return { valid: false, error: `Column '${column.name}' is not editable` };
+  }
+
+  const raw = getEditedRawValue(cell);
+
+  if (raw === undefined) {
+    return { valid: false, error: 'Unsupported cell kind' };
+  }
+
+  if (raw === null || (typeof raw === 'string' && raw.trim() === '')) {
+    return column.type === ColType.Text
+      ? { valid: true, value: typeof raw === 'string' ? raw : null }
+      : { valid: true, value: null };
+  }
+
+  switch (column.type) {
+    case ColType.Number: {
+      const value = typeof raw === 'number' ? raw : Number(String(raw).trim());
+      return Number.isFinite(value)
+        ? { valid: true, value }
+        : { valid: false, error: `'${raw}' is not a valid number` };
+    }
+
+    case ColType.Boolean: {
+      if (typeof raw === 'boolean') return { valid: true, value: raw };
+      const normalized = String(raw).trim().toLowerCase();
+      if (normalized === 'true') return { valid: true, value: true };
+      if (normalized === 'false') return { valid: true, value: false };
+      return { valid: false, error: `'${raw}' is not a valid boolean` };
+    }
+
+    case ColType.Date:
+    case ColType.DateTime: {
+      const date = new Date(String(raw));
+      return isNaN(date.getTime())
+        ? { valid: false, error: `'${raw}' is not a valid date` }
+        : { valid: true, value: formatEditedDate(date, column.type) };
+    }
+
+    case ColType.Text:
+    default:
+      return { valid: true, value: String(raw) };
+  }
+}
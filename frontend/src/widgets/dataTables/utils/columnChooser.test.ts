@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { ColType, DataColumn } from '../types/types';
+import {
+  alignRowsToColumns,
+  getEffectiveOrder,
+  getFrozenColumnCount,
+  getSelectColumns,
+  moveColumnInOrder,
+  pinColumnsFirst,
+} from './columnChooser';
+
+const columns: DataColumn[] = [
+  { name: 'id', type: ColType.Number, width: 80 },
+  { name: 'name', type: ColType.Text, width: 150 },
+  { name: 'price', type: ColType.Number, width: 100 },
+];
+
+describe('columnChooser', () => {
+  describe('getEffectiveOrder', () => {
+    it('should fall back to the default order before initialization', () => {
+      expect(getEffectiveOrder(columns, [])).toEqual([0, 1, 2]);
+      expect(getEffectiveOrder(columns, [2, 0, 1])).toEqual([2, 0, 1]);
+    });
+  });
+
+  describe('moveColumnInOrder', () => {
+    it('should move a column to the position of the target', () => {
+      expect(moveColumnInOrder([0, 1, 2], 2, 0)).toEqual([2, 0, 1]);
+      expect(moveColumnInOrder([0, 1, 2], 0, 2)).toEqual([1, 2, 0]);
+    });
+
+    it('should ignore unknown columns', () => {
+      const order = [0, 1, 2];
+      expect(moveColumnInOrder(order, 5, 0)).toBe(order);
+    });
+  });
+
+  describe('pinColumnsFirst', () => {
+    it('should move pinned columns to the front in pin order', () => {
+      expect(pinColumnsFirst([0, 1, 2], columns, ['price'])).toEqual([2, 0, 1]);
+      expect(pinColumnsFirst([2, 0, 1], columns, [])).toEqual([2, 0, 1]);
+    });
+  });
+
+  describe('getFrozenColumnCount', () => {
+    it('should count the leading pinned columns', () => {
+      expect(getFrozenColumnCount(columns, ['id', 'name'])).toBe(2);
+      expect(getFrozenColumnCount(columns, ['name'])).toBe(0);
+      expect(getFrozenColumnCount(columns, ['id', 'name', 'price'])).toBe(3);
+    });
+  });
+
+  describe('getSelectColumns', () => {
+    it('should select only visible columns when some are hidden', () => {
+      expect(getSelectColumns(columns)).toBeUndefined();
+      expect(
+        getSelectColumns([columns[0], { ...columns[1], hidden: true }])
+      ).toEqual(['id']);
+    });
+  });
+
+  describe('alignRowsToColumns', () => {
+    it('should place fetched values by name and fill the rest with null', () => {
+      const fetched = [columns[2], columns[0]];
+      const rows = [{ values: [9.5, 1] }];
+
+      expect(alignRowsToColumns(rows, fetched, columns)).toEqual([
+        { values: [1, null, 9.5] },
+      ]);
+    });
+
+    it('should return rows unchanged when all columns line up', () => {
+      const rows = [{ values: [1, 'a', 2] }];
+      expect(alignRowsToColumns(rows, columns, columns)).toBe(rows);
+    });
+  });
+});
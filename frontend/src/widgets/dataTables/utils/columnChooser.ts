@@ -0,0 +1,93 @@
+import { DataColumn, DataRow } from '../types/types';
+
+/**
+ * Returns the column order, falling back to the default order before it is initialized
+ */
+export function getEffectiveOrder(
+  columns: DataColumn[],
+  columnOrder: number[]
+): number[] {
+  return columnOrder.length === columns.length
+    ? columnOrder
+    : columns.map((_, index) => index);
+}
+
+/**
+ * Moves a column to the display position of another column
+ */
+export function moveColumnInOrder(
+  order: number[],
+  fromIndex: number,
+  toIndex: number
+): number[] {
+  const from = order.indexOf(fromIndex);
+  const to = order.indexOf(toIndex);
+  if (from === -1 || to === -1 || from === to) return order;
+
+  const next = [...order];
+  next.splice(from, 1);
+  next.splice(to, 0, fromIndex);
+  return next;
+}
+
+/**
+ * Moves pinned columns to the front of the order, keeping their relative order
+ */
+export function pinColumnsFirst(
+  order: number[],
+  columns: DataColumn[],
+  pinnedColumns: string[]
+): number[] {
+  const isPinned = (index: number) =>
+    pinnedColumns.includes(columns[index]?.name);
+  return [...order.filter(isPinned), ...order.filter(idx => !isPinned(idx))];
+}
+
+/**
+ * Number of leading visible columns that are pinned, used as the grid's freeze count
+ */
+export function getFrozenColumnCount(
+  visibleColumns: DataColumn[],
+  pinnedColumns: string[]
+): number {
+  const firstUnpinned = visibleColumns.findIndex(
+    col => !pinnedColumns.includes(col.name)
+  );
+  return firstUnpinned === -1 ? visibleColumns.length : firstUnpinned;
+}
+
+/**
+ * Columns to request from the server, or undefined to request all of them
+ */
+export function getSelectColumns(columns: DataColumn[]): string[] | undefined {
+  const visible = columns.filter(col => !col.hidden);
+  return visible.length < columns.length
+    ? visible.map(col => col.name)
+    : undefined;
+}
+
+/**
+ * Maps fetched rows onto the full column list by name
+ * Columns that were not fetched are filled with null
+ */
+export function alignRowsToColumns(
+  rows: DataRow[],
+  fetchedColumns: DataColumn[],
+  columns: DataColumn[]
+): DataRow[] {
+  const sourceIndices = columns.map(col =>
+    fetchedColumns.findIndex(fetched => fetched.name === col.name)
+  );
+  if (
+    sourceIndices.length === fetchedColumns.length &&
+    sourceIndices.every((source, index) => source === index)
+  ) {
+    return rows;
+  }
+
+  return rows.map(row => ({
+    values: sourceIndices.map(source =>
+      source === -1 ? null : (row.values[source] ?? null)
+    ),
+  }));
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { Filter } from '@/services/grpcTableService';
+import {
+  IN_SET_FUNCTION,
+  getColumnValueFilter,
+  mergeColumnValueFilter,
+} from './columnFilters';
+
+const queryFilter: Filter = {
+  condition: { column: 'Age', function: 'greaterThan', args: [18] },
+};
+
+describe('columnFilters', () => {
+  describe('mergeColumnValueFilter', () => {
+    it('should create an inSet condition when there is no active filter', () => {
+      expect(mergeColumnValueFilter(null, 'Name', ['Alice', 'Bob'])).toEqual({
+        condition: {
+          column: 'Name',
+          function: IN_SET_FUNCTION,
+          args: ['Alice', 'Bob'],
+        },
+      });
+    });
+
+    it('should combine with the active filter using AND', () => {
+      const result = mergeColumnValueFilter(queryFilter, 'Name', ['Alice']);
+
+      expect(result).toEqual({
+        group: {
+          op: 'AND',
+          filters: [
+            queryFilter,
+            {
+              condition: {
+                column: 'Name',
+                function: IN_SET_FUNCTION,
+                args: ['Alice'],
+              },
+            },
+          ],
+        },
+      });
+    });
+
+    it('should replace the existing inSet condition for the column', () => {
+      const first = mergeColumnValueFilter(queryFilter, 'Name', ['Alice']);
+      const second = mergeColumnValueFilter(first, 'Name', ['Bob']);
+
+      expect(getColumnValueFilter(second, 'Name')).toEqual(['Bob']);
+      expect(second?.group?.filters).toHaveLength(2);
+    });
+
+    it('should remove the inSet condition and keep the rest of the filter', () => {
+      const merged = mergeColumnValueFilter(queryFilter, 'Name', ['Alice']);
+
+      expect(mergeColumnValueFilter(merged, 'Name', null)).toEqual(queryFilter);
+      expect(
+        mergeColumnValueFilter(
+          mergeColumnValueFilter(null, 'Name', ['Alice']),
+          'Name',
+          null
+        )
+      ).toBeNull();
+    });
+
+    it('should nest OR groups instead of merging into them', () => {
+      const orFilter: Filter = {
+        group: { op: 'OR', filters: [queryFilter, queryFilter] },
+      };
+      const result = mergeColumnValueFilter(orFilter, 'Name', ['Alice']);
+
+      expect(result?.group?.op).toBe('AND');
+      expect(result?.group?.filters[0]).toBe(orFilter);
+    });
+  });
+
+  describe('getColumnValueFilter', () => {
+    it('should return null when the column has no value filter', () => {
+      expect(getColumnValueFilter(null, 'Name')).toBeNull();
+      expect(getColumnValueFilter(queryFilter, 'Age')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { Condition, Filter } from '@/services/grpcTableService';
+
+/**
+ * Filter function used for value list filters picked from the column header
+ */
+export const IN_SET_FUNCTION = 'inSet';
+
+function isInSetCondition(filter: Filter, columnName: string): boolean {
+  return (
+    !filter.negate &&
+    filter.condition?.column === columnName &&
+    filter.condition.function === IN_SET_FUNCTION
+  );
+}
+
+/**
+ * Top level filters that are combined with AND, so a value list filter can be
+ * added or removed without touching the rest of the active filter
+ */
+function getAndFilters(filter: Filter | null): Filter[] {
+  if (!filter) return [];
+  if (filter.group && filter.group.op === 'AND' && !filter.negate) {
+    return filter.group.filters;
+  }
+  return [filter];
+}
+
+/**
+ * Returns the values selected for a column in the active filter, or null if
+ * the column has no value list filter
+ */
+export function getColumnValueFilter(
+  filter: Filter | null,
+  columnName: string
+): string[] | null {
+  const match = getAndFilters(filter).find(f =>
+    isInSetCondition(f, columnName)
+  );
+  return match?.condition ? match.condition.args.map(String) : null;
+}
+
+/**
+ * Replaces the value list filter for a column in the active filter
+ * Passing null for values removes the column's value list filter
+ */
+export function mergeColumnValueFilter(
+  filter: Filter | null,
+  columnName: string,
+  values: string[] | null
+): Filter | null {
+  const filters = getAndFilters(filter).filter(
+    f => !isInSetCondition(f, columnName)
+  );
+
+  if (values !== null) {
+    const condition: Condition = {
+      column: columnName,
+      function: IN_SET_FUNCTION,
+      args: values,
+    };
+    filters.push({ condition });
+  }
+
+  if (filters.length === 0) return null;
+  if (filters.length === 1) return filters[0];
+  return { group: { op: 'AND', filters } };
+}
@@ -328,5 +328,40 @@ describe('columnHelpers', () => {
       expect(result.map(r => r.title)).toContain('NoOrder1');
       expect(result.map(r => r.title)).toContain('NoOrder2');
     });
+
+    it('should add a header menu to filterable columns when enabled', () => {
+      const columns: DataColumn[] = [
+        { name: 'A', type: ColType.Text, width: 100 },
+        { name: 'B', type: ColType.Text, width: 100, filterable: false },
+      ];
+
+      const withMenu = convertToGridColumns(columns, [], {}, 0, false, true);
+      const withoutMenu = convertToGridColumns(columns, [], {}, 0, false);
+
+      expect(withMenu[0].hasMenu).toBe(true);
+      expect(withMenu[1].hasMenu).toBeUndefined();
+      expect(withoutMenu[0].hasMenu).toBeUndefined();
+    });
+
+    it('should add sort badges with priorities for multi-column sorts', () => {
+      const columns: DataColumn[] = [
+        { name: 'Region', type: ColType.Text, width: 100 },
+        { name: 'Revenue', type: ColType.Number, width: 100 },
+        { name: 'Name', type: ColType.Text, width: 100 },
+      ];
+
+      const single = convertToGridColumns(columns, [], {}, 0, false, false, [
+        { column: 'Revenue', direction: 'DESC' },
+      ]);
+      expect(single[1].overlayIcon).toBe('SortDesc');
+
+      const multi = convertToGridColumns(columns, [], {}, 0, false, false, [
+        { column: 'Region', direction: 'ASC' },
+        { column: 'Revenue', direction: 'DESC' },
+      ]);
+      expect(multi[0].overlayIcon).toBe('SortAsc1');
+      expect(multi[1].overlayIcon).toBe('SortDesc2');
+      expect(multi[2].overlayIcon).toBeUndefined();
+    });
   });
 });
@@ -1,5 +1,8 @@
 import { GridColumn, GridColumnIcon } from '@glideapps/glide-data-grid';
+import type { SortOrder } from '@/services/grpcTableService';
 import type { DataColumn } from '../types/types';
+import { getSortIconName } from './headerIcons';
+import { getSortInfo } from './sorting';
 
 /**
  * Maps column icon names or types to appropriate icons
@@ -79,14 +82,20 @@ export function reorderColumns(
 /**
  * Converts data columns to GridColumn format with proper widths and groups
  * Filters out hidden columns and applies column ordering
+ * With showFilterMenu, filterable columns get a header menu for value filtering
+ * Sorted columns get an overlay badge with the direction and sort priority
  */
 export function convertToGridColumns(
   columns: DataColumn[],
   columnOrder: number[],
   columnWidths: Record<string, number>,
   containerWidth: number,
-  showGroups: boolean
+  showGroups: boolean,
+  showFilterMenu = false,
+  activeSort: SortOrder[] | null = null
 ): GridColumn[] {
+  const isMultiSort = (activeSort?.length ?? 0) > 1;
+
   // Filter out hidden columns first
   const visibleColumns = columns.filter(col => !col.hidden);
 
@@ -125,6 +134,15 @@ export function convertToGridColumns(
       numericBaseWidth = 150;
     }
 
+    const hasMenu = showFilterMenu && (col.filterable ?? true);
+    const sortInfo = getSortInfo(activeSort, col.name);
+    const overlayIcon = sortInfo
+      ? getSortIconName(
+          sortInfo.direction,
+          isMultiSort ? sortInfo.priority : undefined
+        )
+      : undefined;
+
     // Make the last column fill the remaining space
     if (index === orderedColumns.length - 1 && containerWidth > 0) {
       const totalWidthOfOtherColumns = orderedColumns
@@ -143,6 +161,8 @@ export function convertToGridColumns(
         width: Math.max(numericBaseWidth, remainingWidth) - 10,
         group: showGroups ? col.group : undefined,
         icon: mapColumnIcon(col),
+        ...(hasMenu && { hasMenu }),
+        ...(overlayIcon && { overlayIcon }),
       };
     }
 
@@ -151,6 +171,8 @@ export function convertToGridColumns(
       width: numericBaseWidth,
       group: showGroups ? col.group : undefined,
       icon: mapColumnIcon(col),
+      ...(hasMenu && { hasMenu }),
+      ...(overlayIcon && { overlayIcon }),
     };
   });
 }
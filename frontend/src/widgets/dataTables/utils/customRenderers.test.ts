@@ -1,6 +1,11 @@
 import { describe, it, expect, vi, beforeAll } from 'vitest';
 import { GridCellKind } from '@glideapps/glide-data-grid';
-import { iconCellRenderer, IconCell } from './customRenderers';
+import {
+  getBadgeTextColor,
+  getSparklinePoints,
+  iconCellRenderer,
+  IconCell,
+} from './customRenderers';
 import * as iconRendererModule from './iconRenderer';
 
 // Mock HTMLImageElement for Node environment
@@ -280,4 +285,31 @@ describe('customRenderers', () => {
       });
     });
   });
+
+  describe('getBadgeTextColor', () => {
+    it('should pick a readable text color for hex backgrounds', () => {
+      expect(getBadgeTextColor('#fde047')).toBe('#000000');
+      expect(getBadgeTextColor('#1e3a8a')).toBe('#ffffff');
+      expect(getBadgeTextColor('#fff')).toBe('#000000');
+      expect(getBadgeTextColor('red')).toBeUndefined();
+    });
+  });
+
+  describe('getSparklinePoints', () => {
+    it('should scale values into the box with the minimum at the bottom', () => {
+      expect(getSparklinePoints([0, 10, 5], 0, 0, 100, 20)).toEqual([
+        { x: 0, y: 20 },
+        { x: 50, y: 0 },
+        { x: 100, y: 10 },
+      ]);
+    });
+
+    it('should draw flat series through the middle and skip non-finite values', () => {
+      expect(getSparklinePoints([3, NaN, 3], 0, 0, 10, 20)).toEqual([
+        { x: 0, y: 10 },
+        { x: 10, y: 10 },
+      ]);
+      expect(getSparklinePoints([], 0, 0, 10, 20)).toEqual([]);
+    });
+  });
 });
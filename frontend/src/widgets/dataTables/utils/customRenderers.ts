@@ -116,3 +116,221 @@ export const iconCellRenderer: CustomRenderer<IconCell> = {
     return undefined;
   },
 };
+
+/**
+ * Data structure for progress bar cells, value is a percentage from 0 to 100
+ */
+export interface ProgressCellData {
+  kind: 'progress-cell';
+  value: number;
+}
+
+export type ProgressCell = CustomCell<ProgressCellData>;
+
+/**
+ * Custom cell renderer drawing a percentage progress bar with its label
+ */
+export const progressCellRenderer: CustomRenderer<ProgressCell> = {
+  kind: GridCellKind.Custom,
+
+  isMatch: (cell: CustomCell): cell is ProgressCell =>
+    cell.kind === GridCellKind.Custom &&
+    (cell.data as ProgressCellData | undefined)?.kind === 'progress-cell',
+
+  draw: (args, cell) => {
+    const { ctx, rect, theme } = args;
+    const value = Math.min(Math.max(cell.data.value, 0), 100);
+    const padding = theme.cellHorizontalPadding;
+    const labelWidth = 40;
+    const barHeight = 8;
+    const barWidth = Math.max(rect.width - padding * 2 - labelWidth, 0);
+    const x = rect.x + padding;
+    const y = rect.y + (rect.height - barHeight) / 2;
+
+    ctx.fillStyle = theme.bgBubble;
+    ctx.beginPath();
+    ctx.roundRect(x, y, barWidth, barHeight, barHeight / 2);
+    ctx.fill();
+
+    if (value > 0) {
+      ctx.fillStyle = theme.accentColor;
+      ctx.beginPath();
+      ctx.roundRect(x, y, (barWidth * value) / 100, barHeight, barHeight / 2);
+      ctx.fill();
+    }
+
+    ctx.fillStyle = theme.textDark;
+    ctx.font = `${theme.baseFontStyle} ${theme.fontFamily}`;
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(
+      `${Math.round(value)}%`,
+      rect.x + rect.width - padding,
+      rect.y + rect.height / 2
+    );
+    ctx.textAlign = 'start';
+
+    return true;
+  },
+};
+
+/**
+ * Data structure for badge cells, color is any CSS color
+ */
+export interface BadgeCellData {
+  kind: 'badge-cell';
+  label: string;
+  color?: string;
+}
+
+export type BadgeCell = CustomCell<BadgeCellData>;
+
+/**
+ * Picks black or white text for a hex background color
+ */
+export function getBadgeTextColor(color: string): string | undefined {
+  const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color);
+  if (!match) return undefined;
+
+  const hex =
+    match[1].length === 3
+      ? match[1]
+          .split('')
+          .map(c => c + c)
+          .join('')
+      : match[1];
+  const r = parseInt(hex.slice(0, 2), 16);
+  const g = parseInt(hex.slice(2, 4), 16);
+  const b = parseInt(hex.slice(4, 6), 16);
+  const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+  return luminance > 0.6 ? '#000000' : '#ffffff';
+}
+
+/**
+ * Custom cell renderer drawing the value as a colored, rounded tag
+ */
+export const badgeCellRenderer: CustomRenderer<BadgeCell> = {
+  kind: GridCellKind.Custom,
+
+  isMatch: (cell: CustomCell): cell is BadgeCell =>
+    cell.kind === GridCellKind.Custom &&
+    (cell.data as BadgeCellData | undefined)?.kind === 'badge-cell',
+
+  draw: (args, cell) => {
+    const { ctx, rect, theme } = args;
+    const { label, color } = cell.data;
+    if (!label) return true;
+
+    ctx.font = `${theme.baseFontStyle} ${theme.fontFamily}`;
+    const textWidth = ctx.measureText(label).width;
+    const badgeHeight = 20;
+    const badgePadding = 8;
+    const badgeWidth = Math.min(
+      textWidth + badgePadding * 2,
+      rect.width - theme.cellHorizontalPadding * 2
+    );
+    const x = rect.x + theme.cellHorizontalPadding;
+    const y = rect.y + (rect.height - badgeHeight) / 2;
+
+    ctx.fillStyle = color ?? theme.bgBubble;
+    ctx.beginPath();
+    ctx.roundRect(x, y, badgeWidth, badgeHeight, badgeHeight / 2);
+    ctx.fill();
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(x, y, badgeWidth, badgeHeight);
+    ctx.clip();
+    ctx.fillStyle = (color && getBadgeTextColor(color)) ?? theme.textBubble;
+    ctx.textBaseline = 'middle';
+    ctx.fillText(label, x + badgePadding, y + badgeHeight / 2);
+    ctx.restore();
+
+    return true;
+  },
+};
+
+/**
+ * Data structure for sparkline cells
+ */
+export interface SparklineCellData {
+  kind: 'sparkline-cell';
+  values: number[];
+}
+
+export type SparklineCell = CustomCell<SparklineCellData>;
+
+/**
+ * Maps sparkline values to points inside a box, with the minimum at the bottom
+ */
+export function getSparklinePoints(
+  values: number[],
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): { x: number; y: number }[] {
+  const finite = values.filter(Number.isFinite);
+  if (finite.length === 0) return [];
+
+  const min = Math.min(...finite);
+  const range = Math.max(...finite) - min;
+  const step = values.length > 1 ? width / (values.length - 1) : 0;
+
+  return values.flatMap((value, index) =>
+    Number.isFinite(value)
+      ? [
+          {
+            x: x + index * step,
+            // Flat series are drawn through the middle
+            y:
+              range === 0
+                ? y + height / 2
+                : y + height - ((value - min) / range) * height,
+          },
+        ]
+      : []
+  );
+}
+
+/**
+ * Custom cell renderer drawing an inline line chart of array values
+ */
+export const sparklineCellRenderer: CustomRenderer<SparklineCell> = {
+  kind: GridCellKind.Custom,
+
+  isMatch: (cell: CustomCell): cell is SparklineCell =>
+    cell.kind === GridCellKind.Custom &&
+    (cell.data as SparklineCellData | undefined)?.kind === 'sparkline-cell',
+
+  draw: (args, cell) => {
+    const { ctx, rect, theme } = args;
+    const verticalPadding = 8;
+    const points = getSparklinePoints(
+      cell.data.values,
+      rect.x + theme.cellHorizontalPadding,
+      rect.y + verticalPadding,
+      rect.width - theme.cellHorizontalPadding * 2,
+      rect.height - verticalPadding * 2
+    );
+    if (points.length === 0) return true;
+
+    ctx.strokeStyle = theme.accentColor;
+    ctx.lineWidth = 1.5;
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    points.forEach((point, index) =>
+      index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)
+    );
+    ctx.stroke();
+
+    // Mark the latest value
+    const last = points[points.length - 1];
+    ctx.fillStyle = theme.accentColor;
+    ctx.beginPath();
+    ctx.arc(last.x, last.y, 2.5, 0, 2 * Math.PI);
+    ctx.fill();
+
+    return true;
+  },
+};
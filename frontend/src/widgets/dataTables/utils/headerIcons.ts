@@ -71,6 +71,64 @@ function createIconGenerator(iconName: string) {
   };
 }
 
+/**
+ * Highest sort priority that gets a numbered badge
+ */
+const MAX_SORT_BADGE_PRIORITY = 9;
+
+/**
+ * Gets the header icon name for a sort badge
+ * The priority number is only shown when sorting by more than one column
+ */
+export function getSortIconName(
+  direction: 'ASC' | 'DESC',
+  priority?: number
+): string {
+  const base = direction === 'ASC' ? 'SortAsc' : 'SortDesc';
+  return priority && priority <= MAX_SORT_BADGE_PRIORITY
+    ? `${base}${priority}`
+    : base;
+}
+
+/**
+ * Creates a sort badge: a direction arrow with an optional priority number
+ * Rendered as a header overlay icon on top of the column type icon
+ */
+function createSortIconGenerator(direction: 'ASC' | 'DESC', priority?: number) {
+  return (props: SpriteProps): string => {
+    const { fgColor, bgColor } = props;
+    // The arrow moves left to make room for the priority number
+    const x = priority ? 7 : 12;
+    const arrowPath =
+      direction === 'ASC'
+        ? `M${x} 18V6 M${x - 4} 10l4-4 4 4`
+        : `M${x} 6v12 M${x - 4} 14l4 4 4-4`;
+    const label = priority
+      ? `<text x="17" y="17" font-family="sans-serif" font-size="13" font-weight="700" text-anchor="middle" fill="${bgColor}">${priority}</text>`
+      : '';
+
+    return `<svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg"><rect width="24" height="24" rx="6" fill="${fgColor}"/><path d="${arrowPath}" stroke="${bgColor}" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round" fill="none"/>${label}</svg>`;
+  };
+}
+
+/**
+ * Adds the sort badge icons for both directions and all badge priorities
+ */
+export function addSortIcons(baseIcons: SpriteMap): SpriteMap {
+  const extendedIcons = { ...baseIcons };
+
+  (['ASC', 'DESC'] as const).forEach(direction => {
+    extendedIcons[getSortIconName(direction)] =
+      createSortIconGenerator(direction);
+    for (let priority = 1; priority <= MAX_SORT_BADGE_PRIORITY; priority++) {
+      extendedIcons[getSortIconName(direction, priority)] =
+        createSortIconGenerator(direction, priority);
+    }
+  });
+
+  return extendedIcons;
+}
+
 /**
  * Generates header icons map from column icons
  * @param columns - Array of columns with potential icon properties
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { GroupResult } from '@/services/grpcTableService';
+import { AggregateFunction, ColType, DataColumn } from '../types/types';
+import {
+  buildGroupFilter,
+  createGroupCell,
+  flattenGroupRows,
+  formatGroupKey,
+  getGroupPathKey,
+  toGroupKeyArg,
+} from './rowGrouping';
+
+const columns: DataColumn[] = [
+  { name: 'region', header: 'Region', type: ColType.Text, width: 100 },
+  { name: 'year', type: ColType.Number, width: 100 },
+  {
+    name: 'sales',
+    type: ColType.Number,
+    width: 100,
+    aggregate: AggregateFunction.Sum,
+  },
+];
+
+const group = (key: string | null, count = 1): GroupResult => ({
+  key,
+  count,
+  aggregations: [{ column: 'sales', function: 'sum', value: count * 10 }],
+});
+
+describe('rowGrouping', () => {
+  describe('toGroupKeyArg', () => {
+    it('should convert keys to the column type', () => {
+      expect(toGroupKeyArg('2024', columns[1])).toBe(2024);
+      expect(
+        toGroupKeyArg('True', { ...columns[0], type: ColType.Boolean })
+      ).toBe(true);
+      expect(toGroupKeyArg('North', columns[0])).toBe('North');
+    });
+  });
+
+  describe('buildGroupFilter', () => {
+    it('should return the base filter at the top level', () => {
+      expect(buildGroupFilter(null, [], columns)).toBeNull();
+    });
+
+    it('should AND the base filter with one condition per level', () => {
+      const base = {
+        condition: { column: 'sales', function: 'greaterThan', args: [5] },
+      };
+
+      expect(
+        buildGroupFilter(
+          base,
+          [
+            { column: 'region', key: null },
+            { column: 'year', key: '2024' },
+          ],
+          columns
+        )
+      ).toEqual({
+        group: {
+          op: 'AND',
+          filters: [
+            base,
+            { condition: { column: 'region', function: 'blank', args: [] } },
+            { condition: { column: 'year', function: 'equals', args: [2024] } },
+          ],
+        },
+      });
+    });
+  });
+
+  describe('flattenGroupRows', () => {
+    it('should include children of expanded groups only', () => {
+      const northPath = [{ column: 'region', key: 'North' }];
+      const nodes = {
+        [getGroupPathKey([])]: {
+          isLoading: false,
+          groups: [group('North', 2), group('South')],
+        },
+        [getGroupPathKey(northPath)]: {
+          isLoading: false,
+          rows: [{ values: ['North', 2024, 10] }],
+        },
+      };
+
+      const rows = flattenGroupRows(['region'], nodes, {
+        [getGroupPathKey(northPath)]: true,
+      });
+
+      expect(rows.map(row => row.kind)).toEqual(['group', 'row', 'group']);
+      expect(rows[0]).toMatchObject({ expanded: true, path: northPath });
+      expect(rows[1]).toMatchObject({ depth: 1 });
+    });
+
+    it('should show a loading row while a level is loading', () => {
+      const rows = flattenGroupRows(
+        ['region'],
+        { [getGroupPathKey([])]: { isLoading: true } },
+        {}
+      );
+
+      expect(rows).toEqual([{ kind: 'loading', depth: 0 }]);
+    });
+  });
+
+  describe('formatGroupKey', () => {
+    it('should label null keys as blank', () => {
+      expect(formatGroupKey(null, columns[0])).toBe('(blank)');
+      expect(formatGroupKey('North', columns[0])).toBe('North');
+    });
+  });
+
+  describe('createGroupCell', () => {
+    const row = {
+      kind: 'group' as const,
+      depth: 1,
+      path: [
+        { column: 'region', key: 'North' },
+        { column: 'year', key: '2024' },
+      ],
+      group: group('2024', 3),
+      expanded: false,
+    };
+
+    it('should show the key and count in the first column', () => {
+      const cell = createGroupCell(row, columns[0], true, columns);
+      expect(cell).toMatchObject({ displayData: '    ▸ year: 2024 (3)' });
+    });
+
+    it('should show aggregates in other columns', () => {
+      expect(createGroupCell(row, columns[2], false, columns)).toMatchObject({
+        displayData: 'Sum: 30',
+      });
+      expect(createGroupCell(row, columns[1], false, columns)).toMatchObject({
+        displayData: '',
+      });
+    });
+  });
+});
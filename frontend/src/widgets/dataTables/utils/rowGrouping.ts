@@ -0,0 +1,191 @@
+import { GridCell, GridCellKind } from '@glideapps/glide-data-grid';
+import { Condition, Filter, GroupResult } from '@/services/grpcTableService';
+import { ColType, DataColumn, DataRow } from '../types/types';
+import { formatAggregateValue, mapAggregationResults } from './aggregations';
+import { getContentAlign } from './cellContent';
+
+/**
+ * Maximum number of groups or rows loaded for a single group level
+ */
+export const GROUP_LOAD_LIMIT = 1000;
+
+export interface GroupPathEntry {
+  column: string;
+  key: string | null;
+}
+
+/**
+ * Loaded children of a group: nested groups, or rows at the last level
+ */
+export interface GroupNode {
+  groups?: GroupResult[];
+  rows?: DataRow[];
+  isLoading: boolean;
+}
+
+export type GroupDisplayRow =
+  | {
+      kind: 'group';
+      depth: number;
+      path: GroupPathEntry[];
+      group: GroupResult;
+      expanded: boolean;
+    }
+  | { kind: 'row'; depth: number; row: DataRow }
+  | { kind: 'loading'; depth: number };
+
+export function getGroupPathKey(path: GroupPathEntry[]): string {
+  return JSON.stringify(path.map(entry => entry.key));
+}
+
+/**
+ * Converts a group key back to a typed filter argument for its column
+ */
+export function toGroupKeyArg(
+  key: string,
+  column: DataColumn | undefined
+): string | number | boolean {
+  if (column?.type === ColType.Number) {
+    const value = Number(key);
+    return Number.isNaN(value) ? key : value;
+  }
+  if (column?.type === ColType.Boolean) {
+    return key.toLowerCase() === 'true';
+  }
+  return key;
+}
+
+/**
+ * Restricts a filter to the rows of a group path
+ * Null keys match blank values, matching how the server folds null and empty groups
+ */
+export function buildGroupFilter(
+  filter: Filter | null,
+  path: GroupPathEntry[],
+  columns: DataColumn[]
+): Filter | null {
+  if (path.length === 0) return filter;
+
+  const conditions: Filter[] = path.map(entry => {
+    const condition: Condition =
+      entry.key === null
+        ? { column: entry.column, function: 'blank', args: [] }
+        : {
+            column: entry.column,
+            function: 'equals',
+            args: [
+              toGroupKeyArg(
+                entry.key,
+                columns.find(col => col.name === entry.column)
+              ),
+            ],
+          };
+    return { condition };
+  });
+
+  return {
+    group: {
+      op: 'AND',
+      filters: filter ? [filter, ...conditions] : conditions,
+    },
+  };
+}
+
+/**
+ * Flattens the loaded group tree into grid rows, following expanded groups
+ */
+export function flattenGroupRows(
+  groupBy: string[],
+  nodes: Record<string, GroupNode>,
+  expanded: Record<string, boolean>,
+  path: GroupPathEntry[] = []
+): GroupDisplayRow[] {
+  const node = nodes[getGroupPathKey(path)];
+  const depth = path.length;
+  if (!node) return [];
+  if (node.isLoading) return [{ kind: 'loading', depth }];
+
+  if (node.rows) {
+    return node.rows.map(row => ({ kind: 'row', depth, row }));
+  }
+
+  return (node.groups ?? []).flatMap(group => {
+    const groupPath = [...path, { column: groupBy[depth], key: group.key }];
+    const isExpanded = !!expanded[getGroupPathKey(groupPath)];
+    const header: GroupDisplayRow = {
+      kind: 'group',
+      depth,
+      path: groupPath,
+      group,
+      expanded: isExpanded,
+    };
+    return isExpanded
+      ? [header, ...flattenGroupRows(groupBy, nodes, expanded, groupPath)]
+      : [header];
+  });
+}
+
+/**
+ * Formats a group key for display in its group row
+ */
+export function formatGroupKey(
+  key: string | null,
+  column: DataColumn | undefined
+): string {
+  if (key === null) return '(blank)';
+
+  if (column?.type === ColType.Date || column?.type === ColType.DateTime) {
+    const date = new Date(key);
+    if (!Number.isNaN(date.getTime())) {
+      return column.type === ColType.Date
+        ? date.toLocaleDateString()
+        : date.toLocaleString();
+    }
+  }
+
+  return key;
+}
+
+/**
+ * Creates the cell of a group or loading row
+ * The first visible column holds the expander, key and count; the other
+ * columns show the group's aggregate values
+ */
+export function createGroupCell(
+  row: Exclude<GroupDisplayRow, { kind: 'row' }>,
+  column: DataColumn,
+  isFirstColumn: boolean,
+  columns: DataColumn[]
+): GridCell {
+  const indent = '    '.repeat(row.depth);
+  let displayData = '';
+
+  if (row.kind === 'loading') {
+    displayData = isFirstColumn ? `${indent}Loading...` : '';
+  } else if (isFirstColumn) {
+    const entry = row.path[row.path.length - 1];
+    const groupColumn = columns.find(col => col.name === entry.column);
+    const label = groupColumn?.header || entry.column;
+    const key = formatGroupKey(row.group.key, groupColumn);
+    displayData = `${indent}${row.expanded ? '▾' : '▸'} ${label}: ${key} (${row.group.count})`;
+  } else if (column.aggregate) {
+    const aggregates = mapAggregationResults(row.group.aggregations);
+    displayData = formatAggregateValue(
+      column.aggregate,
+      aggregates[column.name]
+    );
+  }
+
+  return {
+    kind: GridCellKind.Text,
+    data: displayData,
+    displayData,
+    allowOverlay: false,
+    readonly: true,
+    style: row.kind === 'loading' ? 'faded' : undefined,
+    contentAlign:
+      !isFirstColumn && column.align
+        ? getContentAlign(column.align)
+        : undefined,
+  };
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { SortOrder } from '@/services/grpcTableService';
+import { getSortInfo, toggleSort } from './sorting';
+
+const regionAsc: SortOrder = { column: 'Region', direction: 'ASC' };
+const revenueAsc: SortOrder = { column: 'Revenue', direction: 'ASC' };
+
+describe('sorting', () => {
+  describe('toggleSort', () => {
+    it('should cycle a single column sort on plain click', () => {
+      const asc = toggleSort(null, 'Region', false);
+      expect(asc).toEqual([regionAsc]);
+
+      const desc = toggleSort(asc, 'Region', false);
+      expect(desc).toEqual([{ column: 'Region', direction: 'DESC' }]);
+
+      expect(toggleSort(desc, 'Region', false)).toBeNull();
+    });
+
+    it('should replace multiple sorts on plain click', () => {
+      expect(toggleSort([regionAsc, revenueAsc], 'Name', false)).toEqual([
+        { column: 'Name', direction: 'ASC' },
+      ]);
+    });
+
+    it('should append a secondary sort on shift-click', () => {
+      expect(toggleSort([regionAsc], 'Revenue', true)).toEqual([
+        regionAsc,
+        revenueAsc,
+      ]);
+    });
+
+    it('should flip direction in place and then remove on shift-click', () => {
+      const flipped = toggleSort([regionAsc, revenueAsc], 'Region', true);
+      expect(flipped).toEqual([
+        { column: 'Region', direction: 'DESC' },
+        revenueAsc,
+      ]);
+
+      expect(toggleSort(flipped, 'Region', true)).toEqual([revenueAsc]);
+      expect(
+        toggleSort([{ column: 'Region', direction: 'DESC' }], 'Region', true)
+      ).toBeNull();
+    });
+  });
+
+  describe('getSortInfo', () => {
+    it('should return the 1-based priority and direction', () => {
+      expect(getSortInfo([regionAsc, revenueAsc], 'Revenue')).toEqual({
+        priority: 2,
+        direction: 'ASC',
+      });
+      expect(getSortInfo([regionAsc], 'Name')).toBeNull();
+      expect(getSortInfo(null, 'Name')).toBeNull();
+    });
+  });
+});
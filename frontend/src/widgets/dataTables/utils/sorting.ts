@@ -0,0 +1,49 @@
+import { SortOrder } from '@/services/grpcTableService';
+
+/**
+ * Computes the next sort after a header click
+ * A plain click sorts by the column alone: ASC -> DESC -> no sort
+ * A shift-click keeps the other sorts and cycles the column in place,
+ * appending it as the lowest priority sort when it isn't sorted yet
+ */
+export function toggleSort(
+  prevSort: SortOrder[] | null,
+  columnName: string,
+  append: boolean
+): SortOrder[] | null {
+  const sorts = prevSort ?? [];
+  const existingSort = sorts.find(sort => sort.column === columnName);
+
+  if (!append) {
+    if (!existingSort) return [{ column: columnName, direction: 'ASC' }];
+    return existingSort.direction === 'ASC'
+      ? [{ column: columnName, direction: 'DESC' }]
+      : null;
+  }
+
+  if (!existingSort) {
+    return [...sorts, { column: columnName, direction: 'ASC' }];
+  }
+
+  if (existingSort.direction === 'ASC') {
+    return sorts.map(sort =>
+      sort.column === columnName ? { ...sort, direction: 'DESC' } : sort
+    );
+  }
+
+  const remaining = sorts.filter(sort => sort.column !== columnName);
+  return remaining.length > 0 ? remaining : null;
+}
+
+/**
+ * Returns the 1-based priority and direction of a column in the active sort
+ */
+export function getSortInfo(
+  sorts: SortOrder[] | null,
+  columnName: string
+): { priority: number; direction: SortOrder['direction'] } | null {
+  const index = sorts?.findIndex(sort => sort.column === columnName) ?? -1;
+  return index >= 0 && sorts
+    ? { priority: index + 1, direction: sorts[index].direction }
+    : null;
+}
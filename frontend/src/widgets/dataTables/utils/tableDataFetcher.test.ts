@@ -1,5 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { fetchTableData } from './tableDataFetcher';
+import {
+  fetchDistinctValues,
+  fetchTableAggregates,
+  fetchTableGroups,
+  fetchTableData,
+  fetchTableExport,
+} from './tableDataFetcher';
 import { getIvyHost } from '@/lib/utils';
 import {
   grpcTableService,
@@ -194,6 +200,93 @@ describe('tableDataFetcher', () => {
       });
     });
 
+    it('should request only the selected columns when provided', async () => {
+      const mockResult = {
+        arrow_ipc_stream: new Uint8Array([1, 2, 3]),
+        offset: 0,
+        row_count: 2,
+        total_rows: 100,
+      };
+      mockGrpcTableService.queryTable.mockResolvedValue(mockResult);
+      mockArrow.tableFromIPC.mockReturnValue({} as arrow.Table);
+      mockConvertArrowTableToData.mockReturnValue({
+        columns: mockColumns,
+        rows: mockRows,
+        hasMore: false,
+      });
+
+      await fetchTableData(mockConnection, 0, 10, null, null, ['name']);
+
+      expect(mockGrpcTableService.queryTable).toHaveBeenCalledWith({
+        serverUrl: 'https://localhost:3000',
+        query: {
+          limit: 10,
+          offset: 0,
+          connectionId: 'conn-123',
+          sourceId: 'source-456',
+          select_columns: ['name'],
+        },
+      });
+    });
+
+    it('should stream batches and pass the abort signal when requested', async () => {
+      const batchTable = {} as arrow.Table;
+      const controller = new AbortController();
+      const onBatch = vi.fn();
+
+      mockGrpcTableService.queryTable.mockImplementation(async options => {
+        options.onData?.({
+          arrow_ipc_stream: new Uint8Array([1]),
+          offset: 0,
+          row_count: 2,
+          total_rows: 4,
+          table: batchTable,
+        });
+        return {
+          arrow_ipc_stream: new Uint8Array([1, 2]),
+          offset: 0,
+          row_count: 4,
+          total_rows: 4,
+          table: batchTable,
+        };
+      });
+      mockConvertArrowTableToData.mockReturnValue({
+        columns: mockColumns,
+        rows: mockRows,
+        hasMore: false,
+      });
+
+      const result = await fetchTableData(
+        mockConnection,
+        0,
+        10,
+        null,
+        null,
+        undefined,
+        { signal: controller.signal, onBatch }
+      );
+
+      expect(mockGrpcTableService.queryTable).toHaveBeenCalledWith(
+        expect.objectContaining({
+          signal: controller.signal,
+          stream: true,
+        })
+      );
+      expect(mockConvertArrowTableToData).toHaveBeenCalledWith(batchTable, 2);
+      expect(onBatch).toHaveBeenCalledWith({
+        columns: mockColumns,
+        rows: mockRows,
+      });
+      // The streamed rows are returned instead of decoding a merged table
+      expect(mockConvertArrowTableToData).toHaveBeenCalledTimes(1);
+      expect(mockArrow.tableFromIPC).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        columns: mockColumns,
+        rows: mockRows,
+        hasMore: false,
+      });
+    });
+
     it('should return empty data when arrow_ipc_stream is empty', async () => {
       // Create a mock result where arrow_ipc_stream is undefined (falsy)
       const mockResult = {
@@ -353,4 +446,164 @@ describe('tableDataFetcher', () => {
       delete process.env.NODE_ENV;
     });
   });
+
+  describe('fetchTableAggregates', () => {
+    it('should request aggregates without rows for the active filter', async () => {
+      const filter: Filter = {
+        condition: { column: 'name', function: 'equals', args: ['Alice'] },
+      };
+      mockGrpcTableService.queryTable.mockResolvedValue({
+        arrow_ipc_stream: new Uint8Array(0),
+        offset: 0,
+        row_count: 0,
+        total_rows: 2,
+        aggregations: [{ column: 'id', function: 'sum', value: 3 }],
+      });
+
+      const result = await fetchTableAggregates(
+        mockConnection,
+        [{ column: 'id', function: 'sum' }],
+        filter
+      );
+
+      expect(mockGrpcTableService.queryTable).toHaveBeenCalledWith({
+        serverUrl: 'https://localhost:3000',
+        query: {
+          limit: 0,
+          offset: 0,
+          connectionId: 'conn-123',
+          sourceId: 'source-456',
+          aggregations: [{ column: 'id', function: 'sum' }],
+          filter,
+        },
+      });
+      expect(result).toEqual([{ column: 'id', function: 'sum', value: 3 }]);
+    });
+
+    it('should not query the server when there are no aggregations', async () => {
+      const result = await fetchTableAggregates(mockConnection, []);
+
+      expect(result).toEqual([]);
+      expect(mockGrpcTableService.queryTable).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fetchTableGroups', () => {
+    it('should request groups for a column with aggregations', async () => {
+      const sort: SortOrder[] = [{ column: 'name', direction: 'DESC' }];
+      mockGrpcTableService.queryTable.mockResolvedValue({
+        arrow_ipc_stream: new Uint8Array(0),
+        offset: 0,
+        row_count: 1,
+        total_rows: 1,
+        groups: [{ key: 'Alice', count: 2, aggregations: [] }],
+      });
+
+      const result = await fetchTableGroups(
+        mockConnection,
+        'name',
+        [{ column: 'id', function: 'sum' }],
+        50,
+        null,
+        sort
+      );
+
+      expect(mockGrpcTableService.queryTable).toHaveBeenCalledWith({
+        serverUrl: 'https://localhost:3000',
+        query: {
+          limit: 50,
+          offset: 0,
+          connectionId: 'conn-123',
+          sourceId: 'source-456',
+          group_by: 'name',
+          aggregations: [{ column: 'id', function: 'sum' }],
+          sort,
+        },
+      });
+      expect(result).toEqual([{ key: 'Alice', count: 2, aggregations: [] }]);
+    });
+  });
+
+  describe('fetchDistinctValues', () => {
+    it('should request distinct values for a column', async () => {
+      mockGrpcTableService.distinct.mockResolvedValue({
+        values: ['Alice', 'Bob'],
+        total_values: 2,
+      });
+
+      const result = await fetchDistinctValues(mockConnection, 'name', 'a');
+
+      expect(mockGrpcTableService.distinct).toHaveBeenCalledWith(
+        {
+          column: 'name',
+          search: 'a',
+          limit: 100,
+          connectionId: 'conn-123',
+          sourceId: 'source-456',
+        },
+        'https://localhost:3000'
+      );
+      expect(result).toEqual({ values: ['Alice', 'Bob'], total_values: 2 });
+    });
+  });
+
+  describe('fetchTableExport', () => {
+    const batch = (rowCount: number, offset: number) => ({
+      arrow_ipc_stream: new Uint8Array([1]),
+      offset,
+      row_count: rowCount,
+      total_rows: 5,
+      table: { numRows: rowCount } as unknown as arrow.Table,
+    });
+
+    it('should stream all rows with the selected columns and report progress per batch', async () => {
+      const sort: SortOrder[] = [{ column: 'name', direction: 'ASC' }];
+      const onProgress = vi.fn();
+      mockGrpcTableService.queryTable.mockImplementation(async options => {
+        options.onData?.(batch(3, 0));
+        options.onData?.(batch(2, 3));
+        return batch(0, 0);
+      });
+
+      const tables = await fetchTableExport(mockConnection, {
+        sort,
+        columns: ['name', 'id'],
+        onProgress,
+      });
+
+      expect(tables).toHaveLength(2);
+      expect(mockGrpcTableService.queryTable).toHaveBeenCalledTimes(1);
+      expect(mockGrpcTableService.queryTable).toHaveBeenCalledWith(
+        expect.objectContaining({
+          serverUrl: 'https://localhost:3000',
+          query: {
+            limit: 2147483647,
+            offset: 0,
+            connectionId: 'conn-123',
+            sourceId: 'source-456',
+            select_columns: ['name', 'id'],
+            sort,
+          },
+          stream: true,
+        })
+      );
+      expect(onProgress.mock.calls).toEqual([
+        [3, 5],
+        [5, 5],
+      ]);
+    });
+
+    it('should stop before querying when aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        fetchTableExport(mockConnection, {
+          columns: ['name'],
+          signal: controller.signal,
+        })
+      ).rejects.toThrow();
+      expect(mockGrpcTableService.queryTable).not.toHaveBeenCalled();
+    });
+  });
 });
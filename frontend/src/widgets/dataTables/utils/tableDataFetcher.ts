@@ -1,6 +1,10 @@
 import { getIvyHost } from '@/lib/utils';
 import {
+  Aggregation,
+  AggregationResult,
+  DataTableDistinctResult,
   Filter,
+  GroupResult,
   SortOrder,
   TableQuery,
   grpcTableService,
@@ -35,15 +39,24 @@ export const parseInvalidQuery = async (
   }
 };
 
+export interface FetchTableDataOptions {
+  signal?: AbortSignal;
+  // Streams the rows from the server, called with each record batch as it arrives
+  onBatch?: (batch: { columns: DataColumn[]; rows: DataRow[] }) => void;
+}
+
 export const fetchTableData = async (
   connection: DataTableConnection,
   startIndex: number,
   count: number,
   filter?: Filter | null,
-  sort?: SortOrder[] | null
+  sort?: SortOrder[] | null,
+  selectColumns?: string[],
+  options: FetchTableDataOptions = {}
 ): Promise<{ columns: DataColumn[]; rows: DataRow[]; hasMore: boolean }> => {
   // Use getIvyHost() which returns the correct backend URL from meta tag or window.location.origin
   const serverUrl = getIvyHost();
+  const { signal, onBatch } = options;
 
   const query: TableQuery = {
     limit: count,
@@ -52,16 +65,44 @@ export const fetchTableData = async (
     sourceId: connection.sourceId,
     ...(filter && { filter }),
     ...(sort && { sort }),
+    ...(selectColumns && { select_columns: selectColumns }),
   };
 
+  // Streamed batches are converted once, so the Arrow batches are not kept
+  let streamedColumns: DataColumn[] = [];
+  const streamedRows: DataRow[] = [];
+
   try {
     const result = await grpcTableService.queryTable({
       serverUrl,
       query,
+      ...(signal && { signal }),
+      ...(onBatch && {
+        stream: true,
+        onData: batch => {
+          if (batch.table) {
+            const { columns, rows } = convertArrowTableToData(
+              batch.table,
+              batch.row_count
+            );
+            streamedColumns = columns;
+            for (const row of rows) streamedRows.push(row);
+            onBatch({ columns, rows });
+          }
+        },
+      }),
     });
 
+    if (onBatch) {
+      return {
+        columns: streamedColumns,
+        rows: streamedRows,
+        hasMore: streamedRows.length === count,
+      };
+    }
+
     if (result.arrow_ipc_stream) {
-      const table = arrow.tableFromIPC(result.arrow_ipc_stream);
+      const table = result.table ?? arrow.tableFromIPC(result.arrow_ipc_stream);
       return convertArrowTableToData(table, count);
     }
 
@@ -71,3 +112,146 @@ export const fetchTableData = async (
     throw error;
   }
 };
+
+export const fetchTableAggregates = async (
+  connection: DataTableConnection,
+  aggregations: Aggregation[],
+  filter?: Filter | null
+): Promise<AggregationResult[]> => {
+  if (aggregations.length === 0) return [];
+
+  const serverUrl = getIvyHost();
+
+  // No rows are needed, the server computes aggregates over the whole filtered set
+  const query: TableQuery = {
+    limit: 0,
+    offset: 0,
+    connectionId: connection.connectionId,
+    sourceId: connection.sourceId,
+    aggregations,
+    ...(filter && { filter }),
+  };
+
+  try {
+    const result = await grpcTableService.queryTable({
+      serverUrl,
+      query,
+    });
+
+    return result.aggregations ?? [];
+  } catch (error) {
+    logger.error('Failed to fetch table aggregates:', error);
+    throw error;
+  }
+};
+
+export const fetchTableGroups = async (
+  connection: DataTableConnection,
+  groupBy: string,
+  aggregations: Aggregation[],
+  limit: number,
+  filter?: Filter | null,
+  sort?: SortOrder[] | null
+): Promise<GroupResult[]> => {
+  const serverUrl = getIvyHost();
+
+  // Groups are paged like rows; the server sorts them by key
+  const query: TableQuery = {
+    limit,
+    offset: 0,
+    connectionId: connection.connectionId,
+    sourceId: connection.sourceId,
+    group_by: groupBy,
+    aggregations,
+    ...(filter && { filter }),
+    ...(sort && { sort }),
+  };
+
+  try {
+    const result = await grpcTableService.queryTable({
+      serverUrl,
+      query,
+    });
+
+    return result.groups ?? [];
+  } catch (error) {
+    logger.error('Failed to fetch table groups:', error);
+    throw error;
+  }
+};
+
+export const fetchDistinctValues = async (
+  connection: DataTableConnection,
+  column: string,
+  search?: string,
+  limit = 100
+): Promise<DataTableDistinctResult> => {
+  const serverUrl = getIvyHost();
+
+  try {
+    return await grpcTableService.distinct(
+      {
+        column,
+        search,
+        limit,
+        connectionId: connection.connectionId,
+        sourceId: connection.sourceId,
+      },
+      serverUrl
+    );
+  } catch (error) {
+    logger.error('Failed to fetch distinct values:', error);
+    throw error;
+  }
+};
+
+export interface TableExportOptions {
+  filter?: Filter | null;
+  sort?: SortOrder[] | null;
+  columns: string[];
+  signal?: AbortSignal;
+  onProgress?: (loadedRows: number, totalRows: number) => void;
+}
+
+// The largest limit the query takes (int32), so every row is exported
+const EXPORT_ROW_LIMIT = 2147483647;
+
+/**
+ * Streams the current query without the batch limit. The server runs the
+ * query once and sends its rows in record batches, so large exports can
+ * report progress per batch and be cancelled while they stream.
+ */
+export const fetchTableExport = async (
+  connection: DataTableConnection,
+  options: TableExportOptions
+): Promise<arrow.Table[]> => {
+  const { filter, sort, columns, signal, onProgress } = options;
+  signal?.throwIfAborted();
+
+  const query: TableQuery = {
+    limit: EXPORT_ROW_LIMIT,
+    offset: 0,
+    connectionId: connection.connectionId,
+    sourceId: connection.sourceId,
+    select_columns: columns,
+    ...(filter && { filter }),
+    ...(sort && { sort }),
+  };
+
+  const tables: arrow.Table[] = [];
+  let loadedRows = 0;
+
+  await grpcTableService.queryTable({
+    serverUrl: getIvyHost(),
+    query,
+    signal,
+    stream: true,
+    onData: batch => {
+      if (batch.table && batch.row_count > 0) tables.push(batch.table);
+      loadedRows += batch.row_count;
+      onProgress?.(loadedRows, batch.total_rows);
+    },
+  });
+
+  return tables;
+};
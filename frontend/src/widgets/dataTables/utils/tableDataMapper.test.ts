@@ -262,5 +262,21 @@ describe('tableDataMapper', () => {
         expect(result.columns[0].type).toBe(expectedType);
       });
     });
+
+    it('should convert numeric list columns to sparkline arrays', () => {
+      const values = arrow.vectorFromArray(
+        [[1, 2, 3], null],
+        new arrow.List(new arrow.Field('item', new arrow.Float64(), true))
+      );
+      const table = new arrow.Table({ trend: values });
+
+      const result = convertArrowTableToData(table, 5);
+
+      expect(result.columns[0].type).toBe(ColType.Sparkline);
+      expect(result.rows).toEqual([
+        { values: [[1, 2, 3]] },
+        { values: [null] },
+      ]);
+    });
   });
 });
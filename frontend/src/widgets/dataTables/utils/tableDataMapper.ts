@@ -1,5 +1,5 @@
 import * as arrow from 'apache-arrow';
-import { DataColumn, DataRow, ColType } from '../types/types';
+import { CellValue, DataColumn, DataRow, ColType } from '../types/types';
 
 function calculateColumnWidth(
   columnName: string,
@@ -33,6 +33,10 @@ function calculateColumnWidth(
  */
 function mapArrowTypeToColType(arrowType: string): ColType {
   const lowerType = arrowType.toLowerCase();
+  // Numeric lists are drawn as sparklines
+  if (lowerType.startsWith('list')) {
+    return ColType.Sparkline;
+  }
   if (
     lowerType.includes('int') ||
     lowerType.includes('float') ||
@@ -51,6 +55,16 @@ function mapArrowTypeToColType(arrowType: string): ColType {
   return ColType.Text;
 }
 
+/**
+ * Converts list values to plain number arrays, leaving scalars unchanged
+ */
+function toCellValue(value: unknown): CellValue {
+  if (value instanceof arrow.Vector) {
+    return Array.from(value, item => Number(item));
+  }
+  return value as CellValue;
+}
+
 export function convertArrowTableToData(
   table: arrow.Table,
   requestedCount: number
@@ -79,12 +93,12 @@ export function convertArrowTableToData(
 
   const rows: DataRow[] = [];
   for (let i = 0; i < table.numRows; i++) {
-    const values: (string | number | boolean | null)[] = [];
+    const values: CellValue[] = [];
     for (let j = 0; j < table.numCols; j++) {
       const column = table.getChildAt(j);
       if (column) {
         const value = column.get(i);
-        values.push(value);
+        values.push(toCellValue(value));
       }
     }
     rows.push({ values });
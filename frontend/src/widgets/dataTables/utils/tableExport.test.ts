@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import * as arrow from 'apache-arrow';
+import { ColType, DataColumn } from '../types/types';
+import {
+  createExportBlob,
+  getExportRows,
+  normalizeExportValue,
+  toCsv,
+} from './tableExport';
+
+const columns: DataColumn[] = [
+  { name: 'name', header: 'Name', type: ColType.Text, width: 100 },
+  { name: 'price', type: ColType.Number, width: 100 },
+];
+
+describe('tableExport', () => {
+  describe('normalizeExportValue', () => {
+    it('should convert date columns to Date objects', () => {
+      const ms = Date.UTC(2024, 4, 1);
+      expect(normalizeExportValue(ms, ColType.Date)).toEqual(new Date(ms));
+      expect(normalizeExportValue(null, ColType.Date)).toBeNull();
+    });
+
+    it('should convert bigint values to numbers', () => {
+      expect(normalizeExportValue(BigInt(42), ColType.Number)).toBe(42);
+    });
+  });
+
+  describe('toCsv', () => {
+    it('should write a header row and quote special characters', () => {
+      const csv = toCsv(columns, [
+        ['Plain', 1],
+        ['Comma, "quoted"', null],
+      ]);
+
+      expect(csv).toBe('Name,price\r\nPlain,1\r\n"Comma, ""quoted""",');
+    });
+
+    it('should format dates as ISO strings', () => {
+      const dateColumns: DataColumn[] = [
+        { name: 'day', type: ColType.Date, width: 100 },
+        { name: 'at', type: ColType.DateTime, width: 100 },
+      ];
+      const date = new Date(Date.UTC(2024, 4, 1, 8, 30));
+
+      expect(toCsv(dateColumns, [[date, date]])).toBe(
+        'day,at\r\n2024-05-01,2024-05-01T08:30:00.000Z'
+      );
+    });
+  });
+
+  describe('getExportRows', () => {
+    it('should read columns in display order across pages', () => {
+      const page1 = arrow.tableFromArrays({
+        price: Float64Array.from([1, 2]),
+        name: ['a', 'b'],
+      });
+      const page2 = arrow.tableFromArrays({
+        price: Float64Array.from([3]),
+        name: ['c'],
+      });
+
+      expect(getExportRows([page1, page2], columns)).toEqual([
+        ['a', 1],
+        ['b', 2],
+        ['c', 3],
+      ]);
+    });
+  });
+
+  describe('createExportBlob', () => {
+    it('should write Arrow files with columns in display order', async () => {
+      const table = arrow.tableFromArrays({
+        price: Float64Array.from([1]),
+        name: ['a'],
+      });
+
+      const blob = createExportBlob([table], columns, 'arrow');
+      const result = arrow.tableFromIPC(
+        new Uint8Array(await blob.arrayBuffer())
+      );
+
+      expect(result.schema.fields.map(f => f.name)).toEqual(['name', 'price']);
+      expect(result.numRows).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import * as arrow from 'apache-arrow';
+import { ColType, DataColumn } from '../types/types';
+import { createXlsx, XlsxCellValue } from './xlsxWriter';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'arrow';
+
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { label: string; extension: string; mimeType: string }
+> = {
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  xlsx: {
+    label: 'Excel (XLSX)',
+    extension: 'xlsx',
+    mimeType:
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  },
+  arrow: {
+    label: 'Arrow',
+    extension: 'arrow',
+    mimeType: 'application/vnd.apache.arrow.file',
+  },
+};
+
+/**
+ * Normalizes an Arrow value for export based on the column type
+ * Dates arrive either as Date objects or epoch milliseconds
+ */
+export function normalizeExportValue(
+  value: unknown,
+  type: ColType
+): XlsxCellValue {
+  if (value === null || value === undefined) return null;
+
+  if (type === ColType.Date || type === ColType.DateTime) {
+    if (value instanceof Date) return value;
+    const date = new Date(
+      typeof value === 'bigint' ? Number(value) : (value as number | string)
+    );
+    return isNaN(date.getTime()) ? String(value) : date;
+  }
+
+  if (typeof value === 'bigint') return Number(value);
+  // Sparkline lists are exported as comma-separated numbers
+  if (value instanceof arrow.Vector) {
+    return Array.from(value, item => Number(item)).join(', ');
+  }
+  if (
+    typeof value === 'number' ||
+    typeof value === 'boolean' ||
+    typeof value === 'string'
+  ) {
+    return value;
+  }
+  return String(value);
+}
+
+/**
+ * Reads the exported columns out of the fetched Arrow pages in display order
+ */
+export function getExportRows(
+  tables: arrow.Table[],
+  columns: DataColumn[]
+): XlsxCellValue[][] {
+  const rows: XlsxCellValue[][] = [];
+  tables.forEach(table => {
+    const vectors = columns.map(col => table.getChild(col.name));
+    for (let i = 0; i < table.numRows; i++) {
+      rows.push(
+        vectors.map((vector, idx) =>
+          normalizeExportValue(vector?.get(i), columns[idx].type)
+        )
+      );
+    }
+  });
+  return rows;
+}
+
+function formatCsvValue(value: XlsxCellValue, type: ColType): string {
+  if (value === null) return '';
+  if (value instanceof Date) {
+    return type === ColType.Date
+      ? value.toISOString().slice(0, 10)
+      : value.toISOString();
+  }
+
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes rows as RFC 4180 CSV with a header row
+ */
+export function toCsv(columns: DataColumn[], rows: XlsxCellValue[][]): string {
+  const header = columns
+    .map(col => formatCsvValue(col.header || col.name, ColType.Text))
+    .join(',');
+  const lines = rows.map(row =>
+    row.map((value, idx) => formatCsvValue(value, columns[idx].type)).join(',')
+  );
+  return [header, ...lines].join('\r\n');
+}
+
+/**
+ * Builds the export file for the fetched Arrow pages
+ */
+export function createExportBlob(
+  tables: arrow.Table[],
+  columns: DataColumn[],
+  format: ExportFormat
+): Blob {
+  const { mimeType } = EXPORT_FORMATS[format];
+
+  if (format === 'arrow') {
+    const batches = tables.flatMap(table => table.batches);
+    const table =
+      batches.length > 0 ? new arrow.Table(batches) : new arrow.Table();
+    const names = columns
+      .map(col => col.name)
+      .filter(name => table.schema.fields.some(f => f.name === name));
+    return new Blob(
+      [arrow.tableToIPC(table.select(names), 'file') as BlobPart],
+      {
+        type: mimeType,
+      }
+    );
+  }
+
+  const rows = getExportRows(tables, columns);
+
+  if (format === 'xlsx') {
+    const headers = columns.map(col => col.header || col.name);
+    return new Blob([createXlsx(headers, rows) as BlobPart], {
+      type: mimeType,
+    });
+  }
+
+  // Prefix a BOM so Excel detects UTF-8 when opening the CSV
+  return new Blob(['\uFEFF' + toCsv(columns, rows)], { type: mimeType });
+}
+
+/**
+ * Triggers a browser download for the given blob
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
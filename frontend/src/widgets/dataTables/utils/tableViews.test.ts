@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ColType, DataColumn, DataTableViewState } from '../types/types';
+import {
+  captureView,
+  getViewStorageKey,
+  loadTableViews,
+  resolveView,
+  saveTableViews,
+  upsertView,
+} from './tableViews';
+
+const columns: DataColumn[] = [
+  { name: 'id', type: ColType.Number, width: 80 },
+  { name: 'name', type: ColType.Text, width: 150, hidden: true },
+  { name: 'price', type: ColType.Number, width: 100 },
+];
+
+const view: DataTableViewState = {
+  name: 'Pricing',
+  columnOrder: ['price', 'id', 'name'],
+  columnWidths: { price: 200 },
+  hiddenColumns: ['id'],
+  filter: null,
+  sort: [{ column: 'price', direction: 'DESC' }],
+};
+
+describe('tableViews', () => {
+  describe('captureView', () => {
+    it('should reference columns by name', () => {
+      const captured = captureView('Mine', columns, {
+        columnOrder: [2, 0, 1],
+        columnWidths: { '0': 90, '2': 120 },
+        hiddenColumns: {},
+        pinnedColumns: ['price'],
+        filter: null,
+        sort: [{ column: 'id', direction: 'ASC' }],
+      });
+
+      expect(captured).toEqual({
+        name: 'Mine',
+        columnOrder: ['price', 'id', 'name'],
+        columnWidths: { id: 90, price: 120 },
+        hiddenColumns: ['name'],
+        pinnedColumns: ['price'],
+        filter: null,
+        sort: [{ column: 'id', direction: 'ASC' }],
+      });
+    });
+
+    it('should use the default order before the order is initialized', () => {
+      const captured = captureView('Mine', columns, {
+        columnOrder: [],
+        columnWidths: {},
+        hiddenColumns: {},
+        pinnedColumns: [],
+        filter: null,
+        sort: null,
+      });
+
+      expect(captured.columnOrder).toEqual(['id', 'name', 'price']);
+    });
+  });
+
+  describe('resolveView', () => {
+    it('should map names back to column indices', () => {
+      const state = resolveView(view, columns);
+
+      expect(state.columnOrder).toEqual([2, 0, 1]);
+      expect(state.columnWidths).toEqual({ '2': 200 });
+      expect(state.hiddenColumns).toEqual({
+        id: true,
+        name: false,
+        price: false,
+      });
+      expect(state.sort).toEqual([{ column: 'price', direction: 'DESC' }]);
+      expect(state.pinnedColumns).toBeUndefined();
+    });
+
+    it('should keep pinned columns in front', () => {
+      const state = resolveView(
+        { ...view, pinnedColumns: ['name', 'gone'] },
+        columns
+      );
+
+      expect(state.pinnedColumns).toEqual(['name']);
+      expect(state.columnOrder).toEqual([1, 2, 0]);
+    });
+
+    it('should tolerate added and removed columns', () => {
+      const changed: DataColumn[] = [
+        { name: 'id', type: ColType.Number, width: 80 },
+        { name: 'stock', type: ColType.Number, width: 80 },
+      ];
+      const state = resolveView(
+        { ...view, sort: [{ column: 'price', direction: 'ASC' }] },
+        changed
+      );
+
+      expect(state.columnOrder).toEqual([0, 1]);
+      expect(state.columnWidths).toEqual({});
+      expect(state.sort).toEqual([]);
+    });
+  });
+
+  describe('upsertView', () => {
+    it('should replace views with the same name in place', () => {
+      const other = { ...view, name: 'Other' };
+      const updated = { ...view, hiddenColumns: [] };
+
+      expect(upsertView([view, other], updated)).toEqual([updated, other]);
+      expect(upsertView([other], view)).toEqual([other, view]);
+    });
+  });
+
+  describe('storage', () => {
+    beforeEach(() => {
+      const store = new Map<string, string>();
+      vi.stubGlobal('localStorage', {
+        getItem: (key: string) => store.get(key) ?? null,
+        setItem: (key: string, value: string) => store.set(key, value),
+      });
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should round-trip views through localStorage', () => {
+      saveTableViews('table-1', { views: [view], activeView: 'Pricing' });
+
+      expect(loadTableViews('table-1')).toEqual({
+        views: [view],
+        activeView: 'Pricing',
+      });
+      expect(loadTableViews('table-2')).toEqual({
+        views: [],
+        activeView: null,
+      });
+    });
+
+    it('should ignore corrupt entries and unknown active views', () => {
+      localStorage.setItem(getViewStorageKey('broken'), '{not json');
+      expect(loadTableViews('broken').views).toEqual([]);
+
+      saveTableViews('stale', { views: [view], activeView: 'Missing' });
+      expect(loadTableViews('stale').activeView).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { Filter, SortOrder } from '@/services/grpcTableService';
+import { DataColumn, DataTableViewState } from '../types/types';
+import { pinColumnsFirst } from './columnChooser';
+
+const STORAGE_PREFIX = 'ivy-datatable-views:';
+
+/**
+ * Saved views of a table together with the view that was last applied
+ */
+export interface StoredTableViews {
+  views: DataTableViewState[];
+  activeView: string | null;
+}
+
+/**
+ * Layout and query state of a table, as held by the table context
+ * Widths are keyed by column index and the order holds column indices
+ */
+export interface TableLayoutState {
+  columnOrder: number[];
+  columnWidths: Record<string, number>;
+  hiddenColumns: Record<string, boolean>;
+  /** Undefined when a view leaves the pinned columns to the table */
+  pinnedColumns?: string[];
+  filter: Filter | null;
+  sort: SortOrder[] | null;
+}
+
+const emptyViews = (): StoredTableViews => ({ views: [], activeView: null });
+
+export function getViewStorageKey(tableKey: string): string {
+  return `${STORAGE_PREFIX}${tableKey}`;
+}
+
+/**
+ * Reads the saved views of a table, ignoring missing or corrupt entries
+ */
+export function loadTableViews(tableKey: string): StoredTableViews {
+  try {
+    const raw = localStorage.getItem(getViewStorageKey(tableKey));
+    if (!raw) return emptyViews();
+
+    const parsed = JSON.parse(raw) as Partial<StoredTableViews>;
+    const views = Array.isArray(parsed.views) ? parsed.views : [];
+    const activeView =
+      typeof parsed.activeView === 'string' &&
+      views.some(view => view.name === parsed.activeView)
+        ? parsed.activeView
+        : null;
+    return { views, activeView };
+  } catch {
+    return emptyViews();
+  }
+}
+
+export function saveTableViews(
+  tableKey: string,
+  stored: StoredTableViews
+): void {
+  try {
+    localStorage.setItem(getViewStorageKey(tableKey), JSON.stringify(stored));
+  } catch {
+    // Storage may be full or unavailable (private browsing)
+  }
+}
+
+/**
+ * Adds a view, replacing any existing view with the same name
+ */
+export function upsertView(
+  views: DataTableViewState[],
+  view: DataTableViewState
+): DataTableViewState[] {
+  const index = views.findIndex(existing => existing.name === view.name);
+  if (index === -1) return [...views, view];
+  return views.map((existing, idx) => (idx === index ? view : existing));
+}
+
+/**
+ * Captures the table layout as a named view
+ * Columns are referenced by name so views survive changes to column positions
+ */
+export function captureView(
+  name: string,
+  columns: DataColumn[],
+  state: TableLayoutState
+): DataTableViewState {
+  const order =
+    state.columnOrder.length > 0
+      ? state.columnOrder
+      : columns.map((_, index) => index);
+
+  const columnWidths: Record<string, number> = {};
+  columns.forEach((col, index) => {
+    const width = state.columnWidths[index.toString()];
+    if (width !== undefined) columnWidths[col.name] = width;
+  });
+
+  return {
+    name,
+    columnOrder: order
+      .map(index => columns[index]?.name)
+      .filter((colName): colName is string => colName !== undefined),
+    columnWidths,
+    hiddenColumns: columns.filter(col => col.hidden).map(col => col.name),
+    pinnedColumns: state.pinnedColumns,
+    filter: state.filter,
+    sort: state.sort,
+  };
+}
+
+/**
+ * Resolves a saved view against the current columns
+ * Columns missing from the view are appended in their default order and keep
+ * their current width; entries for columns that no longer exist are dropped
+ */
+export function resolveView(
+  view: DataTableViewState,
+  columns: DataColumn[]
+): TableLayoutState {
+  const indexByName = new Map(columns.map((col, index) => [col.name, index]));
+
+  const columnNames = new Set(columns.map(col => col.name));
+  const pinnedColumns = view.pinnedColumns?.filter(colName =>
+    columnNames.has(colName)
+  );
+
+  const orderedIndices = view.columnOrder
+    .map(colName => indexByName.get(colName))
+    .filter((index): index is number => index !== undefined);
+  const columnOrder = pinColumnsFirst(
+    [
+      ...orderedIndices,
+      ...columns
+        .map((_, index) => index)
+        .filter(index => !orderedIndices.includes(index)),
+    ],
+    columns,
+    pinnedColumns ?? []
+  );
+
+  const columnWidths: Record<string, number> = {};
+  columns.forEach((col, index) => {
+    const width = view.columnWidths[col.name];
+    if (width !== undefined) columnWidths[index.toString()] = width;
+  });
+
+  const hiddenColumns: Record<string, boolean> = {};
+  columns.forEach(col => {
+    hiddenColumns[col.name] = view.hiddenColumns.includes(col.name);
+  });
+
+  const sort = view.sort?.filter(s => columnNames.has(s.column)) ?? null;
+
+  return {
+    columnOrder,
+    columnWidths,
+    hiddenColumns,
+    pinnedColumns,
+    filter: view.filter,
+    sort,
+  };
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createXlsx,
+  createZip,
+  crc32,
+  escapeXml,
+  getColumnName,
+  toExcelDate,
+} from './xlsxWriter';
+
+const decode = (data: Uint8Array) => new TextDecoder().decode(data);
+
+describe('xlsxWriter', () => {
+  describe('crc32', () => {
+    it('should match the standard check value', () => {
+      const data = new TextEncoder().encode('123456789');
+      expect(crc32(data)).toBe(0xcbf43926);
+    });
+  });
+
+  describe('getColumnName', () => {
+    it('should convert indices to spreadsheet column names', () => {
+      expect(getColumnName(0)).toBe('A');
+      expect(getColumnName(25)).toBe('Z');
+      expect(getColumnName(26)).toBe('AA');
+      expect(getColumnName(701)).toBe('ZZ');
+      expect(getColumnName(702)).toBe('AAA');
+    });
+  });
+
+  describe('escapeXml', () => {
+    it('should escape markup and drop invalid control characters', () => {
+      expect(escapeXml('a < b & "c"\u0001')).toBe(
+        'a &lt; b &amp; &quot;c&quot;'
+      );
+    });
+  });
+
+  describe('toExcelDate', () => {
+    it('should convert dates to Excel serial numbers', () => {
+      expect(toExcelDate(new Date(Date.UTC(1970, 0, 1)))).toBe(25569);
+      expect(toExcelDate(new Date(Date.UTC(2024, 0, 1, 12)))).toBe(45292.5);
+    });
+  });
+
+  describe('createZip', () => {
+    it('should write local headers, central directory and end record', () => {
+      const zip = createZip([
+        { name: 'a.txt', data: new TextEncoder().encode('hello') },
+      ]);
+      const view = new DataView(zip.buffer);
+
+      expect(view.getUint32(0, true)).toBe(0x04034b50);
+      expect(view.getUint32(zip.length - 22, true)).toBe(0x06054b50);
+      expect(view.getUint16(zip.length - 12, true)).toBe(1);
+      expect(decode(zip)).toContain('hello');
+    });
+  });
+
+  describe('createXlsx', () => {
+    it('should include the workbook parts and typed cells', () => {
+      const xlsx = decode(
+        createXlsx(
+          ['Name', 'Price', 'Active', 'Created'],
+          [['Widget <1>', 9.5, true, new Date(Date.UTC(2024, 0, 1))]]
+        )
+      );
+
+      expect(xlsx).toContain('[Content_Types].xml');
+      expect(xlsx).toContain('xl/worksheets/sheet1.xml');
+      expect(xlsx).toContain('<t xml:space="preserve">Widget &lt;1&gt;</t>');
+      expect(xlsx).toContain('<c r="B2"><v>9.5</v></c>');
+      expect(xlsx).toContain('<c r="C2" t="b"><v>1</v></c>');
+      expect(xlsx).toContain('<c r="D2" s="1"><v>45292</v></c>');
+    });
+  });
+});
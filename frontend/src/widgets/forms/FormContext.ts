@@ -0,0 +1,23 @@
+import { createContext, useContext } from 'react';
+import { Control } from 'react-hook-form';
+import { FormValues } from './formValidation';
+
+export interface FormContextValue {
+  control: Control<FormValues>;
+  /**
+   * Marks a field as rendered; returns a callback for when it is removed.
+   * The input id is used to send restored values to the server on reset.
+   */
+  registerField: (name: string, inputId?: string) => () => void;
+  setFieldValue: (name: string, value: unknown) => void;
+  touchField: (name: string) => void;
+}
+
+export const FormContext = createContext<FormContextValue | null>(null);
+
+/**
+ * Value tracking and browser validation of the enclosing form, or null
+ * outside of a form
+ */
+export const useParentForm = (): FormContextValue | null =>
+  useContext(FormContext);
@@ -1,16 +1,238 @@
-import React, { useEffect, useRef } from 'react';
-import { useEventHandler } from '@/components/event-handler';
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { Resolver, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { isEqual } from 'lodash';
+import {
+  EventHandlerProvider,
+  useEventHandler,
+} from '@/components/event-handler';
+import { Button } from '@/components/ui/button';
 import { logger } from '@/lib/logger';
+import { unsavedChangesService } from '@/services/unsavedChangesService';
+import { WidgetEventHandlerType } from '@/types/widgets';
+import {
+  FormValidationSchema,
+  FormValues,
+  createZodSchema,
+  getDependentFields,
+} from './formValidation';
+import { FormContext, FormContextValue } from './FormContext';
 
 interface FormWidgetProps {
   id: string;
   children?: React.ReactNode;
+  slots?: {
+    Submit?: React.ReactNode[];
+  };
+  validation?: FormValidationSchema;
+  resetTitle?: string;
+  warnOnUnsavedChanges?: boolean;
+  revision?: number;
+  events?: string[];
 }
 
-export const FormWidget: React.FC<FormWidgetProps> = ({ id, children }) => {
+interface TrackedField {
+  inputId?: string;
+  value: unknown;
+}
+
+export const FormWidget: React.FC<FormWidgetProps> = ({
+  id,
+  children,
+  slots,
+  validation,
+  resetTitle,
+  warnOnUnsavedChanges = true,
+  revision = 0,
+  events = [],
+}) => {
   const formRef = useRef<HTMLDivElement>(null);
   const eventHandler = useEventHandler();
 
+  // Values of the rendered fields and the values they started with
+  const fieldsRef = useRef(new Map<string, TrackedField>());
+  // Kept while a field is hidden so it is still dirty when shown again
+  const initialValuesRef = useRef(new Map<string, unknown>());
+  const [isDirty, setIsDirty] = useState(false);
+
+  const updateDirty = useCallback(() => {
+    const initialValues = initialValuesRef.current;
+    setIsDirty(
+      Array.from(fieldsRef.current).some(
+        ([name, field]) => !isEqual(field.value, initialValues.get(name))
+      )
+    );
+  }, []);
+
+  const [activeFields, setActiveFields] = useState<ReadonlySet<string>>(
+    () => new Set()
+  );
+  const touchedRef = useRef(new Set<string>());
+  const submittedRef = useRef(false);
+
+  const zodSchema = useMemo(
+    () => (validation ? createZodSchema(validation, activeFields) : null),
+    [validation, activeFields]
+  );
+  const zodSchemaRef = useRef(zodSchema);
+  const validationRef = useRef(validation);
+  useEffect(() => {
+    zodSchemaRef.current = zodSchema;
+    validationRef.current = validation;
+  }, [zodSchema, validation]);
+
+  // The resolver reads the latest schema so rendered fields can change without recreating the form
+  const resolver = useCallback<Resolver<FormValues>>(
+    (values, context, options) =>
+      zodSchemaRef.current
+        ? zodResolver(zodSchemaRef.current)(values, context, options)
+        : { values, errors: {} },
+    []
+  );
+  const validationForm = useForm<FormValues>({ resolver });
+
+  // Fields that have to be validated again when the given field changes
+  const getFieldsToValidate = useCallback((name: string) => {
+    const shouldValidate = (field: string) =>
+      submittedRef.current || touchedRef.current.has(field);
+    const dependents = validationRef.current
+      ? getDependentFields(validationRef.current, name).filter(shouldValidate)
+      : [];
+    return shouldValidate(name) ? [name, ...dependents] : dependents;
+  }, []);
+
+  // Kept stable across server updates so fields do not register again on every render
+  const formContext = useMemo<FormContextValue>(
+    () => ({
+      control: validationForm.control,
+      registerField: (name, inputId) => {
+        fieldsRef.current.set(name, {
+          inputId,
+          value: initialValuesRef.current.get(name),
+        });
+        setActiveFields(prev => new Set(prev).add(name));
+        return () => {
+          fieldsRef.current.delete(name);
+          updateDirty();
+          setActiveFields(prev => {
+            const next = new Set(prev);
+            next.delete(name);
+            return next;
+          });
+          touchedRef.current.delete(name);
+          validationForm.clearErrors(name);
+        };
+      },
+      setFieldValue: (name, value) => {
+        const field = fieldsRef.current.get(name);
+        if (field) {
+          // The first value a field reports is the one it started with
+          if (!initialValuesRef.current.has(name)) {
+            initialValuesRef.current.set(name, value);
+          }
+          fieldsRef.current.set(name, { ...field, value });
+          updateDirty();
+        }
+        validationForm.setValue(name, value);
+        if (!validationRef.current) return;
+        const fields = getFieldsToValidate(name);
+        if (fields.length > 0) void validationForm.trigger(fields);
+      },
+      touchField: name => {
+        // With the OnSubmit strategy errors only appear after a submit attempt
+        if (validationRef.current?.strategy === 'OnSubmit') return;
+        touchedRef.current.add(name);
+        void validationForm.trigger(getFieldsToValidate(name));
+      },
+    }),
+    [validationForm, getFieldsToValidate, updateDirty]
+  );
+
+  // The current values become the ones changes are compared against
+  const acceptValues = useCallback(() => {
+    for (const [name, field] of fieldsRef.current) {
+      initialValuesRef.current.set(name, field.value);
+    }
+    updateDirty();
+  }, [updateDirty]);
+
+  // A new revision means the server saved the values, so they are no longer changes
+  const revisionRef = useRef(revision);
+  useEffect(() => {
+    if (revisionRef.current === revision) return;
+    revisionRef.current = revision;
+    acceptValues();
+  }, [revision, acceptValues]);
+
+  const reportedDirtyRef = useRef(false);
+  useEffect(() => {
+    if (reportedDirtyRef.current === isDirty) return;
+    reportedDirtyRef.current = isDirty;
+    if (events.includes('OnDirtyChange')) {
+      eventHandler('OnDirtyChange', id, [isDirty]);
+    }
+  }, [id, isDirty, events, eventHandler]);
+
+  // Discarded changes count as the values the form has, so the next change is guarded again
+  useEffect(() => {
+    if (!isDirty || !warnOnUnsavedChanges) return;
+    unsavedChangesService.setDirty(id, formRef.current, acceptValues);
+    return () => unsavedChangesService.setDirty(id, null);
+  }, [id, isDirty, warnOnUnsavedChanges, acceptValues]);
+
+  /**
+   * Restores the initial values and sends them to the server as changes of
+   * the inputs
+   */
+  const resetFields = useCallback(() => {
+    for (const [name, field] of fieldsRef.current) {
+      const initialValue = initialValuesRef.current.get(name);
+      if (isEqual(field.value, initialValue)) continue;
+      fieldsRef.current.set(name, { ...field, value: initialValue });
+      validationForm.setValue(name, initialValue);
+      if (field.inputId)
+        eventHandler('OnChange', field.inputId, [initialValue]);
+    }
+    touchedRef.current.clear();
+    submittedRef.current = false;
+    validationForm.clearErrors();
+    updateDirty();
+  }, [validationForm, eventHandler, updateDirty]);
+
+  /**
+   * Validates all rendered fields and focuses the first invalid one
+   */
+  const validateAll = useCallback(async (): Promise<boolean> => {
+    if (!validation) return true;
+
+    submittedRef.current = true;
+    const valid = await validationForm.trigger();
+    if (!valid && formRef.current) {
+      const invalidField = Array.from(
+        formRef.current.querySelectorAll<HTMLElement>('[data-form-field]')
+      ).find(el => validationForm.getFieldState(el.dataset.formField!).invalid);
+      invalidField
+        ?.querySelector<HTMLElement>('input, textarea, select, button')
+        ?.focus();
+    }
+    return valid;
+  }, [validationForm, validation]);
+
+  // Clicks in the Submit slot only reach the server when the form is valid
+  const submitEventHandler = useCallback<WidgetEventHandlerType>(
+    async (eventName, widgetId, args) => {
+      if (eventName === 'OnClick' && !(await validateAll())) return false;
+      return eventHandler(eventName, widgetId, args);
+    },
+    [eventHandler, validateAll]
+  );
+
   useEffect(() => {
     const form = formRef.current;
     if (!form) return;
@@ -43,24 +265,29 @@ export const FormWidget: React.FC<FormWidgetProps> = ({ id, children }) => {
         if (nextInput) {
           nextInput.focus();
         } else {
-          // We're on the last field - check for invalid fields
-          const invalidInputs = inputs.filter(input => {
-            const parent = input.closest('[class*="flex-col"]');
-            return (
-              parent?.querySelector('[class*="text-destructive"]') !== null
-            );
-          });
+          // We're on the last field - validate locally before anything is sent
+          void validateAll().then(valid => {
+            if (!valid) return;
 
-          if (invalidInputs.length > 0) {
-            // Navigate to first invalid field instead of submitting
-            invalidInputs[0].focus();
-          } else {
-            // All fields valid - submit the form
-            logger.info(`Form submit triggered via Enter key on last field`, {
-              formId: id,
+            // Check for fields the server marked invalid
+            const invalidInputs = inputs.filter(input => {
+              const parent = input.closest('[class*="flex-col"]');
+              return (
+                parent?.querySelector('[class*="text-destructive"]') !== null
+              );
             });
-            eventHandler('OnSubmit', id, []);
-          }
+
+            if (invalidInputs.length > 0) {
+              // Navigate to first invalid field instead of submitting
+              invalidInputs[0].focus();
+            } else {
+              // All fields valid - submit the form
+              logger.info(`Form submit triggered via Enter key on last field`, {
+                formId: id,
+              });
+              eventHandler('OnSubmit', id, []);
+            }
+          });
         }
       }
     };
@@ -69,7 +296,34 @@ export const FormWidget: React.FC<FormWidgetProps> = ({ id, children }) => {
     return () => {
       form.removeEventListener('keydown', handleKeyDown);
     };
-  }, [id, eventHandler]);
+  }, [id, eventHandler, validateAll]);
 
-  return <div ref={formRef}>{children}</div>;
+  return (
+    <FormContext.Provider value={formContext}>
+      <div ref={formRef}>
+        {children}
+        {(slots?.Submit || resetTitle) && (
+          <div className="mt-4 flex items-start gap-2">
+            {slots?.Submit && (
+              <div className="flex-1 min-w-0">
+                <EventHandlerProvider eventHandler={submitEventHandler}>
+                  {slots.Submit}
+                </EventHandlerProvider>
+              </div>
+            )}
+            {resetTitle && (
+              <Button
+                type="button"
+                variant="outline"
+                disabled={!isDirty}
+                onClick={resetFields}
+              >
+                {resetTitle}
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    </FormContext.Provider>
+  );
 };
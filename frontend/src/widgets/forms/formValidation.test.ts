@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareValues,
+  createZodSchema,
+  getDependentFields,
+  isRuleSatisfied,
+  type FormValidationRuleType,
+  type FormValidationSchema,
+} from './formValidation';
+
+const schema: FormValidationSchema = {
+  fields: [
+    {
+      field: 'Name',
+      rules: [
+        { type: 'Required', message: 'Required field' },
+        { type: 'MinLength', message: 'Too short', value: 3 },
+      ],
+    },
+    { field: 'Age', rules: [{ type: 'Min', message: 'Too young', value: 18 }] },
+  ],
+  rules: [
+    {
+      field: 'ConfirmPassword',
+      operator: 'Equal',
+      compareTo: 'Password',
+      message: 'Must match Password',
+    },
+  ],
+};
+
+const getErrors = (
+  values: Record<string, unknown>,
+  active = ['Name', 'Age', 'Password', 'ConfirmPassword']
+) => {
+  const result = createZodSchema(schema, new Set(active)).safeParse(values);
+  if (result.success) return {};
+  return Object.fromEntries(
+    result.error.issues.map(issue => [issue.path.join('.'), issue.message])
+  );
+};
+
+describe('formValidation', () => {
+  describe('isRuleSatisfied', () => {
+    const satisfies = (
+      type: FormValidationRuleType,
+      value: unknown,
+      ruleValue?: number | string
+    ) => isRuleSatisfied({ type, message: '', value: ruleValue }, value);
+
+    it('should only fail required rules for empty values', () => {
+      expect(satisfies('Required', '  ')).toBe(false);
+      expect(satisfies('Required', [])).toBe(false);
+      expect(satisfies('Min', null, 5)).toBe(true);
+    });
+
+    it('should evaluate ranges, lengths, patterns and emails', () => {
+      expect(satisfies('Max', 6, 5)).toBe(false);
+      expect(satisfies('MaxLength', 'abc', 2)).toBe(false);
+      expect(satisfies('Pattern', 'abc', '[a-z]+')).toBe(true);
+      expect(satisfies('Pattern', 'abc1', '[a-z]+')).toBe(false);
+      expect(satisfies('Email', 'a@b.com')).toBe(true);
+      expect(satisfies('Email', 'a@b@c')).toBe(false);
+    });
+
+    it('should leave patterns the browser cannot compile to the server', () => {
+      expect(satisfies('Pattern', 'abc', '(?<x')).toBe(true);
+    });
+  });
+
+  describe('compareValues', () => {
+    it('should compare numbers, dates and text', () => {
+      expect(compareValues(5, 'GreaterThan', 3)).toBe(true);
+      expect(compareValues('2024-01-01', 'LessThan', '2024-02-01')).toBe(true);
+      expect(compareValues('2024-03-01', 'LessThan', '2024-02-01')).toBe(false);
+      expect(compareValues('a', 'NotEqual', 'a')).toBe(false);
+      expect(compareValues(null, 'Equal', 'a')).toBe(true);
+    });
+  });
+
+  describe('createZodSchema', () => {
+    it('should report the first failing rule of each field', () => {
+      expect(getErrors({ Name: '', Age: 12 })).toEqual({
+        Name: 'Required field',
+        Age: 'Too young',
+      });
+      expect(getErrors({ Name: 'Al', Age: 30 })).toEqual({ Name: 'Too short' });
+    });
+
+    it('should report cross-field rules on the field', () => {
+      expect(
+        getErrors({ Name: 'Alice', Password: 'a', ConfirmPassword: 'b' })
+      ).toEqual({ ConfirmPassword: 'Must match Password' });
+    });
+
+    it('should skip fields that are not rendered', () => {
+      expect(
+        getErrors({ Name: '', Password: 'a', ConfirmPassword: 'b' }, ['Age'])
+      ).toEqual({});
+    });
+  });
+
+  describe('getDependentFields', () => {
+    it('should return fields compared to the given field', () => {
+      expect(getDependentFields(schema, 'Password')).toEqual([
+        'ConfirmPassword',
+      ]);
+      expect(getDependentFields(schema, 'Name')).toEqual([]);
+    });
+  });
+});
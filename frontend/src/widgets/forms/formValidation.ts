@@ -0,0 +1,197 @@
+import { z } from 'zod';
+
+export type FormValidationRuleType =
+  | 'Required'
+  | 'Min'
+  | 'Max'
+  | 'MinLength'
+  | 'MaxLength'
+  | 'Pattern'
+  | 'Email';
+
+export type FormCompareOperator =
+  | 'Equal'
+  | 'NotEqual'
+  | 'GreaterThan'
+  | 'GreaterThanOrEqual'
+  | 'LessThan'
+  | 'LessThanOrEqual';
+
+export interface FormValidationRule {
+  type: FormValidationRuleType;
+  message: string;
+  value?: number | string | null;
+}
+
+export interface FormFieldValidation {
+  field: string;
+  rules: FormValidationRule[];
+}
+
+export interface FormCrossFieldRule {
+  field: string;
+  operator: FormCompareOperator;
+  compareTo: string;
+  message: string;
+}
+
+export interface FormValidationSchema {
+  fields: FormFieldValidation[];
+  rules: FormCrossFieldRule[];
+  strategy?: 'OnBlur' | 'OnSubmit';
+}
+
+export type FormValues = Record<string, unknown>;
+
+export const isEmptyValue = (value: unknown): boolean =>
+  value === null ||
+  value === undefined ||
+  (typeof value === 'string' && value.trim() === '') ||
+  (Array.isArray(value) && value.length === 0);
+
+const getLength = (value: unknown): number | null =>
+  typeof value === 'string' || Array.isArray(value) ? value.length : null;
+
+// Mirrors EmailAddressAttribute: a single '@' that is neither first nor last
+const isEmail = (value: unknown): boolean => {
+  if (typeof value !== 'string') return false;
+  const at = value.indexOf('@');
+  return at > 0 && at === value.lastIndexOf('@') && at < value.length - 1;
+};
+
+// RegularExpressionAttribute requires the whole value to match
+const matchesPattern = (value: unknown, pattern: string): boolean => {
+  try {
+    return new RegExp(`^(?:${pattern})$`).test(String(value));
+  } catch {
+    // .NET only syntax is left to the server
+    return true;
+  }
+};
+
+/**
+ * Returns whether a value satisfies a rule; empty values only fail Required
+ */
+export function isRuleSatisfied(
+  rule: FormValidationRule,
+  value: unknown
+): boolean {
+  if (rule.type === 'Required') return !isEmptyValue(value);
+  if (isEmptyValue(value)) return true;
+
+  const limit = Number(rule.value);
+  switch (rule.type) {
+    case 'Min':
+      return typeof value !== 'number' || value >= limit;
+    case 'Max':
+      return typeof value !== 'number' || value <= limit;
+    case 'MinLength': {
+      const length = getLength(value);
+      return length === null || length >= limit;
+    }
+    case 'MaxLength': {
+      const length = getLength(value);
+      return length === null || length <= limit;
+    }
+    case 'Pattern':
+      return matchesPattern(value, String(rule.value ?? ''));
+    case 'Email':
+      return isEmail(value);
+    default:
+      return true;
+  }
+}
+
+const toComparable = (value: unknown): number | string => {
+  if (typeof value === 'number') return value;
+  if (value instanceof Date) return value.getTime();
+  const text = String(value);
+  const date = Date.parse(text);
+  return Number.isNaN(date) ? text : date;
+};
+
+/**
+ * Compares two field values for a cross-field rule; empty values pass
+ */
+export function compareValues(
+  value: unknown,
+  operator: FormCompareOperator,
+  other: unknown
+): boolean {
+  if (isEmptyValue(value) || isEmptyValue(other)) return true;
+
+  if (operator === 'Equal' || operator === 'NotEqual') {
+    const equal =
+      typeof value === 'number' || typeof other === 'number'
+        ? Number(value) === Number(other)
+        : String(value) === String(other);
+    return operator === 'Equal' ? equal : !equal;
+  }
+
+  const a = toComparable(value);
+  const b = toComparable(other);
+  if (typeof a !== typeof b) return true;
+
+  switch (operator) {
+    case 'GreaterThan':
+      return a > b;
+    case 'GreaterThanOrEqual':
+      return a >= b;
+    case 'LessThan':
+      return a < b;
+    default:
+      return a <= b;
+  }
+}
+
+/**
+ * Builds the zod schema evaluated by react-hook-form
+ * Only fields that are currently rendered are validated, matching the server
+ * which skips hidden fields.
+ */
+export function createZodSchema(
+  schema: FormValidationSchema,
+  activeFields: ReadonlySet<string>
+) {
+  const shape: Record<string, z.ZodType> = {};
+
+  for (const { field, rules } of schema.fields) {
+    if (!activeFields.has(field)) continue;
+    shape[field] = z.unknown().superRefine((value, ctx) => {
+      const failed = rules.find(rule => !isRuleSatisfied(rule, value));
+      if (failed) ctx.addIssue({ code: 'custom', message: failed.message });
+    });
+  }
+
+  return z.looseObject(shape).superRefine((values, ctx) => {
+    for (const rule of schema.rules) {
+      if (!activeFields.has(rule.field) || !activeFields.has(rule.compareTo)) {
+        continue;
+      }
+      if (
+        !compareValues(
+          values[rule.field],
+          rule.operator,
+          values[rule.compareTo]
+        )
+      ) {
+        ctx.addIssue({
+          code: 'custom',
+          message: rule.message,
+          path: [rule.field],
+        });
+      }
+    }
+  });
+}
+
+/**
+ * Fields whose cross-field rules depend on the given field and must be
+ * validated again when it changes
+ */
+export function getDependentFields(
+  schema: FormValidationSchema,
+  field: string
+): string[] {
+  return schema.rules.filter(r => r.compareTo === field).map(r => r.field);
+}
@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import { getWidth } from '@/lib/styles';
 import { logger } from '@/lib/logger';
+import { uploadBlob } from '@/services/uploadService';
 import { Sizes } from '@/types/sizes';
 import {
   audioRecorderVariants,
@@ -38,29 +39,8 @@ export const AudioRecorderWidget: React.FC<AudioRecorderWidgetProps> = ({
     async (chunk: Blob): Promise<void> => {
       if (!uploadUrl) return;
 
-      // Get the correct host from meta tag or use relative URL
-      const getUploadUrl = () => {
-        const ivyHostMeta = document.querySelector('meta[name="ivy-host"]');
-        if (ivyHostMeta) {
-          const host = ivyHostMeta.getAttribute('content');
-          return host + uploadUrl;
-        }
-        // If no meta tag, use relative URL (should work in production)
-        return uploadUrl;
-      };
-
-      const formData = new FormData();
-      formData.append('file', chunk);
-
       try {
-        const response = await fetch(getUploadUrl(), {
-          method: 'POST',
-          body: formData,
-        });
-
-        if (!response.ok) {
-          throw new Error(`Upload failed: ${response.statusText}`);
-        }
+        await uploadBlob(uploadUrl, chunk);
       } catch (error) {
         logger.error('File upload error:', error);
       }
@@ -84,8 +64,6 @@ export const AudioRecorderWidget: React.FC<AudioRecorderWidgetProps> = ({
     if (!recording) {
       return;
     }
-    setRecordingStartedAt(null);
-    setRecordingStoppedAt(null);
 
     let cancelled = false;
     let onCancel = () => {};
@@ -160,6 +138,8 @@ export const AudioRecorderWidget: React.FC<AudioRecorderWidgetProps> = ({
                 if (recording) {
                   setRecording(false);
                 } else {
+                  setRecordingStartedAt(null);
+                  setRecordingStoppedAt(null);
                   setRecording(true);
                   setError(false);
                 }
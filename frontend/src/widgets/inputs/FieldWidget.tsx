@@ -1,22 +1,96 @@
-import React from 'react';
+import React, { useCallback, useEffect } from 'react';
+import { useFormState } from 'react-hook-form';
+import {
+  EventHandlerProvider,
+  useEventHandler,
+} from '@/components/event-handler';
 import { Sizes } from '@/types/sizes';
+import { WidgetEventHandlerType } from '@/types/widgets';
+import { FormContextValue, useParentForm } from '@/widgets/forms/FormContext';
 
 interface FieldWidgetProps {
   id: string;
   label: string;
   description?: string;
   required: boolean;
+  name?: string;
+  /** Id of the wrapped input widget, set by the widget renderer */
+  inputId?: string;
+  /** Current value of the wrapped input widget, set by the widget renderer */
+  inputValue?: unknown;
   children?: React.ReactNode;
   size?: Sizes;
 }
 
+interface FormFieldInputProps {
+  name: string;
+  inputId?: string;
+  inputValue?: unknown;
+  form: FormContextValue;
+  messageClassName: string;
+  children?: React.ReactNode;
+}
+
+// Feeds the input's changes into the form's value tracking and browser validation and shows its error
+const FormFieldInput: React.FC<FormFieldInputProps> = ({
+  name,
+  inputId,
+  inputValue,
+  form,
+  messageClassName,
+  children,
+}) => {
+  const eventHandler = useEventHandler();
+  const { control, registerField, setFieldValue, touchField } = form;
+  const { errors } = useFormState({ control, name });
+  const error = errors[name]?.message;
+
+  useEffect(() => registerField(name, inputId), [registerField, name, inputId]);
+
+  // Values confirmed by the server replace the locally tracked ones
+  useEffect(() => {
+    setFieldValue(name, inputValue);
+  }, [setFieldValue, name, inputValue]);
+
+  const fieldEventHandler = useCallback<WidgetEventHandlerType>(
+    (eventName, widgetId, args) => {
+      if (eventName === 'OnChange') setFieldValue(name, args[0]);
+      return eventHandler(eventName, widgetId, args);
+    },
+    [eventHandler, setFieldValue, name]
+  );
+
+  return (
+    <div
+      className="contents"
+      onBlur={e => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+          touchField(name);
+        }
+      }}
+    >
+      <EventHandlerProvider eventHandler={fieldEventHandler}>
+        {children}
+      </EventHandlerProvider>
+      {typeof error === 'string' && (
+        <p className={`${messageClassName} text-destructive`}>{error}</p>
+      )}
+    </div>
+  );
+};
+
 export const FieldWidget: React.FC<FieldWidgetProps> = ({
+  id,
   label,
   description,
   required,
+  name,
+  inputId,
+  inputValue,
   children,
   size = Sizes.Medium,
 }) => {
+  const form = useParentForm();
   const labelSizeClass =
     size === Sizes.Small
       ? 'text-xs'
@@ -34,7 +108,10 @@ export const FieldWidget: React.FC<FieldWidgetProps> = ({
     size === Sizes.Small ? 'gap-2' : size === Sizes.Large ? 'gap-4' : 'gap-3';
 
   return (
-    <div className={`flex flex-col ${gapClass} flex-1 min-w-0`}>
+    <div
+      className={`flex flex-col ${gapClass} flex-1 min-w-0`}
+      data-form-field={name}
+    >
       {label && (
         <label
           className={`${labelSizeClass} font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70`}
@@ -43,7 +120,20 @@ export const FieldWidget: React.FC<FieldWidgetProps> = ({
           {required && <span className="font-mono text-primary">*</span>}
         </label>
       )}
-      {children}
+      {form ? (
+        // Fields without a name are tracked by their own id
+        <FormFieldInput
+          name={name ?? id}
+          inputId={inputId}
+          inputValue={inputValue}
+          form={form}
+          messageClassName={descriptionSizeClass}
+        >
+          {children}
+        </FormFieldInput>
+      ) : (
+        children
+      )}
       {description && (
         <p className={`${descriptionSizeClass} text-muted-foreground`}>
           {description}
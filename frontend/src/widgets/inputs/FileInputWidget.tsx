@@ -1,8 +1,9 @@
-import React, { useCallback, useState, useRef } from 'react';
+import React, { useCallback, useEffect, useState, useRef } from 'react';
 import { Input } from '@/components/ui/input';
 import { useEventHandler } from '@/components/event-handler';
-import { Upload, X } from 'lucide-react';
+import { RotateCcw, Upload, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
 import { cn } from '@/lib/utils';
 import { getWidth } from '@/lib/styles';
 import { InvalidIcon } from '@/components/InvalidIcon';
@@ -12,6 +13,15 @@ import {
   uploadIconVariants,
   textVariants,
 } from '@/components/ui/input/file-input-variants';
+import {
+  FileRejection,
+  UploadProgress,
+  UploadStatus,
+  UploadTask,
+  formatBytes,
+  uploadService,
+  validateFiles,
+} from '@/services/uploadService';
 
 interface FileInput {
   name: string;
@@ -21,6 +31,69 @@ interface FileInput {
   content?: string;
 }
 
+const SETTLED_STATUSES: UploadStatus[] = ['done', 'error', 'cancelled'];
+
+// Ivy FileInput only contains metadata; the content is handled by UploadService
+const toFileInput = (file: File): FileInput => ({
+  name: file.name,
+  size: file.size,
+  type: file.type,
+  lastModified: new Date(file.lastModified),
+});
+
+const UploadRow: React.FC<{
+  upload: UploadProgress;
+  onCancel: () => void;
+  onRetry: () => void;
+}> = ({ upload, onCancel, onRetry }) => {
+  const percent = upload.total > 0 ? (upload.loaded / upload.total) * 100 : 0;
+  const canRetry = upload.status === 'error' || upload.status === 'cancelled';
+
+  let detail = `${formatBytes(upload.loaded)} / ${formatBytes(upload.total)}`;
+  if (upload.status === 'uploading' && upload.speed > 0) {
+    detail += ` · ${formatBytes(upload.speed)}/s`;
+  } else if (upload.status === 'paused') {
+    detail += ' · Paused';
+  } else if (upload.status === 'cancelled') {
+    detail = 'Cancelled';
+  } else if (upload.status === 'error') {
+    detail = upload.error ?? 'Upload failed';
+  }
+
+  return (
+    <li className="flex items-center gap-2">
+      <div className="min-w-0 flex-1 space-y-1">
+        <div className="flex justify-between gap-2 text-xs">
+          <span className="truncate">{upload.file.name}</span>
+          <span
+            className={cn(
+              'shrink-0 text-muted-foreground',
+              upload.status === 'error' && 'text-destructive'
+            )}
+          >
+            {detail}
+          </span>
+        </div>
+        <Progress value={percent} className="h-1" />
+      </div>
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6 shrink-0"
+        aria-label={canRetry ? 'Retry upload' : 'Cancel upload'}
+        onClick={canRetry ? onRetry : onCancel}
+      >
+        {canRetry ? (
+          <RotateCcw className="h-3 w-3" />
+        ) : (
+          <X className="h-3 w-3" />
+        )}
+      </Button>
+    </li>
+  );
+};
+
 interface FileInputWidgetProps {
   id: string;
   value?: FileInput | FileInput[] | null;
@@ -31,6 +104,7 @@ interface FileInputWidgetProps {
   accept?: string;
   multiple?: boolean;
   maxFiles?: number;
+  maxFileSize?: number;
   placeholder?: string;
   uploadUrl?: string;
   size?: Sizes;
@@ -45,6 +119,7 @@ export const FileInputWidget: React.FC<FileInputWidgetProps> = ({
   accept,
   multiple = false,
   maxFiles,
+  maxFileSize,
   placeholder,
   uploadUrl,
   size = Sizes.Medium,
@@ -53,91 +128,107 @@ export const FileInputWidget: React.FC<FileInputWidgetProps> = ({
   const [isDragging, setIsDragging] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
 
-  const uploadFile = useCallback(
-    async (file: File): Promise<void> => {
-      if (!uploadUrl) return;
-
-      // Get the correct host from meta tag or use relative URL
-      const getUploadUrl = () => {
-        const ivyHostMeta = document.querySelector('meta[name="ivy-host"]');
-        if (ivyHostMeta) {
-          const host = ivyHostMeta.getAttribute('content');
-          return host + uploadUrl;
-        }
-        // If no meta tag, use relative URL (should work in production)
-        return uploadUrl;
-      };
-
-      const formData = new FormData();
-      formData.append('file', file);
-
-      try {
-        const response = await fetch(getUploadUrl(), {
-          method: 'POST',
-          body: formData,
-        });
-
-        if (!response.ok) {
-          throw new Error(`Upload failed: ${response.statusText}`);
-        }
-      } catch (error) {
-        console.error('File upload error:', error);
-      }
+  const [uploads, setUploads] = useState<UploadProgress[]>([]);
+  const [rejections, setRejections] = useState<FileRejection[]>([]);
+  const tasksRef = useRef(new Map<string, UploadTask>());
+  const progressRef = useRef(new Map<string, UploadProgress>());
+
+  const emitFiles = useCallback(
+    (files: File[]) => {
+      const selectedFiles = files.map(toFileInput);
+      handleEvent('OnChange', id, [
+        multiple ? selectedFiles : (selectedFiles[0] ?? null),
+      ]);
     },
-    [uploadUrl]
+    [id, multiple, handleEvent]
   );
 
-  const convertFileToUploadFile = useCallback(
-    async (file: File): Promise<FileInput> => {
-      if (!file) {
-        throw new Error('File is required');
-      }
+  const handleProgress = useCallback(
+    (progress: UploadProgress) => {
+      // Ignore uploads of a previous selection
+      if (!tasksRef.current.has(progress.id)) return;
 
-      if (uploadUrl) {
-        await uploadFile(file);
-      }
+      progressRef.current.set(progress.id, progress);
+      setUploads(Array.from(progressRef.current.values()));
 
-      // Ivy FileInput should only contain metadata, not file content
-      return {
-        name: file.name,
-        size: file.size,
-        type: file.type,
-        lastModified: new Date(file.lastModified),
-        // Don't include content - it's handled by UploadService
-      };
+      // The server is told about the selection once every upload has settled
+      const all = Array.from(progressRef.current.values());
+      if (all.some(p => !SETTLED_STATUSES.includes(p.status))) return;
+      emitFiles(all.filter(p => p.status === 'done').map(p => p.file));
     },
-    [uploadFile, uploadUrl]
+    [emitFiles]
   );
 
-  const handleChange = useCallback(
-    async (e: React.ChangeEvent<HTMLInputElement>) => {
-      const files = e.target.files;
-      if (!files) return;
+  const cancelUploads = useCallback(() => {
+    const tasks = Array.from(tasksRef.current.values());
+    tasksRef.current.clear();
+    progressRef.current.clear();
+    tasks.forEach(task => task.cancel());
+    setUploads([]);
+  }, []);
+
+  // Running uploads are abandoned when the widget goes away
+  useEffect(() => cancelUploads, [cancelUploads]);
+
+  // The upload URL changes with the session after a reconnect
+  useEffect(() => {
+    if (!uploadUrl) return;
+    tasksRef.current.forEach(task => void task.moveTo(uploadUrl));
+  }, [uploadUrl]);
+
+  const selectFiles = useCallback(
+    (files: File[]) => {
+      const { accepted, rejected } = validateFiles(files, {
+        accept,
+        maxFiles: multiple ? maxFiles : 1,
+        maxFileSize,
+      });
+      setRejections(rejected);
+      if (accepted.length === 0) return;
 
-      // Check max files limit
-      if (maxFiles && files.length > maxFiles) {
-        // Only take the first maxFiles files
-        const limitedFiles = Array.from(files).slice(0, maxFiles);
-        const selectedFiles = multiple
-          ? await Promise.all(limitedFiles.map(convertFileToUploadFile))
-          : await convertFileToUploadFile(limitedFiles[0]);
+      cancelUploads();
 
-        handleEvent('OnChange', id, [selectedFiles]);
+      if (!uploadUrl) {
+        emitFiles(accepted);
         return;
       }
 
-      const selectedFiles = multiple
-        ? await Promise.all(Array.from(files).map(convertFileToUploadFile))
-        : await convertFileToUploadFile(files[0]);
+      for (const file of accepted) {
+        const task = uploadService.upload(uploadUrl, file, handleProgress);
+        tasksRef.current.set(task.id, task);
+        progressRef.current.set(task.id, task.getProgress());
+      }
+      setUploads(Array.from(progressRef.current.values()));
+    },
+    [
+      accept,
+      multiple,
+      maxFiles,
+      maxFileSize,
+      uploadUrl,
+      cancelUploads,
+      emitFiles,
+      handleProgress,
+    ]
+  );
 
-      handleEvent('OnChange', id, [selectedFiles]);
+  const handleChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files = e.target.files;
+      if (!files) return;
+
+      selectFiles(Array.from(files));
+      // Allow the same file to be selected again after a cancel
+      e.target.value = '';
     },
-    [id, multiple, handleEvent, convertFileToUploadFile, maxFiles]
+    [selectFiles]
   );
 
   const handleClear = useCallback(() => {
+    cancelUploads();
+    setRejections([]);
     handleEvent('OnChange', id, [null]);
-  }, [id, handleEvent]);
+  }, [id, handleEvent, cancelUploads]);
 
   const handleDragEnter = useCallback(
     (e: React.DragEvent) => {
@@ -162,7 +253,7 @@ export const FileInputWidget: React.FC<FileInputWidgetProps> = ({
   }, []);
 
   const handleDrop = useCallback(
-    async (e: React.DragEvent) => {
+    (e: React.DragEvent) => {
       e.preventDefault();
       e.stopPropagation();
       setIsDragging(false);
@@ -172,25 +263,9 @@ export const FileInputWidget: React.FC<FileInputWidgetProps> = ({
       const files = Array.from(e.dataTransfer.files);
       if (files.length === 0) return;
 
-      // Check max files limit
-      if (maxFiles && files.length > maxFiles) {
-        // Only take the first maxFiles files
-        const limitedFiles = files.slice(0, maxFiles);
-        const selectedFiles = multiple
-          ? await Promise.all(limitedFiles.map(convertFileToUploadFile))
-          : await convertFileToUploadFile(limitedFiles[0]);
-
-        handleEvent('OnChange', id, [selectedFiles]);
-        return;
-      }
-
-      const selectedFiles = multiple
-        ? await Promise.all(files.map(convertFileToUploadFile))
-        : await convertFileToUploadFile(files[0]);
-
-      handleEvent('OnChange', id, [selectedFiles]);
+      selectFiles(files);
     },
-    [id, multiple, handleEvent, disabled, convertFileToUploadFile, maxFiles]
+    [disabled, selectFiles]
   );
 
   const handleClick = useCallback(() => {
@@ -263,6 +338,25 @@ export const FileInputWidget: React.FC<FileInputWidgetProps> = ({
           </Button>
         )}
       </div>
+      {(uploads.some(u => u.status !== 'done') || rejections.length > 0) && (
+        <ul className="mt-2 space-y-2">
+          {uploads
+            .filter(upload => upload.status !== 'done')
+            .map(upload => (
+              <UploadRow
+                key={upload.id}
+                upload={upload}
+                onCancel={() => tasksRef.current.get(upload.id)?.cancel()}
+                onRetry={() => void tasksRef.current.get(upload.id)?.retry()}
+              />
+            ))}
+          {rejections.map(({ file, reason }, index) => (
+            <li key={index} className="text-xs text-destructive">
+              {file.name}: {reason}
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 };
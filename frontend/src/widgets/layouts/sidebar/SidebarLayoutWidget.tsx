@@ -19,6 +19,7 @@ import { useFocusable } from '@/hooks/use-focus-management';
 import { sidebarMenuRef } from './sidebar-refs';
 import { useEventHandler } from '@/components/event-handler';
 import { cn } from '@/lib/utils';
+import { unsavedChangesService } from '@/services/unsavedChangesService';
 
 interface SidebarLayoutWidgetProps {
   slots?: {
@@ -398,8 +399,22 @@ export const SidebarMenuWidget: React.FC<SidebarMenuWidgetProps> = ({
   items,
   searchActive = false,
 }) => {
-  const eventHandler = useEventHandler();
+  const backendEventHandler = useEventHandler();
   const [selectedIndex, setSelectedIndex] = useState(0);
+
+  // Navigating away discards forms with unsaved changes
+  const eventHandler = useCallback<WidgetEventHandlerType>(
+    async (eventName, widgetId, args) => {
+      if (
+        eventName === 'OnSelect' &&
+        !(await unsavedChangesService.confirmDiscard())
+      ) {
+        return false;
+      }
+      return backendEventHandler(eventName, widgetId, args);
+    },
+    [backendEventHandler]
+  );
   const prevSearchActiveRef = React.useRef(searchActive);
   // Register only the sidebar menu container with useFocusable
   const { ref: focusRef } = useFocusable('sidebar-navigation', 1);
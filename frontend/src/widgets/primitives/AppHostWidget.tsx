@@ -43,7 +43,7 @@ export const AppHostWidget: React.FC<AppHostWidgetProps> = ({
   return (
     <div ref={containerRef} className="w-full h-full p-4 overflow-y-auto">
       <ErrorBoundary>
-        <EventHandlerProvider eventHandler={eventHandler}>
+        <EventHandlerProvider eventHandler={eventHandler} root>
           <>{renderWidgetTree(widgetTree || loadingState())}</>
         </EventHandlerProvider>
       </ErrorBoundary>
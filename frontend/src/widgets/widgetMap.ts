@@ -214,6 +214,18 @@ export const widgetMap = {
   'Ivy.PieChart': React.lazy(() => import('@/widgets/charts/PieChartWidget')),
   'Ivy.AreaChart': React.lazy(() => import('@/widgets/charts/AreaChartWidget')),
   'Ivy.BarChart': React.lazy(() => import('@/widgets/charts/BarChartWidget')),
+  'Ivy.ScatterChart': React.lazy(
+    () => import('@/widgets/charts/ScatterChartWidget')
+  ),
+  'Ivy.HeatmapChart': React.lazy(
+    () => import('@/widgets/charts/HeatmapChartWidget')
+  ),
+  'Ivy.CandlestickChart': React.lazy(
+    () => import('@/widgets/charts/CandlestickChartWidget')
+  ),
+  'Ivy.ComboChart': React.lazy(
+    () => import('@/widgets/charts/ComboChartWidget')
+  ),
 
   // Effects
   'Ivy.Confetti': React.lazy(() => import('@/widgets/effects/ConfettiWidget')),
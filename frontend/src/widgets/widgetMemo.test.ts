@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { WidgetNode } from '@/types/widgets';
+import { WidgetElementCache, getWidgetHash } from './widgetMemo';
+
+const createNode = (
+  id: string,
+  props: Record<string, unknown> = {},
+  children?: WidgetNode[]
+): WidgetNode => ({ type: 'Ivy.StackLayout', id, props, events: [], children });
+
+describe('widgetMemo', () => {
+  describe('getWidgetHash', () => {
+    it('should be equal for structurally equal widgets', () => {
+      const a = createNode('root', { gap: 4 }, [createNode('text', { v: 1 })]);
+      const b = createNode('root', { gap: 4 }, [createNode('text', { v: 1 })]);
+
+      expect(getWidgetHash(a)).toBe(getWidgetHash(b));
+    });
+
+    it('should change when a descendant changes', () => {
+      const a = createNode('root', {}, [createNode('text', { v: 1 })]);
+      const b = createNode('root', {}, [createNode('text', { v: 2 })]);
+
+      expect(getWidgetHash(a)).not.toBe(getWidgetHash(b));
+    });
+
+    it('should distinguish events and widget types', () => {
+      const node = createNode('button');
+
+      expect(getWidgetHash(node)).not.toBe(
+        getWidgetHash({ ...node, events: ['OnClick'] })
+      );
+      expect(getWidgetHash(node)).not.toBe(
+        getWidgetHash({ ...node, type: 'Ivy.Button' })
+      );
+    });
+  });
+
+  describe('WidgetElementCache', () => {
+    it('should return the element of an identical widget by id', () => {
+      const cache = new WidgetElementCache();
+      const element = 'root element';
+      cache.set(createNode('root', { gap: 4 }), element);
+
+      expect(cache.get(createNode('root', { gap: 4 }))).toBe(element);
+      expect(cache.get(createNode('root', { gap: 8 }))).toBeUndefined();
+      expect(cache.get(createNode('other', { gap: 4 }))).toBeUndefined();
+    });
+
+    it('should start over when full', () => {
+      const cache = new WidgetElementCache(2);
+      cache.set(createNode('a'), 'a');
+      cache.set(createNode('b'), 'b');
+      cache.set(createNode('b'), 'b2');
+      expect(cache.size).toBe(2);
+
+      cache.set(createNode('c'), 'c');
+
+      expect(cache.size).toBe(1);
+      expect(cache.get(createNode('c'))).toBe('c');
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import React from 'react';
+import { WidgetNode } from '@/types/widgets';
+
+export const MAX_CACHED_ELEMENTS = 10000;
+
+const hashes = new WeakMap<WidgetNode, string>();
+
+/**
+ * 53 bit string hash (cyrb53), used as a cache key and not for security
+ */
+export function hashString(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/**
+ * Structural hash of a widget and everything below it. It is cached per node
+ * object, so subtrees that an update left untouched are not hashed again.
+ */
+export function getWidgetHash(node: WidgetNode): string {
+  let hash = hashes.get(node);
+  if (hash === undefined) {
+    const children = (node.children ?? []).map(getWidgetHash).join(',');
+    hash = hashString(
+      `${node.type}|${node.id}|${JSON.stringify(node.props)}|${(node.events ?? []).join(',')}|${children}`
+    );
+    hashes.set(node, hash);
+  }
+  return hash;
+}
+
+/**
+ * React elements of rendered widgets by widget id. Handing React the same
+ * element again makes it skip rendering that subtree.
+ */
+export class WidgetElementCache {
+  private readonly entries = new Map<
+    string,
+    { hash: string; element: React.ReactNode }
+  >();
+
+  constructor(private readonly maxSize = MAX_CACHED_ELEMENTS) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * The element rendered for an identical widget, or undefined
+   */
+  get(node: WidgetNode): React.ReactNode | undefined {
+    const entry = this.entries.get(node.id);
+    return entry && entry.hash === getWidgetHash(node)
+      ? entry.element
+      : undefined;
+  }
+
+  set(node: WidgetNode, element: React.ReactNode): void {
+    // Removed widgets are never looked up again, start over instead of tracking them
+    if (this.entries.size >= this.maxSize && !this.entries.has(node.id)) {
+      this.entries.clear();
+    }
+    this.entries.set(node.id, { hash: getWidgetHash(node), element });
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}